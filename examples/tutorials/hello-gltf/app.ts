@@ -32,7 +32,7 @@ export default class AppAnimationLoopTemplate extends AnimationLoopTemplate {
   }
 
   onFinalize() {
-    this.scenes[0].traverse(node => (node as ModelNode).model.destroy());
+    this.scenes[0].traverse(node => (node as ModelNode).model?.destroy());
   }
 
   onRender({aspect, device, time}: AnimationProps): void {
@@ -46,6 +46,8 @@ export default class AppAnimationLoopTemplate extends AnimationLoopTemplate {
 
     this.scenes[0].traverse((node, {worldMatrix}) => {
       const {model} = (node as ModelNode);
+      // Camera nodes have no model
+      if (!model) return;
 
       const eye = worldMatrix.transformAsPoint(vantage);
       const center = worldMatrix.transformAsPoint(this.center);
@@ -81,6 +83,7 @@ export default class AppAnimationLoopTemplate extends AnimationLoopTemplate {
     let max = [0, 0, 0];
     this.scenes[0].traverse(node => {
       const {bounds} = (node as ModelNode);
+      if (!bounds) return;
       min = min.map((n, i) => Math.min(n, bounds[0][i], bounds[1][i]));
       max = max.map((n, i) => Math.max(n, bounds[0][i], bounds[1][i]));
     });
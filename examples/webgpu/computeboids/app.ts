@@ -5,9 +5,10 @@
 
 import updateSprites from './update-sprites.wgsl?raw';
 import sprites from './sprites.wgsl?raw';
-import {Buffer} from '@luma.gl/core';
+import {Buffer, StorageBufferLayout} from '@luma.gl/core';
 // import { RenderPipelineParameters} from '@luma.gl/core';
-import {Model, WebGPUDevice} from '@luma.gl/webgpu';
+import {WebGPUDevice} from '@luma.gl/webgpu';
+import {Model, Computation} from '@luma.gl/engine';
 // import {Matrix4} from '@math.gl/core';
 
 export const name = 'Compute Boids';
@@ -27,6 +28,11 @@ const SHADERS = {
 
 const NUM_PARTICLES = 150;
 
+/** Matches the `Particles` storage buffer struct in the compute shader */
+const particlesLayout = new StorageBufferLayout({
+  particles: [{pos: 'vec2<f32>', vel: 'vec2<f32>'}]
+});
+
 export async function init(canvas: HTMLCanvasElement, language: 'glsl' | 'wgsl') {
   const device = await WebGPUDevice.create({canvas});
 
@@ -74,8 +80,11 @@ export async function init(canvas: HTMLCanvasElement, language: 'glsl' | 'wgsl')
     instanceCount: NUM_PARTICLES
   });
 
-  const cs = device.createShader({id: 'sprites', stage: 'compute', source: SHADERS.wgsl.updateSprites});
-  const computePipeline = device.createComputePipeline({id: 'updateSprites', cs, csEntryPoint: 'main'});
+  const computation = new Computation(device, {
+    id: 'updateSprites',
+    source: SHADERS.wgsl.updateSprites,
+    csEntryPoint: 'main'
+  });
 
   const vertexBufferData = new Float32Array([-0.01, -0.02, 0.01, -0.02, 0.0, 0.02]);
   const spriteVertexBuffer = device.createBuffer({id: 'boid-geometry', data: vertexBufferData});
@@ -115,13 +124,12 @@ export async function init(canvas: HTMLCanvasElement, language: 'glsl' | 'wgsl')
   //   gui.add(simParams, k).onFinishChange(updateSimParams);
   // });
 
-  const initialParticleData = new Float32Array(NUM_PARTICLES * 4);
-  for (let i = 0; i < NUM_PARTICLES; ++i) {
-    initialParticleData[4 * i + 0] = 2 * (Math.random() - 0.5);
-    initialParticleData[4 * i + 1] = 2 * (Math.random() - 0.5);
-    initialParticleData[4 * i + 2] = 2 * (Math.random() - 0.5) * 0.1;
-    initialParticleData[4 * i + 3] = 2 * (Math.random() - 0.5) * 0.1;
-  }
+  const initialParticleData = particlesLayout.encode({
+    particles: Array.from({length: NUM_PARTICLES}, () => ({
+      pos: [2 * (Math.random() - 0.5), 2 * (Math.random() - 0.5)],
+      vel: [2 * (Math.random() - 0.5) * 0.1, 2 * (Math.random() - 0.5) * 0.1]
+    }))
+  });
 
   const particleBuffers = [
     device.createBuffer({id: 'particles1', data: initialParticleData, usage: Buffer.VERTEX | Buffer.STORAGE | Buffer.COPY_SRC}),
@@ -129,25 +137,24 @@ export async function init(canvas: HTMLCanvasElement, language: 'glsl' | 'wgsl')
   ];
 
   const particleBindings = [
-    [simParamBuffer, particleBuffers[0], particleBuffers[1]],
-    [simParamBuffer, particleBuffers[1], particleBuffers[0]]
+    {params: simParamBuffer, particlesA: particleBuffers[0], particlesB: particleBuffers[1]},
+    {params: simParamBuffer, particlesA: particleBuffers[1], particlesB: particleBuffers[0]}
   ];
 
-  const arrayBuffer = await particleBuffers[0].readAsync();
-  console.log(new Float32Array(arrayBuffer));
+  const initialParticles = particlesLayout.decode(await particleBuffers[0].readAsync());
+  console.log(initialParticles.particles);
 
   let t = 0;
   async function frame() {
     const computePass = device.beginComputePass();
-    computePass.setPipeline(computePipeline);
-    computePass.setBindings(particleBindings[t % 2]);
-    computePass.dispatch(Math.ceil(NUM_PARTICLES / 64));
-    computePass.endPass();
+    computation.setBindings(particleBindings[t % 2]);
+    computation.dispatch(computePass, Math.ceil(NUM_PARTICLES / 64));
+    computePass.end();
 
     await new Promise(resolve => setTimeout(resolve, 1000));
 
-    const arrayBuffer = await particleBuffers[0].readAsync();
-    console.log(new Float32Array(arrayBuffer));
+    const {particles} = particlesLayout.decode(await particleBuffers[0].readAsync());
+    console.log(particles);
 
 
     const renderPass = device.beginRenderPass({clearColor: [0, 0, 0, 1]});
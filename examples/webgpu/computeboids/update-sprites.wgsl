@@ -12,15 +12,15 @@ struct SimParams {
   rule3Scale : f32,
 };
 struct Particles {
-  particles : @stride(16) array<Particle>,
+  particles : array<Particle>,
 };
 
-@binding(0) group(0) var<uniform> params : SimParams;
-@binding(1) group(0) var<storage, read> particlesA : Particles;
-@binding(2) group(0) var<storage, read_write> particlesB : Particles;
+@binding(0) @group(0) var<uniform> params : SimParams;
+@binding(1) @group(0) var<storage, read> particlesA : Particles;
+@binding(2) @group(0) var<storage, read_write> particlesB : Particles;
 
 // https://github.com/austinEng/Project6-Vulkan-Flocking/blob/master/data/shaders/computeparticles/particle.comp
-@compute workgroup_size(64)
+@compute @workgroup_size(64)
 fn main(@builtin(global_invocation_id) GlobalInvocationID : vec3<u32>) {
   var index : u32 = GlobalInvocationID.x;
 
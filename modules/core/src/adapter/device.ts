@@ -4,6 +4,8 @@ import {StatsManager, lumaStats} from '../utils/stats-manager';
 import {log} from '../utils/log';
 import {uid} from '../utils/utils';
 import type {TextureFormat} from './types/texture-formats';
+import type {ResourceReport} from './resource-registry';
+import {ResourceRegistry} from './resource-registry';
 import type {CanvasContext, CanvasContextProps} from './canvas-context';
 import type {BufferProps} from './resources/buffer';
 import {Buffer} from './resources/buffer';
@@ -24,7 +26,7 @@ import type {TransformFeedback, TransformFeedbackProps} from './resources/transf
 export type DeviceProps = {
   id?: string;
 
-  type?: 'webgl' | 'webgl1' | 'webgl2' | 'webgpu' | 'best-available';
+  type?: 'webgl' | 'webgl1' | 'webgl2' | 'webgpu' | 'null' | 'best-available';
 
   // Common parameters
   canvas?: HTMLCanvasElement | OffscreenCanvas | string | null; // A canvas element or a canvas string id
@@ -49,6 +51,8 @@ export type DeviceProps = {
   debug?: boolean; // Instrument context (at the expense of performance)
   manageState?: boolean; // Set to false to disable WebGL state management instrumentation
   break?: string[]; // TODO: types
+  /** Record live resources with their creation stack traces, for `Device.getResourceReport()`. Slows down resource creation */
+  trackResources?: boolean;
 
   // @deprecated Attach to existing context
   gl?: WebGLRenderingContext | WebGL2RenderingContext | null;
@@ -62,7 +66,7 @@ export type DeviceProps = {
  */
 export type DeviceInfo = {
   /** Type of device */
-  type: 'webgl' | 'webgl2' | 'webgpu';
+  type: 'webgl' | 'webgl2' | 'webgpu' | 'null';
   /** Vendor (name of GPU vendor, Apple, nVidia etc */
   vendor: string;
   /** Renderer (usually driver name) */
@@ -206,6 +210,7 @@ export abstract class Device {
     height: 600,
     debug: Boolean(log.get('debug')), // Instrument context (at the expense of performance)
     break: [],
+    trackResources: false,
   
     // alpha: undefined,
     // depth: undefined,
@@ -228,6 +233,7 @@ export abstract class Device {
   constructor(props: DeviceProps) {
     this.props = {...Device.defaultProps, ...props};
     this.id = this.props.id || uid(this[Symbol.toStringTag].toLowerCase());
+    this.resourceRegistry = this.props.trackResources ? new ResourceRegistry() : null;
   }
 
   /** id of this device, primarily for debugging */
@@ -240,6 +246,8 @@ export abstract class Device {
   userData: {[key: string]: unknown} = {};
   /** Used by other luma.gl modules to store data on the device */
   _lumaData: {[key: string]: unknown} = {};
+  /** Live resources of the device, only if created with `props.trackResources` */
+  readonly resourceRegistry: ResourceRegistry | null;
 
   abstract destroy(): void;
 
@@ -299,6 +307,19 @@ export abstract class Device {
   /** Call after rendering a frame (necessary e.g. on WebGL OffscreenCanvas) */
   abstract submit(): void;
 
+  // Resource tracking
+
+  /**
+   * Lists the live resources of the device, to find resource leaks.
+   * @note Requires the device to be created with `props.trackResources`
+   */
+  getResourceReport(): ResourceReport {
+    if (!this.resourceRegistry) {
+      throw new Error('Device created without trackResources');
+    }
+    return this.resourceRegistry.getReport();
+  }
+
   // Resource creation
 
   /** Create a buffer */
@@ -0,0 +1,142 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {Resource} from './resources/resource';
+
+/** An object that creates resources, e.g. a `Model` or a parent `Resource` */
+export type ResourceOwner = {
+  id: string;
+  destroyed?: boolean;
+  [Symbol.toStringTag]?: string;
+};
+
+/** A live resource in a resource report */
+export type ResourceInfo = {
+  resource: Resource<unknown>;
+  id: string;
+  /** Resource class, e.g. `Buffer` */
+  type: string;
+  /** GPU memory allocated by the resource */
+  byteLength: number;
+  /** Stack trace of the creation of the resource */
+  creationStack: string;
+  /** Time of creation, in milliseconds since the registry was created */
+  creationTime: number;
+  /** Description of the owner, e.g. `Model(cube)`. null if the resource has no owner */
+  owner: string | null;
+  /** Whether the owner of the resource was destroyed, i.e. the resource has likely leaked */
+  ownerDestroyed: boolean;
+};
+
+/** Live resources of a device */
+export type ResourceReport = {
+  /** Number of live resources */
+  count: number;
+  /** GPU memory allocated by live resources */
+  byteLength: number;
+  /** Live resources grouped by type */
+  types: Record<string, {count: number; byteLength: number}>;
+  /** Live resources, oldest first */
+  resources: ResourceInfo[];
+  /** Live resources whose owner was destroyed */
+  leakedResources: ResourceInfo[];
+};
+
+/** Registry entry of a live resource */
+type ResourceEntry = {
+  byteLength: number;
+  creationStack: string;
+  creationTime: number;
+  owner: ResourceOwner | null;
+};
+
+/** Passes and command encoders only live for a frame and are ended rather than destroyed */
+const UNTRACKED_RESOURCE_TYPES = ['RenderPass', 'ComputePass', 'CommandEncoder'];
+
+/**
+ * Records the live resources of a device, to find resource leaks.
+ * Enabled with `DeviceProps.trackResources`.
+ * @note Capturing stack traces slows down resource creation, and the registry keeps leaked resources from being garbage collected
+ */
+export class ResourceRegistry {
+  private _resources = new Map<Resource<unknown>, ResourceEntry>();
+  private _startTime = Date.now();
+
+  /** Called when a resource is created */
+  add(resource: Resource<unknown>): void {
+    if (UNTRACKED_RESOURCE_TYPES.includes(resource[Symbol.toStringTag])) {
+      return;
+    }
+    this._resources.set(resource, {
+      byteLength: 0,
+      // Drop the "Error" line
+      creationStack: (new Error().stack || '').split('\n').slice(1).join('\n'),
+      creationTime: Date.now() - this._startTime,
+      owner: null
+    });
+  }
+
+  /** Called when a resource is destroyed */
+  remove(resource: Resource<unknown>): void {
+    this._resources.delete(resource);
+  }
+
+  /** Records the owner of a resource, reported when the owner is destroyed without destroying the resource */
+  setOwner(resource: Resource<unknown>, owner: ResourceOwner | null): void {
+    const entry = this._resources.get(resource);
+    if (entry) {
+      entry.owner = owner;
+    }
+  }
+
+  /** Called when a resource allocates or deallocates GPU memory */
+  setByteLength(resource: Resource<unknown>, byteLength: number): void {
+    const entry = this._resources.get(resource);
+    if (entry) {
+      entry.byteLength = byteLength;
+    }
+  }
+
+  /** Returns the live resources */
+  getReport(): ResourceReport {
+    const report: ResourceReport = {
+      count: 0,
+      byteLength: 0,
+      types: {},
+      resources: [],
+      leakedResources: []
+    };
+
+    for (const [resource, entry] of this._resources) {
+      const {owner} = entry;
+      const info: ResourceInfo = {
+        resource,
+        id: resource.id,
+        type: resource[Symbol.toStringTag],
+        byteLength: entry.byteLength,
+        creationStack: entry.creationStack,
+        creationTime: entry.creationTime,
+        owner: owner && getOwnerDescription(owner),
+        ownerDestroyed: Boolean(owner?.destroyed)
+      };
+
+      report.count++;
+      report.byteLength += info.byteLength;
+      const type = (report.types[info.type] = report.types[info.type] || {count: 0, byteLength: 0});
+      type.count++;
+      type.byteLength += info.byteLength;
+      report.resources.push(info);
+      if (info.ownerDestroyed) {
+        report.leakedResources.push(info);
+      }
+    }
+
+    return report;
+  }
+}
+
+/** Describes an owner as e.g. `Model(cube)`, or by its id if it has no type tag (class names do not survive minification) */
+function getOwnerDescription(owner: ResourceOwner): string {
+  const type = owner[Symbol.toStringTag];
+  return type ? `${type}(${owner.id})` : owner.id;
+}
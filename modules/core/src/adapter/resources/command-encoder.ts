@@ -3,6 +3,7 @@ import {Device} from '../device';
 import {Resource, ResourceProps} from './resource';
 import {Buffer} from './buffer';
 import {Texture} from './texture';
+import {RenderCommandList} from '../../lib/render-commands/render-command-list';
 
 export type WriteBufferOptions = {
   buffer: Buffer,
@@ -121,6 +122,8 @@ export type CopyTextureToTextureOptions = {
 
 export type CommandEncoderProps = ResourceProps & {
   measureExecutionTime?: boolean;
+  /** Record all copy commands issued on this encoder into `commandEncoder.commandList` */
+  recordCommands?: boolean;
 };
 
 /**
@@ -129,15 +132,20 @@ export type CommandEncoderProps = ResourceProps & {
 export abstract class CommandEncoder extends Resource<CommandEncoderProps> {
   static override defaultProps: Required<CommandEncoderProps> = {
     ...Resource.defaultProps,
-    measureExecutionTime: undefined
+    measureExecutionTime: undefined,
+    recordCommands: false
   };
   
   override get [Symbol.toStringTag](): string {
     return 'CommandEncoder';
   }
 
+  /** Commands issued on this encoder. Only recorded if `props.recordCommands` is set */
+  readonly commandList: RenderCommandList | null;
+
   constructor(device: Device, props: CommandEncoderProps) {
     super(device, props, CommandEncoder.defaultProps);
+    this.commandList = this.props.recordCommands ? new RenderCommandList() : null;
   }
   
   abstract finish(): void; // TODO - return the CommandBuffer?
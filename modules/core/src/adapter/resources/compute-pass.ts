@@ -1,6 +1,7 @@
 import {Resource, ResourceProps} from './resource';
 import {ComputePipeline} from './compute-pipeline';
 import {Buffer} from './buffer';
+import type {Binding} from '../types/shader-layout';
 import type {Device} from '../device';
 
 export type ComputePassProps = ResourceProps & {};
@@ -24,8 +25,11 @@ export abstract class ComputePass extends Resource<ComputePassProps> {
 
   abstract setPipeline(pipeline: ComputePipeline): void;
 
-  /** Sets an array of bindings (uniform buffers, samplers, textures, ...) */
-  // abstract setBindings(bindings: Binding[]): void;
+  /**
+   * Sets bindings (uniform and storage buffers, samplers, textures, ...) for the current ComputePipeline.
+   * @note Must be called after setPipeline(), bindings are resolved using the shader layout of the pipeline.
+   */
+  abstract setBindings(bindings: Record<string, Binding>): void;
 
   /**
    * Dispatch work to be performed with the current ComputePipeline.
@@ -1,6 +1,6 @@
 //
 import {Resource, ResourceProps} from './resource';
-import {BindingDeclaration} from '../types/shader-layout';
+import type {ShaderLayout} from '../types/shader-layout';
 import type {Device} from '../device';
 import type {Shader} from './shader';
 
@@ -9,10 +9,14 @@ import type {Shader} from './shader';
  */
 export type ComputePipelineProps = ResourceProps & {
   handle?: unknown;
+  /** Compiled compute shader */
   cs: Shader;
+  /** Compute shader entry point (defaults to 'main') */
   csEntryPoint?: string;
+  /** Constants to apply to compiled compute shader */
   csConstants?: Record<string, number>; // WGSL only
-  shaderLayout?: BindingDeclaration[];
+  /** Describes the bindings exposed by the compute shader */
+  shaderLayout?: ShaderLayout | null;
 };
 
 /**
@@ -24,16 +28,19 @@ export abstract class ComputePipeline extends Resource<ComputePipelineProps> {
     cs: undefined,
     csEntryPoint: undefined,
     csConstants: {},
-    shaderLayout: []
-  };  
+    shaderLayout: null
+  };
 
   override get [Symbol.toStringTag](): string {
     return 'ComputePipeline';
   }
 
   hash: string = '';
+  /** The bindings of the compute shader */
+  shaderLayout: ShaderLayout;
 
   constructor(device: Device, props: ComputePipelineProps) {
     super(device, props, ComputePipeline.defaultProps);
+    this.shaderLayout = this.props.shaderLayout;
   }
 }
@@ -8,6 +8,7 @@ import {Resource, ResourceProps} from './resource';
 // import {CommandEncoder} from './command-encoder';
 import {Framebuffer} from './framebuffer';
 import {NumberArray} from '../..';
+import {RenderCommandList} from '../../lib/render-commands/render-command-list';
 
 /**
  * Properties for a RenderPass instance is a required parameter to all draw calls.
@@ -29,6 +30,8 @@ export type RenderPassProps = ResourceProps & {
   stencilReadOnly?: boolean;
   /** Whether to disable / discard the output of the rasterizer */
   discard?: boolean; 
+  /** Record all commands issued on this pass into `renderPass.commandList` */
+  recordCommands?: boolean;
 };
 
 /**
@@ -51,15 +54,20 @@ export abstract class RenderPass extends Resource<RenderPassProps> {
     clearStencil: 0,
     depthReadOnly: false,
     stencilReadOnly: false,
-    discard: false
+    discard: false,
+    recordCommands: false
   };
 
   override get [Symbol.toStringTag](): string {
     return 'RenderPass';
   }
 
+  /** Commands issued on this pass. Only recorded if `props.recordCommands` is set */
+  readonly commandList: RenderCommandList | null;
+
   constructor(device: Device, props: RenderPassProps) {
     super(device, props, RenderPass.defaultProps);
+    this.commandList = this.props.recordCommands ? new RenderCommandList() : null;
   }
 
   /** Call when rendering is done in this pass. */
@@ -90,6 +90,7 @@ export abstract class Resource<Props extends ResourceProps> {
    */
   attachResource(resource: Resource<unknown>): void {
     this._attachedResources.add(resource);
+    this._device.resourceRegistry?.setOwner(resource, this);
   }
 
   /** 
@@ -97,6 +98,7 @@ export abstract class Resource<Props extends ResourceProps> {
    */
   detachResource(resource: Resource<unknown>): void {
     this._attachedResources.delete(resource);
+    this._device.resourceRegistry?.setOwner(resource, null);
   }
   
   /** 
@@ -110,7 +112,7 @@ export abstract class Resource<Props extends ResourceProps> {
 
   /** Destroy all owned resources. Make sure the resources are no longer needed before calling. */
   destroyAttachedResources(): void {
-    for (const resource of Object.values(this._attachedResources)) {
+    for (const resource of this._attachedResources) {
       resource.destroy();
     }
     // don't remove while we are iterating
@@ -131,6 +133,7 @@ export abstract class Resource<Props extends ResourceProps> {
     const stats = this._device.statsManager.getStats('Resource Counts');
     const name = this[Symbol.toStringTag];
     stats.get(`${name}s Active`).decrementCount();
+    this._device.resourceRegistry?.remove(this);
   }
 
   /** Called by subclass to track memory allocations */
@@ -139,6 +142,7 @@ export abstract class Resource<Props extends ResourceProps> {
     stats.get('GPU Memory').addCount(bytes);
     stats.get(`${name} Memory`).addCount(bytes);
     this.allocatedBytes = bytes;
+    this._device.resourceRegistry?.setByteLength(this, bytes);
   }
 
   /** Called by subclass to track memory deallocations */
@@ -147,6 +151,7 @@ export abstract class Resource<Props extends ResourceProps> {
     stats.get('GPU Memory').subtractCount(this.allocatedBytes);
     stats.get(`${name} Memory`).subtractCount(this.allocatedBytes);
     this.allocatedBytes = 0;
+    this._device.resourceRegistry?.setByteLength(this, 0);
   }
 
   /** Called by resource constructor to track object creation */
@@ -156,6 +161,7 @@ export abstract class Resource<Props extends ResourceProps> {
     stats.get('Resources Created').incrementCount();
     stats.get(`${name}s Created`).incrementCount();
     stats.get(`${name}s Active`).incrementCount();
+    this._device.resourceRegistry?.add(this);
   }
 }
 
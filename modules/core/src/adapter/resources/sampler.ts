@@ -28,8 +28,11 @@ export type SamplerProps = ResourceProps & {
   magFilter?: 'nearest' | 'linear';
   /** Minification: the area of the fragment in texture space is larger than a texel */
   minFilter?: 'nearest' | 'linear';
-  /** mipmapping: select between multiple mipmaps based on angle and size of the texture relative to the screen. */
-  mipmapFilter?: 'nearest' | 'linear';
+  /**
+   * mipmapping: select between multiple mipmaps based on angle and size of the texture relative to the screen.
+   * `'none'` only samples the base level, for textures without mipmaps.
+   */
+  mipmapFilter?: 'none' | 'nearest' | 'linear';
   /** Affects the mipmap image selection */
   lodMinClamp?: number;
   /** Affects the mipmap image selection */
@@ -93,6 +93,8 @@ export type UniformBufferBindingLayout = {
   type: 'uniform';
   name: string;
   location: number;
+  /** WebGPU bind group. Defaults to 0 */
+  group?: number;
   visibility?: number;
   hasDynamicOffset?: boolean;
   minBindingSize?: number;
@@ -112,6 +114,8 @@ export type BufferBindingLayout = {
   type: 'uniform' | 'storage' | 'read-only-storage';
   name: string;
   location: number;
+  /** WebGPU bind group. Defaults to 0 */
+  group?: number;
   visibility?: number;
   hasDynamicOffset?: boolean;
   minBindingSize?: number;
@@ -121,6 +125,8 @@ type TextureBindingLayout = {
   type: 'texture';
   name: string;
   location: number;
+  /** WebGPU bind group. Defaults to 0 */
+  group?: number;
   visibility?: number;
   viewDimension?: '1d' | '2d' | '2d-array' | 'cube' | 'cube-array' | '3d'; // default: '2d'
   sampleType?: 'float' | 'unfilterable-float' | 'depth' | 'sint' | 'uint'; // default: 'float'
@@ -131,6 +137,8 @@ type SamplerBindingLayout = {
   type: 'sampler';
   name: string;
   location: number;
+  /** WebGPU bind group. Defaults to 0 */
+  group?: number;
   visibility?: number;
   samplerType?: 'filtering' | 'non-filtering' | 'comparison'; // default: filtering
 };
@@ -139,8 +147,10 @@ type StorageTextureBindingLayout = {
   type: 'storage';
   name: string;
   location: number;
+  /** WebGPU bind group. Defaults to 0 */
+  group?: number;
   visibility?: number;
-  access?: 'write-only';
+  access?: 'write-only' | 'read-only' | 'read-write'; // default: 'write-only'
   format: TextureFormat;
   viewDimension?: '1d' | '2d' | '2d-array' | 'cube' | 'cube-array' | '3d';
 };
@@ -60,6 +60,21 @@ export type ShaderUniformType =
   | 'mat4x3<f32>'
   | 'mat4x4<f32>';
 
+/**
+ * A fixed size array of uniforms, e.g. `['vec3<f32>', 4]` for `vec3 values[4]`.
+ * Elements can be primitive types, arrays or structs.
+ */
+export type ArrayShaderType = readonly [type: CompositeShaderType, length: number];
+
+/** A struct of uniforms, e.g. `{color: 'vec3<f32>', intensity: 'f32'}`. Member order is significant. */
+export type StructShaderType = {[member: string]: CompositeShaderType};
+
+/** Describes the type of a uniform buffer member: a primitive type, or an array or struct of uniforms */
+export type CompositeShaderType = ShaderUniformType | ArrayShaderType | StructShaderType;
+
+/** A runtime-sized array, e.g. `[{pos: 'vec2<f32>', vel: 'vec2<f32>'}]`. Only valid as the last member of a storage buffer */
+export type RuntimeArrayShaderType = readonly [type: CompositeShaderType];
+
 /** Shorthand type aliases recognized by WGSL */
 export type ShaderTypeAlias =
   | 'vec2i'
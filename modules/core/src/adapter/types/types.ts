@@ -9,6 +9,12 @@ import type {Texture} from '../resources/texture'; // TextureView...
 /** Valid values for uniforms. @note boolean values get converted to 0 or 1 before setting */
 export type UniformValue = number | boolean | Readonly<NumberArray>; // Float32Array> | Readonly<Int32Array> | Readonly<Uint32Array> | Readonly<number[]>;
 
+/** Values for uniform buffer members of array and struct types, e.g. `{lights: [{color: [1, 0, 0]}]}` */
+export type CompositeUniformValue =
+  | UniformValue
+  | readonly CompositeUniformValue[]
+  | {readonly [member: string]: CompositeUniformValue};
+
 // BINDINGS
 
 /** Buffer bindings */
@@ -18,6 +18,12 @@ export type {DeviceProps, DeviceLimits, DeviceInfo, DeviceFeature} from './adapt
 export {Device} from './adapter/device';
 export type {CanvasContextProps} from './adapter/canvas-context';
 export {CanvasContext} from './adapter/canvas-context';
+export type {
+  ResourceOwner,
+  ResourceInfo,
+  ResourceReport
+} from './adapter/resource-registry';
+export {ResourceRegistry} from './adapter/resource-registry';
 
 // GPU RESOURCES
 export type {ResourceProps} from './adapter/resources/resource';
@@ -85,7 +91,11 @@ export type {
 export type {
   ShaderDataType,
   ShaderAttributeType,
-  ShaderUniformType
+  ShaderUniformType,
+  ArrayShaderType,
+  StructShaderType,
+  CompositeShaderType,
+  RuntimeArrayShaderType
 } from './adapter/types/shader-types';
 
 export type {ColorAttachment, DepthStencilAttachment} from './adapter/types/types';
@@ -105,10 +115,23 @@ export type {
   VaryingBinding
 } from './adapter/types/shader-layout';
 
-export type {UniformValue} from './adapter/types/types';
+export type {UniformValue, CompositeUniformValue} from './adapter/types/types';
+export type {UniformBufferLayoutProps} from './lib/uniforms/uniform-buffer-layout';
 export {UniformBufferLayout} from './lib/uniforms/uniform-buffer-layout';
 export {UniformBlock} from './lib/uniforms/uniform-block';
 export {UniformStore} from './lib/uniforms/uniform-store';
+export {StorageBufferLayout} from './lib/uniforms/storage-buffer-layout';
+
+export type {
+  RenderCommand,
+  RenderCommandBinding,
+  RenderCommandConstant,
+  RenderCommandResource,
+  RenderCommandCopy,
+  RenderCommandDrawOptions,
+  RenderCommandReplayOptions
+} from './lib/render-commands/render-command-list';
+export {RenderCommandList} from './lib/render-commands/render-command-list';
 
 // TYPE UTILS
 export {decodeVertexFormat} from './adapter/type-utils/decode-vertex-format';
@@ -68,6 +68,12 @@ export class luma {
           return await DeviceClass.create(props);
         }
         break;
+      case 'null':
+        DeviceClass = deviceList.get('null');
+        if (DeviceClass) {
+          return await DeviceClass.create(props);
+        }
+        break;
       case 'best-available':
         DeviceClass = deviceList.get('webgpu');
         if (DeviceClass && DeviceClass.isSupported()) {
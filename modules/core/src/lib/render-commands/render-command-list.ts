@@ -0,0 +1,414 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {TypedArray} from '../../types';
+import type {UniformValue} from '../../adapter/types/types';
+import type {DataType} from '../../adapter/types/vertex-formats';
+import type {Binding} from '../../adapter/types/shader-layout';
+import type {RenderPassParameters} from '../../adapter/types/parameters';
+import type {Buffer} from '../../adapter/resources/buffer';
+import type {Texture} from '../../adapter/resources/texture';
+import type {Sampler} from '../../adapter/resources/sampler';
+import type {RenderPass} from '../../adapter/resources/render-pass';
+import type {RenderPipeline} from '../../adapter/resources/render-pipeline';
+import type {VertexArray} from '../../adapter/resources/vertex-array';
+import type {
+  CommandEncoder,
+  CopyBufferToBufferOptions,
+  CopyBufferToTextureOptions,
+  CopyTextureToBufferOptions,
+  CopyTextureToTextureOptions
+} from '../../adapter/resources/command-encoder';
+import {
+  getDataTypeFromTypedArray,
+  getTypedArrayFromDataType
+} from '../../adapter/type-utils/vertex-format-from-attribute';
+import {isNumberArray} from '../../utils/is-array';
+
+/** A binding, with resources referenced by id */
+export type RenderCommandBinding = string | {buffer: string; offset?: number; size?: number};
+
+/** Resources that can be referenced by render commands */
+export type RenderCommandResource = RenderPipeline | VertexArray | Buffer | Texture | Sampler;
+
+/** A constant attribute, with the data type of its typed array, e.g. `{type: 'sint32', value: [1, 2]}` */
+export type RenderCommandConstant = {type: Exclude<DataType, 'float16'>; value: number[]};
+
+/** Copy commands recorded on a `CommandEncoder` */
+export type RenderCommandCopy =
+  | 'copy-buffer-to-buffer'
+  | 'copy-buffer-to-texture'
+  | 'copy-texture-to-buffer'
+  | 'copy-texture-to-texture';
+
+/**
+ * A serializable render command.
+ * Resources are referenced by their `id`, all other values are plain JSON data.
+ */
+export type RenderCommand =
+  | {command: 'set-pipeline'; pipeline: string}
+  | {command: 'set-bindings'; bindings: Record<string, RenderCommandBinding>}
+  | {command: 'set-uniforms'; uniforms: Record<string, number | number[]>}
+  | {
+      command: 'set-vertex-array';
+      /** null if the pipeline draws without a vertex array */
+      vertexArray: string | null;
+      indexBuffer: string | null;
+      /** Buffer id or constant value, by attribute location */
+      attributes: Record<number, string | RenderCommandConstant>;
+    }
+  | {
+      command: 'draw';
+      vertexCount?: number;
+      indexCount?: number;
+      instanceCount?: number;
+      firstVertex?: number;
+      firstIndex?: number;
+      firstInstance?: number;
+      baseVertex?: number;
+    }
+  | {command: 'set-parameters'; parameters: RenderPassParameters}
+  | {command: 'push-debug-group'; label: string}
+  | {command: 'pop-debug-group'}
+  | {command: 'insert-debug-marker'; label: string}
+  | {
+      command: RenderCommandCopy;
+      /** Source and destination resource ids */
+      source: string;
+      destination: string;
+      /** The other copy options (offsets, sizes, mip levels etc) */
+      options: Record<string, unknown>;
+    };
+
+/** Draw options, as passed to RenderPipeline.draw() */
+export type RenderCommandDrawOptions = {
+  pipeline: RenderPipeline;
+  bindings: Record<string, Binding>;
+  uniforms: Record<string, UniformValue>;
+  vertexArray?: VertexArray;
+  vertexCount?: number;
+  indexCount?: number;
+  instanceCount?: number;
+  firstVertex?: number;
+  firstIndex?: number;
+  firstInstance?: number;
+  baseVertex?: number;
+};
+
+export type RenderCommandReplayOptions = {
+  /**
+   * Maps a resource id to a resource. Defaults to the resources that were recorded.
+   * Supply to replay onto another device.
+   */
+  getResource?: (id: string) => RenderCommandResource;
+};
+
+/**
+ * Records the commands issued on a render pass or command encoder into a serializable list.
+ * State changes (pipeline, bindings, uniforms, vertex array) are only recorded when they change.
+ * The list can be inspected, diffed, serialized with `JSON.stringify()` and replayed.
+ */
+export class RenderCommandList {
+  /** The recorded commands */
+  readonly commands: RenderCommand[];
+  /** Resources referenced by the recorded commands, by id */
+  readonly resources: Record<string, RenderCommandResource> = {};
+
+  /** JSON of the last recorded state, to detect changes */
+  private _state: Partial<Record<RenderCommand['command'], string>> = {};
+
+  /** Create a new command list, optionally from previously serialized commands */
+  constructor(commands: RenderCommand[] = []) {
+    this.commands = [...commands];
+  }
+
+  /** Returns the serializable commands */
+  toJSON(): RenderCommand[] {
+    return this.commands;
+  }
+
+  /** Records any changed pipeline state, then the draw call */
+  recordDraw(options: RenderCommandDrawOptions): void {
+    const {pipeline, bindings, uniforms, vertexArray, ...drawOptions} = options;
+
+    this._recordState({command: 'set-pipeline', pipeline: this._addResource(pipeline)});
+    this._recordState({command: 'set-bindings', bindings: this._getBindings(bindings)});
+    this._recordState({command: 'set-uniforms', uniforms: getUniforms(uniforms)});
+    this._recordState({
+      command: 'set-vertex-array',
+      vertexArray: vertexArray ? this._addResource(vertexArray) : null,
+      indexBuffer: vertexArray?.indexBuffer ? this._addResource(vertexArray.indexBuffer) : null,
+      attributes: vertexArray ? this._getAttributes(vertexArray) : {}
+    });
+
+    const draw: Record<string, unknown> = {command: 'draw'};
+    for (const [key, value] of Object.entries(drawOptions)) {
+      if (value !== undefined) {
+        draw[key] = value;
+      }
+    }
+    this.commands.push(draw as RenderCommand);
+  }
+
+  recordSetParameters(parameters: RenderPassParameters): void {
+    this.commands.push({command: 'set-parameters', parameters: JSON.parse(JSON.stringify(parameters))});
+  }
+
+  /** Records a copy command issued on a command encoder */
+  recordCopy(
+    command: RenderCommandCopy,
+    options: {source: Buffer | Texture; destination: Buffer | Texture}
+  ): void {
+    const {source, destination, ...copyOptions} = options;
+    this.commands.push({
+      command,
+      source: this._addResource(source),
+      destination: this._addResource(destination),
+      options: JSON.parse(JSON.stringify(copyOptions))
+    });
+  }
+
+  recordPushDebugGroup(label: string): void {
+    this.commands.push({command: 'push-debug-group', label});
+  }
+
+  recordPopDebugGroup(): void {
+    this.commands.push({command: 'pop-debug-group'});
+  }
+
+  recordInsertDebugMarker(label: string): void {
+    this.commands.push({command: 'insert-debug-marker', label});
+  }
+
+  /**
+   * Replays the recorded commands onto a render pass, or the copy commands onto a command encoder.
+   * @note Attributes recorded as buffers or constants are set on the vertex array before each draw.
+   * The index buffer and attributes of the vertex arrays are restored after replay.
+   */
+  replay(target: RenderPass | CommandEncoder, options: RenderCommandReplayOptions = {}): void {
+    const getResource = options.getResource || ((id: string) => this.resources[id]);
+    const resolve = <T>(id: string): T => {
+      const resource = getResource(id);
+      if (!resource) {
+        throw new Error(`RenderCommandList: unknown resource "${id}"`);
+      }
+      return resource as T;
+    };
+
+    // Replay sets the attributes of live vertex arrays, their state is restored afterwards
+    const vertexArrayStates = new Map<VertexArray, VertexArrayState>();
+
+    try {
+      this._replayCommands(target, resolve, vertexArrayStates);
+    } finally {
+      for (const [vertexArray, state] of vertexArrayStates) {
+        restoreVertexArray(vertexArray, state);
+      }
+    }
+  }
+
+  // PRIVATE
+
+  /** Replays the commands, saving the state of each vertex array before it is modified */
+  private _replayCommands(
+    target: RenderPass | CommandEncoder,
+    resolve: <T>(id: string) => T,
+    vertexArrayStates: Map<VertexArray, VertexArrayState>
+  ): void {
+    let pipeline: RenderPipeline | null = null;
+    let bindings: Record<string, Binding> = {};
+    let uniforms: Record<string, UniformValue> = {};
+    let vertexArray: VertexArray | null = null;
+
+    for (const command of this.commands) {
+      switch (command.command) {
+        case 'set-pipeline':
+          pipeline = resolve<RenderPipeline>(command.pipeline);
+          break;
+        case 'set-bindings':
+          bindings = {};
+          for (const [name, binding] of Object.entries(command.bindings)) {
+            bindings[name] =
+              typeof binding === 'string'
+                ? resolve<Binding>(binding)
+                : {...binding, buffer: resolve<Buffer>(binding.buffer)};
+          }
+          break;
+        case 'set-uniforms':
+          uniforms = command.uniforms;
+          break;
+        case 'set-vertex-array':
+          if (!command.vertexArray) {
+            vertexArray = null;
+            break;
+          }
+          vertexArray = resolve<VertexArray>(command.vertexArray);
+          if (!vertexArrayStates.has(vertexArray)) {
+            vertexArrayStates.set(vertexArray, {
+              indexBuffer: vertexArray.indexBuffer,
+              attributes: [...vertexArray.attributes]
+            });
+          }
+          vertexArray.setIndexBuffer(command.indexBuffer ? resolve<Buffer>(command.indexBuffer) : null);
+          for (const [location, attribute] of Object.entries(command.attributes)) {
+            if (typeof attribute === 'string') {
+              vertexArray.setBuffer(Number(location), resolve<Buffer>(attribute));
+            } else {
+              const TypedArrayConstructor = getTypedArrayFromDataType(attribute.type);
+              vertexArray.setConstant(Number(location), new TypedArrayConstructor(attribute.value));
+            }
+          }
+          break;
+        case 'draw': {
+          if (!pipeline) {
+            throw new Error('RenderCommandList: draw without pipeline');
+          }
+          const {command: _, ...drawOptions} = command;
+          pipeline.setBindings(bindings);
+          pipeline.setUniforms(uniforms);
+          pipeline.draw({
+            renderPass: getRenderPass(target),
+            // WebGPU pipelines can draw without a vertex array
+            vertexArray: vertexArray as VertexArray,
+            ...drawOptions
+          });
+          break;
+        }
+        case 'set-parameters':
+          getRenderPass(target).setParameters(command.parameters);
+          break;
+        case 'push-debug-group':
+          target.pushDebugGroup(command.label);
+          break;
+        case 'pop-debug-group':
+          target.popDebugGroup();
+          break;
+        case 'insert-debug-marker':
+          target.insertDebugMarker(command.label);
+          break;
+        case 'copy-buffer-to-buffer':
+          getCommandEncoder(target).copyBufferToBuffer({
+            ...(command.options as CopyBufferToBufferOptions),
+            source: resolve<Buffer>(command.source),
+            destination: resolve<Buffer>(command.destination)
+          });
+          break;
+        case 'copy-buffer-to-texture':
+          getCommandEncoder(target).copyBufferToTexture({
+            ...(command.options as CopyBufferToTextureOptions),
+            source: resolve<Buffer>(command.source),
+            destination: resolve<Texture>(command.destination)
+          });
+          break;
+        case 'copy-texture-to-buffer':
+          getCommandEncoder(target).copyTextureToBuffer({
+            ...(command.options as CopyTextureToBufferOptions),
+            source: resolve<Texture>(command.source),
+            destination: resolve<Buffer>(command.destination)
+          });
+          break;
+        case 'copy-texture-to-texture':
+          getCommandEncoder(target).copyTextureToTexture({
+            ...(command.options as CopyTextureToTextureOptions),
+            source: resolve<Texture>(command.source),
+            destination: resolve<Texture>(command.destination)
+          });
+          break;
+        default:
+          throw new Error(`RenderCommandList: unknown command ${JSON.stringify(command)}`);
+      }
+    }
+  }
+
+  /** Records a state command, unless it is identical to the current state */
+  private _recordState(command: RenderCommand): void {
+    const json = JSON.stringify(command);
+    if (this._state[command.command] !== json) {
+      this._state[command.command] = json;
+      this.commands.push(command);
+    }
+  }
+
+  private _addResource(resource: RenderCommandResource): string {
+    this.resources[resource.id] = resource;
+    return resource.id;
+  }
+
+  private _getBindings(bindings: Record<string, Binding>): Record<string, RenderCommandBinding> {
+    const serialized: Record<string, RenderCommandBinding> = {};
+    for (const [name, binding] of Object.entries(bindings)) {
+      if (!binding) {
+        continue; // eslint-disable-line no-continue
+      }
+      if ('id' in binding) {
+        serialized[name] = this._addResource(binding);
+      } else {
+        serialized[name] = {...binding, buffer: this._addResource(binding.buffer)};
+      }
+    }
+    return serialized;
+  }
+
+  private _getAttributes(vertexArray: VertexArray): Record<number, string | RenderCommandConstant> {
+    const attributes: Record<number, string | RenderCommandConstant> = {};
+    vertexArray.attributes.forEach((attribute, location) => {
+      if (attribute) {
+        attributes[location] = ArrayBuffer.isView(attribute)
+          ? {
+              type: getDataTypeFromTypedArray(attribute),
+              value: Array.from(attribute as ArrayLike<number>)
+            }
+          : this._addResource(attribute);
+      }
+    });
+    return attributes;
+  }
+}
+
+/** Index buffer and attributes of a vertex array, saved before replay */
+type VertexArrayState = {
+  indexBuffer: Buffer | null;
+  attributes: (Buffer | TypedArray | null)[];
+};
+
+/** Restores the attributes changed by replay. Attributes that were not set are cleared with `setConstant(location, null)` */
+function restoreVertexArray(vertexArray: VertexArray, state: VertexArrayState): void {
+  vertexArray.setIndexBuffer(state.indexBuffer);
+  state.attributes.forEach((attribute, location) => {
+    if (vertexArray.attributes[location] === attribute) {
+      return;
+    }
+    if (!attribute || ArrayBuffer.isView(attribute)) {
+      vertexArray.setConstant(location, attribute as TypedArray | null);
+    } else {
+      vertexArray.setBuffer(location, attribute);
+    }
+  });
+}
+
+function getRenderPass(target: RenderPass | CommandEncoder): RenderPass {
+  if ('copyBufferToBuffer' in target) {
+    throw new Error('RenderCommandList: render commands must be replayed onto a RenderPass');
+  }
+  return target;
+}
+
+function getCommandEncoder(target: RenderPass | CommandEncoder): CommandEncoder {
+  if (!('copyBufferToBuffer' in target)) {
+    throw new Error('RenderCommandList: copy commands must be replayed onto a CommandEncoder');
+  }
+  return target;
+}
+
+/** Converts uniform values to plain JSON values. Non-numeric values are skipped. */
+function getUniforms(uniforms: Record<string, UniformValue>): Record<string, number | number[]> {
+  const serialized: Record<string, number | number[]> = {};
+  for (const [name, value] of Object.entries(uniforms)) {
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      serialized[name] = Number(value);
+    } else if (isNumberArray(value)) {
+      serialized[name] = Array.from(value as ArrayLike<number>);
+    }
+  }
+  return serialized;
+}
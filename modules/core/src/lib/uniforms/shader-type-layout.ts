@@ -0,0 +1,282 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {
+  ShaderUniformType,
+  ShaderDataType,
+  CompositeShaderType,
+  ArrayShaderType,
+  StructShaderType
+} from '../../adapter/types/shader-types';
+import type {UniformValue, CompositeUniformValue} from '../../adapter/types/types';
+import {decodeShaderUniformType, alignTo} from '../../adapter/type-utils/decode-shader-types';
+import {isNumberArray} from '../../utils/is-array';
+import {log} from '../../utils/log';
+
+/**
+ * Memory layout rules for buffers
+ * - `std140` - GLSL uniform blocks: array elements and structs are aligned to 16 bytes, matrix columns are vec4s
+ * - `wgsl-uniform` - WGSL uniform address space: as `std140`, but `matCx2` matrix columns are 8 bytes
+ * - `std430` - GLSL storage blocks and WGSL storage address space: natural alignment of array elements and structs
+ */
+export type ShaderTypeLayoutRules = 'std140' | 'wgsl-uniform' | 'std430';
+
+/** Layout of a primitive (scalar, vector or matrix) field. Offsets and sizes are in 4 byte slots */
+export type PrimitiveFieldLayout = {
+  offset: number;
+  /** Number of slots occupied, including matrix column padding */
+  size: number;
+  type: ShaderDataType;
+  columns: number;
+  rows: number;
+  /** Slots between the start of matrix columns */
+  columnStride: number;
+};
+
+/** Typed array views of the same memory, one per data type */
+export type ShaderTypedArrays = Record<
+  ShaderDataType,
+  Int32Array | Uint32Array | Float32Array | Uint16Array
+>;
+
+export function getShaderTypedArrays(arrayBuffer: ArrayBuffer): ShaderTypedArrays {
+  return {
+    i32: new Int32Array(arrayBuffer),
+    u32: new Uint32Array(arrayBuffer),
+    f32: new Float32Array(arrayBuffer),
+    // TODO not implemented
+    f16: new Uint16Array(arrayBuffer)
+  };
+}
+
+/** Get alignment and size of a type, in 4 byte slots */
+export function getShaderTypeLayout(
+  shaderType: CompositeShaderType,
+  rules: ShaderTypeLayoutRules
+): {alignment: number; size: number} {
+  if (typeof shaderType === 'string') {
+    const matrix = getMatrixShape(shaderType);
+    if (matrix) {
+      // Matrices are laid out as arrays of column vectors
+      const [columns, rows] = matrix;
+      const columnStride = getColumnStride(rows, rules);
+      return {alignment: columnStride, size: columns * columnStride};
+    }
+    const {components} = decodeShaderUniformType(shaderType);
+    return {alignment: components === 3 ? 4 : components, size: components};
+  }
+
+  if (isArrayShaderType(shaderType)) {
+    const [elementType, length] = shaderType;
+    const element = getShaderTypeLayout(elementType, rules);
+    const stride = getArrayStride(element, rules);
+    return {alignment: rules === 'std430' ? element.alignment : 4, size: stride * length};
+  }
+
+  let size = 0;
+  let alignment = 1;
+  for (const memberType of Object.values(shaderType)) {
+    const member = getShaderTypeLayout(memberType, rules);
+    size = alignTo(size, member.alignment) + member.size;
+    alignment = Math.max(alignment, member.alignment);
+  }
+  // In uniform buffers, structs are aligned to 16 bytes
+  alignment = rules === 'std430' ? alignment : 4;
+  return {alignment, size: alignTo(size, alignment)};
+}
+
+/** Distance between array elements, in 4 byte slots */
+export function getArrayStride(
+  element: {alignment: number; size: number},
+  rules: ShaderTypeLayoutRules
+): number {
+  // In uniform buffers, array elements are padded to a multiple of 16 bytes
+  return alignTo(element.size, rules === 'std430' ? element.alignment : 4);
+}
+
+/**
+ * Adds layout entries for all primitive fields of a value of the specified type.
+ * Fields of arrays and structs are named by path, e.g. `lights[1].color`.
+ * @returns the offset after the value
+ */
+export function addShaderTypeToLayout(
+  fields: Record<string, PrimitiveFieldLayout>,
+  name: string,
+  shaderType: CompositeShaderType,
+  offset: number,
+  rules: ShaderTypeLayoutRules
+): number {
+  const {alignment, size} = getShaderTypeLayout(shaderType, rules);
+  // First, align (bump) current offset to an even multiple of current object (1, 2, 4)
+  offset = alignTo(offset, alignment);
+
+  if (typeof shaderType === 'string') {
+    const {type, components} = decodeShaderUniformType(shaderType);
+    const [columns, rows] = getMatrixShape(shaderType) || [1, components];
+    const columnStride = columns > 1 ? getColumnStride(rows, rules) : rows;
+    fields[name] = {offset, size, type, columns, rows, columnStride};
+  } else if (isArrayShaderType(shaderType)) {
+    const [elementType, length] = shaderType;
+    const stride = getArrayStride(getShaderTypeLayout(elementType, rules), rules);
+    for (let i = 0; i < length; i++) {
+      addShaderTypeToLayout(fields, `${name}[${i}]`, elementType, offset + i * stride, rules);
+    }
+  } else {
+    let memberOffset = offset;
+    for (const [member, memberType] of Object.entries(shaderType)) {
+      memberOffset = addShaderTypeToLayout(fields, `${name}.${member}`, memberType, memberOffset, rules);
+    }
+  }
+
+  // Then, add our object's padded size to the current offset
+  return offset + size;
+}
+
+/**
+ * Write a value of the specified type, by writing each of its primitive fields.
+ * Values for arrays of primitives can be supplied as flat numeric arrays.
+ */
+export function writeShaderValue(
+  typedArrays: ShaderTypedArrays,
+  fields: Record<string, PrimitiveFieldLayout>,
+  name: string,
+  shaderType: CompositeShaderType,
+  value: CompositeUniformValue
+): void {
+  if (typeof shaderType === 'string') {
+    writePrimitiveValue(typedArrays, fields[name], name, value);
+    return;
+  }
+
+  if (isArrayShaderType(shaderType)) {
+    const [elementType, length] = shaderType;
+    const numericArray = isNumberArray(value);
+    // Arrays of primitives can be supplied as a flat numeric array
+    if (numericArray && typeof elementType === 'string') {
+      const {components} = decodeShaderUniformType(elementType);
+      const elementCount = Math.min(Math.floor(numericArray.length / components), length);
+      for (let i = 0; i < elementCount; i++) {
+        const elementValue = numericArray.slice(i * components, (i + 1) * components);
+        writePrimitiveValue(
+          typedArrays,
+          fields[`${name}[${i}]`],
+          `${name}[${i}]`,
+          components === 1 ? elementValue[0] : elementValue
+        );
+      }
+      return;
+    }
+    if (!Array.isArray(value)) {
+      log.warn(`Supplied value for array ${name} is not an array: ${value}`)();
+      return;
+    }
+    if (value.length > length) {
+      log.warn(`Supplied array for ${name} has ${value.length} elements, expected ${length}`)();
+    }
+    for (let i = 0; i < Math.min(value.length, length); i++) {
+      writeShaderValue(typedArrays, fields, `${name}[${i}]`, elementType, value[i]);
+    }
+    return;
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value) || ArrayBuffer.isView(value)) {
+    log.warn(`Supplied value for struct ${name} is not an object: ${value}`)();
+    return;
+  }
+  for (const [member, memberValue] of Object.entries(value)) {
+    const memberType = (shaderType as StructShaderType)[member];
+    if (!memberType) {
+      log.warn(`Supplied value ${name}.${member} not present in buffer layout`)();
+      // eslint-disable-next-line no-continue
+      continue;
+    }
+    writeShaderValue(typedArrays, fields, `${name}.${member}`, memberType, memberValue);
+  }
+}
+
+/** Write the value of a scalar, vector or matrix field */
+export function writePrimitiveValue(
+  typedArrays: ShaderTypedArrays,
+  field: PrimitiveFieldLayout,
+  name: string,
+  value: CompositeUniformValue
+): void {
+  const {type, offset, columns, rows, columnStride} = field;
+  const typedArray = typedArrays[type];
+  if (columns * rows === 1) {
+    if (typeof value !== 'number' && typeof value !== 'boolean') {
+      log.warn(`Supplied value for single component uniform ${name} is not a number: ${value}`)();
+      return;
+    }
+    // single value -> just set it
+    typedArray[offset] = Number(value);
+    return;
+  }
+
+  const numericArray = isNumberArray(value as UniformValue);
+  if (!numericArray) {
+    log.warn(`Supplied value for multi component / array uniform ${name} is not a numeric array: ${value}`)();
+    return;
+  }
+  // vector/matrix -> copy the supplied (typed) array column by column, starting from offset
+  for (let column = 0; column < columns; column++) {
+    const columnValues = numericArray.slice(column * rows, (column + 1) * rows);
+    typedArray.set(columnValues, offset + column * columnStride);
+  }
+}
+
+/**
+ * Read a value of the specified type.
+ * Scalars are returned as numbers, vectors and matrices as arrays of numbers,
+ * arrays as JS arrays and structs as JS objects.
+ */
+export function readShaderValue(
+  typedArrays: ShaderTypedArrays,
+  fields: Record<string, PrimitiveFieldLayout>,
+  name: string,
+  shaderType: CompositeShaderType
+): CompositeUniformValue {
+  if (typeof shaderType === 'string') {
+    const {type, offset, columns, rows, columnStride} = fields[name];
+    const typedArray = typedArrays[type];
+    if (columns * rows === 1) {
+      return typedArray[offset];
+    }
+    const values: number[] = [];
+    for (let column = 0; column < columns; column++) {
+      const columnOffset = offset + column * columnStride;
+      values.push(...typedArray.subarray(columnOffset, columnOffset + rows));
+    }
+    return values;
+  }
+
+  if (isArrayShaderType(shaderType)) {
+    const [elementType, length] = shaderType;
+    const values: CompositeUniformValue[] = [];
+    for (let i = 0; i < length; i++) {
+      values.push(readShaderValue(typedArrays, fields, `${name}[${i}]`, elementType));
+    }
+    return values;
+  }
+
+  const struct: Record<string, CompositeUniformValue> = {};
+  for (const [member, memberType] of Object.entries(shaderType)) {
+    struct[member] = readShaderValue(typedArrays, fields, `${name}.${member}`, memberType);
+  }
+  return struct;
+}
+
+export function isArrayShaderType(shaderType: CompositeShaderType): shaderType is ArrayShaderType {
+  return Array.isArray(shaderType);
+}
+
+/** std140 stores each matrix column as a vec4, other rules use the alignment of the column vector */
+function getColumnStride(rows: number, rules: ShaderTypeLayoutRules): number {
+  return rules !== 'std140' && rows === 2 ? 2 : 4;
+}
+
+/** Returns [columns, rows] for matrix types */
+function getMatrixShape(shaderType: ShaderUniformType): [number, number] | null {
+  const matrix = /^mat(\d)x(\d)/.exec(shaderType);
+  return matrix ? [Number(matrix[1]), Number(matrix[2])] : null;
+}
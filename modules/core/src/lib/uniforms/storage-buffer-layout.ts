@@ -0,0 +1,191 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {CompositeShaderType, RuntimeArrayShaderType} from '../../adapter/types/shader-types';
+import type {CompositeUniformValue} from '../../adapter/types/types';
+import type {PrimitiveFieldLayout} from './shader-type-layout';
+import {
+  getShaderTypedArrays,
+  getShaderTypeLayout,
+  getArrayStride,
+  addShaderTypeToLayout,
+  writeShaderValue,
+  writePrimitiveValue,
+  readShaderValue
+} from './shader-type-layout';
+import {alignTo, decodeShaderUniformType} from '../../adapter/type-utils/decode-shader-types';
+import {isNumberArray} from '../../utils/is-array';
+import {log} from '../../utils/log';
+
+/**
+ * std430 layout for storage buffers (same as the WGSL storage address space)
+ * - Fixed size arrays are declared as `[type, length]`, structs as objects
+ * - The last member can be a runtime-sized array, declared as `[type]`
+ * Encodes JS values into binary buffer data, and decodes data read back from the GPU into JS values.
+ */
+export class StorageBufferLayout {
+  /** Layout of the primitive fields of the fixed size members, by path */
+  readonly layout: Record<string, PrimitiveFieldLayout> = {};
+  /** The member types this layout was created from */
+  readonly storageTypes: Record<string, CompositeShaderType | RuntimeArrayShaderType>;
+  /** The runtime-sized array, if the last member is one. Offsets and strides are in bytes */
+  readonly runtimeArray: {
+    name: string;
+    elementType: CompositeShaderType;
+    byteOffset: number;
+    byteStride: number;
+  } | null = null;
+
+  /** Alignment of the buffer struct, in 4 byte slots */
+  private readonly _alignment: number = 1;
+  /** number of 4 byte slots taken by fixed size members */
+  private readonly _size: number = 0;
+
+  /** Create a new StorageBufferLayout given a map of member types */
+  constructor(storageTypes: Record<string, CompositeShaderType | RuntimeArrayShaderType>) {
+    this.storageTypes = storageTypes;
+
+    const members = Object.entries(storageTypes);
+    for (const [index, [name, storageType]] of members.entries()) {
+      if (isRuntimeArrayShaderType(storageType)) {
+        if (index !== members.length - 1) {
+          throw new Error(`StorageBufferLayout: runtime-sized array ${name} must be the last member`);
+        }
+        const [elementType] = storageType;
+        const element = getShaderTypeLayout(elementType, 'std430');
+        this._alignment = Math.max(this._alignment, element.alignment);
+        this._size = alignTo(this._size, element.alignment);
+        this.runtimeArray = {
+          name,
+          elementType,
+          byteOffset: this._size * 4,
+          byteStride: getArrayStride(element, 'std430') * 4
+        };
+      } else {
+        this._alignment = Math.max(this._alignment, getShaderTypeLayout(storageType, 'std430').alignment);
+        this._size = addShaderTypeToLayout(this.layout, name, storageType, this._size, 'std430');
+      }
+    }
+  }
+
+  /** Number of bytes needed for a buffer with the specified number of runtime-sized array elements */
+  getByteLength(elementCount: number = 0): number {
+    const {runtimeArray} = this;
+    const byteLength = runtimeArray
+      ? runtimeArray.byteOffset + elementCount * runtimeArray.byteStride
+      : this._size * 4;
+    return alignTo(byteLength / 4, this._alignment) * 4;
+  }
+
+  /** Number of runtime-sized array elements that fit in a buffer of the specified size */
+  getElementCount(byteLength: number): number {
+    const {runtimeArray} = this;
+    return runtimeArray
+      ? Math.max(Math.floor((byteLength - runtimeArray.byteOffset) / runtimeArray.byteStride), 0)
+      : 0;
+  }
+
+  /**
+   * Encode values into binary data that can be written to a buffer
+   * @param values nested JS arrays and objects, or values by path, e.g. `{'particles[1].pos': [0, 1]}`
+   * @param elementCount number of runtime-sized array elements. Defaults to the length of the supplied array.
+   */
+  encode(values: Record<string, CompositeUniformValue>, elementCount?: number): Uint8Array {
+    elementCount ??= this._getSuppliedElementCount(values);
+
+    const arrayBuffer = new ArrayBuffer(this.getByteLength(elementCount));
+    const typedArrays = getShaderTypedArrays(arrayBuffer);
+    const fields = this._getFields(elementCount);
+
+    for (const [name, value] of Object.entries(values)) {
+      const storageType = this._getType(name, elementCount);
+      if (fields[name]) {
+        writePrimitiveValue(typedArrays, fields[name], name, value);
+      } else if (storageType) {
+        writeShaderValue(typedArrays, fields, name, storageType, value);
+      } else {
+        log.warn(`Supplied value ${name} not present in storage buffer layout`)();
+      }
+    }
+
+    return new Uint8Array(arrayBuffer);
+  }
+
+  /**
+   * Decode binary data, e.g. from `buffer.readAsync()`, into JS values.
+   * The number of runtime-sized array elements is determined by the length of the data.
+   */
+  decode(data: ArrayBuffer | ArrayBufferView): Record<string, CompositeUniformValue> {
+    const bytes = ArrayBuffer.isView(data)
+      ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+      : new Uint8Array(data);
+
+    // Copy into an aligned buffer
+    const arrayBuffer = new ArrayBuffer(Math.ceil(bytes.byteLength / 4) * 4);
+    new Uint8Array(arrayBuffer).set(bytes);
+    const typedArrays = getShaderTypedArrays(arrayBuffer);
+
+    const elementCount = this.getElementCount(bytes.byteLength);
+    const fields = this._getFields(elementCount);
+
+    const values: Record<string, CompositeUniformValue> = {};
+    for (const name of Object.keys(this.storageTypes)) {
+      values[name] = readShaderValue(typedArrays, fields, name, this._getType(name, elementCount));
+    }
+    return values;
+  }
+
+  /** Does this layout have a member with specified name */
+  has(name: string): boolean {
+    return Boolean(this.layout[name] || this.storageTypes[name]);
+  }
+
+  /** Get offset and size for a field of a fixed size member with specified name */
+  get(name: string): {offset: number; size: number} | undefined {
+    return this.layout[name];
+  }
+
+  // PRIVATE
+
+  /** Field layouts including the runtime-sized array elements */
+  private _getFields(elementCount: number): Record<string, PrimitiveFieldLayout> {
+    const {runtimeArray} = this;
+    if (!runtimeArray || elementCount === 0) {
+      return this.layout;
+    }
+    const fields = {...this.layout};
+    const {name, elementType, byteOffset} = runtimeArray;
+    addShaderTypeToLayout(fields, name, [elementType, elementCount], byteOffset / 4, 'std430');
+    return fields;
+  }
+
+  /** Member type, runtime-sized arrays are resolved to fixed size arrays */
+  private _getType(name: string, elementCount: number): CompositeShaderType | undefined {
+    const storageType = this.storageTypes[name];
+    if (storageType && isRuntimeArrayShaderType(storageType)) {
+      return [storageType[0], elementCount];
+    }
+    return storageType as CompositeShaderType;
+  }
+
+  /** Number of elements in the supplied value for the runtime-sized array */
+  private _getSuppliedElementCount(values: Record<string, CompositeUniformValue>): number {
+    const {runtimeArray} = this;
+    const value = runtimeArray && values[runtimeArray.name];
+    if (!value) {
+      return 0;
+    }
+    const numericArray = isNumberArray(value);
+    if (numericArray && typeof runtimeArray.elementType === 'string') {
+      const {components} = decodeShaderUniformType(runtimeArray.elementType);
+      return Math.floor(numericArray.length / components);
+    }
+    return Array.isArray(value) ? value.length : 0;
+  }
+}
+
+function isRuntimeArrayShaderType(
+  storageType: CompositeShaderType | RuntimeArrayShaderType
+): storageType is RuntimeArrayShaderType {
+  return Array.isArray(storageType) && storageType.length === 1;
+}
@@ -1,6 +1,6 @@
 // luma.gl, MIT license
 import type {ShaderUniformType} from '../../adapter/types/shader-types';
-import type {UniformValue} from '../../adapter/types/types';
+import type {CompositeUniformValue} from '../../adapter/types/types';
 import {
   ShaderLayout,
   UniformInfo,
@@ -13,10 +13,10 @@ import {arrayEqual, arrayCopy} from '../../utils/array-equal';
  * It also does some book keeping on what has changed, to minimize unnecessary writes to uniform buffers.
  * @todo - Track changes to individual uniforms (for WebGL1)
  */
-export class UniformBlock<TUniforms extends Record<string, UniformValue> = Record<string, UniformValue>> {
+export class UniformBlock<TUniforms extends Record<string, CompositeUniformValue> = Record<string, CompositeUniformValue>> {
   name: string;
 
-  uniforms: Record<keyof TUniforms, UniformValue> = {} as Record<keyof TUniforms, UniformValue>;
+  uniforms: Record<keyof TUniforms, CompositeUniformValue> = {} as Record<keyof TUniforms, CompositeUniformValue>;
   modifiedUniforms: Record<keyof TUniforms, boolean> = {} as Record<keyof TUniforms, boolean>;
   modified: boolean = true;
 
@@ -61,15 +61,15 @@ export class UniformBlock<TUniforms extends Record<string, UniformValue> = Recor
   }
 
   /** Returns all uniforms */
-  getAllUniforms(): Record<string, UniformValue> {
+  getAllUniforms(): Record<string, CompositeUniformValue> {
     // @ts-expect-error
     this.modifiedUniforms = {};
     this.needsRedraw = false;
-    return (this.uniforms || {}) as Record<string, UniformValue>;
+    return (this.uniforms || {}) as Record<string, CompositeUniformValue>;
   }
 
   /** Set a single uniform */
-  private _setUniform(key: keyof TUniforms, value: UniformValue) {
+  private _setUniform(key: keyof TUniforms, value: CompositeUniformValue) {
     if (arrayEqual(this.uniforms[key], value)) {
       return;
     }
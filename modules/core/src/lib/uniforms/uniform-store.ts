@@ -1,6 +1,6 @@
 // luma.gl, MIT license
-import type {ShaderUniformType} from '../../adapter/types/shader-types';
-import type {UniformValue} from '../../adapter/types/types';
+import type {CompositeShaderType} from '../../adapter/types/shader-types';
+import type {CompositeUniformValue} from '../../adapter/types/types';
 import type {Device} from '../../adapter/device';
 import {Buffer} from '../../adapter/resources/buffer';
 import {UniformBlock} from './uniform-block';
@@ -8,9 +8,9 @@ import {UniformBufferLayout} from './uniform-buffer-layout';
 import {log} from '../../utils/log';
 
 export type ShaderModuleInputs = {
-  uniformTypes?: Record<string, ShaderUniformType>;
+  uniformTypes?: Record<string, CompositeShaderType>;
   defaultProps?: Record<string, unknown>;
-  defaultUniforms?: Record<string, UniformValue>;
+  defaultUniforms?: Record<string, CompositeUniformValue>;
 };
 
 /**
@@ -36,9 +36,9 @@ export class UniformStore<TPropGroups extends Record<string, Record<string, unkn
     blocks: Record<
       keyof TPropGroups,
       {
-        uniformTypes?: Record<string, ShaderUniformType>;
+        uniformTypes?: Record<string, CompositeShaderType>;
         defaultProps?: Record<string, unknown>;
-        defaultUniforms?: Record<string, UniformValue>;
+        defaultUniforms?: Record<string, CompositeUniformValue>;
       }
     >
   ) {
@@ -0,0 +1,138 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {getNullTestDevice, NullDevice} from '@luma.gl/test-utils';
+
+const nullDevice = getNullTestDevice();
+
+test('ResourceRegistry#getResourceReport', async t => {
+  const device = await NullDevice.create({id: 'tracking-device', trackResources: true});
+
+  const buffer = device.createBuffer({id: 'buffer', byteLength: 16});
+  const texture = device.createTexture({id: 'texture', width: 2, height: 2});
+  const owner = device.createBuffer({id: 'owner', byteLength: 4});
+  const ownedBuffer = device.createBuffer({id: 'owned', byteLength: 8});
+  owner.attachResource(ownedBuffer);
+
+  let report = device.getResourceReport();
+  t.deepEqual(
+    report.resources.filter(resource => resource.type !== 'Sampler').map(resource => resource.id),
+    ['buffer', 'texture', 'owner', 'owned'],
+    'live resources in creation order'
+  );
+  t.deepEqual(report.types.Buffer, {count: 3, byteLength: 28}, 'grouped by type');
+  t.equal(report.types.Texture.count, 1, 'textures');
+  t.ok(report.byteLength >= 28, 'total byte length');
+  t.ok(report.resources[0].creationStack.includes('resource-registry.spec'), 'creation stack');
+  t.equal(
+    report.resources.find(resource => resource.id === 'owned').owner,
+    'Buffer(owner)',
+    'owner of attached resource'
+  );
+  t.deepEqual(report.leakedResources, [], 'no leaks');
+
+  buffer.destroy();
+  // Destroying the owner destroys attached resources
+  owner.destroy();
+  report = device.getResourceReport();
+  t.deepEqual(
+    report.resources.filter(resource => resource.type !== 'Sampler').map(resource => resource.id),
+    ['texture'],
+    'destroyed resources removed'
+  );
+
+  // Detached resources keep living when their former owner is destroyed
+  const parent = device.createBuffer({id: 'parent', byteLength: 4});
+  const child = device.createBuffer({id: 'child', byteLength: 4});
+  parent.attachResource(child);
+  parent.detachResource(child);
+  device.resourceRegistry.setOwner(child, parent);
+  parent.destroy();
+  report = device.getResourceReport();
+  t.deepEqual(
+    report.leakedResources.map(resource => [resource.id, resource.owner]),
+    [['child', 'Buffer(parent)']],
+    'resources of destroyed owners reported as leaked'
+  );
+
+  child.destroy();
+  texture.destroy();
+  t.equal(device.getResourceReport().count, 0, 'all resources destroyed');
+
+  t.throws(() => nullDevice.getResourceReport(), 'resource tracking is opt-in');
+  t.equal(nullDevice.resourceRegistry, null, 'no registry by default');
+
+  device.destroy();
+  t.end();
+});
+
+test('ResourceRegistry#owner', async t => {
+  const device = await NullDevice.create({id: 'owner-device', trackResources: true});
+
+  const buffer = device.createBuffer({id: 'buffer', byteLength: 4});
+  const owner = {id: 'layer', destroyed: false};
+  device.resourceRegistry.setOwner(buffer, owner);
+  t.equal(device.getResourceReport().resources[0].owner, 'layer', 'owner without type tag described by id');
+
+  device.resourceRegistry.setOwner(buffer, {id: 'cube', [Symbol.toStringTag]: 'Model'});
+  t.equal(device.getResourceReport().resources[0].owner, 'Model(cube)', 'owner described by type tag and id');
+
+  buffer.destroy();
+  device.destroy();
+  t.end();
+});
+
+test('Resource#destroyAttachedResources', async t => {
+  const device = await NullDevice.create({id: 'attached-device', trackResources: true});
+
+  const owner = device.createBuffer({id: 'owner', byteLength: 4});
+  const attachedResources = [
+    device.createBuffer({id: 'attached-1', byteLength: 4}),
+    device.createBuffer({id: 'attached-2', byteLength: 4})
+  ];
+  for (const resource of attachedResources) {
+    owner.attachResource(resource);
+  }
+
+  owner.destroyAttachedResources();
+  t.ok(
+    attachedResources.every(resource => resource.destroyed),
+    'all attached resources destroyed'
+  );
+  t.notOk(owner.destroyed, 'owner not destroyed');
+  t.deepEqual(
+    device.getResourceReport().resources.map(resource => resource.id),
+    ['owner'],
+    'attached resources removed from the registry'
+  );
+
+  owner.destroy();
+  device.destroy();
+  t.end();
+});
+
+test('ResourceRegistry#frames', async t => {
+  const device = await NullDevice.create({id: 'frames-device', trackResources: true});
+  const framebuffer = device.createFramebuffer({id: 'framebuffer', width: 1, height: 1, colorAttachments: ['rgba8unorm']});
+  const resourceCount = device.getResourceReport().count;
+
+  for (let frame = 0; frame < 5; frame++) {
+    const commandEncoder = device.createCommandEncoder();
+    const renderPass = device.beginRenderPass({framebuffer});
+    renderPass.end();
+    const computePass = device.beginComputePass();
+    computePass.end();
+    commandEncoder.finish();
+    device.submit();
+  }
+
+  const report = device.getResourceReport();
+  t.equal(report.count, resourceCount, 'passes and command encoders not tracked');
+  t.deepEqual(report.leakedResources, [], 'no leaks');
+
+  framebuffer.destroy();
+  t.equal(device.getResourceReport().count, 0, 'report empty');
+  device.destroy();
+  t.end();
+});
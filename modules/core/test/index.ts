@@ -16,9 +16,14 @@ import './adapter/type-utils/vertex-format-from-attribute.spec';
 
 // adapter
 import './adapter/canvas-context.spec';
+import './adapter/resource-registry.spec';
 
 // uniforms
 import './lib/uniforms/uniform-buffer-layout.spec';
+import './lib/uniforms/storage-buffer-layout.spec';
+
+// render commands
+import './lib/render-commands/render-command-list.spec';
 
 // compiler logs
 import './lib/compiler-log/format-compiler-log.spec';
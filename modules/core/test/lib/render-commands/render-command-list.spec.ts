@@ -0,0 +1,271 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {getNullTestDevice, NullDevice, NullRenderPass} from '@luma.gl/test-utils';
+
+import {Buffer, RenderCommandList, glsl} from '@luma.gl/core';
+import type {Device, RenderPipeline, VertexArray} from '@luma.gl/core';
+
+const nullDevice = getNullTestDevice();
+
+const VS = glsl`\
+#version 300 es
+in vec2 positions;
+uniform float scale;
+void main(void) {
+  gl_Position = vec4(positions * scale, 0.0, 1.0);
+}
+`;
+
+const FS = glsl`\
+#version 300 es
+precision highp float;
+uniform sampler2D colorTexture;
+out vec4 fragColor;
+void main(void) {
+  fragColor = texture(colorTexture, vec2(0.5));
+}
+`;
+
+function createPipelineAndVertexArray(device: Device, id: string) {
+  const pipeline = device.createRenderPipeline({
+    id: `${id}-pipeline`,
+    vs: device.createShader({stage: 'vertex', source: VS}),
+    fs: device.createShader({stage: 'fragment', source: FS}),
+    bufferLayout: [{name: 'positions', format: 'float32x2'}]
+  });
+  const vertexArray = device.createVertexArray({id: `${id}-vertex-array`, renderPipeline: pipeline});
+  const positions = device.createBuffer({
+    id: `${id}-positions`,
+    usage: Buffer.VERTEX,
+    data: new Float32Array([0, 0, 1, 0, 1, 1])
+  });
+  const texture = device.createTexture({id: `${id}-texture`, width: 1, height: 1});
+  vertexArray.setBuffer(0, positions);
+  pipeline.setBindings({colorTexture: texture});
+  return {pipeline, vertexArray, positions, texture};
+}
+
+function draw(renderPass, pipeline: RenderPipeline, vertexArray: VertexArray, scale: number) {
+  pipeline.setUniforms({scale});
+  pipeline.draw({renderPass, vertexArray, vertexCount: 3});
+}
+
+test('RenderCommandList#recording', t => {
+  const {pipeline, vertexArray} = createPipelineAndVertexArray(nullDevice, 'record');
+
+  const renderPass = nullDevice.beginRenderPass({recordCommands: true});
+  renderPass.pushDebugGroup('group');
+  draw(renderPass, pipeline, vertexArray, 1);
+  draw(renderPass, pipeline, vertexArray, 1);
+  draw(renderPass, pipeline, vertexArray, 2);
+  renderPass.popDebugGroup();
+  renderPass.end();
+
+  t.ok(renderPass.commandList instanceof RenderCommandList, 'commandList created');
+  t.deepEqual(
+    renderPass.commandList.commands,
+    [
+      {command: 'set-parameters', parameters: {}},
+      {command: 'push-debug-group', label: 'group'},
+      {command: 'set-pipeline', pipeline: 'record-pipeline'},
+      {command: 'set-bindings', bindings: {colorTexture: 'record-texture'}},
+      {command: 'set-uniforms', uniforms: {scale: 1}},
+      {
+        command: 'set-vertex-array',
+        vertexArray: 'record-vertex-array',
+        indexBuffer: null,
+        attributes: {0: 'record-positions'}
+      },
+      {command: 'draw', vertexCount: 3, instanceCount: 0, firstVertex: 0},
+      {command: 'draw', vertexCount: 3, instanceCount: 0, firstVertex: 0},
+      {command: 'set-uniforms', uniforms: {scale: 2}},
+      {command: 'draw', vertexCount: 3, instanceCount: 0, firstVertex: 0},
+      {command: 'pop-debug-group'}
+    ],
+    'only state changes and draws recorded'
+  );
+
+  const drawPass = nullDevice.beginRenderPass({recordCommands: true});
+  pipeline.draw({
+    renderPass: drawPass,
+    vertexArray,
+    vertexCount: 3,
+    instanceCount: 2,
+    firstVertex: 1,
+    firstIndex: 2,
+    firstInstance: 3,
+    baseVertex: 4
+  });
+  drawPass.end();
+  t.deepEqual(
+    drawPass.commandList.commands.at(-1),
+    {
+      command: 'draw',
+      vertexCount: 3,
+      instanceCount: 2,
+      firstVertex: 1,
+      firstIndex: 2,
+      firstInstance: 3,
+      baseVertex: 4
+    },
+    'all draw arguments recorded'
+  );
+
+  const json = JSON.parse(JSON.stringify(renderPass.commandList));
+  t.deepEqual(json, renderPass.commandList.commands, 'commands are serializable');
+
+  const unrecordedPass = nullDevice.beginRenderPass();
+  t.equal(unrecordedPass.commandList, null, 'commands not recorded by default');
+  unrecordedPass.end();
+
+  t.end();
+});
+
+test('RenderCommandList#replay', async t => {
+  const {pipeline, vertexArray} = createPipelineAndVertexArray(nullDevice, 'replay');
+
+  const renderPass = nullDevice.beginRenderPass({recordCommands: true});
+  draw(renderPass, pipeline, vertexArray, 1);
+  draw(renderPass, pipeline, vertexArray, 3);
+  renderPass.end();
+
+  // Replay onto another pass on the same device
+  const replayPass = nullDevice.beginRenderPass({recordCommands: true}) as NullRenderPass;
+  renderPass.commandList.replay(replayPass);
+  replayPass.end();
+  // The replay pass records its own initial parameters before the replayed commands
+  t.deepEqual(
+    replayPass.commandList.commands.slice(1),
+    renderPass.commandList.commands,
+    'replay reproduces commands'
+  );
+  t.equal(replayPass.drawCalls.length, 2, 'draws replayed');
+
+  // Replay serialized commands onto another device
+  const device = await NullDevice.create({id: 'replay-device'});
+  const resources = createPipelineAndVertexArray(device, 'other');
+  const commandList = new RenderCommandList(JSON.parse(JSON.stringify(renderPass.commandList)));
+  const otherPass = device.beginRenderPass();
+  const resourceMap = {
+    'replay-pipeline': resources.pipeline,
+    'replay-vertex-array': resources.vertexArray,
+    'replay-positions': resources.positions,
+    'replay-texture': resources.texture
+  };
+  commandList.replay(otherPass, {getResource: id => resourceMap[id]});
+  otherPass.end();
+
+  t.equal(otherPass.drawCalls.length, 2, 'draws replayed on other device');
+  t.equal(otherPass.drawCalls[0].pipeline, resources.pipeline, 'resources resolved on other device');
+  t.deepEqual(otherPass.drawCalls[1].uniforms, {scale: 3}, 'uniforms replayed');
+
+  t.throws(() => commandList.replay(device.beginRenderPass()), /unknown resource/, 'missing resources throw');
+
+  device.destroy();
+  t.end();
+});
+
+test('RenderCommandList#replay vertex array', t => {
+  const {pipeline, vertexArray, positions} = createPipelineAndVertexArray(nullDevice, 'constants');
+  vertexArray.setConstant(1, new Int32Array([1, -2]));
+
+  const renderPass = nullDevice.beginRenderPass({recordCommands: true});
+  draw(renderPass, pipeline, vertexArray, 1);
+  renderPass.end();
+  t.deepEqual(
+    renderPass.commandList.commands.find(command => command.command === 'set-vertex-array'),
+    {
+      command: 'set-vertex-array',
+      vertexArray: 'constants-vertex-array',
+      indexBuffer: null,
+      attributes: {0: 'constants-positions', 1: {type: 'sint32', value: [1, -2]}}
+    },
+    'constant recorded with its data type'
+  );
+
+  // The model that owns the vertex array binds other attributes after recording
+  const otherPositions = nullDevice.createBuffer({usage: Buffer.VERTEX, byteLength: 24});
+  vertexArray.setBuffer(0, otherPositions);
+  vertexArray.setConstant(1, null);
+
+  const commandList = new RenderCommandList(JSON.parse(JSON.stringify(renderPass.commandList)));
+  const replayPass = nullDevice.beginRenderPass() as NullRenderPass;
+  commandList.replay(replayPass, {getResource: id => renderPass.commandList.resources[id]});
+  replayPass.end();
+
+  const {attributes} = replayPass.drawCalls[0];
+  t.equal(attributes[0], positions, 'recorded buffer replayed');
+  t.ok(attributes[1] instanceof Int32Array, 'integer constant replayed as Int32Array');
+  t.deepEqual(Array.from(attributes[1] as Int32Array), [1, -2], 'constant values replayed');
+
+  t.equal(vertexArray.attributes[0], otherPositions, 'vertex array buffer restored after replay');
+  t.equal(vertexArray.attributes[1], null, 'vertex array constant restored after replay');
+
+  otherPositions.destroy();
+  t.end();
+});
+
+test('RenderCommandList#CommandEncoder', t => {
+  const source = nullDevice.createBuffer({id: 'copy-source', data: new Uint8Array([1, 2, 3, 4])});
+  const destination = nullDevice.createBuffer({id: 'copy-destination', byteLength: 4});
+  const texture = nullDevice.createTexture({id: 'copy-texture', width: 1, height: 1});
+
+  const commandEncoder = nullDevice.createCommandEncoder({recordCommands: true});
+  commandEncoder.pushDebugGroup('copies');
+  commandEncoder.copyBufferToBuffer({source, destination, sourceOffset: 1, size: 2});
+  commandEncoder.copyTextureToBuffer({source: texture, destination, width: 1, height: 1});
+  commandEncoder.popDebugGroup();
+  commandEncoder.finish();
+
+  t.deepEqual(
+    commandEncoder.commandList.commands,
+    [
+      {command: 'push-debug-group', label: 'copies'},
+      {
+        command: 'copy-buffer-to-buffer',
+        source: 'copy-source',
+        destination: 'copy-destination',
+        options: {sourceOffset: 1, size: 2}
+      },
+      {
+        command: 'copy-texture-to-buffer',
+        source: 'copy-texture',
+        destination: 'copy-destination',
+        options: {width: 1, height: 1}
+      },
+      {command: 'pop-debug-group'}
+    ],
+    'copy commands recorded'
+  );
+  t.equal(nullDevice.createCommandEncoder().commandList, null, 'commands not recorded by default');
+
+  // Replay serialized commands onto another encoder, copying into another buffer
+  const otherDestination = nullDevice.createBuffer({id: 'copy-other', byteLength: 4});
+  const commandList = new RenderCommandList(JSON.parse(JSON.stringify(commandEncoder.commandList)));
+  const otherEncoder = nullDevice.createCommandEncoder();
+  commandList.replay(otherEncoder, {
+    getResource: id => (id === 'copy-destination' ? otherDestination : commandEncoder.commandList.resources[id])
+  });
+  otherEncoder.finish();
+  t.deepEqual(
+    Array.from(new Uint8Array(otherDestination.handle)),
+    [2, 3, 0, 0],
+    'copies replayed'
+  );
+
+  const renderPass = nullDevice.beginRenderPass();
+  t.throws(
+    () => commandList.replay(renderPass),
+    /must be replayed onto a CommandEncoder/,
+    'copy commands cannot be replayed onto a render pass'
+  );
+  renderPass.end();
+
+  source.destroy();
+  destination.destroy();
+  otherDestination.destroy();
+  texture.destroy();
+  t.end();
+});
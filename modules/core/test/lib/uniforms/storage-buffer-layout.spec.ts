@@ -0,0 +1,113 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {getNullTestDevice} from '@luma.gl/test-utils';
+import {Buffer, StorageBufferLayout} from '@luma.gl/core';
+
+const nullDevice = getNullTestDevice();
+
+test('StorageBufferLayout#std430 layout', t => {
+  const layout = new StorageBufferLayout({
+    count: 'u32',
+    values: ['f32', 3],
+    direction: 'vec2<f32>',
+    points: [{position: 'vec3<f32>', weight: 'f32'}, 2],
+    scales: [{scale: 'f32'}, 2],
+    transform: 'mat2x2<f32>'
+  });
+
+  t.equal(layout.get('values[0]').offset, 1, 'scalar array is not aligned to 16 bytes');
+  t.equal(layout.get('values[1]').offset, 2, 'scalar array stride is 4 bytes');
+  t.equal(layout.get('direction').offset, 4, 'vec2 aligned to 8 bytes');
+  t.equal(layout.get('points[0].position').offset, 8, 'struct aligned to its largest member');
+  t.equal(layout.get('points[0].weight').offset, 11, 'scalar packed after vec3');
+  t.equal(layout.get('points[1].position').offset, 12, 'struct array stride');
+  t.equal(layout.get('scales[1].scale').offset, 17, 'struct of scalars is not padded');
+  t.equal(layout.get('transform').offset, 18, 'mat2x2 aligned to 8 bytes');
+  t.equal(layout.getByteLength(), 96, 'byte length padded to struct alignment');
+  t.equal(layout.runtimeArray, null, 'no runtime-sized array');
+
+  const values = {
+    count: 2,
+    values: [1, 2, 3],
+    direction: [0, 1],
+    points: [
+      {position: [1, 2, 3], weight: 0.5},
+      {position: [4, 5, 6], weight: 1}
+    ],
+    scales: [{scale: 2}, {scale: 4}],
+    transform: [1, 2, 3, 4]
+  };
+  const data = layout.encode(values);
+  t.equal(data.byteLength, 96, 'encoded byte length');
+  t.deepEqual(layout.decode(data), values, 'decode(encode(values)) round trips');
+
+  t.end();
+});
+
+test('StorageBufferLayout#runtime-sized arrays', t => {
+  const layout = new StorageBufferLayout({
+    particles: [{pos: 'vec2<f32>', vel: 'vec2<f32>'}]
+  });
+
+  t.deepEqual(
+    layout.runtimeArray,
+    {name: 'particles', elementType: {pos: 'vec2<f32>', vel: 'vec2<f32>'}, byteOffset: 0, byteStride: 16},
+    'runtime-sized array'
+  );
+  t.equal(layout.getByteLength(150), 2400, 'byte length for element count');
+  t.equal(layout.getElementCount(2400), 150, 'element count for byte length');
+
+  const particles = [
+    {pos: [0.5, -0.5], vel: [0.01, 0.02]},
+    {pos: [-1, 1], vel: [0, -0.25]}
+  ];
+  const data = layout.encode({particles});
+  t.equal(data.byteLength, 32, 'element count from supplied array');
+  t.deepEqual(
+    Array.from(new Float32Array(data.buffer)),
+    Array.from(new Float32Array([0.5, -0.5, 0.01, 0.02, -1, 1, 0, -0.25])),
+    'encoded data'
+  );
+
+  const decoded = layout.decode(data);
+  t.equal((decoded.particles as unknown[]).length, 2, 'element count from data length');
+  t.deepEqual(decoded.particles[1], particles[1], 'decoded element');
+
+  t.equal(layout.encode({particles}, 4).byteLength, 64, 'explicit element count');
+
+  const headerLayout = new StorageBufferLayout({count: 'u32', values: ['vec3<f32>']});
+  t.equal(headerLayout.runtimeArray.byteOffset, 16, 'runtime-sized array aligned after fixed members');
+  t.equal(headerLayout.encode({count: 2, values: [1, 2, 3, 4, 5, 6]}).byteLength, 48, 'flat values');
+  t.deepEqual(
+    headerLayout.decode(headerLayout.encode({count: 1, values: [[1, 2, 3]]})),
+    {count: 1, values: [[1, 2, 3]]},
+    'header and runtime-sized array round trip'
+  );
+
+  t.throws(
+    () => new StorageBufferLayout({values: ['f32'], count: 'u32'}),
+    /must be the last member/,
+    'runtime-sized array must be last'
+  );
+
+  t.end();
+});
+
+test('StorageBufferLayout#buffer read back', async t => {
+  const layout = new StorageBufferLayout({
+    particles: [{pos: 'vec2<f32>', vel: 'vec2<f32>'}]
+  });
+  const particles = [{pos: [1, 2], vel: [3, 4]}];
+
+  const buffer = nullDevice.createBuffer({
+    usage: Buffer.STORAGE | Buffer.COPY_SRC,
+    data: layout.encode({particles})
+  });
+  const {particles: readParticles} = layout.decode(await buffer.readAsync());
+  t.deepEqual(readParticles, particles, 'decoded buffer contents');
+
+  buffer.destroy();
+  t.end();
+});
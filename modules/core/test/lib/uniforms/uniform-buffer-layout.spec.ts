@@ -1,3 +1,106 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {UniformBufferLayout} from '@luma.gl/core';
+
+test('UniformBufferLayout#primitive types', t => {
+  const layout = new UniformBufferLayout({
+    f: 'f32',
+    v3: 'vec3<f32>',
+    i: 'i32',
+    v2: 'vec2<f32>',
+    m3: 'mat3x3<f32>',
+    u: 'u32'
+  });
+
+  t.deepEqual(layout.get('f'), {offset: 0, size: 1, type: 'f32', columns: 1, rows: 1, columnStride: 1}, 'f32');
+  t.equal(layout.get('v3').offset, 4, 'vec3 aligned to 16 bytes');
+  t.equal(layout.get('i').offset, 7, 'scalar packed after vec3');
+  t.equal(layout.get('v2').offset, 8, 'vec2 aligned to 8 bytes');
+  t.equal(layout.get('m3').offset, 12, 'matrix aligned to 16 bytes');
+  t.equal(layout.get('m3').size, 12, 'matrix columns padded to vec4');
+  t.equal(layout.get('u').offset, 24, 'scalar after matrix');
+
+  const data = new Float32Array(
+    layout.getData({v3: [1, 2, 3], m3: [1, 2, 3, 4, 5, 6, 7, 8, 9]}).buffer
+  );
+  t.deepEqual(Array.from(data.slice(4, 7)), [1, 2, 3], 'vec3 written');
+  t.deepEqual(
+    Array.from(data.slice(12, 24)),
+    [1, 2, 3, 0, 4, 5, 6, 0, 7, 8, 9, 0],
+    'matrix written column by column'
+  );
+  t.end();
+});
+
+test('UniformBufferLayout#arrays', t => {
+  const layout = new UniformBufferLayout({
+    count: 'i32',
+    values: ['f32', 3],
+    colors: ['vec3<f32>', 2],
+    after: 'f32'
+  });
+
+  t.equal(layout.get('values[0]').offset, 4, 'array aligned to 16 bytes');
+  t.equal(layout.get('values[1]').offset, 8, 'scalar array stride is 16 bytes');
+  t.equal(layout.get('colors[0]').offset, 16, 'array aligned to 16 bytes after array');
+  t.equal(layout.get('colors[1]').offset, 20, 'vec3 array stride is 16 bytes');
+  t.equal(layout.get('after').offset, 24, 'member after array aligned to 16 bytes');
+  t.ok(layout.has('colors'), 'has array');
+
+  let data = new Float32Array(layout.getData({values: [1, 2, 3], colors: [1, 2, 3, 4, 5, 6]}).buffer);
+  t.deepEqual([data[4], data[8], data[12]], [1, 2, 3], 'flat scalar array written');
+  t.deepEqual(Array.from(data.slice(16, 24)), [1, 2, 3, 0, 4, 5, 6, 0], 'flat vector array written');
+
+  data = new Float32Array(layout.getData({colors: [[7, 8, 9]], 'values[2]': 4}).buffer);
+  t.deepEqual(Array.from(data.slice(16, 19)), [7, 8, 9], 'nested vector array written');
+  t.equal(data[12], 4, 'path value written');
+  t.end();
+});
+
+test('UniformBufferLayout#structs', t => {
+  const MAX_LIGHTS = 3;
+  const layout = new UniformBufferLayout({
+    enabled: 'i32',
+    lights: [{type: 'i32', color: 'vec3<f32>', position: 'vec3<f32>', attenuation: 'f32'}, MAX_LIGHTS],
+    ambient: {color: 'vec3<f32>'}
+  });
+
+  t.equal(layout.get('lights[0].type').offset, 4, 'struct aligned to 16 bytes');
+  t.equal(layout.get('lights[0].color').offset, 8, 'vec3 member aligned');
+  t.equal(layout.get('lights[0].attenuation').offset, 15, 'scalar member packed after vec3');
+  t.equal(layout.get('lights[1].type').offset, 16, 'struct array stride');
+  t.equal(layout.get('ambient.color').offset, 4 + 12 * MAX_LIGHTS, 'struct after struct array');
+  t.equal(layout.byteLength, 1024, 'minimum buffer size');
+
+  const bytes = layout.getData({
+    enabled: 1,
+    lights: [{type: 1, color: [1, 0.5, 0], attenuation: 2}, {type: 2}],
+    ambient: {color: [0.1, 0.2, 0.3]}
+  });
+  const i32 = new Int32Array(bytes.buffer);
+  const f32 = new Float32Array(bytes.buffer);
+  t.equal(i32[0], 1, 'scalar written');
+  t.deepEqual([i32[4], i32[16]], [1, 2], 'struct array members written');
+  t.deepEqual(Array.from(f32.slice(8, 11)), [1, 0.5, 0], 'vec3 member written');
+  t.equal(f32[15], 2, 'packed scalar member written');
+  t.ok(Math.abs(f32[41] - 0.2) < 1e-6, 'nested struct member written');
+  t.end();
+});
+
+test('UniformBufferLayout#wgsl-uniform layout', t => {
+  const std140 = new UniformBufferLayout({m: 'mat2x2<f32>', f: 'f32'});
+  const wgsl = new UniformBufferLayout({m: 'mat2x2<f32>', f: 'f32'}, {layout: 'wgsl-uniform'});
+
+  t.equal(std140.get('f').offset, 8, 'std140 mat2x2 columns are 16 bytes');
+  t.equal(wgsl.get('f').offset, 4, 'WGSL mat2x2 columns are 8 bytes');
+
+  const data = new Float32Array(wgsl.getData({m: [1, 2, 3, 4]}).buffer);
+  t.deepEqual(Array.from(data.slice(0, 4)), [1, 2, 3, 4], 'WGSL matrix written');
+  t.end();
+});
+
 /*
 import test from 'tape-promise/tape';
 import {UniformBufferLayout, UniformBlock} from '@luma.gl/core';
@@ -0,0 +1,199 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {TypedArray} from '@luma.gl/core';
+import {Device, Buffer, uid} from '@luma.gl/core';
+
+export type AttributeManagerProps = {
+  id?: string;
+  /** Capacity of allocated buffers relative to the size of their data, leaving headroom to grow. Default 1.5 */
+  growthFactor?: number;
+};
+
+/** An attribute managed by the AttributeManager */
+type ManagedAttribute = {
+  /** CPU copy of the data, sized to the capacity of the buffer */
+  data: TypedArray;
+  /** Number of elements in use */
+  length: number;
+  /** GPU buffer, null until the first upload or after the capacity has grown */
+  buffer: Buffer | null;
+  /** First element that changed since the last upload */
+  dirtyStart: number;
+  /** End of the range of elements that changed since the last upload */
+  dirtyEnd: number;
+};
+
+/**
+ * Manages the buffers of frequently updated attributes, typically instanced attributes.
+ * - Keeps a CPU copy of every attribute, so that changes can be detected
+ * - Uploads only the range of elements that changed, with `Buffer.write(data, byteOffset)`
+ * - Allocates buffers with headroom, and reallocates them transparently when the data grows
+ * @note Set the manager on a model with `Model.setAttributeManager()` to upload and bind the buffers before each draw
+ */
+export class AttributeManager {
+  readonly device: Device;
+  readonly id: string;
+  readonly growthFactor: number;
+  /** Incremented when buffers are allocated, so that models know when to rebind them */
+  bufferVersion: number = 0;
+
+  protected attributes: Record<string, ManagedAttribute> = {};
+
+  constructor(device: Device, props: AttributeManagerProps = {}) {
+    this.device = device;
+    this.id = props.id || uid('attribute-manager');
+    this.growthFactor = Math.max(props.growthFactor ?? 1.5, 1);
+  }
+
+  destroy(): void {
+    for (const attribute of Object.values(this.attributes)) {
+      attribute.buffer?.destroy();
+    }
+    this.attributes = {};
+  }
+
+  /**
+   * Sets the complete data of attributes.
+   * The data is compared to the previous data, and only the range of elements that differ is uploaded
+   * @note The data is copied, so typed arrays can be reused and modified in place
+   */
+  setAttributes(attributes: Record<string, TypedArray>): void {
+    for (const [name, data] of Object.entries(attributes)) {
+      const attribute = this._getAttribute(name, data, data.length);
+      const [start, end] = getChangedRange(attribute.data, data, attribute.length);
+      attribute.data.set(data);
+      attribute.length = data.length;
+      if (start < end) {
+        this._invalidate(attribute, start, end);
+      }
+    }
+  }
+
+  /**
+   * Writes data into an attribute starting at element `offset`, growing the attribute if needed.
+   * Use when the changed range is known, to skip comparing data
+   */
+  updateAttribute(name: string, data: TypedArray, offset: number = 0): void {
+    const attribute = this._getAttribute(name, data, offset + data.length);
+    attribute.data.set(data, offset);
+    attribute.length = Math.max(attribute.length, offset + data.length);
+    this._invalidate(attribute, offset, offset + data.length);
+  }
+
+  /** Returns the number of elements of an attribute (not the number of vertices) */
+  getLength(name: string): number {
+    return this.attributes[name]?.length || 0;
+  }
+
+  /** Returns the buffer of an attribute. Call `update()` first */
+  getBuffer(name: string): Buffer | null {
+    return this.attributes[name]?.buffer || null;
+  }
+
+  /** Returns the buffers of all attributes. Call `update()` first */
+  getAttributes(): Record<string, Buffer> {
+    const buffers: Record<string, Buffer> = {};
+    for (const [name, attribute] of Object.entries(this.attributes)) {
+      if (attribute.buffer) {
+        buffers[name] = attribute.buffer;
+      }
+    }
+    return buffers;
+  }
+
+  /**
+   * Uploads changed data, allocating buffers where the capacity has grown
+   * @returns true if any buffer was allocated, i.e. buffers need to be rebound
+   */
+  update(): boolean {
+    let allocated = false;
+    for (const [name, attribute] of Object.entries(this.attributes)) {
+      const {data} = attribute;
+      if (!attribute.buffer || attribute.buffer.byteLength < data.byteLength) {
+        attribute.buffer?.destroy();
+        attribute.buffer = this.device.createBuffer({
+          id: `${this.id}-${name}`,
+          usage: Buffer.VERTEX | Buffer.COPY_DST,
+          byteLength: data.byteLength
+        });
+        attribute.dirtyStart = 0;
+        attribute.dirtyEnd = attribute.length;
+        allocated = true;
+      }
+
+      if (attribute.dirtyStart < attribute.dirtyEnd) {
+        attribute.buffer.write(
+          data.subarray(attribute.dirtyStart, attribute.dirtyEnd),
+          attribute.dirtyStart * data.BYTES_PER_ELEMENT
+        );
+      }
+      attribute.dirtyStart = Infinity;
+      attribute.dirtyEnd = 0;
+    }
+
+    if (allocated) {
+      this.bufferVersion++;
+    }
+    return allocated;
+  }
+
+  /** Gets an attribute with room for `length` elements of the type of `data`, reallocating the CPU copy if needed */
+  protected _getAttribute(name: string, data: TypedArray, length: number): ManagedAttribute {
+    let attribute = this.attributes[name];
+    if (!attribute) {
+      attribute = {data: null!, length: 0, buffer: null, dirtyStart: Infinity, dirtyEnd: 0};
+      this.attributes[name] = attribute;
+    }
+
+    const {data: previousData} = attribute;
+    if (!previousData || previousData.constructor !== data.constructor) {
+      attribute.data = allocate(data, Math.ceil(length * this.growthFactor));
+      attribute.length = 0;
+      // Replaces the buffer on next update
+      attribute.buffer?.destroy();
+      attribute.buffer = null;
+    } else if (previousData.length < length) {
+      attribute.data = allocate(data, Math.ceil(length * this.growthFactor));
+      attribute.data.set(previousData.subarray(0, attribute.length));
+    }
+    return attribute;
+  }
+
+  protected _invalidate(attribute: ManagedAttribute, start: number, end: number): void {
+    attribute.dirtyStart = Math.min(attribute.dirtyStart, start);
+    attribute.dirtyEnd = Math.max(attribute.dirtyEnd, end);
+  }
+}
+
+/** Creates a typed array of the same type as `data` */
+function allocate(data: TypedArray, length: number): TypedArray {
+  const TypedArrayConstructor = data.constructor as new (length: number) => TypedArray;
+  return new TypedArrayConstructor(length);
+}
+
+/**
+ * Returns the range of elements of `data` that differ from the first `length` elements of `previousData`.
+ * Elements beyond `length` are always part of the range.
+ */
+function getChangedRange(
+  previousData: TypedArray,
+  data: TypedArray,
+  length: number
+): [start: number, end: number] {
+  const compareLength = Math.min(length, data.length);
+  let start = 0;
+  while (start < compareLength && previousData[start] === data[start]) {
+    start++;
+  }
+  if (start === data.length) {
+    return [0, 0];
+  }
+  let end = data.length;
+  if (end <= compareLength) {
+    while (end > start && previousData[end - 1] === data[end - 1]) {
+      end--;
+    }
+  }
+  return [start, end];
+}
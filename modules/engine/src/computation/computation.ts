@@ -0,0 +1,169 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {ComputePipelineProps, ComputePass, Binding, ShaderLayout} from '@luma.gl/core';
+import {Device, ComputePipeline, UniformStore} from '@luma.gl/core';
+import {log, uid} from '@luma.gl/core';
+import type {ShaderModule} from '@luma.gl/shadertools';
+import {ShaderAssembler, getShaderLayoutFromWGSL} from '@luma.gl/shadertools';
+import {ShaderInputs} from '../shader-inputs';
+import {PipelineFactory} from '../lib/pipeline-factory';
+import {getPlatformInfo} from '../model/model';
+
+export type ComputationProps = Omit<ComputePipelineProps, 'cs'> & {
+  /** WGSL compute shader source */
+  source: string;
+  /** shadertool shader modules (added to shader code) */
+  modules?: ShaderModule[];
+
+  /** Shader inputs, used to generated uniform buffers and bindings */
+  shaderInputs?: ShaderInputs;
+  /** pipeline factory to use to create compute pipelines. Defaults to default factory for the device */
+  pipelineFactory?: PipelineFactory;
+  /** Shader assembler. Defaults to the ShaderAssembler.getShaderAssembler() */
+  shaderAssembler?: ShaderAssembler;
+
+  /** Buffers, Textures, Samplers for the shader bindings */
+  bindings?: Record<string, Binding>;
+};
+
+/**
+ * v9 Computation API
+ * A computation
+ * - assembles WGSL compute shaders with shadertools modules
+ * - manages uniform buffers for the modules through ShaderInputs
+ * - reuses compute pipelines when possible
+ */
+export class Computation {
+  static defaultProps: Required<ComputationProps> = {
+    ...ComputePipeline.defaultProps,
+    source: '',
+    id: 'unnamed',
+    handle: undefined,
+    userData: {},
+    modules: [],
+    bindings: {},
+
+    shaderInputs: undefined!,
+    pipelineFactory: undefined!,
+    shaderAssembler: ShaderAssembler.getDefaultShaderAssembler()
+  };
+
+  readonly device: Device;
+  readonly id: string;
+  /** The assembled compute shader source */
+  readonly source: string;
+  readonly pipelineFactory: PipelineFactory;
+  userData: {[key: string]: any} = {};
+
+  /** The bindings of the assembled compute shader */
+  readonly shaderLayout: ShaderLayout;
+  /** Bindings (storage buffers, uniform buffers, textures, samplers) */
+  bindings: Record<string, Binding> = {};
+
+  /** The underlying GPU compute pipeline. @note May be shared with other computations */
+  pipeline: ComputePipeline;
+
+  /** ShaderInputs instance */
+  shaderInputs: ShaderInputs;
+
+  _uniformStore: UniformStore;
+
+  private props: Required<ComputationProps>;
+
+  constructor(device: Device, props: ComputationProps) {
+    this.props = {...Computation.defaultProps, ...props};
+    props = this.props;
+    this.id = props.id || uid('computation');
+    this.device = device;
+
+    Object.assign(this.userData, props.userData);
+
+    // Setup shader module inputs
+    const moduleMap = Object.fromEntries(
+      this.props.modules?.map(module => [module.name, module]) || []
+    );
+    this.setShaderInputs(props.shaderInputs || new ShaderInputs(moduleMap));
+
+    // Setup shader assembler. Compute shaders are always WGSL
+    const platformInfo = {...getPlatformInfo(device), shaderLanguage: 'wgsl' as const};
+    const modules =
+      (this.props.modules?.length > 0 ? this.props.modules : this.shaderInputs?.getModules()) || [];
+    const {cs} = this.props.shaderAssembler.assembleComputeShader({
+      platformInfo,
+      source: this.props.source,
+      modules
+    });
+    this.source = cs;
+
+    // Reflect the layout, module uniform structs are only known after assembly
+    this.shaderLayout = getShaderLayoutFromWGSL(this.source, {
+      computeEntryPoint: this.props.csEntryPoint
+    });
+
+    this.pipelineFactory =
+      props.pipelineFactory || PipelineFactory.getDefaultPipelineFactory(this.device);
+    this.pipeline = this.pipelineFactory.createComputePipeline({
+      ...this.props,
+      shaderLayout: this.props.shaderLayout || this.shaderLayout,
+      cs: this.source
+    });
+
+    if (props.bindings) {
+      this.setBindings(props.bindings);
+    }
+
+    // Catch any access to non-standard props
+    Object.seal(this);
+  }
+
+  destroy(): void {
+    this.pipelineFactory.release(this.pipeline);
+    this._uniformStore.destroy();
+  }
+
+  // Dispatch call
+
+  predispatch() {
+    // Update uniform buffers if needed
+    this.updateShaderInputs();
+  }
+
+  /**
+   * Runs the computation in a compute pass
+   * @param x X dimension of the grid of workgroups to dispatch.
+   * @param y Y dimension of the grid of workgroups to dispatch.
+   * @param z Z dimension of the grid of workgroups to dispatch.
+   */
+  dispatch(computePass: ComputePass, x: number, y: number = 1, z: number = 1): void {
+    this.predispatch();
+
+    log.log(2, `Computation ${this.id}: dispatch(${x}, ${y}, ${z})`)();
+
+    // The pipeline may be shared so we need to set all state on every dispatch
+    computePass.setPipeline(this.pipeline);
+    computePass.setBindings({...this.shaderInputs.getBindings(), ...this.bindings});
+    computePass.dispatch(x, y, z);
+  }
+
+  setShaderInputs(shaderInputs: ShaderInputs): void {
+    this.shaderInputs = shaderInputs;
+    this._uniformStore = new UniformStore(this.shaderInputs.modules);
+    // Create uniform buffer bindings for all modules
+    for (const moduleName of Object.keys(this.shaderInputs.modules)) {
+      const uniformBuffer = this._uniformStore.getManagedUniformBuffer(this.device, moduleName);
+      this.bindings[`${moduleName}Uniforms`] = uniformBuffer;
+    }
+  }
+
+  updateShaderInputs(): void {
+    this._uniformStore.setUniforms(this.shaderInputs.getUniformValues());
+  }
+
+  /**
+   * Sets bindings (storage buffers, uniform buffers, textures, samplers)
+   */
+  setBindings(bindings: Record<string, Binding>): void {
+    Object.assign(this.bindings, bindings);
+  }
+}
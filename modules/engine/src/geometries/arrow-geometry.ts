@@ -0,0 +1,61 @@
+import {uid} from '@luma.gl/core';
+import {Geometry} from '../geometry/geometry';
+import type {LathePoint} from './lathe';
+import {tesselateLathe} from './lathe';
+
+export type ArrowGeometryProps = {
+  id?: string;
+  /** Total length of the arrow, from its base to its tip */
+  length?: number;
+  /** Radius of the shaft */
+  shaftRadius?: number;
+  /** Radius of the base of the head */
+  headRadius?: number;
+  /** Length of the head */
+  headLength?: number;
+  /** Number of segments around the axis */
+  nradial?: number;
+  attributes?: any;
+};
+
+/** An arrow along the y axis, with a cylindrical shaft and a conical head, starting at the origin */
+export class ArrowGeometry extends Geometry {
+  constructor(props: ArrowGeometryProps = {}) {
+    const {id = uid('arrow-geometry')} = props;
+    const {indices, attributes} = tesselateArrow(props);
+    super({
+      ...props,
+      id,
+      topology: 'triangle-list',
+      indices,
+      attributes: {...attributes, ...props.attributes}
+    });
+  }
+}
+
+function tesselateArrow(props: ArrowGeometryProps) {
+  const {length = 1, shaftRadius = 0.05, headRadius = 0.1, headLength = 0.25, nradial = 16} = props;
+  const shaftLength = Math.max(length - headLength, 0);
+
+  // Normal of the slant of the head
+  const slant = Math.hypot(headLength, headRadius) || 1;
+  const headNormal = [headLength / slant, headRadius / slant];
+
+  // Points are repeated with different normals at hard edges
+  const profile: LathePoint[] = [
+    // Base
+    [0, 0, 0, -1],
+    [shaftRadius, 0, 0, -1],
+    // Shaft
+    [shaftRadius, 0, 1, 0],
+    [shaftRadius, shaftLength, 1, 0],
+    // Base of the head
+    [shaftRadius, shaftLength, 0, -1],
+    [headRadius, shaftLength, 0, -1],
+    // Head
+    [headRadius, shaftLength, headNormal[0], headNormal[1]],
+    [0, length, headNormal[0], headNormal[1]]
+  ];
+
+  return tesselateLathe(profile, nradial);
+}
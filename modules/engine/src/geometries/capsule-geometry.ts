@@ -0,0 +1,61 @@
+import {uid} from '@luma.gl/core';
+import {Geometry} from '../geometry/geometry';
+import type {LathePoint} from './lathe';
+import {tesselateLathe} from './lathe';
+
+export type CapsuleGeometryProps = {
+  id?: string;
+  /** Radius of the cylinder and of the hemispherical caps */
+  radius?: number;
+  /** Height of the cylinder, excluding the caps */
+  height?: number;
+  /** Number of segments around the axis */
+  nradial?: number;
+  /** Number of segments from the equator to the pole of each cap */
+  ncap?: number;
+  /** Number of segments along the cylinder */
+  nvertical?: number;
+  attributes?: any;
+};
+
+/** A cylinder along the y axis capped with hemispheres, centered on the origin */
+export class CapsuleGeometry extends Geometry {
+  constructor(props: CapsuleGeometryProps = {}) {
+    const {id = uid('capsule-geometry')} = props;
+    const {indices, attributes} = tesselateCapsule(props);
+    super({
+      ...props,
+      id,
+      topology: 'triangle-list',
+      indices,
+      attributes: {...attributes, ...props.attributes}
+    });
+  }
+}
+
+function tesselateCapsule(props: CapsuleGeometryProps) {
+  const {radius = 0.5, height = 1, nradial = 16, ncap = 8, nvertical = 1} = props;
+  const halfHeight = height / 2;
+
+  const profile: LathePoint[] = [];
+  // Bottom cap, from the pole to the equator
+  for (let i = 0; i < ncap; i++) {
+    const angle = (i / ncap - 1) * (Math.PI / 2);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    profile.push([radius * cos, -halfHeight + radius * sin, cos, sin]);
+  }
+  // Cylinder
+  for (let i = 0; i <= nvertical; i++) {
+    profile.push([radius, -halfHeight + (i / nvertical) * height, 1, 0]);
+  }
+  // Top cap, from the equator to the pole
+  for (let i = 1; i <= ncap; i++) {
+    const angle = (i / ncap) * (Math.PI / 2);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    profile.push([radius * cos, halfHeight + radius * sin, cos, sin]);
+  }
+
+  return tesselateLathe(profile, nradial);
+}
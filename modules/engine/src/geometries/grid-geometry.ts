@@ -0,0 +1,94 @@
+import {uid} from '@luma.gl/core';
+import {Geometry} from '../geometry/geometry';
+
+export type GridGeometryProps = {
+  id?: string;
+  /** Extent of the grid along the x and z axes */
+  size?: number;
+  /** Distance between lines */
+  minorSpacing?: number;
+  /** Distance between major lines, a multiple of `minorSpacing` */
+  majorSpacing?: number;
+  /** COLOR_0 of minor lines */
+  minorColor?: number[];
+  /** COLOR_0 of major lines, including the axes */
+  majorColor?: number[];
+  attributes?: any;
+};
+
+/**
+ * A grid of lines in the xz plane, centered on the origin.
+ * Lines every `majorSpacing` are colored with `majorColor`.
+ */
+export class GridGeometry extends Geometry {
+  constructor(props: GridGeometryProps = {}) {
+    const {id = uid('grid-geometry')} = props;
+    const {indices, attributes} = tesselateGrid(props);
+    super({
+      ...props,
+      id,
+      topology: 'line-list',
+      indices,
+      attributes: {...attributes, ...props.attributes}
+    });
+  }
+}
+
+/* eslint-disable max-statements */
+function tesselateGrid(props: GridGeometryProps) {
+  const {
+    size = 10,
+    minorSpacing = 1,
+    majorSpacing = 5,
+    minorColor = [0.5, 0.5, 0.5, 1],
+    majorColor = [0.25, 0.25, 0.25, 1]
+  } = props;
+
+  const halfSize = size / 2;
+  // Lines on each side of the axes
+  const count = Math.floor(halfSize / minorSpacing + 1e-6);
+  const linesPerDirection = count * 2 + 1;
+  // 2 directions, 2 vertices per line
+  const numVertices = linesPerDirection * 4;
+
+  const positions = new Float32Array(numVertices * 3);
+  const normals = new Float32Array(numVertices * 3);
+  const texCoords = new Float32Array(numVertices * 2);
+  const colors = new Float32Array(numVertices * 4);
+
+  const IndexType = numVertices > 0xffff ? Uint32Array : Uint16Array;
+  const indices = new IndexType(numVertices);
+
+  let vertex = 0;
+  const addVertex = (x: number, z: number, color: number[]) => {
+    positions.set([x, 0, z], vertex * 3);
+    normals.set([0, 1, 0], vertex * 3);
+    texCoords.set([x / size + 0.5, 0.5 - z / size], vertex * 2);
+    colors.set(color, vertex * 4);
+    indices[vertex] = vertex;
+    vertex++;
+  };
+
+  for (let i = -count; i <= count; i++) {
+    const offset = i * minorSpacing;
+    const majorRatio = offset / majorSpacing;
+    const isMajor = Math.abs(majorRatio - Math.round(majorRatio)) < 1e-6;
+    const color = isMajor ? majorColor : minorColor;
+    // Line parallel to the z axis
+    addVertex(offset, -halfSize, color);
+    addVertex(offset, halfSize, color);
+    // Line parallel to the x axis
+    addVertex(-halfSize, offset, color);
+    addVertex(halfSize, offset, color);
+  }
+
+  return {
+    indices: {size: 1, value: indices},
+    attributes: {
+      POSITION: {size: 3, value: positions},
+      NORMAL: {size: 3, value: normals},
+      TEXCOORD_0: {size: 2, value: texCoords},
+      COLOR_0: {size: 4, value: colors}
+    }
+  };
+}
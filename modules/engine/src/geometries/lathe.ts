@@ -0,0 +1,81 @@
+/**
+ * A point of the profile of a surface of revolution, in the plane of the y axis
+ * @param radius Distance from the y axis
+ * @param y Height
+ * @param normalRadius Radial component of the normal
+ * @param normalY Vertical component of the normal
+ */
+export type LathePoint = [radius: number, y: number, normalRadius: number, normalY: number];
+
+/**
+ * Revolves a profile around the y axis, creating a ring of vertices per profile point.
+ * The profile runs bottom to top with outward normals on its right, as seen from outside.
+ * Repeat a point with different normals to create a hard edge.
+ * @note texture coordinate u runs around the axis, v along the profile, by arc length
+ */
+export function tesselateLathe(profile: LathePoint[], nradial: number, arc = 2 * Math.PI) {
+  const vertsAroundEdge = nradial + 1;
+  const numVertices = profile.length * vertsAroundEdge;
+
+  const positions = new Float32Array(numVertices * 3);
+  const normals = new Float32Array(numVertices * 3);
+  const texCoords = new Float32Array(numVertices * 2);
+
+  const IndexType = numVertices > 0xffff ? Uint32Array : Uint16Array;
+  const indices = new IndexType((profile.length - 1) * nradial * 6);
+
+  // Arc length along the profile
+  const distances = [0];
+  for (let i = 1; i < profile.length; i++) {
+    const [r0, y0] = profile[i - 1];
+    const [r1, y1] = profile[i];
+    distances.push(distances[i - 1] + Math.hypot(r1 - r0, y1 - y0));
+  }
+  const length = distances[distances.length - 1] || 1;
+
+  let i3 = 0;
+  let i2 = 0;
+  for (let i = 0; i < profile.length; i++) {
+    const [radius, y, normalRadius, normalY] = profile[i];
+    for (let j = 0; j < vertsAroundEdge; j++) {
+      const angle = (j * arc) / nradial;
+      const sin = Math.sin(angle);
+      const cos = Math.cos(angle);
+
+      positions[i3 + 0] = sin * radius;
+      positions[i3 + 1] = y;
+      positions[i3 + 2] = cos * radius;
+
+      normals[i3 + 0] = sin * normalRadius;
+      normals[i3 + 1] = normalY;
+      normals[i3 + 2] = cos * normalRadius;
+
+      texCoords[i2 + 0] = j / nradial;
+      texCoords[i2 + 1] = distances[i] / length;
+
+      i3 += 3;
+      i2 += 2;
+    }
+  }
+
+  for (let i = 0; i < profile.length - 1; i++) {
+    for (let j = 0; j < nradial; j++) {
+      const index = (i * nradial + j) * 6;
+      indices[index + 0] = vertsAroundEdge * (i + 0) + 0 + j;
+      indices[index + 1] = vertsAroundEdge * (i + 0) + 1 + j;
+      indices[index + 2] = vertsAroundEdge * (i + 1) + 1 + j;
+      indices[index + 3] = vertsAroundEdge * (i + 0) + 0 + j;
+      indices[index + 4] = vertsAroundEdge * (i + 1) + 1 + j;
+      indices[index + 5] = vertsAroundEdge * (i + 1) + 0 + j;
+    }
+  }
+
+  return {
+    indices: {size: 1, value: indices},
+    attributes: {
+      POSITION: {size: 3, value: positions},
+      NORMAL: {size: 3, value: normals},
+      TEXCOORD_0: {size: 2, value: texCoords}
+    }
+  };
+}
@@ -0,0 +1,288 @@
+import {uid, assert} from '@luma.gl/core';
+import {Geometry} from '../geometry/geometry';
+
+export type PolygonExtrusionGeometryProps = {
+  id?: string;
+  /**
+   * Polygon in the xy plane: a ring of [x, y] points, or an outer ring followed by holes.
+   * Rings may be in either winding order, and should not repeat their first point
+   */
+  polygon: number[][] | number[][][];
+  /** Extent of the extrusion along the z axis, from z = 0 */
+  depth?: number;
+  /** Whether to close the extrusion at z = depth */
+  topCap?: boolean;
+  /** Whether to close the extrusion at z = 0 */
+  bottomCap?: boolean;
+  attributes?: any;
+};
+
+/**
+ * A 2D polygon with holes, extruded along the z axis.
+ * Caps are triangulated, and sides have a hard edge at every vertex of the polygon.
+ */
+export class PolygonExtrusionGeometry extends Geometry {
+  constructor(props: PolygonExtrusionGeometryProps) {
+    const {id = uid('polygon-extrusion-geometry')} = props;
+    const {indices, attributes} = tesselatePolygonExtrusion(props);
+    super({
+      ...props,
+      id,
+      topology: 'triangle-list',
+      indices,
+      attributes: {...attributes, ...props.attributes}
+    });
+  }
+}
+
+/* eslint-disable max-statements */
+function tesselatePolygonExtrusion(props: PolygonExtrusionGeometryProps) {
+  const {depth = 1, topCap = true, bottomCap = true} = props;
+  const rings = normalizeRings(props.polygon);
+  const capIndices = topCap || bottomCap ? triangulatePolygon(rings) : [];
+
+  const ringPoints = rings.flat();
+  const perimeter = rings.reduce((sum, ring) => sum + ring.length, 0);
+  const numVertices = (topCap ? ringPoints.length : 0) + (bottomCap ? ringPoints.length : 0) + perimeter * 4;
+
+  const positions = new Float32Array(numVertices * 3);
+  const normals = new Float32Array(numVertices * 3);
+  const texCoords = new Float32Array(numVertices * 2);
+
+  const IndexType = numVertices > 0xffff ? Uint32Array : Uint16Array;
+  const indices = new IndexType((topCap ? capIndices.length : 0) + (bottomCap ? capIndices.length : 0) + perimeter * 6);
+
+  // Caps are textured with the bounding box of the polygon
+  const min = [Infinity, Infinity];
+  const max = [-Infinity, -Infinity];
+  for (const [x, y] of ringPoints) {
+    min[0] = Math.min(min[0], x);
+    min[1] = Math.min(min[1], y);
+    max[0] = Math.max(max[0], x);
+    max[1] = Math.max(max[1], y);
+  }
+  const extent = [max[0] - min[0] || 1, max[1] - min[1] || 1];
+
+  let vertex = 0;
+  let index = 0;
+  const addVertex = (x: number, y: number, z: number, normal: number[], u: number, v: number) => {
+    positions.set([x, y, z], vertex * 3);
+    normals.set(normal, vertex * 3);
+    texCoords.set([u, v], vertex * 2);
+    return vertex++;
+  };
+
+  for (const [z, cap, normal] of [
+    [depth, topCap, [0, 0, 1]],
+    [0, bottomCap, [0, 0, -1]]
+  ] as [number, boolean, number[]][]) {
+    if (cap) {
+      const firstVertex = vertex;
+      for (const [x, y] of ringPoints) {
+        addVertex(x, y, z, normal, (x - min[0]) / extent[0], (y - min[1]) / extent[1]);
+      }
+      for (let i = 0; i < capIndices.length; i += 3) {
+        // Triangles are counterclockwise seen from +z, the bottom cap faces -z
+        const [a, b, c] = capIndices.slice(i, i + 3).map(capIndex => capIndex + firstVertex);
+        indices.set(normal[2] > 0 ? [a, b, c] : [a, c, b], index);
+        index += 3;
+      }
+    }
+  }
+
+  for (const ring of rings) {
+    let distance = 0;
+    const ringLength = ring.reduce(
+      (sum, point, i) => sum + Math.hypot(...subtract(ring[(i + 1) % ring.length], point)),
+      0
+    );
+    for (let i = 0; i < ring.length; i++) {
+      const [x0, y0] = ring[i];
+      const [x1, y1] = ring[(i + 1) % ring.length];
+      const edgeLength = Math.hypot(x1 - x0, y1 - y0) || 1;
+      // Outer rings are counterclockwise and holes clockwise, so the outside is on the right
+      const normal = [(y1 - y0) / edgeLength, -(x1 - x0) / edgeLength, 0];
+      const u0 = distance / ringLength;
+      distance += edgeLength;
+      const u1 = distance / ringLength;
+
+      const a = addVertex(x0, y0, 0, normal, u0, 0);
+      const b = addVertex(x1, y1, 0, normal, u1, 0);
+      const c = addVertex(x1, y1, depth, normal, u1, 1);
+      const d = addVertex(x0, y0, depth, normal, u0, 1);
+      indices.set([a, b, c, a, c, d], index);
+      index += 6;
+    }
+  }
+
+  return {
+    indices: {size: 1, value: indices},
+    attributes: {
+      POSITION: {size: 3, value: positions},
+      NORMAL: {size: 3, value: normals},
+      TEXCOORD_0: {size: 2, value: texCoords}
+    }
+  };
+}
+
+/** Returns the rings of a polygon, the outer ring counterclockwise and holes clockwise */
+function normalizeRings(polygon: number[][] | number[][][]): number[][][] {
+  const rings = (typeof polygon[0]?.[0] === 'number' ? [polygon] : polygon) as number[][][];
+  assert(rings.length > 0 && rings[0].length >= 3, 'PolygonExtrusionGeometry: polygon needs 3 points');
+  return rings.map((ring, i) => {
+    const counterClockwise = getSignedArea(ring) > 0;
+    return counterClockwise === (i === 0) ? ring : ring.slice().reverse();
+  });
+}
+
+/**
+ * Triangulates a polygon with holes by ear clipping, after bridging each hole to the outer ring.
+ * @param rings the outer ring counterclockwise, followed by clockwise holes
+ * @returns counterclockwise triangles, as indices into the concatenated points of the rings
+ */
+function triangulatePolygon(rings: number[][][]): number[] {
+  const points = rings.flat();
+  const ringIndices: number[][] = [];
+  let offset = 0;
+  for (const ring of rings) {
+    ringIndices.push(ring.map((_, i) => offset + i));
+    offset += ring.length;
+  }
+
+  // Bridge holes, rightmost first, so that bridges do not cross later holes
+  let outline = ringIndices[0];
+  const holes = ringIndices.slice(1).sort((a, b) => getMaxX(points, b) - getMaxX(points, a));
+  for (const hole of holes) {
+    outline = bridgeHole(points, outline, hole);
+  }
+
+  const triangles: number[] = [];
+  const remaining = outline.slice();
+  while (remaining.length > 3) {
+    const ear = findEar(points, remaining);
+    const n = remaining.length;
+    triangles.push(remaining[(ear + n - 1) % n], remaining[ear], remaining[(ear + 1) % n]);
+    remaining.splice(ear, 1);
+  }
+  triangles.push(...remaining);
+  return triangles;
+}
+
+/** Splices a hole into the outline, with a bridge from its rightmost point to a visible outline point */
+function bridgeHole(points: number[][], outline: number[], hole: number[]): number[] {
+  let holeStart = 0;
+  for (let i = 1; i < hole.length; i++) {
+    if (points[hole[i]][0] > points[hole[holeStart]][0]) {
+      holeStart = i;
+    }
+  }
+  const holePoint = points[hole[holeStart]];
+
+  // The closest outline point that the bridge reaches without crossing an edge
+  let bridgeEnd = -1;
+  let bestDistance = Infinity;
+  for (let i = 0; i < outline.length; i++) {
+    const distance = Math.hypot(...subtract(points[outline[i]], holePoint));
+    const outlinePoint = points[outline[i]];
+    if (
+      distance < bestDistance &&
+      !crossesEdges(points, outline, holePoint, outlinePoint) &&
+      !crossesEdges(points, hole, holePoint, outlinePoint)
+    ) {
+      bestDistance = distance;
+      bridgeEnd = i;
+    }
+  }
+  assert(bridgeEnd >= 0, 'PolygonExtrusionGeometry: hole is not inside the polygon');
+
+  // outline up to the bridge, around the hole and back, then the rest of the outline
+  const holeLoop = [...hole.slice(holeStart), ...hole.slice(0, holeStart), hole[holeStart]];
+  return [
+    ...outline.slice(0, bridgeEnd + 1),
+    ...holeLoop,
+    ...outline.slice(bridgeEnd)
+  ];
+}
+
+/** Finds a vertex of the outline whose triangle with its neighbors is convex and contains no other vertex */
+function findEar(points: number[][], outline: number[]): number {
+  const n = outline.length;
+  let fallback = -1;
+  for (let i = 0; i < n; i++) {
+    const a = points[outline[(i + n - 1) % n]];
+    const b = points[outline[i]];
+    const c = points[outline[(i + 1) % n]];
+    const area = cross(subtract(b, a), subtract(c, a));
+    if (area <= 0) {
+      // Reflex or degenerate vertex. Clipping a degenerate vertex adds an empty triangle
+      if (area === 0 && fallback < 0) {
+        fallback = i;
+      }
+      continue; // eslint-disable-line no-continue
+    }
+    let isEar = true;
+    for (let j = 0; j < n && isEar; j++) {
+      const p = points[outline[j]];
+      // Points repeated by bridges coincide with the triangle's vertices
+      if (p !== a && p !== b && p !== c && !equals(p, a) && !equals(p, b) && !equals(p, c)) {
+        isEar = !isInTriangle(p, a, b, c);
+      }
+    }
+    if (isEar) {
+      return i;
+    }
+  }
+  // Self-intersecting or degenerate outlines have no ears, clip a vertex to make progress
+  return Math.max(fallback, 0);
+}
+
+function crossesEdges(points: number[][], outline: number[], p: number[], q: number[]): boolean {
+  for (let i = 0; i < outline.length; i++) {
+    const a = points[outline[i]];
+    const b = points[outline[(i + 1) % outline.length]];
+    if (!equals(a, q) && !equals(b, q) && segmentsIntersect(p, q, a, b)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function segmentsIntersect(p: number[], q: number[], a: number[], b: number[]): boolean {
+  const d1 = cross(subtract(q, p), subtract(a, p));
+  const d2 = cross(subtract(q, p), subtract(b, p));
+  const d3 = cross(subtract(b, a), subtract(p, a));
+  const d4 = cross(subtract(b, a), subtract(q, a));
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+function isInTriangle(p: number[], a: number[], b: number[], c: number[]): boolean {
+  return (
+    cross(subtract(b, a), subtract(p, a)) >= 0 &&
+    cross(subtract(c, b), subtract(p, b)) >= 0 &&
+    cross(subtract(a, c), subtract(p, c)) >= 0
+  );
+}
+
+function getSignedArea(ring: number[][]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    area += cross(ring[i], ring[(i + 1) % ring.length]);
+  }
+  return area / 2;
+}
+
+function getMaxX(points: number[][], ring: number[]): number {
+  return Math.max(...ring.map(i => points[i][0]));
+}
+
+function subtract(a: number[], b: number[]): [number, number] {
+  return [a[0] - b[0], a[1] - b[1]];
+}
+
+function cross(a: number[], b: number[]): number {
+  return a[0] * b[1] - a[1] * b[0];
+}
+
+function equals(a: number[], b: number[]): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
@@ -0,0 +1,136 @@
+import {uid} from '@luma.gl/core';
+import {Geometry} from '../geometry/geometry';
+
+export type RoundedBoxGeometryProps = {
+  id?: string;
+  /** Extent along the x axis */
+  width?: number;
+  /** Extent along the y axis */
+  height?: number;
+  /** Extent along the z axis */
+  depth?: number;
+  /** Radius of the rounded edges and corners, clamped to half of the smallest extent */
+  radius?: number;
+  /** Number of segments of each rounded edge */
+  nsegments?: number;
+  attributes?: any;
+};
+
+/**
+ * The faces of the box: the normal, and the u and v directions of the face, with cross(u, v) = normal.
+ * Axes are given as [axis index, sign].
+ */
+const FACES: {normal: [number, number]; u: [number, number]; v: [number, number]}[] = [
+  {normal: [0, 1], u: [2, -1], v: [1, 1]},
+  {normal: [0, -1], u: [2, 1], v: [1, 1]},
+  {normal: [1, 1], u: [0, 1], v: [2, -1]},
+  {normal: [1, -1], u: [0, 1], v: [2, 1]},
+  {normal: [2, 1], u: [0, 1], v: [1, 1]},
+  {normal: [2, -1], u: [0, -1], v: [1, 1]}
+];
+
+/** A box centered on the origin, with rounded edges and corners */
+export class RoundedBoxGeometry extends Geometry {
+  constructor(props: RoundedBoxGeometryProps = {}) {
+    const {id = uid('rounded-box-geometry')} = props;
+    const {indices, attributes} = tesselateRoundedBox(props);
+    super({
+      ...props,
+      id,
+      topology: 'triangle-list',
+      indices,
+      attributes: {...attributes, ...props.attributes}
+    });
+  }
+}
+
+/* eslint-disable max-statements */
+function tesselateRoundedBox(props: RoundedBoxGeometryProps) {
+  const {width = 1, height = 1, depth = 1, nsegments = 4} = props;
+  const halfSize = [width / 2, height / 2, depth / 2];
+  const radius = Math.min(props.radius ?? 0.1, ...halfSize);
+  // The rounded surface is offset by `radius` from this inner box
+  const innerHalfSize = halfSize.map(half => half - radius);
+
+  // Coordinates along each axis, with vertices spaced by angle on the rounded edges
+  const coordinates = halfSize.map((half, axis) => {
+    const inner = innerHalfSize[axis];
+    const values: number[] = [];
+    for (let i = 0; i <= nsegments; i++) {
+      values.push(-inner - radius * Math.cos(((i / nsegments) * Math.PI) / 2));
+    }
+    for (let i = nsegments; i >= 0; i--) {
+      values.push(inner + radius * Math.cos(((i / nsegments) * Math.PI) / 2));
+    }
+    return values;
+  });
+
+  const verticesPerFace = coordinates[0].length * coordinates[0].length;
+  const numVertices = FACES.length * verticesPerFace;
+  const positions = new Float32Array(numVertices * 3);
+  const normals = new Float32Array(numVertices * 3);
+  const texCoords = new Float32Array(numVertices * 2);
+
+  const IndexType = numVertices > 0xffff ? Uint32Array : Uint16Array;
+  const quadsPerFace = (coordinates[0].length - 1) ** 2;
+  const indices = new IndexType(FACES.length * quadsPerFace * 6);
+
+  let vertex = 0;
+  let index = 0;
+  const point = [0, 0, 0];
+  const normal = [0, 0, 0];
+  for (const face of FACES) {
+    const [normalAxis, normalSign] = face.normal;
+    const [uAxis, uSign] = face.u;
+    const [vAxis, vSign] = face.v;
+    const us = coordinates[uAxis];
+    const vs = coordinates[vAxis];
+    const firstVertex = vertex;
+
+    for (let j = 0; j < vs.length; j++) {
+      for (let i = 0; i < us.length; i++) {
+        point[normalAxis] = normalSign * halfSize[normalAxis];
+        point[uAxis] = uSign * us[i];
+        point[vAxis] = vSign * vs[j];
+
+        // Project the point of the box onto the rounded surface around the inner box
+        let length = 0;
+        for (let axis = 0; axis < 3; axis++) {
+          const inner = innerHalfSize[axis];
+          const clamped = Math.min(Math.max(point[axis], -inner), inner);
+          normal[axis] = point[axis] - clamped;
+          point[axis] = clamped;
+          length += normal[axis] * normal[axis];
+        }
+        length = Math.sqrt(length);
+        for (let axis = 0; axis < 3; axis++) {
+          normal[axis] = length > 0 ? normal[axis] / length : axis === normalAxis ? normalSign : 0;
+          point[axis] += normal[axis] * radius;
+        }
+
+        positions.set(point, vertex * 3);
+        normals.set(normal, vertex * 3);
+        texCoords.set([i / (us.length - 1), j / (vs.length - 1)], vertex * 2);
+        vertex++;
+      }
+    }
+
+    for (let j = 0; j < vs.length - 1; j++) {
+      for (let i = 0; i < us.length - 1; i++) {
+        const a = firstVertex + j * us.length + i;
+        const b = a + us.length;
+        indices.set([a, a + 1, b + 1, a, b + 1, b], index);
+        index += 6;
+      }
+    }
+  }
+
+  return {
+    indices: {size: 1, value: indices},
+    attributes: {
+      POSITION: {size: 3, value: positions},
+      NORMAL: {size: 3, value: normals},
+      TEXCOORD_0: {size: 2, value: texCoords}
+    }
+  };
+}
@@ -0,0 +1,49 @@
+import {uid} from '@luma.gl/core';
+import {Geometry} from '../geometry/geometry';
+import type {LathePoint} from './lathe';
+import {tesselateLathe} from './lathe';
+
+export type TorusGeometryProps = {
+  id?: string;
+  /** Distance from the center of the torus to the center of the tube */
+  radius?: number;
+  /** Radius of the tube */
+  tubeRadius?: number;
+  /** Number of segments around the axis of the torus */
+  nradial?: number;
+  /** Number of segments around the tube */
+  ntubular?: number;
+  /** Angle around the axis of the torus, for partial tori */
+  arc?: number;
+  attributes?: any;
+};
+
+/** A torus around the y axis */
+export class TorusGeometry extends Geometry {
+  constructor(props: TorusGeometryProps = {}) {
+    const {id = uid('torus-geometry')} = props;
+    const {indices, attributes} = tesselateTorus(props);
+    super({
+      ...props,
+      id,
+      topology: 'triangle-list',
+      indices,
+      attributes: {...attributes, ...props.attributes}
+    });
+  }
+}
+
+function tesselateTorus(props: TorusGeometryProps) {
+  const {radius = 1, tubeRadius = 0.25, nradial = 32, ntubular = 16, arc = 2 * Math.PI} = props;
+
+  // The profile is the circle of the tube, starting and ending on the outside
+  const profile: LathePoint[] = [];
+  for (let i = 0; i <= ntubular; i++) {
+    const angle = (i / ntubular) * 2 * Math.PI;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    profile.push([radius + tubeRadius * cos, tubeRadius * sin, cos, sin]);
+  }
+
+  return tesselateLathe(profile, nradial, arc);
+}
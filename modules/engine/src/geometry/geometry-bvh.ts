@@ -0,0 +1,208 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {TypedArray} from '@luma.gl/core';
+import {assert} from '@luma.gl/core';
+import type {Geometry} from './geometry';
+import {convertToList} from './geometry-utils';
+import type {Ray, RaycastOptions} from './ray-intersection';
+import {intersectRayAABB, intersectRayTriangle} from './ray-intersection';
+
+export type GeometryBVHProps = {
+  /** Largest number of triangles in a leaf node. Default 8 */
+  maxTrianglesPerLeaf?: number;
+};
+
+/** Intersection of a ray with a triangle of a geometry */
+export type GeometryRayHit = {
+  /** Distance along the ray */
+  distance: number;
+  /** Intersection point */
+  point: [number, number, number];
+  /** Index of the triangle, in the triangle list of the geometry */
+  faceIndex: number;
+  /** Barycentric coordinates of the intersection relative to the vertices of the triangle */
+  barycentric: [u: number, v: number];
+};
+
+/** A node of the hierarchy, a leaf when it has no children */
+type BVHNode = {
+  bounds: [number[], number[]];
+  /** First triangle of the node in `BVH.triangles` */
+  start: number;
+  /** Number of triangles in the node */
+  count: number;
+  left: BVHNode | null;
+  right: BVHNode | null;
+};
+
+/**
+ * Bounding volume hierarchy over the triangles of a geometry, for raycasting on the CPU.
+ * Nodes are split at the median of the triangle centroids along their longest axis.
+ * @note Strips and fans are converted to lists. The hierarchy is not updated if the positions change
+ */
+export class GeometryBVH {
+  readonly geometry: Geometry;
+
+  protected positions: TypedArray;
+  /** Vertex indices of each triangle */
+  protected indices: ArrayLike<number>;
+  /** Triangle indices, ordered so that each node covers a contiguous range */
+  protected triangles: Uint32Array;
+  protected root: BVHNode;
+
+  constructor(geometry: Geometry, props: GeometryBVHProps = {}) {
+    const {maxTrianglesPerLeaf = 8} = props;
+    this.geometry = geometry;
+
+    const triangleGeometry = convertToList(geometry);
+    const {POSITION} = triangleGeometry.attributes;
+    assert(
+      triangleGeometry.topology === 'triangle-list',
+      `Geometry ${geometry.id}: GeometryBVH requires triangles`
+    );
+    assert(POSITION && POSITION.size === 3, `Geometry ${geometry.id}: POSITION with size 3 is required`);
+
+    this.positions = POSITION.value;
+    this.indices = triangleGeometry.indices?.value || getSequentialIndices(triangleGeometry.vertexCount);
+    const triangleCount = Math.floor(this.indices.length / 3);
+    this.triangles = new Uint32Array(triangleCount);
+    for (let i = 0; i < triangleCount; i++) {
+      this.triangles[i] = i;
+    }
+
+    const centroids = new Float32Array(triangleCount * 3);
+    for (let i = 0; i < triangleCount; i++) {
+      for (let j = 0; j < 3; j++) {
+        const vertex = this.indices[i * 3 + j];
+        for (let axis = 0; axis < 3; axis++) {
+          centroids[i * 3 + axis] += this.positions[vertex * 3 + axis] / 3;
+        }
+      }
+    }
+    this.root = this._buildNode(0, triangleCount, centroids, Math.max(maxTrianglesPerLeaf, 1));
+  }
+
+  /** Bounds of the geometry */
+  getBounds(): [number[], number[]] {
+    return this.root.bounds;
+  }
+
+  /** Returns all intersections of a ray with the triangles of the geometry, closest first */
+  raycast(ray: Ray, options: RaycastOptions = {}): GeometryRayHit[] {
+    const hits: GeometryRayHit[] = [];
+    this._traverse(ray, options, hit => {
+      hits.push(hit);
+      return options.maxDistance ?? Infinity;
+    });
+    return hits.sort((a, b) => a.distance - b.distance);
+  }
+
+  /** Returns the closest intersection of a ray with the triangles of the geometry */
+  raycastFirst(ray: Ray, options: RaycastOptions = {}): GeometryRayHit | null {
+    let closestHit: GeometryRayHit | null = null;
+    this._traverse(ray, options, hit => {
+      if (!closestHit || hit.distance < closestHit.distance) {
+        closestHit = hit;
+      }
+      // Only closer hits are of interest
+      return closestHit.distance;
+    });
+    return closestHit;
+  }
+
+  /**
+   * Visits the intersections of a ray with triangles in nodes that the ray reaches
+   * @param onHit returns the distance beyond which nodes can be skipped
+   */
+  protected _traverse(ray: Ray, options: RaycastOptions, onHit: (hit: GeometryRayHit) => number): void {
+    let maxDistance = options.maxDistance ?? Infinity;
+    const stack: BVHNode[] = [this.root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (intersectRayAABB(ray, node.bounds, maxDistance) === null) {
+        continue; // eslint-disable-line no-continue
+      }
+      if (node.left && node.right) {
+        stack.push(node.left, node.right);
+        continue; // eslint-disable-line no-continue
+      }
+      for (let i = node.start; i < node.start + node.count; i++) {
+        const hit = this._intersectTriangle(ray, this.triangles[i], {...options, maxDistance});
+        if (hit) {
+          maxDistance = onHit(hit);
+        }
+      }
+    }
+  }
+
+  protected _intersectTriangle(
+    ray: Ray,
+    faceIndex: number,
+    options: RaycastOptions
+  ): GeometryRayHit | null {
+    const [a, b, c] = [0, 1, 2].map(j => this._getVertex(this.indices[faceIndex * 3 + j]));
+    const intersection = intersectRayTriangle(ray, a, b, c, options);
+    if (!intersection) {
+      return null;
+    }
+    const {distance, u, v} = intersection;
+    const {origin, direction} = ray;
+    return {
+      distance,
+      point: [0, 1, 2].map(i => origin[i] + direction[i] * distance) as [number, number, number],
+      faceIndex,
+      barycentric: [u, v]
+    };
+  }
+
+  protected _getVertex(vertex: number): TypedArray {
+    return this.positions.subarray(vertex * 3, vertex * 3 + 3);
+  }
+
+  /** Builds the node of the triangles in a range of `this.triangles`, reordering them */
+  protected _buildNode(
+    start: number,
+    count: number,
+    centroids: Float32Array,
+    maxTrianglesPerLeaf: number
+  ): BVHNode {
+    const bounds: [number[], number[]] = [
+      [Infinity, Infinity, Infinity],
+      [-Infinity, -Infinity, -Infinity]
+    ];
+    for (let i = start; i < start + count; i++) {
+      for (let j = 0; j < 3; j++) {
+        const vertex = this._getVertex(this.indices[this.triangles[i] * 3 + j]);
+        for (let axis = 0; axis < 3; axis++) {
+          bounds[0][axis] = Math.min(bounds[0][axis], vertex[axis]);
+          bounds[1][axis] = Math.max(bounds[1][axis], vertex[axis]);
+        }
+      }
+    }
+
+    const node: BVHNode = {bounds, start, count, left: null, right: null};
+    if (count <= maxTrianglesPerLeaf) {
+      return node;
+    }
+
+    const size = [0, 1, 2].map(axis => bounds[1][axis] - bounds[0][axis]);
+    const axis = size.indexOf(Math.max(...size));
+    const range = Array.from(this.triangles.subarray(start, start + count));
+    range.sort((a, b) => centroids[a * 3 + axis] - centroids[b * 3 + axis]);
+    this.triangles.set(range, start);
+
+    const leftCount = Math.floor(count / 2);
+    node.left = this._buildNode(start, leftCount, centroids, maxTrianglesPerLeaf);
+    node.right = this._buildNode(start + leftCount, count - leftCount, centroids, maxTrianglesPerLeaf);
+    return node;
+  }
+}
+
+function getSequentialIndices(vertexCount: number): Uint32Array {
+  const indices = new Uint32Array(vertexCount);
+  for (let i = 0; i < vertexCount; i++) {
+    indices[i] = i;
+  }
+  return indices;
+}
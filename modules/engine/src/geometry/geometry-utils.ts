@@ -1,4 +1,8 @@
-// import type {Geometry} from './geometry';
+import type {NumberArray, PrimitiveTopology, TypedArray} from '@luma.gl/core';
+import {assert} from '@luma.gl/core';
+import {Matrix4} from '@math.gl/core';
+import type {GeometryAttribute} from './geometry';
+import {Geometry} from './geometry';
 
 export function unpackIndexedGeometry(geometry: any) {
   const {indices, attributes} = geometry;
@@ -29,3 +33,460 @@ export function unpackIndexedGeometry(geometry: any) {
     attributes: Object.assign({}, attributes, unpackedAttributes)
   };
 }
+
+export type ComputeVertexNormalsOptions = {
+  /** Use the normal of each triangle, instead of averaging the normals of the triangles sharing a vertex. Default false */
+  flat?: boolean;
+};
+
+export type WeldVerticesOptions = {
+  /** Largest difference between attribute values that are considered equal. Default 0 */
+  tolerance?: number;
+};
+
+/** A geometry to merge, with an optional transform */
+export type MergeGeometriesInput = Geometry | {geometry: Geometry; matrix?: NumberArray};
+
+/**
+ * Computes the NORMAL attribute of a triangle geometry.
+ * - Smooth normals average the normals of the triangles sharing a vertex, weighted by triangle area.
+ *   Only indexed vertices are shared, use `weldVertices()` first to share duplicated vertices
+ * - Flat normals use the normal of each triangle, which unpacks indexed geometries
+ */
+export function computeVertexNormals(
+  geometry: Geometry,
+  options: ComputeVertexNormalsOptions = {}
+): Geometry {
+  geometry = convertToList(geometry);
+  assertTopology(geometry, 'triangle-list', 'computeVertexNormals');
+  if (options.flat && geometry.indices) {
+    geometry = unpackIndices(geometry);
+  }
+
+  const positions = getPositions(geometry);
+  const indices = getIndices(geometry);
+  const normals = new Float32Array(getAttributeVertexCount(geometry.attributes.POSITION) * 3);
+  const normal = [0, 0, 0];
+  for (let i = 0; i < indices.length; i += 3) {
+    const [a, b, c] = [indices[i], indices[i + 1], indices[i + 2]];
+    // The cross product of the edges is weighted by triangle area
+    getTriangleNormal(positions, a, b, c, normal);
+    for (const vertex of [a, b, c]) {
+      normals[vertex * 3] += normal[0];
+      normals[vertex * 3 + 1] += normal[1];
+      normals[vertex * 3 + 2] += normal[2];
+    }
+  }
+  for (let i = 0; i < normals.length; i += 3) {
+    normalize(normals, i, 3);
+  }
+
+  return cloneGeometry(geometry, {attributes: {NORMAL: {size: 3, value: normals}}});
+}
+
+/**
+ * Computes the TANGENT attribute of a triangle geometry with POSITION, NORMAL and TEXCOORD_0 attributes,
+ * in the glTF layout: xyz is the tangent, w is the handedness (+1 or -1) of the bitangent `cross(normal, tangent) * w`.
+ * Tangents follow the texture u direction, accumulated per vertex and orthogonalized against the normal as in MikkTSpace.
+ */
+export function computeTangents(geometry: Geometry): Geometry {
+  geometry = convertToList(geometry);
+  assertTopology(geometry, 'triangle-list', 'computeTangents');
+  const {NORMAL, TEXCOORD_0} = geometry.attributes;
+  assert(NORMAL && TEXCOORD_0, `Geometry ${geometry.id}: computeTangents requires NORMAL and TEXCOORD_0`);
+
+  const positions = getPositions(geometry);
+  const normals = NORMAL.value;
+  const texCoords = TEXCOORD_0.value;
+  const normalSize = NORMAL.size || 3;
+  const texCoordSize = TEXCOORD_0.size || 2;
+  const indices = getIndices(geometry);
+  const vertexCount = getAttributeVertexCount(geometry.attributes.POSITION);
+
+  // Directions of increasing u and v in model space, accumulated per vertex
+  const tangents = new Float32Array(vertexCount * 3);
+  const bitangents = new Float32Array(vertexCount * 3);
+  for (let i = 0; i < indices.length; i += 3) {
+    const [a, b, c] = [indices[i], indices[i + 1], indices[i + 2]];
+    const edge1 = [0, 1, 2].map(j => positions[b * 3 + j] - positions[a * 3 + j]);
+    const edge2 = [0, 1, 2].map(j => positions[c * 3 + j] - positions[a * 3 + j]);
+    const du1 = texCoords[b * texCoordSize] - texCoords[a * texCoordSize];
+    const dv1 = texCoords[b * texCoordSize + 1] - texCoords[a * texCoordSize + 1];
+    const du2 = texCoords[c * texCoordSize] - texCoords[a * texCoordSize];
+    const dv2 = texCoords[c * texCoordSize + 1] - texCoords[a * texCoordSize + 1];
+    const determinant = du1 * dv2 - du2 * dv1;
+    if (Math.abs(determinant) < 1e-12) {
+      // Degenerate texture coordinates
+      continue; // eslint-disable-line no-continue
+    }
+    const r = 1 / determinant;
+    for (const vertex of [a, b, c]) {
+      for (let j = 0; j < 3; j++) {
+        tangents[vertex * 3 + j] += (edge1[j] * dv2 - edge2[j] * dv1) * r;
+        bitangents[vertex * 3 + j] += (edge2[j] * du1 - edge1[j] * du2) * r;
+      }
+    }
+  }
+
+  const result = new Float32Array(vertexCount * 4);
+  for (let vertex = 0; vertex < vertexCount; vertex++) {
+    const n = [0, 1, 2].map(j => normals[vertex * normalSize + j]);
+    const t = [0, 1, 2].map(j => tangents[vertex * 3 + j]);
+    // Gram-Schmidt orthogonalization against the normal
+    const nDotT = dot(n, t);
+    let tangent = [0, 1, 2].map(j => t[j] - n[j] * nDotT);
+    if (dot(tangent, tangent) < 1e-24) {
+      // No texture derivatives, use any direction perpendicular to the normal
+      tangent = Math.abs(n[0]) < 0.9 ? cross(n, [1, 0, 0]) : cross(n, [0, 1, 0]);
+    }
+    normalize(tangent, 0, 3);
+    const bitangent = [0, 1, 2].map(j => bitangents[vertex * 3 + j]);
+    const handedness = dot(cross(n, tangent), bitangent) < 0 ? -1 : 1;
+    result.set([...tangent, handedness], vertex * 4);
+  }
+
+  return cloneGeometry(geometry, {attributes: {TANGENT: {size: 4, value: result}}});
+}
+
+/**
+ * Merges vertices with equal values of all attributes, and indexes the geometry.
+ * @note Attribute values are compared after rounding to `tolerance`
+ */
+export function weldVertices(geometry: Geometry, options: WeldVerticesOptions = {}): Geometry {
+  const {tolerance = 0} = options;
+  const indices = getIndices(geometry);
+  const attributes = getVertexAttributes(geometry);
+
+  const vertexIndices = new Map<string, number>();
+  // Index of the first source vertex of each welded vertex
+  const sourceVertices: number[] = [];
+  const weldedIndices = new Uint32Array(indices.length);
+  for (let i = 0; i < indices.length; i++) {
+    const vertex = indices[i];
+    const key = getVertexKey(attributes, vertex, tolerance);
+    let weldedVertex = vertexIndices.get(key);
+    if (weldedVertex === undefined) {
+      weldedVertex = sourceVertices.length;
+      vertexIndices.set(key, weldedVertex);
+      sourceVertices.push(vertex);
+    }
+    weldedIndices[i] = weldedVertex;
+  }
+
+  const weldedAttributes: Record<string, GeometryAttribute> = {};
+  for (const [name, attribute] of Object.entries(attributes)) {
+    const {value, size} = attribute;
+    const weldedValue = makeTypedArray(value, sourceVertices.length * size);
+    sourceVertices.forEach((vertex, i) => {
+      weldedValue.set(value.subarray(vertex * size, (vertex + 1) * size), i * size);
+    });
+    weldedAttributes[name] = {...attribute, value: weldedValue};
+  }
+
+  return cloneGeometry(geometry, {
+    attributes: weldedAttributes,
+    indices: makeIndexArray(weldedIndices, sourceVertices.length)
+  });
+}
+
+/**
+ * Merges geometries into one, transforming POSITION and TANGENT by the matrix of each geometry,
+ * and NORMAL by the inverse transpose of the matrix.
+ * @note Geometries must have the same attributes. Strips and fans are converted to lists
+ */
+export function mergeGeometries(inputs: MergeGeometriesInput[]): Geometry {
+  assert(inputs.length > 0, 'mergeGeometries requires geometries');
+  const geometries = inputs.map(input => {
+    const {geometry, matrix = null} = input instanceof Geometry ? {geometry: input} : input;
+    return {geometry: convertToList(geometry), matrix: matrix && new Matrix4(matrix)};
+  });
+  const {topology} = geometries[0].geometry;
+  const attributeNames = Object.keys(getVertexAttributes(geometries[0].geometry));
+  const indexed = geometries.some(({geometry}) => geometry.indices);
+
+  let vertexCount = 0;
+  let indexCount = 0;
+  for (const {geometry} of geometries) {
+    assert(geometry.topology === topology, `Geometry ${geometry.id}: cannot merge different topologies`);
+    const names = Object.keys(getVertexAttributes(geometry));
+    assert(
+      names.length === attributeNames.length && names.every(name => attributeNames.includes(name)),
+      `Geometry ${geometry.id}: cannot merge geometries with different attributes`
+    );
+    vertexCount += getAttributeVertexCount(geometry.attributes.POSITION);
+    indexCount += getIndices(geometry).length;
+  }
+
+  const attributes: Record<string, GeometryAttribute> = {};
+  for (const name of attributeNames) {
+    const attribute = geometries[0].geometry.attributes[name];
+    attributes[name] = {...attribute, value: makeTypedArray(attribute.value, vertexCount * attribute.size)};
+  }
+  const indices = new Uint32Array(indexCount);
+
+  let vertexOffset = 0;
+  let indexOffset = 0;
+  for (const {geometry, matrix} of geometries) {
+    const normalMatrix = matrix && getNormalMatrix(matrix);
+    const geometryVertexCount = getAttributeVertexCount(geometry.attributes.POSITION);
+    for (const name of attributeNames) {
+      const {value, size} = geometry.attributes[name];
+      const target = attributes[name].value;
+      target.set(value.subarray(0, geometryVertexCount * size), vertexOffset * size);
+      if (matrix && name === 'POSITION') {
+        transformVectors(target, size, vertexOffset, geometryVertexCount, matrix, true);
+      } else if (matrix && name === 'NORMAL') {
+        transformVectors(target, size, vertexOffset, geometryVertexCount, normalMatrix, false);
+      } else if (matrix && name === 'TANGENT') {
+        // Tangents lie in the surface and transform like positions
+        transformVectors(target, size, vertexOffset, geometryVertexCount, matrix, false);
+        if (size === 4 && matrix.determinant() < 0) {
+          // Mirroring transforms flip the handedness of the bitangent
+          for (let i = vertexOffset; i < vertexOffset + geometryVertexCount; i++) {
+            target[i * 4 + 3] = -target[i * 4 + 3];
+          }
+        }
+      }
+    }
+    const geometryIndices = getIndices(geometry);
+    for (let i = 0; i < geometryIndices.length; i++) {
+      indices[indexOffset + i] = geometryIndices[i] + vertexOffset;
+    }
+    vertexOffset += geometryVertexCount;
+    indexOffset += geometryIndices.length;
+  }
+
+  return new Geometry({
+    topology,
+    attributes,
+    indices: indexed ? makeIndexArray(indices, vertexCount) : undefined
+  });
+}
+
+/**
+ * Converts `triangle-strip` and `triangle-fan-webgl` geometries to `triangle-list`,
+ * and `line-strip` and `line-loop-webgl` geometries to `line-list`, by generating indices.
+ * Other geometries are returned unchanged
+ */
+export function convertToList(geometry: Geometry): Geometry {
+  const indices = getIndices(geometry);
+  const listIndices: number[] = [];
+  let topology: PrimitiveTopology;
+  switch (geometry.topology) {
+    case 'triangle-strip':
+      topology = 'triangle-list';
+      for (let i = 0; i + 2 < indices.length; i++) {
+        // Every other triangle is reversed to keep the winding order
+        const [a, b] = i % 2 === 0 ? [i, i + 1] : [i + 1, i];
+        listIndices.push(indices[a], indices[b], indices[i + 2]);
+      }
+      break;
+    case 'triangle-fan-webgl':
+      topology = 'triangle-list';
+      for (let i = 1; i + 1 < indices.length; i++) {
+        listIndices.push(indices[0], indices[i], indices[i + 1]);
+      }
+      break;
+    case 'line-strip':
+    case 'line-loop-webgl':
+      topology = 'line-list';
+      for (let i = 0; i + 1 < indices.length; i++) {
+        listIndices.push(indices[i], indices[i + 1]);
+      }
+      if (geometry.topology === 'line-loop-webgl' && indices.length > 2) {
+        listIndices.push(indices[indices.length - 1], indices[0]);
+      }
+      break;
+    default:
+      return geometry;
+  }
+
+  const vertexCount = getAttributeVertexCount(geometry.attributes.POSITION);
+  return cloneGeometry(geometry, {
+    topology,
+    indices: makeIndexArray(listIndices, vertexCount)
+  });
+}
+
+/** Generates a `line-list` geometry with the unique edges of the triangles of a geometry */
+export function computeWireframe(geometry: Geometry): Geometry {
+  geometry = convertToList(geometry);
+  assertTopology(geometry, 'triangle-list', 'computeWireframe');
+  const indices = getIndices(geometry);
+
+  const edges = new Set<string>();
+  const lineIndices: number[] = [];
+  for (let i = 0; i < indices.length; i += 3) {
+    for (let j = 0; j < 3; j++) {
+      const a = indices[i + j];
+      const b = indices[i + ((j + 1) % 3)];
+      const key = a < b ? `${a}-${b}` : `${b}-${a}`;
+      if (!edges.has(key)) {
+        edges.add(key);
+        lineIndices.push(a, b);
+      }
+    }
+  }
+
+  const vertexCount = getAttributeVertexCount(geometry.attributes.POSITION);
+  return cloneGeometry(geometry, {
+    topology: 'line-list',
+    indices: makeIndexArray(lineIndices, vertexCount)
+  });
+}
+
+// HELPERS
+
+/** Creates a new geometry, replacing the topology, indices or some attributes of a geometry */
+function cloneGeometry(
+  geometry: Geometry,
+  props: {
+    topology?: PrimitiveTopology;
+    attributes?: Record<string, GeometryAttribute>;
+    indices?: Uint16Array | Uint32Array | null;
+  }
+): Geometry {
+  return new Geometry({
+    topology: props.topology || geometry.topology,
+    attributes: {...geometry.attributes, ...props.attributes},
+    indices: props.indices !== undefined ? props.indices || undefined : geometry.indices
+  });
+}
+
+/** Returns an unindexed copy of an indexed geometry */
+function unpackIndices(geometry: Geometry): Geometry {
+  const {attributes} = unpackIndexedGeometry(geometry);
+  return new Geometry({topology: geometry.topology, attributes});
+}
+
+function assertTopology(geometry: Geometry, topology: PrimitiveTopology, operation: string): void {
+  assert(
+    geometry.topology === topology,
+    `Geometry ${geometry.id}: ${operation} requires ${topology} topology, got ${geometry.topology}`
+  );
+}
+
+/** Attributes with a value per vertex */
+function getVertexAttributes(geometry: Geometry): Record<string, GeometryAttribute> {
+  const attributes: Record<string, GeometryAttribute> = {};
+  for (const [name, attribute] of Object.entries(geometry.attributes)) {
+    if (attribute && !attribute.constant) {
+      assert(attribute.size, `Geometry ${geometry.id} attribute ${name}: size is required`);
+      attributes[name] = attribute;
+    }
+  }
+  return attributes;
+}
+
+function getPositions(geometry: Geometry): TypedArray {
+  const {POSITION} = geometry.attributes;
+  assert(POSITION && POSITION.size === 3, `Geometry ${geometry.id}: POSITION with size 3 is required`);
+  return geometry.attributes.POSITION.value;
+}
+
+function getAttributeVertexCount(attribute: GeometryAttribute): number {
+  return attribute.value.length / attribute.size;
+}
+
+/** The vertex indices of a geometry, generated for unindexed geometries */
+function getIndices(geometry: Geometry): ArrayLike<number> {
+  if (geometry.indices) {
+    return geometry.indices.value;
+  }
+  const indices = new Uint32Array(geometry.vertexCount);
+  for (let i = 0; i < indices.length; i++) {
+    indices[i] = i;
+  }
+  return indices;
+}
+
+/** Creates 16 bit indices if possible */
+function makeIndexArray(indices: ArrayLike<number>, vertexCount: number): Uint16Array | Uint32Array {
+  return vertexCount <= 65536 ? new Uint16Array(indices) : new Uint32Array(indices);
+}
+
+/** Creates a typed array of the same type as `array` */
+function makeTypedArray(array: TypedArray, length: number): TypedArray {
+  const TypedArrayConstructor = array.constructor as new (length: number) => TypedArray;
+  return new TypedArrayConstructor(length);
+}
+
+function getVertexKey(
+  attributes: Record<string, GeometryAttribute>,
+  vertex: number,
+  tolerance: number
+): string {
+  const values: number[] = [];
+  for (const {value, size} of Object.values(attributes)) {
+    for (let i = 0; i < size; i++) {
+      const component = value[vertex * size + i];
+      values.push(tolerance > 0 ? Math.round(component / tolerance) : component);
+    }
+  }
+  return values.join(',');
+}
+
+/** Cross product of the edges of a triangle, with the length of twice its area */
+function getTriangleNormal(positions: TypedArray, a: number, b: number, c: number, target: number[]): number[] {
+  const [ax, ay, az] = [positions[a * 3], positions[a * 3 + 1], positions[a * 3 + 2]];
+  const [ux, uy, uz] = [positions[b * 3] - ax, positions[b * 3 + 1] - ay, positions[b * 3 + 2] - az];
+  const [vx, vy, vz] = [positions[c * 3] - ax, positions[c * 3 + 1] - ay, positions[c * 3 + 2] - az];
+  target[0] = uy * vz - uz * vy;
+  target[1] = uz * vx - ux * vz;
+  target[2] = ux * vy - uy * vx;
+  return target;
+}
+
+/** Inverse transpose of the rotation and scale of a matrix, which transforms normals */
+function getNormalMatrix(matrix: Matrix4): Matrix4 {
+  const normalMatrix = new Matrix4(matrix);
+  normalMatrix[12] = normalMatrix[13] = normalMatrix[14] = 0;
+  return normalMatrix.invert().transpose();
+}
+
+/** Transforms the first 3 components of `count` vectors in place, starting at vector `offset` */
+function transformVectors(
+  array: TypedArray,
+  size: number,
+  offset: number,
+  count: number,
+  matrix: Matrix4,
+  isPoint: boolean
+): void {
+  const vector = [0, 0, 0];
+  for (let i = offset; i < offset + count; i++) {
+    for (let j = 0; j < 3; j++) {
+      vector[j] = array[i * size + j];
+    }
+    if (isPoint) {
+      matrix.transformAsPoint(vector, vector);
+    } else {
+      matrix.transformAsVector(vector, vector);
+      normalize(vector, 0, 3);
+    }
+    for (let j = 0; j < 3; j++) {
+      array[i * size + j] = vector[j];
+    }
+  }
+}
+
+function normalize(array: NumberArray, offset: number, size: number): void {
+  let length = 0;
+  for (let i = offset; i < offset + size; i++) {
+    length += array[i] * array[i];
+  }
+  length = Math.sqrt(length);
+  if (length > 0) {
+    for (let i = offset; i < offset + size; i++) {
+      array[i] /= length;
+    }
+  }
+}
+
+function dot(a: number[], b: number[]): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: number[], b: number[]): number[] {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
@@ -0,0 +1,111 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {NumberArray} from '@luma.gl/core';
+
+/** A half line, from `origin` along `direction` */
+export type Ray = {
+  origin: NumberArray;
+  /** Distances along the ray are in multiples of the length of the direction */
+  direction: NumberArray;
+};
+
+export type RaycastOptions = {
+  /** Ignore intersections further along the ray. Default Infinity */
+  maxDistance?: number;
+  /** Ignore triangles seen from behind, i.e. clockwise triangles. Default false */
+  cullBackFaces?: boolean;
+};
+
+/** Intersection of a ray with a triangle ABC */
+export type RayTriangleIntersection = {
+  /** Distance along the ray */
+  distance: number;
+  /** Barycentric coordinates, the intersection is `(1 - u - v) * A + u * B + v * C` */
+  u: number;
+  v: number;
+};
+
+const EPSILON = 1e-10;
+
+/**
+ * Intersects a ray with an axis aligned bounding box
+ * @returns the distance along the ray where it enters the box, 0 if the origin is inside the box, null if it misses the box
+ */
+export function intersectRayAABB(
+  ray: Ray,
+  bounds: [NumberArray, NumberArray],
+  maxDistance: number = Infinity
+): number | null {
+  const {origin, direction} = ray;
+  const [min, max] = bounds;
+  let near = 0;
+  let far = maxDistance;
+  for (let i = 0; i < 3; i++) {
+    // Division by zero gives infinite distances to the slabs, which is what we want
+    const inverseDirection = 1 / direction[i];
+    let t0 = (min[i] - origin[i]) * inverseDirection;
+    let t1 = (max[i] - origin[i]) * inverseDirection;
+    if (t0 > t1) {
+      [t0, t1] = [t1, t0];
+    }
+    // NaN (origin on a slab plane of a parallel ray) does not narrow the range
+    near = t0 > near ? t0 : near;
+    far = t1 < far ? t1 : far;
+    if (near > far) {
+      return null;
+    }
+  }
+  return near;
+}
+
+/**
+ * Intersects a ray with a triangle (Möller-Trumbore)
+ * @returns the distance and barycentric coordinates of the intersection, or null
+ */
+export function intersectRayTriangle(
+  ray: Ray,
+  a: NumberArray,
+  b: NumberArray,
+  c: NumberArray,
+  options: RaycastOptions = {}
+): RayTriangleIntersection | null {
+  const {maxDistance = Infinity, cullBackFaces = false} = options;
+  const {origin, direction} = ray;
+  const edge1 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const edge2 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+
+  const p = cross(direction, edge2);
+  const determinant = dot(edge1, p);
+  // Rays parallel to the triangle, or hitting its back face
+  if (cullBackFaces ? determinant < EPSILON : Math.abs(determinant) < EPSILON) {
+    return null;
+  }
+  const inverseDeterminant = 1 / determinant;
+
+  const s = [origin[0] - a[0], origin[1] - a[1], origin[2] - a[2]];
+  const u = dot(s, p) * inverseDeterminant;
+  if (u < 0 || u > 1) {
+    return null;
+  }
+
+  const q = cross(s, edge1);
+  const v = dot(direction, q) * inverseDeterminant;
+  if (v < 0 || u + v > 1) {
+    return null;
+  }
+
+  const distance = dot(edge2, q) * inverseDeterminant;
+  if (distance < 0 || distance > maxDistance) {
+    return null;
+  }
+  return {distance, u, v};
+}
+
+function dot(a: NumberArray, b: NumberArray): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: NumberArray, b: NumberArray): number[] {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
@@ -16,28 +16,94 @@ export {makeAnimationLoop} from './animation-loop/make-animation-loop';
 export type {ModelProps} from './model/model';
 export {Model} from './model/model';
 
+export type {ComputationProps} from './computation/computation';
+export {Computation} from './computation/computation';
+
+// Attributes
+export type {AttributeManagerProps} from './attributes/attribute-manager';
+export {AttributeManager} from './attributes/attribute-manager';
+
 // Transforms
 export type {BufferTransformProps} from './transform/buffer-transform';
 export {BufferTransform} from './transform/buffer-transform';
 export type {TextureTransformProps} from './transform/texture-transform';
 export {TextureTransform} from './transform/texture-transform';
 
+export type {ComputePipelineFactoryProps} from './lib/pipeline-factory';
 export {PipelineFactory} from './lib/pipeline-factory';
 
 // Utils
 export {ClipSpace} from './lib/clip-space';
+export type {ReadPixelsArea} from './lib/read-pixels';
+export {
+  getFramebufferSize,
+  readFramebufferPixels,
+  readFramebufferPixelsAsync
+} from './lib/read-pixels';
+
+// Post-processing
+export type {
+  ShaderPassRendererProps,
+  ShaderPassRendererRenderOptions
+} from './passes/shader-pass-renderer';
+export {ShaderPassRenderer} from './passes/shader-pass-renderer';
+
+// Shadows
+export type {
+  ShadowMapRendererProps,
+  ShadowMapRendererRenderOptions
+} from './passes/shadow-map-renderer';
+export {ShadowMapRenderer, getLightMatrix} from './passes/shadow-map-renderer';
+
+// Picking
+export type {
+  PickingManagerProps,
+  PickingManagerPickOptions,
+  PickInfo
+} from './picking/picking-manager';
+export {
+  PickingManager,
+  encodePickingColor,
+  decodePickingColor
+} from './picking/picking-manager';
 
 // Scenegraph Core nodes
+export type {ScenegraphNodeProps} from './scenegraph/scenegraph-node';
 export {ScenegraphNode} from './scenegraph/scenegraph-node';
 export {GroupNode} from './scenegraph/group-node';
 export type {ModelNodeProps} from './scenegraph/model-node';
 export {ModelNode} from './scenegraph/model-node';
+export type {
+  SceneRendererProps,
+  SceneRendererRenderOptions,
+  SceneDraw
+} from './scenegraph/scene-renderer';
+export {SceneRenderer} from './scenegraph/scene-renderer';
+export type {RaycastHit} from './scenegraph/raycast';
+export {raycast} from './scenegraph/raycast';
 
 // Geometries
 export type {GeometryProps} from './geometry/geometry';
 export {Geometry} from './geometry/geometry';
 export type {GPUGeometryProps} from './geometry/gpu-geometry';
 export {GPUGeometry} from './geometry/gpu-geometry';
+export type {
+  ComputeVertexNormalsOptions,
+  WeldVerticesOptions,
+  MergeGeometriesInput
+} from './geometry/geometry-utils';
+export {
+  computeVertexNormals,
+  computeTangents,
+  weldVertices,
+  mergeGeometries,
+  convertToList,
+  computeWireframe
+} from './geometry/geometry-utils';
+export type {Ray, RaycastOptions, RayTriangleIntersection} from './geometry/ray-intersection';
+export {intersectRayAABB, intersectRayTriangle} from './geometry/ray-intersection';
+export type {GeometryBVHProps, GeometryRayHit} from './geometry/geometry-bvh';
+export {GeometryBVH} from './geometry/geometry-bvh';
 
 // Primitives
 export type {ConeGeometryProps} from './geometries/cone-geometry';
@@ -54,6 +120,18 @@ export type {SphereGeometryProps} from './geometries/sphere-geometry';
 export {SphereGeometry} from './geometries/sphere-geometry';
 export type {TruncatedConeGeometryProps} from './geometries/truncated-cone-geometry';
 export {TruncatedConeGeometry} from './geometries/truncated-cone-geometry';
+export type {TorusGeometryProps} from './geometries/torus-geometry';
+export {TorusGeometry} from './geometries/torus-geometry';
+export type {CapsuleGeometryProps} from './geometries/capsule-geometry';
+export {CapsuleGeometry} from './geometries/capsule-geometry';
+export type {ArrowGeometryProps} from './geometries/arrow-geometry';
+export {ArrowGeometry} from './geometries/arrow-geometry';
+export type {GridGeometryProps} from './geometries/grid-geometry';
+export {GridGeometry} from './geometries/grid-geometry';
+export type {RoundedBoxGeometryProps} from './geometries/rounded-box-geometry';
+export {RoundedBoxGeometry} from './geometries/rounded-box-geometry';
+export type {PolygonExtrusionGeometryProps} from './geometries/polygon-extrusion-geometry';
+export {PolygonExtrusionGeometry} from './geometries/polygon-extrusion-geometry';
 
 // EXPERIMENTAL
 export type {ShaderModuleInputs} from './shader-inputs';
@@ -5,6 +5,7 @@ import {Model, ModelProps} from '../model/model';
 import {Geometry} from '../geometry/geometry';
 
 const CLIPSPACE_VERTEX_SHADER = glsl`\
+#version 300 es
 in vec2 aClipSpacePosition;
 in vec2 aTexCoord;
 in vec2 aCoordinate;
@@ -28,7 +29,7 @@ const POSITIONS = [-1, -1, 1, -1, -1, 1, 1, 1];
  * A flat geometry that covers the "visible area" that the GPU renders.
  */
 export class ClipSpace extends Model {
-  constructor(device: Device, opts?: ModelProps) {
+  constructor(device: Device, opts?: Omit<ModelProps, 'vs'>) {
     const TEX_COORDS = POSITIONS.map((coord) => (coord === -1 ? 0 : coord));
 
     super(
@@ -1,6 +1,6 @@
 // luma.gl, MIT license
-import type {RenderPipelineProps} from '@luma.gl/core';
-import {Device, RenderPipeline} from '@luma.gl/core';
+import type {RenderPipelineProps, ComputePipelineProps} from '@luma.gl/core';
+import {Device, RenderPipeline, ComputePipeline} from '@luma.gl/core';
 
 /** Todo - should be same as RenderPipelineProps */
 export type PipelineFactoryProps = Omit<RenderPipelineProps, 'vs' | 'fs'> & {
@@ -9,6 +9,11 @@ export type PipelineFactoryProps = Omit<RenderPipelineProps, 'vs' | 'fs'> & {
   fs: string;
 };
 
+export type ComputePipelineFactoryProps = Omit<ComputePipelineProps, 'cs'> & {
+  // Only accepts string shaders
+  cs: string;
+};
+
 /** 
  * Efficiently creates / caches pipelines
  */
@@ -24,7 +29,7 @@ export class PipelineFactory {
   private _hashCounter: number = 0;
   private readonly _hashes: Record<string, number> = {};
   private readonly _useCounts: Record<string, number> = {};
-  private readonly _pipelineCache: Record<string, RenderPipeline> = {};
+  private readonly _pipelineCache: Record<string, RenderPipeline | ComputePipeline> = {};
 
   static getDefaultPipelineFactory(device: Device): PipelineFactory {
     device._lumaData.defaultPipelineFactory = device._lumaData.defaultPipelineFactory || new PipelineFactory(device);
@@ -54,14 +59,35 @@ export class PipelineFactory {
 
     this._useCounts[hash]++;
 
-    return this._pipelineCache[hash];
+    return this._pipelineCache[hash] as RenderPipeline;
   }
 
-  release(pipeline: RenderPipeline): void {
+  createComputePipeline(options: ComputePipelineFactoryProps): ComputePipeline {
+    const props: ComputePipelineFactoryProps = {...ComputePipeline.defaultProps, ...options};
+
+    const hash = this._hashComputePipeline(props);
+
+    if (!this._pipelineCache[hash]) {
+      const pipeline = this.device.createComputePipeline({
+        ...props,
+        cs: this.device.createShader({stage: 'compute', source: props.cs})
+      });
+
+      pipeline.hash = hash;
+      this._pipelineCache[hash] = pipeline;
+      this._useCounts[hash] = 0;
+    }
+
+    this._useCounts[hash]++;
+
+    return this._pipelineCache[hash] as ComputePipeline;
+  }
+
+  release(pipeline: RenderPipeline | ComputePipeline): void {
     const hash = pipeline.hash;
     this._useCounts[hash]--;
     if (this._useCounts[hash] === 0) {
-      this._pipelineCache[hash].destroy();
+      this._destroyPipeline(this._pipelineCache[hash]);
       delete this._pipelineCache[hash];
       delete this._useCounts[hash];
     }
@@ -69,6 +95,17 @@ export class PipelineFactory {
 
   // PRIVATE
 
+  /** Destroys a cached pipeline and the shaders the factory created for it */
+  _destroyPipeline(pipeline: RenderPipeline | ComputePipeline): void {
+    pipeline.destroy();
+    if (pipeline instanceof ComputePipeline) {
+      pipeline.props.cs.destroy();
+    } else {
+      pipeline.props.vs.destroy();
+      pipeline.props.fs?.destroy();
+    }
+  }
+
   _createRenderPipeline(props: PipelineFactoryProps): RenderPipeline {
     if (!props.fs) {
       throw new Error('fs');
@@ -107,6 +144,13 @@ export class PipelineFactory {
     }
   }
 
+  /** Calculate a hash based on all the inputs for a compute pipeline */
+  _hashComputePipeline(props: ComputePipelineFactoryProps): string {
+    const csHash = this._getHash(props.cs);
+    const constantsHash = this._getHash(JSON.stringify(props.csConstants));
+    return `C${csHash}E${props.csEntryPoint}K${constantsHash}`;
+  }
+
   _getHash(key: string): number {
     if (this._hashes[key] === undefined) {
       this._hashes[key] = this._hashCounter++;
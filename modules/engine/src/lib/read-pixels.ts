@@ -0,0 +1,112 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {Device, Framebuffer} from '@luma.gl/core';
+import {Buffer} from '@luma.gl/core';
+
+/** A rectangle of a framebuffer, in pixels from the top left. Defaults to the whole framebuffer */
+export type ReadPixelsArea = {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+};
+
+/** WebGPU requires rows of copied textures to be aligned to 256 bytes */
+const BYTES_PER_ROW_ALIGNMENT = 256;
+
+/**
+ * Returns the size of a framebuffer.
+ * The size of the default WebGL framebuffer is the size of the drawing buffer of the canvas
+ */
+export function getFramebufferSize(device: Device, framebuffer: Framebuffer): [number, number] {
+  return framebuffer.colorAttachments[0]
+    ? [framebuffer.width, framebuffer.height]
+    : device.getCanvasContext().getDrawingBufferSize();
+}
+
+/**
+ * Reads 8 bit RGBA pixels from the first color attachment of a framebuffer
+ * @returns the pixels of the area, top row first
+ * @note WebGL only. Use `readFramebufferPixelsAsync()` on WebGPU
+ */
+export function readFramebufferPixels(
+  device: Device,
+  framebuffer: Framebuffer,
+  area: ReadPixelsArea = {}
+): Uint8Array {
+  const [framebufferWidth, framebufferHeight] = getFramebufferSize(device, framebuffer);
+  const {x = 0, y = 0, width = framebufferWidth, height = framebufferHeight} = area;
+
+  // WebGL reads rows from the bottom of the framebuffer
+  const pixels = device.readPixelsToArrayWebGL(framebuffer, {
+    sourceX: x,
+    sourceY: framebufferHeight - y - height,
+    sourceWidth: width,
+    sourceHeight: height
+  }) as Uint8Array;
+
+  const rowLength = width * 4;
+  const flipped = new Uint8Array(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    const sourceOffset = (height - 1 - row) * rowLength;
+    flipped.set(pixels.subarray(sourceOffset, sourceOffset + rowLength), row * rowLength);
+  }
+  return flipped;
+}
+
+/**
+ * Reads 8 bit RGBA pixels from the first color attachment of a framebuffer.
+ * On WebGPU, submits pending commands and copies the texture to a buffer. BGRA textures are converted to RGBA
+ * @returns the pixels of the area, top row first
+ */
+export async function readFramebufferPixelsAsync(
+  device: Device,
+  framebuffer: Framebuffer,
+  area: ReadPixelsArea = {}
+): Promise<Uint8Array> {
+  if (device.info.type !== 'webgpu') {
+    return readFramebufferPixels(device, framebuffer, area);
+  }
+
+  const [framebufferWidth, framebufferHeight] = getFramebufferSize(device, framebuffer);
+  const {x = 0, y = 0, width = framebufferWidth, height = framebufferHeight} = area;
+  const texture = framebuffer.colorAttachments[0];
+
+  const rowLength = width * 4;
+  const bytesPerRow = Math.ceil(rowLength / BYTES_PER_ROW_ALIGNMENT) * BYTES_PER_ROW_ALIGNMENT;
+  // readAsync() copies the buffer into a mappable buffer
+  const buffer = device.createBuffer({
+    id: `${framebuffer.id}-readback`,
+    usage: Buffer.COPY_DST | Buffer.COPY_SRC,
+    byteLength: bytesPerRow * height
+  });
+
+  // Pending render commands must be submitted before the copy, which is submitted by finish()
+  device.submit();
+  const commandEncoder = device.createCommandEncoder({id: `${framebuffer.id}-readback`});
+  commandEncoder.copyTextureToBuffer({
+    source: texture,
+    origin: [x, y],
+    width,
+    height,
+    destination: buffer,
+    bytesPerRow
+  });
+  commandEncoder.finish();
+
+  const paddedData = await buffer.readAsync();
+  buffer.destroy();
+
+  const pixels = new Uint8Array(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    pixels.set(paddedData.subarray(row * bytesPerRow, row * bytesPerRow + rowLength), row * rowLength);
+  }
+  // Canvas textures are often BGRA
+  if (texture.format.startsWith('bgra')) {
+    for (let i = 0; i < pixels.length; i += 4) {
+      [pixels[i], pixels[i + 2]] = [pixels[i + 2], pixels[i]];
+    }
+  }
+  return pixels;
+}
@@ -2,7 +2,7 @@
 // Copyright (c) vis.gl contributors
 
 import type {TypedArray, RenderPipelineProps, RenderPipelineParameters} from '@luma.gl/core';
-import type {BufferLayout, VertexArray, TransformFeedback} from '@luma.gl/core';
+import type {BufferLayout, VertexArray, TransformFeedback, Resource} from '@luma.gl/core';
 import type {AttributeInfo, Binding, UniformValue, PrimitiveTopology} from '@luma.gl/core';
 import {
   Device,
@@ -19,6 +19,7 @@ import {ShaderAssembler} from '@luma.gl/shadertools';
 import {ShaderInputs} from '../shader-inputs';
 import type {Geometry} from '../geometry/geometry';
 import {GPUGeometry, makeGPUGeometry} from '../geometry/gpu-geometry';
+import type {AttributeManager} from '../attributes/attribute-manager';
 import {PipelineFactory} from '../lib/pipeline-factory';
 import {getDebugTableForShaderLayout} from '../debug/debug-shader-layout';
 import {debugFramebuffer} from '../debug/debug-framebuffer';
@@ -59,6 +60,8 @@ export type ModelProps = Omit<RenderPipelineProps, 'vs' | 'fs'> & {
   attributes?: Record<string, Buffer>;
   /**   */
   constantAttributes?: Record<string, TypedArray>;
+  /** Manages frequently updated attributes, uploaded and bound before each draw */
+  attributeManager?: AttributeManager | null;
 
   /** @internal For use with {@link TransformFeedback}, WebGL 2 only. */
   varyings?: string[];
@@ -92,6 +95,7 @@ export class Model {
     indexBuffer: null,
     attributes: {},
     constantAttributes: {},
+    attributeManager: null,
     varyings: [],
 
     shaderInputs: undefined!,
@@ -106,6 +110,8 @@ export class Model {
   readonly fs: string;
   readonly pipelineFactory: PipelineFactory;
   userData: {[key: string]: any} = {};
+  /** Whether this model has been destroyed */
+  destroyed: boolean = false;
 
   // Fixed properties (change can trigger pipeline rebuild)
 
@@ -145,6 +151,9 @@ export class Model {
   /** TransformFeedback, WebGL 2 only. */
   transformFeedback: TransformFeedback | null = null;
 
+  /** Attribute manager whose buffers are uploaded and bound before each draw */
+  attributeManager: AttributeManager | null = null;
+
   /** The underlying GPU "program". @note May be recreated if parameters change */
   pipeline: RenderPipeline;
 
@@ -156,9 +165,17 @@ export class Model {
   _pipelineNeedsUpdate: string | false = 'newly created';
   _attributeInfos: Record<string, AttributeInfo> = {};
   _gpuGeometry: GPUGeometry | null = null;
+  /** GPU geometry created by this model from a `Geometry`, destroyed with the model */
+  _ownedGeometry: GPUGeometry | null = null;
+  /** Version of the attribute manager buffers that are bound */
+  _attributeManagerVersion: number = -1;
   private _getModuleUniforms: (props?: Record<string, Record<string, any>>) => Record<string, any>;
   private props: Required<ModelProps>;
 
+  get [Symbol.toStringTag](): string {
+    return 'Model';
+  }
+
   constructor(device: Device, props: ModelProps) {
     this.props = {...Model.defaultProps, ...props};
     props = this.props;
@@ -209,6 +226,7 @@ export class Model {
     this.vertexArray = device.createVertexArray({
       renderPipeline: this.pipeline
     });
+    this._setResourceOwner(this.vertexArray);
 
     // Now we can apply geometry attributes
     if (this._gpuGeometry) {
@@ -235,6 +253,9 @@ export class Model {
     if (props.constantAttributes) {
       this.setConstantAttributes(props.constantAttributes);
     }
+    if (props.attributeManager) {
+      this.setAttributeManager(props.attributeManager);
+    }
     if (props.bindings) {
       this.setBindings(props.bindings);
     }
@@ -257,8 +278,11 @@ export class Model {
   }
 
   destroy(): void {
-    this.pipelineFactory.release(this.pipeline);
+    this._destroyPipeline();
+    this.vertexArray.destroy();
+    this._ownedGeometry?.destroy();
     this._uniformStore.destroy();
+    this.destroyed = true;
   }
 
   // Draw call
@@ -266,6 +290,14 @@ export class Model {
   predraw() {
     // Update uniform buffers if needed
     this.updateShaderInputs();
+    // Upload changed attributes, and bind buffers that were reallocated
+    if (this.attributeManager) {
+      this.attributeManager.update();
+      if (this._attributeManagerVersion !== this.attributeManager.bufferVersion) {
+        this.setAttributes(this.attributeManager.getAttributes(), 'ignore-unknown');
+        this._attributeManagerVersion = this.attributeManager.bufferVersion;
+      }
+    }
   }
 
   draw(renderPass: RenderPass): void {
@@ -310,6 +342,12 @@ export class Model {
     if (this.vertexArray) {
       this._setGeometryAttributes(gpuGeometry);
     }
+    if (gpuGeometry !== geometry) {
+      this._setResourceOwner(gpuGeometry.indices, ...Object.values(gpuGeometry.attributes));
+      // The buffers of the previous geometry are no longer bound
+      this._ownedGeometry?.destroy();
+      this._ownedGeometry = gpuGeometry;
+    }
     return gpuGeometry;
   }
 
@@ -351,9 +389,13 @@ export class Model {
 
     // vertex array needs to be updated if we update buffer layout,
     // but not if we update parameters
+    this.vertexArray.destroy();
     this.vertexArray = this.device.createVertexArray({
       renderPipeline: this.pipeline
     });
+    this._setResourceOwner(this.vertexArray);
+    // Attribute manager buffers are bound to the new vertex array before the next draw
+    this._attributeManagerVersion = -1;
 
     // Reapply geometry attributes to the new vertex array
     if (this._gpuGeometry) {
@@ -448,6 +490,15 @@ export class Model {
     this.transformFeedback = transformFeedback;
   }
 
+  /**
+   * Sets an attribute manager, whose changed attributes are uploaded and bound before each draw
+   * @note The instance count is not updated, call `setInstanceCount()` when the number of instances changes
+   */
+  setAttributeManager(attributeManager: AttributeManager | null): void {
+    this.attributeManager = attributeManager;
+    this._attributeManagerVersion = -1;
+  }
+
   /**
    * Sets attributes (buffers)
    * @note Overrides any attributes previously set with the same name
@@ -517,20 +568,26 @@ export class Model {
         )();
       }
       this._pipelineNeedsUpdate = false;
+      if (this.pipeline) {
+        this._destroyPipeline();
+      }
+      const vs = this.device.createShader({id: `${this.id}-vertex`, stage: 'vertex', source: this.vs});
+      const fs = this.fs
+        ? this.device.createShader({
+          id: `${this.id}-fragment`,
+          stage: 'fragment',
+          source: this.fs
+        })
+        : null;
       this.pipeline = this.device.createRenderPipeline({
         ...this.props,
         bufferLayout: this.bufferLayout,
         topology: this.topology,
         parameters: this.parameters,
-        vs: this.device.createShader({id: '{$this.id}-vertex', stage: 'vertex', source: this.vs}),
-        fs: this.fs
-          ? this.device.createShader({
-            id: '{$this.id}-fragment',
-            stage: 'fragment',
-            source: this.fs
-          })
-          : null
+        vs,
+        fs
       });
+      this._setResourceOwner(this.pipeline, vs, fs);
       this._attributeInfos = getAttributeInfosFromLayouts(
         this.pipeline.shaderLayout,
         this.bufferLayout
@@ -539,6 +596,22 @@ export class Model {
     return this.pipeline;
   }
 
+  /** Destroys the pipeline and the shaders created for it */
+  _destroyPipeline(): void {
+    this.pipeline.destroy();
+    this.pipeline.vs.destroy();
+    this.pipeline.fs?.destroy();
+  }
+
+  /** Records this model as the owner of resources it created, for `Device.getResourceReport()` */
+  _setResourceOwner(...resources: (Resource<unknown> | null | undefined)[]): void {
+    for (const resource of resources) {
+      if (resource) {
+        this.device.resourceRegistry?.setOwner(resource, this);
+      }
+    }
+  }
+
   /** Throttle draw call logging */
   _lastLogTime = 0;
   _logOpen = false;
@@ -0,0 +1,229 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {Framebuffer, CompositeUniformValue} from '@luma.gl/core';
+import {Device, Texture, log, uid} from '@luma.gl/core';
+import type {ShaderPass, ShaderPassData} from '@luma.gl/shadertools';
+import {normalizeShaderModule} from '@luma.gl/shadertools';
+import {ShaderInputs} from '../shader-inputs';
+import type {ShaderModuleInputs} from '../shader-inputs';
+import {ClipSpace} from '../lib/clip-space';
+
+export type ShaderPassRendererProps = {
+  id?: string;
+  /** Shader passes to apply to the source texture, in order */
+  shaderPasses: ShaderPass[];
+  /** Shader inputs holding the props of the shader passes. Created from `shaderPasses` if not supplied */
+  shaderInputs?: ShaderInputs;
+};
+
+export type ShaderPassRendererRenderOptions = {
+  /** The texture to process */
+  sourceTexture: Texture;
+  /** Framebuffer to render the result into. Renders to the canvas if not supplied */
+  framebuffer?: Framebuffer | null;
+};
+
+/** A single entry of the `passes` list of a shader pass, drawn with a clip space model */
+type SubPass = {
+  shaderPass: ShaderPass | null;
+  data: ShaderPassData;
+  model: ClipSpace;
+};
+
+/**
+ * Runs a chain of post-processing shader passes on a texture.
+ * - Generates a fragment shader for every entry in the `passes` list of each shader pass
+ * - Renders intermediate results into two framebuffers sized to the source texture, alternately
+ * - Renders the result of the last pass into the target framebuffer or the canvas
+ * @note Shader pass modules are GLSL only
+ */
+export class ShaderPassRenderer {
+  readonly device: Device;
+  readonly id: string;
+  /** Props of the shader passes, e.g. `shaderInputs.setProps({brightnessContrast: {brightness: 0.5}})` */
+  readonly shaderInputs: ShaderInputs;
+  /** The shader passes, in order */
+  readonly shaderPasses: ShaderPass[];
+  /** The framebuffers that intermediate results are rendered into, alternately */
+  readonly framebuffers: [Framebuffer, Framebuffer];
+
+  /** One model per entry in the `passes` lists */
+  protected subPasses: SubPass[];
+
+  constructor(device: Device, props: ShaderPassRendererProps) {
+    this.device = device;
+    this.id = props.id || uid('shader-pass-renderer');
+    this.shaderPasses = props.shaderPasses.map(shaderPass => normalizeShaderModule(shaderPass));
+
+    if (props.shaderInputs) {
+      this.shaderInputs = props.shaderInputs;
+    } else {
+      const moduleMap = Object.fromEntries(
+        this.shaderPasses.map(shaderPass => [shaderPass.name, shaderPass])
+      );
+      this.shaderInputs = new ShaderInputs(moduleMap);
+      // Initialize uniforms from the default values of the uniform prop types
+      for (const shaderPass of this.shaderPasses) {
+        if (!shaderPass.defaultUniforms) {
+          this.shaderInputs.setProps({[shaderPass.name]: {}});
+        }
+      }
+    }
+
+    this.framebuffers = [this._createFramebuffer(0), this._createFramebuffer(1)];
+
+    this.subPasses = [];
+    for (const shaderPass of this.shaderPasses) {
+      for (const [index, data] of (shaderPass.passes || []).entries()) {
+        this.subPasses.push({
+          shaderPass,
+          data,
+          model: new ClipSpace(device, {
+            id: `${this.id}-${shaderPass.name}-${index}`,
+            fs: getShaderPassFragmentShader(shaderPass, data),
+            modules: [shaderPass],
+            shaderInputs: new ShaderInputs({[shaderPass.name]: getSubPassInputs(shaderPass, data)})
+          })
+        });
+      }
+    }
+
+    // Copy the source texture if there is nothing to apply
+    if (this.subPasses.length === 0) {
+      this.subPasses.push({
+        shaderPass: null,
+        data: {},
+        model: new ClipSpace(device, {
+          id: `${this.id}-copy`,
+          fs: getShaderPassFragmentShader(null, {})
+        })
+      });
+    }
+  }
+
+  destroy(): void {
+    for (const subPass of this.subPasses) {
+      subPass.model.destroy();
+    }
+    for (const framebuffer of this.framebuffers) {
+      framebuffer.colorAttachments[0].destroy();
+      framebuffer.destroy();
+    }
+  }
+
+  /**
+   * Applies all shader passes to the source texture
+   * and renders the result into the supplied framebuffer, or the canvas
+   */
+  render(options: ShaderPassRendererRenderOptions): void {
+    const {sourceTexture} = options;
+    const framebuffer = options.framebuffer || this.device.getCanvasContext().getCurrentFramebuffer();
+    this.resize(sourceTexture.width, sourceTexture.height);
+
+    let inputTexture = sourceTexture;
+    for (const [index, subPass] of this.subPasses.entries()) {
+      const isLastPass = index === this.subPasses.length - 1;
+      const outputFramebuffer = isLastPass ? framebuffer : this.framebuffers[index % 2];
+
+      const {shaderPass, model} = subPass;
+      if (shaderPass) {
+        model.shaderInputs.setProps({
+          [shaderPass.name]: this.shaderInputs.getUniformValues()[shaderPass.name]
+        });
+      }
+      model.setBindings({sourceTexture: inputTexture});
+
+      const renderPass = this.device.beginRenderPass({
+        id: `${model.id}-pass`,
+        framebuffer: outputFramebuffer
+      });
+      model.draw(renderPass);
+      renderPass.end();
+
+      inputTexture = outputFramebuffer.colorAttachments[0];
+    }
+  }
+
+  /** Resizes the intermediate framebuffers. Called by render() to match the source texture */
+  resize(width: number, height: number): void {
+    for (const framebuffer of this.framebuffers) {
+      framebuffer.resize({width, height});
+    }
+  }
+
+  protected _createFramebuffer(index: number): Framebuffer {
+    const texture = this.device.createTexture({
+      id: `${this.id}-texture-${index}`,
+      format: 'rgba8unorm',
+      usage: Texture.RENDER_ATTACHMENT | Texture.TEXTURE_BINDING,
+      width: 1,
+      height: 1,
+      sampler: {
+        minFilter: 'linear',
+        magFilter: 'linear',
+        addressModeU: 'clamp-to-edge',
+        addressModeV: 'clamp-to-edge'
+      }
+    });
+    return this.device.createFramebuffer({
+      id: `${this.id}-framebuffer-${index}`,
+      width: 1,
+      height: 1,
+      colorAttachments: [texture]
+    });
+  }
+}
+
+/** Shader inputs of one entry in the `passes` list: the pass specific uniforms override the props */
+function getSubPassInputs(shaderPass: ShaderPass, data: ShaderPassData): ShaderModuleInputs {
+  return {
+    ...shaderPass,
+    getUniforms: (props, prevUniforms) => ({
+      ...(shaderPass.getUniforms?.(props, prevUniforms) || (props as Record<string, CompositeUniformValue>)),
+      ...data.uniforms
+    })
+  };
+}
+
+/**
+ * Generates the fragment shader for one entry in the `passes` list of a shader pass.
+ * - Sampler passes call `vec4 <name>_sampleColor(sampler2D source, vec2 texSize, vec2 texCoord)`
+ * - Filter passes call `vec4 <name>_filterColor(vec4 color, vec2 texSize, vec2 texCoord)`
+ * - Otherwise the source texture is copied
+ */
+export function getShaderPassFragmentShader(
+  shaderPass: ShaderPass | null,
+  data: ShaderPassData
+): string {
+  let getColor = 'texture(sourceTexture, texCoord)';
+  if (shaderPass && data.sampler) {
+    const sampleColor =
+      typeof data.sampler === 'string' ? data.sampler : `${shaderPass.name}_sampleColor`;
+    getColor = `${sampleColor}(sourceTexture, texSize, texCoord)`;
+  } else if (shaderPass && data.filter) {
+    const filterColor =
+      typeof data.filter === 'string' ? data.filter : `${shaderPass.name}_filterColor`;
+    getColor = `${filterColor}(texture(sourceTexture, texCoord), texSize, texCoord)`;
+  } else if (shaderPass) {
+    log.warn(`Shader pass ${shaderPass.name} has neither a sampler nor a filter`)();
+  }
+
+  return /* glsl */ `\
+#version 300 es
+
+uniform sampler2D sourceTexture;
+
+in vec2 position;
+in vec2 coordinate;
+in vec2 uv;
+
+out vec4 fragColor;
+
+void main() {
+  vec2 texCoord = coordinate;
+  vec2 texSize = vec2(textureSize(sourceTexture, 0));
+  fragColor = ${getColor};
+}
+`;
+}
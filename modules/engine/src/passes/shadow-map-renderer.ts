@@ -0,0 +1,191 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {Framebuffer, RenderPipelineParameters} from '@luma.gl/core';
+import {Device, Texture, log, uid} from '@luma.gl/core';
+import type {DirectionalLight, SpotLight} from '@luma.gl/shadertools';
+import {Matrix4, Vector3} from '@math.gl/core';
+import type {Model} from '../model/model';
+import type {GroupNode} from '../scenegraph/group-node';
+import {ModelNode} from '../scenegraph/model-node';
+
+export type ShadowMapRendererProps = {
+  id?: string;
+  /** Width of the shadow map in texels */
+  width?: number;
+  /** Height of the shadow map in texels */
+  height?: number;
+  /** Format of the shadow map depth texture */
+  format?: 'depth32float' | 'depth24plus';
+};
+
+/** The shadow pass only writes depth, whatever parameters the models use in the main pass */
+const SHADOW_PASS_PARAMETERS: RenderPipelineParameters = {
+  depthWriteEnabled: true,
+  depthCompare: 'less-equal',
+  colorMask: 0
+};
+
+export type ShadowMapRendererRenderOptions = {
+  /** The scene, used to calculate the light matrix and to find the models that cast shadows */
+  scene: GroupNode;
+  /** The light casting shadows */
+  light: DirectionalLight | SpotLight;
+  /** Models to render into the shadow map and to bind it to. The models of the scene if not supplied */
+  models?: Model[];
+};
+
+/**
+ * Renders the shadow map of a directional or spot light for the `shadow` shader module.
+ * - Fits the light matrix to the bounds of the scene
+ * - Renders the models depth only into the shadow map, with the `shadow` module outputting light clip space positions
+ * - Binds the shadow map and the light matrix to the models, for the main pass
+ * @note Models without the `shadow` module in their shader inputs are ignored
+ */
+export class ShadowMapRenderer {
+  readonly device: Device;
+  readonly id: string;
+  /** The depth texture the scene is rendered into from the light */
+  readonly shadowMap: Texture;
+  readonly framebuffer: Framebuffer;
+  /** View projection matrix of the light, updated by render() */
+  readonly lightMatrix = new Matrix4();
+
+  /** Bound instead of the shadow map while rendering it, as a texture cannot be sampled and rendered to at the same time */
+  protected placeholderTexture: Texture;
+
+  constructor(device: Device, props: ShadowMapRendererProps = {}) {
+    const {width = 1024, height = 1024, format = 'depth32float'} = props;
+    this.device = device;
+    this.id = props.id || uid('shadow-map-renderer');
+
+    // Depth textures are not filterable, filtering is done in the shader
+    const sampler = {
+      minFilter: 'nearest',
+      magFilter: 'nearest',
+      mipmapFilter: 'none',
+      addressModeU: 'clamp-to-edge',
+      addressModeV: 'clamp-to-edge'
+    } as const;
+
+    this.shadowMap = device.createTexture({
+      id: `${this.id}-shadow-map`,
+      format,
+      usage: Texture.RENDER_ATTACHMENT | Texture.TEXTURE_BINDING,
+      width,
+      height,
+      mipmaps: false,
+      sampler
+    });
+    this.placeholderTexture = device.createTexture({
+      id: `${this.id}-placeholder`,
+      format,
+      usage: Texture.TEXTURE_BINDING,
+      width: 1,
+      height: 1,
+      mipmaps: false,
+      sampler
+    });
+    this.framebuffer = device.createFramebuffer({
+      id: `${this.id}-framebuffer`,
+      width,
+      height,
+      depthStencilAttachment: this.shadowMap
+    });
+  }
+
+  destroy(): void {
+    this.framebuffer.destroy();
+    this.shadowMap.destroy();
+    this.placeholderTexture.destroy();
+  }
+
+  /**
+   * Renders the shadow map of the light,
+   * then enables shadows on the models and binds the shadow map for the main pass
+   */
+  render(options: ShadowMapRendererRenderOptions): void {
+    const {scene, light} = options;
+    const models = (options.models || getModels(scene)).filter(model => model.shaderInputs.modules.shadow);
+
+    const bounds = scene.getBounds();
+    if (!bounds) {
+      log.warn(`${this.id}: scene has no bounds, shadows disabled`)();
+      for (const model of models) {
+        model.shaderInputs.setProps({shadow: {enabled: false}});
+      }
+      return;
+    }
+    this.lightMatrix.copy(getLightMatrix(light, bounds));
+
+    const renderPass = this.device.beginRenderPass({
+      id: `${this.id}-pass`,
+      framebuffer: this.framebuffer,
+      clearColor: false,
+      clearDepth: 1
+    });
+    for (const model of models) {
+      const {parameters} = model;
+      model.shaderInputs.setProps({shadow: {lightMatrix: this.lightMatrix, drawShadowMap: true}});
+      model.setBindings({shadowMap: this.placeholderTexture});
+      model.setParameters({...parameters, ...SHADOW_PASS_PARAMETERS});
+      model.draw(renderPass);
+      model.setParameters(parameters);
+    }
+    renderPass.end();
+
+    for (const model of models) {
+      model.shaderInputs.setProps({shadow: {drawShadowMap: false, enabled: true}});
+      model.setBindings({shadowMap: this.shadowMap});
+    }
+  }
+}
+
+/**
+ * Calculates the view projection matrix of a light that covers the bounds of a scene.
+ * - Directional lights use an orthographic projection around the bounding sphere of the scene
+ * - Spot lights use a perspective projection covering the outer cone of the light
+ */
+export function getLightMatrix(
+  light: DirectionalLight | SpotLight,
+  bounds: [number[], number[]]
+): Matrix4 {
+  const [min, max] = bounds;
+  const center = new Vector3(min).add(max).scale(0.5);
+  const radius = Math.max(new Vector3(max).subtract(min).len() / 2, 1e-6);
+  const direction = new Vector3(light.direction).normalize();
+  // Any up vector that is not parallel to the light direction
+  const up = Math.abs(direction[1]) > 0.99 ? [0, 0, 1] : [0, 1, 0];
+
+  if (light.type === 'spot') {
+    const position = new Vector3(light.position);
+    const distance = position.distance(center);
+    const far = distance + radius;
+    const near = Math.max(distance - radius, far / 1000);
+    const viewMatrix = new Matrix4().lookAt({
+      eye: position,
+      center: new Vector3(position).add(direction),
+      up
+    });
+    return new Matrix4()
+      .perspective({fovy: 2 * (light.outerConeAngle ?? Math.PI / 4), aspect: 1, near, far})
+      .multiplyRight(viewMatrix);
+  }
+
+  const eye = new Vector3(direction).scale(-radius).add(center);
+  const viewMatrix = new Matrix4().lookAt({eye, center, up});
+  return new Matrix4()
+    .ortho({left: -radius, right: radius, bottom: -radius, top: radius, near: 0, far: 2 * radius})
+    .multiplyRight(viewMatrix);
+}
+
+/** The models of all model nodes in a scene */
+function getModels(scene: GroupNode): Model[] {
+  const models: Model[] = [];
+  scene.traverse(node => {
+    if (node instanceof ModelNode) {
+      models.push(node.model);
+    }
+  });
+  return models;
+}
@@ -0,0 +1,234 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {Framebuffer, RenderPipelineParameters} from '@luma.gl/core';
+import {Device, Texture, log, uid} from '@luma.gl/core';
+import {PICKING_MAX_BATCHES} from '@luma.gl/shadertools';
+import type {Model} from '../model/model';
+import {readFramebufferPixels, readFramebufferPixelsAsync} from '../lib/read-pixels';
+
+export type PickingManagerProps = {
+  id?: string;
+};
+
+export type PickingManagerPickOptions = {
+  /** Models to pick from. Each model needs the `picking` module in its shader inputs */
+  models: Model[];
+  /** Left edge of the picked area, in device pixels from the left of the canvas */
+  x: number;
+  /** Top edge of the picked area, in device pixels from the top of the canvas */
+  y: number;
+  /** Width of the picked area, in device pixels. Default 1 */
+  width?: number;
+  /** Height of the picked area, in device pixels. Default 1 */
+  height?: number;
+};
+
+/** Picking colors are written unmodified, whatever blending the models use in the main pass */
+const PICKING_PASS_PARAMETERS: RenderPipelineParameters = {
+  blendColorOperation: 'add',
+  blendColorSrcFactor: 'one',
+  blendColorDstFactor: 'zero',
+  blendAlphaOperation: 'add',
+  blendAlphaSrcFactor: 'one',
+  blendAlphaDstFactor: 'zero'
+};
+
+/** A picked object */
+export type PickInfo = {
+  /** The model the object was rendered by */
+  model: Model;
+  /** Index of the model in the list of picked models */
+  modelIndex: number;
+  /** Index encoded in the picking color of the object, e.g. the instance index */
+  objectIndex: number;
+  /** Device pixel where the object was first found, from the top left of the canvas */
+  x: number;
+  y: number;
+};
+
+/**
+ * Picks objects rendered with the `picking` shader module.
+ * - Renders models in picking mode into an offscreen framebuffer sized to the canvas
+ * - Identifies models by the alpha channel, and objects by the 24 bit index encoded in the RGB channels of picking colors
+ * - Reads back a pixel or rectangle, synchronously on WebGL or asynchronously on WebGL and WebGPU
+ * @note Picking colors are encoded with `encodePickingColor()`
+ */
+export class PickingManager {
+  readonly device: Device;
+  readonly id: string;
+  /** The framebuffer picking colors are rendered into */
+  readonly framebuffer: Framebuffer;
+
+  constructor(device: Device, props: PickingManagerProps = {}) {
+    this.device = device;
+    this.id = props.id || uid('picking-manager');
+
+    // Render pipelines are created for the canvas format on WebGPU
+    const format =
+      device.info.type === 'webgpu'
+        ? device.getCanvasContext().getCurrentFramebuffer().colorAttachments[0].format
+        : 'rgba8unorm';
+    const texture = device.createTexture({
+      id: `${this.id}-texture`,
+      format,
+      usage: Texture.RENDER_ATTACHMENT | Texture.COPY_SRC,
+      width: 1,
+      height: 1,
+      mipmaps: false
+    });
+    this.framebuffer = device.createFramebuffer({
+      id: `${this.id}-framebuffer`,
+      width: 1,
+      height: 1,
+      colorAttachments: [texture],
+      depthStencilAttachment: 'depth24plus'
+    });
+  }
+
+  destroy(): void {
+    this.framebuffer.colorAttachments[0].destroy();
+    this.framebuffer.destroy();
+  }
+
+  /**
+   * Picks the closest object at a pixel
+   * @note WebGL only. Use `pickObjectAsync()` on WebGPU
+   */
+  pickObject(options: PickingManagerPickOptions): PickInfo | null {
+    return this.pickObjects({...options, width: 1, height: 1})[0] || null;
+  }
+
+  /**
+   * Picks the objects visible in a rectangle, each object once
+   * @note WebGL only. Use `pickObjectsAsync()` on WebGPU
+   */
+  pickObjects(options: PickingManagerPickOptions): PickInfo[] {
+    const area = this._render(options);
+    if (!area) {
+      return [];
+    }
+    const pixels = readFramebufferPixels(this.device, this.framebuffer, area);
+    return this._decodePixels(pixels, area, options.models);
+  }
+
+  /** Picks the closest object at a pixel */
+  async pickObjectAsync(options: PickingManagerPickOptions): Promise<PickInfo | null> {
+    const pickInfos = await this.pickObjectsAsync({...options, width: 1, height: 1});
+    return pickInfos[0] || null;
+  }
+
+  /** Picks the objects visible in a rectangle, each object once */
+  async pickObjectsAsync(options: PickingManagerPickOptions): Promise<PickInfo[]> {
+    const area = this._render(options);
+    if (!area) {
+      return [];
+    }
+    const pixels = await readFramebufferPixelsAsync(this.device, this.framebuffer, area);
+    return this._decodePixels(pixels, area, options.models);
+  }
+
+  /**
+   * Highlights a picked object, or clears the highlight if `pickInfo` is null
+   * @note Models need separate shader inputs, highlights are set per model
+   */
+  highlightObject(models: Model[], pickInfo: PickInfo | null): void {
+    for (const model of models) {
+      let highlightedObjectColor: number[] | null = null;
+      if (pickInfo?.model === model) {
+        highlightedObjectColor = encodePickingColor(pickInfo.objectIndex);
+        // Picking colors are compared in the color range of the model
+        if (model.shaderInputs.getUniformValues().picking?.useFloatColors) {
+          highlightedObjectColor = highlightedObjectColor.map(value => value / 255);
+        }
+      }
+      model.shaderInputs.setProps({picking: {highlightedObjectColor}});
+    }
+  }
+
+  /** Renders the models in picking mode. Returns the picked area, clipped to the framebuffer */
+  protected _render(options: PickingManagerPickOptions): PickingArea | null {
+    const {models, width = 1, height = 1} = options;
+    log.assert(models.length <= PICKING_MAX_BATCHES, `${this.id}: at most ${PICKING_MAX_BATCHES} models can be picked`);
+
+    const [canvasWidth, canvasHeight] = this.device.getCanvasContext().getDrawingBufferSize();
+    this.framebuffer.resize({width: canvasWidth, height: canvasHeight});
+
+    const x = Math.max(0, Math.floor(options.x));
+    const y = Math.max(0, Math.floor(options.y));
+    const area = {
+      x,
+      y,
+      width: Math.min(Math.floor(options.x + width), canvasWidth) - x,
+      height: Math.min(Math.floor(options.y + height), canvasHeight) - y
+    };
+    if (area.width <= 0 || area.height <= 0) {
+      return null;
+    }
+
+    const renderPass = this.device.beginRenderPass({
+      id: `${this.id}-pass`,
+      framebuffer: this.framebuffer,
+      clearColor: [0, 0, 0, 0],
+      clearDepth: 1
+    });
+    for (const [batchIndex, model] of models.entries()) {
+      const {parameters} = model;
+      // The picking module resets `isAttribute` whenever `isActive` is set
+      const isAttribute = Boolean(model.shaderInputs.getUniformValues().picking?.isAttribute);
+      model.shaderInputs.setProps({picking: {isActive: true, isAttribute, batchIndex}});
+      model.setParameters({...parameters, ...PICKING_PASS_PARAMETERS});
+      model.draw(renderPass);
+      model.setParameters(parameters);
+    }
+    renderPass.end();
+
+    for (const model of models) {
+      const isAttribute = Boolean(model.shaderInputs.getUniformValues().picking?.isAttribute);
+      model.shaderInputs.setProps({picking: {isActive: false, isAttribute, batchIndex: null}});
+    }
+    return area;
+  }
+
+  /** Decodes picking colors to unique picked objects, in the order they are first found */
+  protected _decodePixels(pixels: Uint8Array, area: PickingArea, models: Model[]): PickInfo[] {
+    const pickInfos = new Map<string, PickInfo>();
+    for (let i = 0; i < area.width * area.height; i++) {
+      const alpha = pixels[i * 4 + 3];
+      const objectIndex = decodePickingColor(pixels.subarray(i * 4, i * 4 + 3));
+      const modelIndex = alpha - 1;
+      const model = models[modelIndex];
+      const key = `${modelIndex}:${objectIndex}`;
+      if (model && objectIndex >= 0 && !pickInfos.has(key)) {
+        pickInfos.set(key, {
+          model,
+          modelIndex,
+          objectIndex,
+          x: area.x + (i % area.width),
+          y: area.y + Math.floor(i / area.width)
+        });
+      }
+    }
+    return Array.from(pickInfos.values());
+  }
+}
+
+/** A rectangle of the framebuffer, in device pixels from the top left */
+type PickingArea = {x: number; y: number; width: number; height: number};
+
+/**
+ * Encodes an object index as a picking color, in the 0-255 range.
+ * Index `i` is encoded as `i + 1`, as black is not pickable. Supports indices up to 2^24 - 2.
+ */
+export function encodePickingColor(index: number, target: number[] = []): number[] {
+  const value = index + 1;
+  target[0] = value & 255;
+  target[1] = (value >> 8) & 255;
+  target[2] = (value >> 16) & 255;
+  return target;
+}
+
+/** Decodes a picking color in the 0-255 range to an object index. Returns -1 for black */
+export function decodePickingColor(color: Readonly<ArrayLike<number>>): number {
+  return color[0] + color[1] * 256 + color[2] * 65536 - 1;
+}
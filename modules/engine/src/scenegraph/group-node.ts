@@ -20,12 +20,14 @@ export class GroupNode extends ScenegraphNode {
       'every child must an instance of ScenegraphNode'
     );
     super(props);
-    this.children = children;
+    this.children = [];
+    this.add(children);
   }
 
   override getBounds(): [number[], number[]] | null {
     const result: [number[], number[]] = [[Infinity, Infinity, Infinity], [-Infinity, -Infinity, -Infinity]];
 
+    // Bounds are in the coordinate system of the parent of this group
     this.traverse((node, {worldMatrix}) => {
       const bounds = node.getBounds();
       if (!bounds) {
@@ -50,26 +52,41 @@ export class GroupNode extends ScenegraphNode {
           result[1][i] = Math.max(result[1][i], position[i]);
         }
       }
-    });
+    }, {worldMatrix: new Matrix4()});
     if (!Number.isFinite(result[0][0])) {
       return null;
     }
     return result;
   }
 
+  override invalidateWorldMatrix(): void {
+    // Descendants of a node with an outdated world matrix are already invalidated
+    if (!this._worldMatrixDirty) {
+      super.invalidateWorldMatrix();
+      for (const child of this.children) {
+        child.invalidateWorldMatrix();
+      }
+    }
+  }
+
   override destroy(): void {
     this.children.forEach((child) => child.destroy());
     this.removeAll();
     super.destroy();
   }
 
-  // Unpacks arrays and nested arrays of children
+  /**
+   * Adds children. Unpacks arrays and nested arrays of children
+   * @note A node can be added to several groups, e.g. to instance a mesh. Its `parent` is the last group it was added to
+   */
   add(...children: (ScenegraphNode | ScenegraphNode[])[]): this {
     for (const child of children) {
       if (Array.isArray(child)) {
         this.add(...child);
       } else {
         this.children.push(child);
+        child.parent = this;
+        child.invalidateWorldMatrix();
       }
     }
     return this;
@@ -80,21 +97,69 @@ export class GroupNode extends ScenegraphNode {
     const indexOf = children.indexOf(child);
     if (indexOf > -1) {
       children.splice(indexOf, 1);
+      if (child.parent === this) {
+        child.parent = null;
+        child.invalidateWorldMatrix();
+      }
     }
     return this;
   }
 
   removeAll(): this {
+    for (const child of this.children) {
+      if (child.parent === this) {
+        child.parent = null;
+        child.invalidateWorldMatrix();
+      }
+    }
     this.children = [];
     return this;
   }
 
-  traverse(visitor: (node: ScenegraphNode, context: {worldMatrix: Matrix4}) => void, {worldMatrix = new Matrix4()} = {}) {
-    const modelMatrix = new Matrix4(worldMatrix).multiplyRight(this.matrix);
+  /**
+   * Moves a node from its current parent to this group, preserving its world transform.
+   * @note The matrix of the node is replaced, its position, rotation and scale are not updated
+   */
+  attach(child: ScenegraphNode): this {
+    const worldMatrix = new Matrix4(child.getWorldMatrix());
+    child.parent?.remove(child);
+    this.add(child);
+    child.setMatrix(new Matrix4(this.getWorldMatrix()).invert().multiplyRight(worldMatrix));
+    return this;
+  }
+
+  /** Finds this group or a descendant by id */
+  findById(id: string): ScenegraphNode | null {
+    if (this.id === id) {
+      return this;
+    }
+    for (const child of this.children) {
+      const node = child instanceof GroupNode ? child.findById(id) : child.id === id ? child : null;
+      if (node) {
+        return node;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Calls the visitor for every descendant that is not a group, with the world matrix of its parent.
+   * @param worldMatrix Transform applied to this group. Defaults to the world matrix of the parent of this group
+   * @note The world matrices passed to the visitor are cached and must not be modified
+   */
+  traverse(
+    visitor: (node: ScenegraphNode, context: {worldMatrix: Matrix4}) => void,
+    {worldMatrix}: {worldMatrix?: Matrix4} = {}
+  ) {
+    const modelMatrix = worldMatrix
+      ? new Matrix4(worldMatrix).multiplyRight(this.matrix)
+      : this.getWorldMatrix();
 
     for (const child of this.children) {
       if (child instanceof GroupNode) {
-        child.traverse(visitor, {worldMatrix: modelMatrix});
+        // Cached world matrices only apply to nodes reached through their parent
+        const useCache = !worldMatrix && child.parent === this;
+        child.traverse(visitor, {worldMatrix: useCache ? undefined : modelMatrix});
       } else {
         visitor(child, {worldMatrix: modelMatrix});
       }
@@ -1,17 +1,25 @@
 import {RenderPass} from '@luma.gl/core';
 import {ScenegraphNode, ScenegraphNodeProps} from './scenegraph-node';
 import {Model} from '../model/model';
+import type {Geometry} from '../geometry/geometry';
+import {GeometryBVH} from '../geometry/geometry-bvh';
 
 export type ModelNodeProps = ScenegraphNodeProps & {
   model: Model;
   managedResources?: any[];
   bounds?: [number[], number[]];
+  /** CPU geometry of the model, used for raycasting */
+  geometry?: Geometry | null;
 }
 
 export class ModelNode extends ScenegraphNode {
   readonly model: Model;
   bounds: [number[], number[]] | null = null;
   managedResources: any[];
+  /** CPU geometry of the model, used for raycasting */
+  geometry: Geometry | null = null;
+
+  protected _bvh: GeometryBVH | null = null;
 
   // TODO - is this used? override callbacks to make sure we call them with this
   // onBeforeRender = null;
@@ -25,6 +33,7 @@ export class ModelNode extends ScenegraphNode {
     this.model = props.model;
     this.managedResources = props.managedResources || [];
     this.bounds = props.bounds || null;
+    this.geometry = props.geometry || null;
     this.setProps(props);
   }
 
@@ -32,6 +41,14 @@ export class ModelNode extends ScenegraphNode {
     return this.bounds;
   }
 
+  /** Returns the bounding volume hierarchy of the geometry, built on first use. Null without geometry */
+  getBVH(): GeometryBVH | null {
+    if (this._bvh?.geometry !== this.geometry) {
+      this._bvh = this.geometry ? new GeometryBVH(this.geometry) : null;
+    }
+    return this._bvh;
+  }
+
   override destroy(): void {
     if (this.model) {
       this.model.destroy();
@@ -0,0 +1,85 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import {Matrix4, Vector3} from '@math.gl/core';
+import type {Ray, RaycastOptions} from '../geometry/ray-intersection';
+import {intersectRayAABB} from '../geometry/ray-intersection';
+import type {ScenegraphNode} from './scenegraph-node';
+import type {ModelNode} from './model-node';
+import {visitModelNodes} from './visit-model-nodes';
+
+/** Closest intersection of a ray with the geometry of a model node */
+export type RaycastHit = {
+  node: ModelNode;
+  /** Distance from the origin of the ray, in world space */
+  distance: number;
+  /** Intersection point in world space */
+  point: [number, number, number];
+  /** Intersection point in the model space of the node */
+  localPoint: [number, number, number];
+  /** Index of the triangle, in the triangle list of the geometry */
+  faceIndex: number;
+  /** Barycentric coordinates of the intersection relative to the vertices of the triangle */
+  barycentric: [u: number, v: number];
+};
+
+/**
+ * Intersects a world space ray with the model nodes of a scene, on the CPU.
+ * - Only model nodes with a `geometry` are intersected. Nodes are skipped early if the ray misses their bounds
+ * - Honors `ScenegraphNode.display` of model nodes and of their ancestors
+ * @returns the closest hit of each model node, closest first
+ */
+export function raycast(scene: ScenegraphNode, ray: Ray, options: RaycastOptions = {}): RaycastHit[] {
+  // Distances are measured in world units
+  const worldRay = {
+    origin: new Vector3(ray.origin),
+    direction: new Vector3(ray.direction).normalize()
+  };
+  const hits: RaycastHit[] = [];
+  visitModelNodes(scene, (node, worldMatrix) => {
+    const hit = raycastModelNode(node, worldMatrix, worldRay, options);
+    if (hit) {
+      hits.push(hit);
+    }
+  });
+  return hits.sort((a, b) => a.distance - b.distance);
+}
+
+function raycastModelNode(
+  node: ModelNode,
+  worldMatrix: Matrix4,
+  worldRay: {origin: Vector3; direction: Vector3},
+  options: RaycastOptions
+): RaycastHit | null {
+  const bvh = node.getBVH();
+  if (!bvh) {
+    return null;
+  }
+
+  // Intersect in model space, where distances are scaled by the transform
+  const inverseMatrix = new Matrix4(worldMatrix).invert();
+  const localRay = {
+    origin: inverseMatrix.transformAsPoint(worldRay.origin, new Vector3()),
+    direction: inverseMatrix.transformAsVector(worldRay.direction, new Vector3())
+  };
+  // Local distances are world distances, as the world direction has unit length
+  const bounds = node.getBounds();
+  if (bounds && intersectRayAABB(localRay, bounds, options.maxDistance) === null) {
+    return null;
+  }
+  // Mirroring transforms reverse the winding of triangles, back faces are then not culled
+  const cullBackFaces = options.cullBackFaces && worldMatrix.determinant() > 0;
+  const hit = bvh.raycastFirst(localRay, {...options, cullBackFaces});
+  if (!hit) {
+    return null;
+  }
+
+  return {
+    node,
+    distance: hit.distance,
+    point: worldMatrix.transformAsPoint(hit.point, [0, 0, 0]) as [number, number, number],
+    localPoint: hit.point,
+    faceIndex: hit.faceIndex,
+    barycentric: hit.barycentric
+  };
+}
@@ -0,0 +1,202 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {NumberArray, RenderPass} from '@luma.gl/core';
+import {uid} from '@luma.gl/core';
+import {Matrix4, Vector3} from '@math.gl/core';
+import type {Model} from '../model/model';
+import type {GroupNode} from './group-node';
+import type {ModelNode} from './model-node';
+import {visitModelNodes} from './visit-model-nodes';
+
+export type SceneRendererProps = {
+  id?: string;
+  /** Skip model nodes whose bounds are outside of the view frustum. Default true */
+  cull?: boolean;
+  /** Sort draws: opaque models front-to-back grouped by pipeline, then transparent models back-to-front. Default true */
+  sort?: boolean;
+  /** Whether a model is transparent and needs to be drawn back-to-front. Default: models with blending parameters */
+  isTransparent?: (model: Model) => boolean;
+};
+
+export type SceneRendererRenderOptions = {
+  /** The scene to draw */
+  scene: GroupNode;
+  /** View matrix of the camera */
+  viewMatrix: NumberArray;
+  /** Projection matrix of the camera */
+  projectionMatrix: NumberArray;
+  /** Called before each model node is drawn, e.g. to set the matrices of the model */
+  onBeforeDraw?: (node: ModelNode, context: {worldMatrix: Matrix4}) => void;
+};
+
+/** A model node to be drawn */
+export type SceneDraw = {
+  node: ModelNode;
+  /** Matrix from the model space of the node to world space. Must not be modified */
+  worldMatrix: Matrix4;
+  /** Distance from the camera along the view direction, of the center of the bounds of the node */
+  depth: number;
+  transparent: boolean;
+};
+
+/**
+ * Draws the model nodes of a scene.
+ * - Honors `ScenegraphNode.display` of model nodes and of their ancestors
+ * - Culls model nodes whose world space bounds are outside of the view frustum. Nodes without bounds are always drawn
+ * - Draws opaque models front-to-back grouped by pipeline, then transparent models back-to-front
+ * @note Transparent models should disable depth writes, so that they do not hide each other
+ */
+export class SceneRenderer {
+  readonly id: string;
+  props: Required<SceneRendererProps>;
+  /** Statistics of the last render() or getDraws() call */
+  readonly stats = {drawn: 0, culled: 0};
+
+  static defaultProps: Required<SceneRendererProps> = {
+    id: undefined!,
+    cull: true,
+    sort: true,
+    isTransparent: (model: Model) => Boolean(model.parameters?.blendColorOperation)
+  };
+
+  constructor(props: SceneRendererProps = {}) {
+    this.props = {...SceneRenderer.defaultProps, ...props};
+    this.id = props.id || uid('scene-renderer');
+  }
+
+  /** Draws the visible model nodes of the scene in order */
+  render(renderPass: RenderPass, options: SceneRendererRenderOptions): void {
+    for (const {node, worldMatrix} of this.getDraws(options)) {
+      options.onBeforeDraw?.(node, {worldMatrix});
+      node.draw(renderPass);
+    }
+  }
+
+  /** Returns the visible model nodes of the scene in draw order */
+  getDraws(options: SceneRendererRenderOptions): SceneDraw[] {
+    const {scene, viewMatrix, projectionMatrix} = options;
+    const planes = getFrustumPlanes(new Matrix4(projectionMatrix).multiplyRight(viewMatrix));
+
+    const draws: SceneDraw[] = [];
+    this.stats.culled = 0;
+    visitModelNodes(scene, (node, worldMatrix) => {
+      const bounds = node.getBounds();
+      const worldBounds = bounds && transformBounds(bounds, worldMatrix);
+      if (this.props.cull && worldBounds && !intersectsFrustum(planes, worldBounds)) {
+        this.stats.culled++;
+        return;
+      }
+
+      const center = worldBounds
+        ? new Vector3(worldBounds[0]).add(worldBounds[1]).scale(0.5)
+        : worldMatrix.getTranslation();
+      // The camera looks along -z in view space
+      const depth = -new Matrix4(viewMatrix).transformAsPoint(center)[2];
+      draws.push({
+        node,
+        worldMatrix,
+        depth,
+        transparent: this.props.isTransparent(node.model)
+      });
+    });
+    this.stats.drawn = draws.length;
+
+    return this.props.sort ? sortDraws(draws) : draws;
+  }
+}
+
+/**
+ * Sorts opaque draws front-to-back grouped by pipeline, to reduce overdraw and pipeline switches,
+ * followed by transparent draws back-to-front, so that they blend correctly
+ */
+function sortDraws(draws: SceneDraw[]): SceneDraw[] {
+  const opaqueDraws = draws.filter(draw => !draw.transparent);
+  const transparentDraws = draws.filter(draw => draw.transparent);
+
+  // Pipeline groups are ordered by their closest draw
+  opaqueDraws.sort((a, b) => a.depth - b.depth);
+  const pipelineOrder = new Map<string, number>();
+  const pipelineKeys = new Map<SceneDraw, string>();
+  for (const draw of opaqueDraws) {
+    const key = getPipelineKey(draw.node.model);
+    pipelineKeys.set(draw, key);
+    if (!pipelineOrder.has(key)) {
+      pipelineOrder.set(key, pipelineOrder.size);
+    }
+  }
+  // Array.sort is stable, draws stay front-to-back within a group
+  opaqueDraws.sort(
+    (a, b) => pipelineOrder.get(pipelineKeys.get(a)!)! - pipelineOrder.get(pipelineKeys.get(b)!)!
+  );
+
+  transparentDraws.sort((a, b) => b.depth - a.depth);
+  return [...opaqueDraws, ...transparentDraws];
+}
+
+const SHADER_NAME_REGEX = /^#define SHADER_NAME .*$/gm;
+
+/**
+ * Identifies models that can share a pipeline: the hash of pipelines created by a PipelineFactory,
+ * otherwise the shader sources, as switching shaders dominates the cost of switching pipelines
+ */
+function getPipelineKey(model: Model): string {
+  // Shader names are generated from model ids, and differ for identical shaders
+  return model.pipeline.hash || `${model.vs}\n${model.fs}`.replace(SHADER_NAME_REGEX, '');
+}
+
+/** Transforms an axis aligned bounding box, returning the axis aligned box around the transformed corners */
+function transformBounds(bounds: [number[], number[]], matrix: Matrix4): [number[], number[]] {
+  const result: [number[], number[]] = [
+    [Infinity, Infinity, Infinity],
+    [-Infinity, -Infinity, -Infinity]
+  ];
+  const corner = new Vector3();
+  for (let v = 0; v < 8; v++) {
+    corner.set(
+      bounds[v & 0b001 ? 1 : 0][0],
+      bounds[v & 0b010 ? 1 : 0][1],
+      bounds[v & 0b100 ? 1 : 0][2]
+    );
+    matrix.transformAsPoint(corner, corner);
+    for (let i = 0; i < 3; i++) {
+      result[0][i] = Math.min(result[0][i], corner[i]);
+      result[1][i] = Math.max(result[1][i], corner[i]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Extracts the planes of the frustum of a view projection matrix, as [a, b, c, d] with normals pointing inwards.
+ * Assumes clip space depth in the -1 to 1 range, which is conservative for 0 to 1 depth.
+ */
+function getFrustumPlanes(viewProjectionMatrix: Matrix4): number[][] {
+  // Rows of the column major matrix
+  const m = viewProjectionMatrix;
+  const row = (i: number) => [m[i], m[i + 4], m[i + 8], m[i + 12]];
+  const [x, y, z, w] = [row(0), row(1), row(2), row(3)];
+  return [
+    w.map((value, i) => value + x[i]),
+    w.map((value, i) => value - x[i]),
+    w.map((value, i) => value + y[i]),
+    w.map((value, i) => value - y[i]),
+    w.map((value, i) => value + z[i]),
+    w.map((value, i) => value - z[i])
+  ];
+}
+
+/** Whether an axis aligned bounding box is at least partially inside the frustum */
+function intersectsFrustum(planes: number[][], bounds: [number[], number[]]): boolean {
+  const [min, max] = bounds;
+  for (const [a, b, c, d] of planes) {
+    // The corner of the box furthest along the plane normal
+    const x = a >= 0 ? max[0] : min[0];
+    const y = b >= 0 ? max[1] : min[1];
+    const z = c >= 0 ? max[2] : min[2];
+    if (a * x + b * y + c * z + d < 0) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -1,5 +1,6 @@
 import {assert, uid, NumberArray} from '@luma.gl/core';
 import {Vector3, Matrix4} from '@math.gl/core';
+import type {GroupNode} from './group-node';
 
 /** Properties for creating a new Scenegraph */
 export type ScenegraphNodeProps = {
@@ -8,23 +9,39 @@ export type ScenegraphNodeProps = {
   display?: boolean;
   matrix?: NumberArray;
   position?: NumberArray;
+  /** Euler angles in radians [x, y, z], or a quaternion [x, y, z, w] */
   rotation?: NumberArray;
   scale?: NumberArray;
   update?: boolean
 };
 
+const helperMatrix = new Matrix4();
+
 export class ScenegraphNode {
   readonly id: string;
+  /**
+   * Transform relative to the parent node.
+   * @note Call `invalidateWorldMatrix()` after modifying the matrix in place
+   */
   matrix: Matrix4 = new Matrix4();
+  /** The group this node was last added to, maintained by `GroupNode` */
+  parent: GroupNode | null = null;
 
   display = true; 
   position = new Vector3();
-  rotation = new Vector3();
+  /** Euler angles in radians [x, y, z], or a quaternion [x, y, z, w] */
+  rotation: NumberArray = new Vector3();
   scale = new Vector3(1, 1, 1);
   userData: Record<string, unknown> = {};
 
   props: ScenegraphNodeProps = {};
 
+  /** Cached matrices, recalculated when invalidated */
+  protected _worldMatrix = new Matrix4();
+  protected _normalMatrix = new Matrix4();
+  protected _worldMatrixDirty = true;
+  protected _normalMatrixDirty = true;
+
   constructor(props: ScenegraphNodeProps = {}) {
     const {id} = props;
 
@@ -58,8 +75,12 @@ export class ScenegraphNode {
     return this;
   }
 
+  /** Sets Euler angles in radians [x, y, z], or a quaternion [x, y, z, w] */
   setRotation(rotation: any): this {
-    assert(rotation.length === 3, 'setRotation requires vector argument');
+    assert(
+      rotation.length === 3 || rotation.length === 4,
+      'setRotation requires vector or quaternion argument'
+    );
     this.rotation = rotation;
     return this;
   }
@@ -76,6 +97,7 @@ export class ScenegraphNode {
     } else {
       this.matrix = matrix;
     }
+    this.invalidateWorldMatrix();
   }
 
   setMatrixComponents(components: {
@@ -107,11 +129,59 @@ export class ScenegraphNode {
 
     this.matrix.identity();
     this.matrix.translate(pos);
-    this.matrix.rotateXYZ(rot);
+    if (rot.length === 4) {
+      this.matrix.multiplyRight(helperMatrix.fromQuaternion(rot));
+    } else {
+      this.matrix.rotateXYZ(rot);
+    }
     this.matrix.scale(scale);
+    this.invalidateWorldMatrix();
     return this;
   }
 
+  /**
+   * Transform from the local space of the node to world space, including the matrices of all ancestors.
+   * @note The returned matrix is cached and must not be modified
+   */
+  getWorldMatrix(): Matrix4 {
+    if (this._worldMatrixDirty) {
+      if (this.parent) {
+        this._worldMatrix.copy(this.parent.getWorldMatrix()).multiplyRight(this.matrix);
+      } else {
+        this._worldMatrix.copy(this.matrix);
+      }
+      this._worldMatrixDirty = false;
+      this._normalMatrixDirty = true;
+    }
+    return this._worldMatrix;
+  }
+
+  /**
+   * Inverse transpose of the world matrix, transforms normals to world space.
+   * @note The returned matrix is cached and must not be modified
+   */
+  getNormalMatrix(): Matrix4 {
+    const worldMatrix = this.getWorldMatrix();
+    if (this._normalMatrixDirty) {
+      this._normalMatrix.copy(worldMatrix).invert().transpose();
+      this._normalMatrixDirty = false;
+    }
+    return this._normalMatrix;
+  }
+
+  /** Position of the origin of the node in world space */
+  getWorldPosition(): Vector3 {
+    return new Vector3(this.getWorldMatrix().getTranslation());
+  }
+
+  /**
+   * Marks the cached world matrices of the node and its descendants for recalculation.
+   * Called when the matrix or the parent of the node changes
+   */
+  invalidateWorldMatrix(): void {
+    this._worldMatrixDirty = true;
+  }
+
   update(options: {position?: any; rotation?: any; scale?: any} = {}): this {
     const {position, rotation, scale} = options;
     if (position) {
@@ -0,0 +1,43 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import {Matrix4} from '@math.gl/core';
+import type {ScenegraphNode} from './scenegraph-node';
+import {GroupNode} from './group-node';
+import {ModelNode} from './model-node';
+
+/**
+ * Calls the visitor with the world matrix of every displayed model node of a scene.
+ * Honors `ScenegraphNode.display` of model nodes and of their ancestors.
+ */
+export function visitModelNodes(
+  scene: ScenegraphNode,
+  visitor: (node: ModelNode, worldMatrix: Matrix4) => void
+): void {
+  visitNode(scene, null, visitor);
+}
+
+/**
+ * @param parentMatrix World matrix of the parent the node is reached through, null if it is the cached world matrix of `node.parent`
+ */
+function visitNode(
+  node: ScenegraphNode,
+  parentMatrix: Matrix4 | null,
+  visitor: (node: ModelNode, worldMatrix: Matrix4) => void
+): void {
+  if (!node.display) {
+    return;
+  }
+  const worldMatrix = parentMatrix
+    ? new Matrix4(parentMatrix).multiplyRight(node.matrix)
+    : node.getWorldMatrix();
+  if (node instanceof GroupNode) {
+    for (const child of node.children) {
+      // Nodes added to several groups are reached through groups other than their parent
+      const useCache = !parentMatrix && child.parent === node;
+      visitNode(child, useCache ? null : worldMatrix, visitor);
+    }
+  } else if (node instanceof ModelNode) {
+    visitor(node, worldMatrix);
+  }
+}
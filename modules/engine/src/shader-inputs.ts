@@ -1,5 +1,5 @@
 // luma.gl, MIT license
-import type {UniformValue, Texture, Sampler} from '@luma.gl/core';
+import type {CompositeUniformValue, Texture, Sampler} from '@luma.gl/core';
 import {log} from '@luma.gl/core';
 // import type {ShaderUniformType, UniformValue, UniformFormat, UniformInfoDevice, Texture, Sampler} from '@luma.gl/core';
 import {_resolveModules, ShaderModuleInstance} from '@luma.gl/shadertools'
@@ -8,7 +8,7 @@ import {_resolveModules, ShaderModuleInstance} from '@luma.gl/shadertools'
 /** Minimal ShaderModule subset, we don't need shader code etc */
 export type ShaderModuleInputs<
   PropsT extends Record<string, unknown> = Record<string, unknown>,
-  UniformsT extends Record<string, UniformValue> = Record<string, UniformValue>,
+  UniformsT extends Record<string, CompositeUniformValue> = Record<string, CompositeUniformValue>,
   BindingsT extends Record<string, Texture | Sampler> = Record<string, Texture | Sampler>
 > = {
   defaultUniforms?: UniformsT;
@@ -47,7 +47,7 @@ export class ShaderInputs<
   modules: Readonly<{[P in keyof ShaderPropsT]: ShaderModuleInputs<ShaderPropsT[P]>}>;
 
   /** Stores the uniform values for each module */
-  moduleUniforms: Record<keyof ShaderPropsT, Record<string, UniformValue>>;
+  moduleUniforms: Record<keyof ShaderPropsT, Record<string, CompositeUniformValue>>;
   /** Stores the uniform bindings for each module  */
   moduleBindings: Record<keyof ShaderPropsT, Record<string, Texture | Sampler>>;
   /** Tracks if uniforms have changed */
@@ -64,7 +64,7 @@ export class ShaderInputs<
 
     // Store the module definitions and create storage for uniform values and binding values, per module
     this.modules = modules;
-    this.moduleUniforms = {} as Record<keyof ShaderPropsT, Record<string, UniformValue>>;
+    this.moduleUniforms = {} as Record<keyof ShaderPropsT, Record<string, CompositeUniformValue>>;
     this.moduleBindings = {} as Record<keyof ShaderPropsT, Record<string, Texture | Sampler>>;
 
     // Initialize the modules
@@ -122,7 +122,7 @@ export class ShaderInputs<
   }
 
   /** Get all uniform values for all modules */
-  getUniformValues(): Record<keyof ShaderPropsT, Record<string, UniformValue>> {
+  getUniformValues(): Record<keyof ShaderPropsT, Record<string, CompositeUniformValue>> {
     return this.moduleUniforms;
   }
 
@@ -0,0 +1,171 @@
+import test from 'tape-promise/tape';
+import {getNullTestDevice} from '@luma.gl/test-utils';
+
+import type {Buffer} from '@luma.gl/core';
+import {AttributeManager, Model} from '@luma.gl/engine';
+
+const nullDevice = getNullTestDevice();
+
+const vs = /* glsl */ `\
+#version 300 es
+in vec3 positions;
+in vec2 instanceOffsets;
+void main(void) {
+  gl_Position = vec4(positions.xy + instanceOffsets, positions.z, 1.0);
+}
+`;
+
+const fs = /* glsl */ `\
+#version 300 es
+precision highp float;
+out vec4 fragColor;
+void main(void) {
+  fragColor = vec4(1.0);
+}
+`;
+
+/** Records the writes to a buffer as [byteOffset, byteLength] */
+function spyOnWrites(buffer: Buffer): number[][] {
+  const writes: number[][] = [];
+  const {write} = buffer;
+  buffer.write = (data: ArrayBufferView, byteOffset: number = 0) => {
+    writes.push([byteOffset, data.byteLength]);
+    write.call(buffer, data, byteOffset);
+  };
+  return writes;
+}
+
+test('AttributeManager#setAttributes', t => {
+  const attributeManager = new AttributeManager(nullDevice, {growthFactor: 2});
+
+  attributeManager.setAttributes({instanceOffsets: new Float32Array([1, 2, 3, 4])});
+  t.equal(attributeManager.update(), true, 'buffer allocated on first update');
+  const buffer = attributeManager.getBuffer('instanceOffsets');
+  t.equal(buffer.byteLength, 8 * 4, 'buffer allocated with headroom');
+  t.deepEqual(
+    new Float32Array(buffer.readSyncWebGL2(0, 16).buffer),
+    [1, 2, 3, 4],
+    'data uploaded'
+  );
+
+  const writes = spyOnWrites(buffer);
+  attributeManager.setAttributes({instanceOffsets: new Float32Array([1, 2, 5, 4])});
+  attributeManager.setAttributes({instanceOffsets: new Float32Array([1, 2, 5, 4])});
+  t.equal(attributeManager.update(), false, 'buffer reused');
+  t.deepEqual(writes, [[8, 4]], 'only the changed element uploaded');
+
+  attributeManager.update();
+  t.equal(writes.length, 1, 'nothing uploaded when unchanged');
+
+  attributeManager.setAttributes({instanceOffsets: new Float32Array([1, 2, 5, 4, 6, 7])});
+  attributeManager.update();
+  t.equal(attributeManager.getBuffer('instanceOffsets'), buffer, 'grows into the headroom');
+  t.deepEqual(writes[1], [16, 8], 'only the appended elements uploaded');
+
+  const {bufferVersion} = attributeManager;
+  attributeManager.setAttributes({instanceOffsets: new Float32Array(10).fill(1)});
+  t.equal(attributeManager.update(), true, 'buffer reallocated when the data outgrows it');
+  const grownBuffer = attributeManager.getBuffer('instanceOffsets');
+  t.notEqual(grownBuffer, buffer, 'new buffer');
+  t.equal(grownBuffer.byteLength, 20 * 4, 'new buffer allocated with headroom');
+  t.equal(attributeManager.bufferVersion, bufferVersion + 1, 'buffer version incremented');
+  t.equal(attributeManager.getLength('instanceOffsets'), 10, 'length');
+
+  attributeManager.destroy();
+  t.end();
+});
+
+test('AttributeManager#updateAttribute', t => {
+  const attributeManager = new AttributeManager(nullDevice);
+
+  attributeManager.setAttributes({instanceOffsets: new Float32Array(8)});
+  attributeManager.update();
+  const writes = spyOnWrites(attributeManager.getBuffer('instanceOffsets'));
+
+  attributeManager.updateAttribute('instanceOffsets', new Float32Array([1, 1]), 2);
+  attributeManager.updateAttribute('instanceOffsets', new Float32Array([2, 2]), 6);
+  attributeManager.update();
+  t.deepEqual(writes, [[8, 24]], 'dirty ranges merged into one upload');
+  t.deepEqual(
+    new Float32Array(attributeManager.getBuffer('instanceOffsets').readSyncWebGL2(0, 32).buffer),
+    [0, 0, 1, 1, 0, 0, 2, 2],
+    'data uploaded'
+  );
+
+  attributeManager.setAttributes({instanceOffsets: new Uint8Array(4)});
+  t.equal(attributeManager.update(), true, 'buffer reallocated when the type changes');
+
+  attributeManager.destroy();
+  t.end();
+});
+
+test('AttributeManager#Model', t => {
+  const attributeManager = new AttributeManager(nullDevice);
+  const model = new Model(nullDevice, {
+    vs,
+    fs,
+    vertexCount: 3,
+    instanceCount: 2,
+    bufferLayout: [{name: 'instanceOffsets', format: 'float32x2', stepMode: 'instance'}],
+    attributeManager
+  });
+  const renderPass = nullDevice.beginRenderPass();
+  const getBoundBuffer = () =>
+    model.vertexArray.attributes[model._attributeInfos.instanceOffsets.location];
+
+  attributeManager.setAttributes({instanceOffsets: new Float32Array([0, 0, 1, 1])});
+  model.draw(renderPass);
+  const buffer = attributeManager.getBuffer('instanceOffsets');
+  t.equal(getBoundBuffer(), buffer, 'buffer bound before the draw');
+
+  attributeManager.setAttributes({instanceOffsets: new Float32Array(100)});
+  model.setInstanceCount(50);
+  model.draw(renderPass);
+  t.notEqual(
+    getBoundBuffer(),
+    buffer,
+    'reallocated buffer bound before the draw'
+  );
+  t.equal(
+    getBoundBuffer(),
+    attributeManager.getBuffer('instanceOffsets'),
+    'current buffer bound'
+  );
+
+  renderPass.end();
+  model.destroy();
+  attributeManager.destroy();
+  t.end();
+});
+
+test('AttributeManager#Model setBufferLayout', t => {
+  const attributeManager = new AttributeManager(nullDevice);
+  const model = new Model(nullDevice, {
+    vs,
+    fs,
+    vertexCount: 3,
+    instanceCount: 2,
+    bufferLayout: [{name: 'instanceOffsets', format: 'float32x2', stepMode: 'instance'}],
+    attributeManager
+  });
+  const renderPass = nullDevice.beginRenderPass();
+
+  attributeManager.setAttributes({instanceOffsets: new Float32Array([0, 0, 1, 1])});
+  model.draw(renderPass);
+  const {vertexArray} = model;
+
+  model.setBufferLayout([{name: 'instanceOffsets', format: 'float32x2', stepMode: 'instance'}]);
+  t.ok(vertexArray.destroyed, 'previous vertex array destroyed');
+
+  model.draw(renderPass);
+  t.equal(
+    model.vertexArray.attributes[model._attributeInfos.instanceOffsets.location],
+    attributeManager.getBuffer('instanceOffsets'),
+    'buffers bound to the new vertex array before the draw'
+  );
+
+  renderPass.end();
+  model.destroy();
+  attributeManager.destroy();
+  t.end();
+});
@@ -7,7 +7,13 @@ import {
   IcoSphereGeometry,
   PlaneGeometry,
   SphereGeometry,
-  TruncatedConeGeometry
+  TruncatedConeGeometry,
+  TorusGeometry,
+  CapsuleGeometry,
+  ArrowGeometry,
+  GridGeometry,
+  RoundedBoxGeometry,
+  PolygonExtrusionGeometry
 } from '@luma.gl/engine';
 
 const GEOMETRY_TESTS = [
@@ -36,9 +42,52 @@ const GEOMETRY_TESTS = [
     ]
   },
   {name: 'SphereGeometry', Geometry: SphereGeometry},
-  {name: 'TruncatedConeGeometry', Geometry: TruncatedConeGeometry}
+  {name: 'TruncatedConeGeometry', Geometry: TruncatedConeGeometry},
+  {name: 'TorusGeometry', Geometry: TorusGeometry, props: [{arc: Math.PI}]},
+  {name: 'CapsuleGeometry', Geometry: CapsuleGeometry, props: [{height: 0, nvertical: 4}]},
+  {name: 'ArrowGeometry', Geometry: ArrowGeometry, props: [{length: 0.1}]},
+  {name: 'GridGeometry', Geometry: GridGeometry, props: [{size: 3, minorSpacing: 0.5}]},
+  {name: 'RoundedBoxGeometry', Geometry: RoundedBoxGeometry, props: [{radius: 10}]}
 ];
 
+/** A 4x4 square with a 2x2 square hole, in opposite winding orders */
+const SQUARE_WITH_HOLE = [
+  [
+    [0, 0],
+    [4, 0],
+    [4, 4],
+    [0, 4]
+  ],
+  [
+    [1, 1],
+    [3, 1],
+    [3, 3],
+    [1, 3]
+  ]
+];
+
+/** Returns the number of triangles whose winding disagrees with the normals of their vertices */
+function countInvertedTriangles(geometry): number {
+  const positions = geometry.attributes.POSITION.value;
+  const normals = geometry.attributes.NORMAL.value;
+  const indices = geometry.indices.value;
+  const get = (array, i) => [array[i * 3], array[i * 3 + 1], array[i * 3 + 2]];
+  let count = 0;
+  for (let i = 0; i < indices.length; i += 3) {
+    const [a, b, c] = [indices[i], indices[i + 1], indices[i + 2]].map((j) => get(positions, j));
+    const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const faceNormal = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+    const normal = [0, 1, 2]
+      .map((j) => get(normals, indices[i + j]))
+      .reduce((sum, n) => [sum[0] + n[0], sum[1] + n[1], sum[2] + n[2]]);
+    if (faceNormal[0] * normal[0] + faceNormal[1] * normal[1] + faceNormal[2] * normal[2] < -1e-9) {
+      count++;
+    }
+  }
+  return count;
+}
+
 function checkAttribute(attribute, type: TypedArrayConstructor[] = [Float32Array]) {
   return (
     attribute &&
@@ -81,3 +130,57 @@ test('Object#Geometries', (t) => {
   }
   t.end();
 });
+
+test('Object#Geometries#winding', (t) => {
+  for (const Geometry of [TorusGeometry, CapsuleGeometry, ArrowGeometry, RoundedBoxGeometry]) {
+    t.equal(
+      countInvertedTriangles(new Geometry()),
+      0,
+      `${Geometry.name}: triangles are counterclockwise seen from outside`
+    );
+  }
+  t.end();
+});
+
+test('Object#GridGeometry', (t) => {
+  const grid = new GridGeometry({size: 10, minorSpacing: 1, majorSpacing: 5});
+  t.equal(grid.topology, 'line-list', 'topology');
+  t.equal(grid.vertexCount, 11 * 4, 'a line every unit in each direction');
+  const colors = grid.attributes.COLOR_0.value;
+  const majorCount = Array.from({length: grid.vertexCount}, (_, i) => colors[i * 4]).filter(
+    (red) => red === 0.25
+  ).length;
+  t.equal(majorCount, 3 * 4, 'major lines at -5, 0 and 5');
+  t.end();
+});
+
+test('Object#PolygonExtrusionGeometry', (t) => {
+  const geometry = new PolygonExtrusionGeometry({polygon: SQUARE_WITH_HOLE, depth: 2});
+  t.equal(countInvertedTriangles(geometry), 0, 'triangles are counterclockwise seen from outside');
+
+  const positions = geometry.attributes.POSITION.value;
+  const indices = geometry.indices.value;
+  let topArea = 0;
+  let sideCount = 0;
+  for (let i = 0; i < indices.length; i += 3) {
+    const [a, b, c] = [indices[i], indices[i + 1], indices[i + 2]];
+    const z = [a, b, c].map((j) => positions[j * 3 + 2]);
+    if (z.every((value) => value === 2)) {
+      const [ax, ay, bx, by, cx, cy] = [a, b, c].flatMap((j) => [positions[j * 3], positions[j * 3 + 1]]);
+      topArea += ((bx - ax) * (cy - ay) - (cx - ax) * (by - ay)) / 2;
+    } else if (!z.every((value) => value === 0)) {
+      sideCount++;
+    }
+  }
+  t.equal(topArea, 16 - 4, 'cap covers the polygon without the hole');
+  t.equal(sideCount, 8 * 2, 'two side triangles per edge');
+
+  const uncapped = new PolygonExtrusionGeometry({
+    polygon: SQUARE_WITH_HOLE[0],
+    topCap: false,
+    bottomCap: false
+  });
+  t.equal(uncapped.indices.value.length, 4 * 6, 'sides only');
+  t.throws(() => new PolygonExtrusionGeometry({polygon: [[0, 0]]}), 'throws on invalid polygon');
+  t.end();
+});
@@ -0,0 +1,104 @@
+import test from 'tape-promise/tape';
+
+import {
+  CubeGeometry,
+  Geometry,
+  GeometryBVH,
+  SphereGeometry,
+  intersectRayAABB,
+  intersectRayTriangle
+} from '@luma.gl/engine';
+
+const BOUNDS: [number[], number[]] = [
+  [-1, -1, -1],
+  [1, 1, 1]
+];
+
+test('intersectRayAABB', t => {
+  t.equal(intersectRayAABB({origin: [0, 0, 5], direction: [0, 0, -1]}, BOUNDS), 4, 'entry distance');
+  t.equal(intersectRayAABB({origin: [0, 0, 0], direction: [0, 0, -1]}, BOUNDS), 0, 'origin inside');
+  t.equal(intersectRayAABB({origin: [0, 0, 5], direction: [0, 0, 1]}, BOUNDS), null, 'box behind');
+  t.equal(intersectRayAABB({origin: [2, 0, 5], direction: [0, 0, -1]}, BOUNDS), null, 'parallel miss');
+  t.equal(
+    intersectRayAABB({origin: [0, 0, 5], direction: [0, 0, -1]}, BOUNDS, 3),
+    null,
+    'beyond max distance'
+  );
+  t.end();
+});
+
+test('intersectRayTriangle', t => {
+  const [a, b, c] = [
+    [0, 0, 0],
+    [1, 0, 0],
+    [0, 1, 0]
+  ];
+  const ray = {origin: [0.25, 0.5, 2], direction: [0, 0, -1]};
+  t.deepEqual(intersectRayTriangle(ray, a, b, c), {distance: 2, u: 0.25, v: 0.5}, 'hit');
+  t.equal(
+    intersectRayTriangle({origin: [1, 1, 2], direction: [0, 0, -1]}, a, b, c),
+    null,
+    'miss outside of the triangle'
+  );
+  t.equal(
+    intersectRayTriangle({origin: [0.25, 0.25, 2], direction: [1, 0, 0]}, a, b, c),
+    null,
+    'parallel ray'
+  );
+
+  const backRay = {origin: [0.25, 0.5, -2], direction: [0, 0, 1]};
+  t.ok(intersectRayTriangle(backRay, a, b, c), 'back face hit');
+  t.equal(intersectRayTriangle(backRay, a, b, c, {cullBackFaces: true}), null, 'back face culled');
+  t.equal(intersectRayTriangle(ray, a, b, c, {maxDistance: 1}), null, 'beyond max distance');
+  t.end();
+});
+
+test('GeometryBVH#raycast', t => {
+  const sphere = new SphereGeometry({radius: 2, nlat: 20, nlong: 20});
+  const bvh = new GeometryBVH(sphere, {maxTrianglesPerLeaf: 2});
+  t.deepEqual(
+    bvh.getBounds().map(corner => corner.map(Math.round)),
+    [
+      [-2, -2, -2],
+      [2, 2, 2]
+    ],
+    'bounds'
+  );
+
+  const ray = {origin: [0.1, 0.2, 10], direction: [0, 0, -1]};
+  const hits = bvh.raycast(ray);
+  t.equal(hits.length, 2, 'ray crosses the sphere twice');
+  t.ok(hits[0].distance < hits[1].distance, 'closest first');
+  t.ok(Math.abs(hits[0].distance - 8) < 0.05, 'enters the sphere at its surface');
+  t.ok(Math.abs(hits[0].point[2] - 2) < 0.05, 'hit point');
+
+  const firstHit = bvh.raycastFirst(ray);
+  t.deepEqual(firstHit, hits[0], 'raycastFirst returns the closest hit');
+  t.equal(bvh.raycastFirst({origin: [3, 0, 10], direction: [0, 0, -1]}), null, 'miss');
+  t.end();
+});
+
+test('GeometryBVH#faceIndex', t => {
+  const cube = new CubeGeometry();
+  const bvh = new GeometryBVH(cube, {maxTrianglesPerLeaf: 1});
+  const hit = bvh.raycastFirst({origin: [0.5, 0.25, 5], direction: [0, 0, -1]});
+
+  const indices = cube.indices.value;
+  const positions = cube.attributes.POSITION.value;
+  const [a, b, c] = [0, 1, 2].map(i => indices[hit.faceIndex * 3 + i]);
+  const [u, v] = hit.barycentric;
+  const x = (1 - u - v) * positions[a * 3] + u * positions[b * 3] + v * positions[c * 3];
+  const y = (1 - u - v) * positions[a * 3 + 1] + u * positions[b * 3 + 1] + v * positions[c * 3 + 1];
+  t.ok(Math.abs(x - 0.5) < 1e-6 && Math.abs(y - 0.25) < 1e-6, 'barycentric coordinates of the hit face');
+
+  const strip = new Geometry({
+    topology: 'triangle-strip',
+    attributes: {POSITION: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0])}
+  });
+  const stripHit = new GeometryBVH(strip).raycastFirst({
+    origin: [0.75, 0.75, 1],
+    direction: [0, 0, -1]
+  });
+  t.equal(stripHit.faceIndex, 1, 'strips converted to lists');
+  t.end();
+});
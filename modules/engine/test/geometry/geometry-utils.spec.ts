@@ -1,5 +1,15 @@
 import test from 'tape-promise/tape';
+import {Matrix4} from '@math.gl/core';
 import {unpackIndexedGeometry} from '@luma.gl/engine/geometry/geometry-utils';
+import {
+  Geometry,
+  computeVertexNormals,
+  computeTangents,
+  weldVertices,
+  mergeGeometries,
+  convertToList,
+  computeWireframe
+} from '@luma.gl/engine';
 
 const TEST_ATTRIBUTES = {
   POSITION: {value: new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 1, 0, 0]), size: 3},
@@ -55,3 +65,157 @@ test('unpackIndexedGeometry', (t) => {
 
   t.end();
 });
+
+/** Two triangles of a unit square in the xy plane, with texture coordinates equal to positions */
+function createQuad(indexed = true): Geometry {
+  const positions = [0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0];
+  const texCoords = [0, 0, 1, 0, 1, 1, 0, 1];
+  const indices = [0, 1, 2, 0, 2, 3];
+  return new Geometry({
+    topology: 'triangle-list',
+    attributes: indexed
+      ? {
+          POSITION: {size: 3, value: new Float32Array(positions)},
+          TEXCOORD_0: {size: 2, value: new Float32Array(texCoords)}
+        }
+      : {
+          POSITION: {size: 3, value: new Float32Array(indices.flatMap(i => positions.slice(i * 3, i * 3 + 3)))},
+          TEXCOORD_0: {size: 2, value: new Float32Array(indices.flatMap(i => texCoords.slice(i * 2, i * 2 + 2)))}
+        },
+    indices: indexed ? new Uint16Array(indices) : undefined
+  });
+}
+
+test('computeVertexNormals', t => {
+  // Two triangles folded at a right angle along the y axis
+  const geometry = new Geometry({
+    topology: 'triangle-list',
+    attributes: {
+      POSITION: {size: 3, value: new Float32Array([0, 0, 0, 0, 1, 0, 1, 0, 0, 0, 0, 1])}
+    },
+    indices: new Uint16Array([0, 2, 1, 0, 1, 3])
+  });
+
+  const smooth = computeVertexNormals(geometry);
+  const s = Math.SQRT1_2;
+  expectArray(t, smooth.attributes.NORMAL.value, [s, 0, s, s, 0, s, 0, 0, 1, 1, 0, 0], 'smooth normals averaged on shared vertices');
+  t.equal(smooth.indices, geometry.indices, 'indices kept');
+
+  const flat = computeVertexNormals(geometry, {flat: true});
+  t.notOk(flat.indices, 'flat normals unpack indices');
+  expectArray(t, flat.attributes.NORMAL.value, [0, 0, 1, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0, 0, 1, 0, 0], 'flat normals');
+
+  const strip = new Geometry({topology: 'triangle-strip', attributes: {POSITION: geometry.attributes.POSITION}});
+  t.equal(computeVertexNormals(strip).topology, 'triangle-list', 'strips converted to lists');
+
+  t.end();
+});
+
+test('computeTangents', t => {
+  const geometry = computeVertexNormals(createQuad());
+  const tangents = computeTangents(geometry).attributes.TANGENT;
+  t.equal(tangents.size, 4, 'tangents have handedness');
+  expectArray(t, tangents.value, [1, 0, 0, 1, 1, 0, 0, 1, 1, 0, 0, 1, 1, 0, 0, 1], 'tangents along u');
+
+  // Mirrored texture
+  const mirrored = new Geometry({
+    topology: 'triangle-list',
+    attributes: {
+      ...geometry.attributes,
+      TEXCOORD_0: {size: 2, value: new Float32Array([1, 0, 0, 0, 0, 1, 1, 1])}
+    },
+    indices: geometry.indices
+  });
+  const mirroredTangents = computeTangents(mirrored).attributes.TANGENT;
+  expectArray(t, mirroredTangents.value.subarray(0, 4), [-1, 0, 0, -1], 'mirrored tangents are left handed');
+
+  t.throws(() => computeTangents(createQuad()), /NORMAL/, 'throws without normals');
+  t.end();
+});
+
+test('weldVertices', t => {
+  const welded = weldVertices(createQuad(false));
+  t.equal(welded.attributes.POSITION.value.length, 4 * 3, 'duplicate vertices merged');
+  t.ok(welded.indices.value instanceof Uint16Array, '16 bit indices');
+  t.deepEqual(Array.from(welded.indices.value), [0, 1, 2, 0, 2, 3], 'indices');
+  t.equal(welded.vertexCount, 6, 'vertex count');
+
+  const geometry = createQuad(false);
+  geometry.attributes.POSITION.value[0] = 0.0001;
+  t.equal(weldVertices(geometry).attributes.POSITION.value.length, 5 * 3, 'vertices differ');
+  t.equal(
+    weldVertices(geometry, {tolerance: 0.01}).attributes.POSITION.value.length,
+    4 * 3,
+    'vertices within tolerance merged'
+  );
+
+  t.end();
+});
+
+test('mergeGeometries', t => {
+  const merged = mergeGeometries([
+    computeVertexNormals(createQuad()),
+    {
+      geometry: computeVertexNormals(createQuad()),
+      matrix: new Matrix4().translate([0, 0, 2]).rotateY(Math.PI / 2)
+    }
+  ]);
+  t.equal(merged.topology, 'triangle-list', 'topology');
+  t.deepEqual(Array.from(merged.indices.value), [0, 1, 2, 0, 2, 3, 4, 5, 6, 4, 6, 7], 'indices offset');
+  expectArray(t, merged.attributes.POSITION.value.subarray(12, 18), [0, 0, 2, 0, 0, 1], 'positions transformed');
+  expectArray(t, merged.attributes.NORMAL.value.subarray(12, 15), [1, 0, 0], 'normals transformed');
+  t.deepEqual(
+    Array.from(merged.attributes.TEXCOORD_0.value),
+    [0, 0, 1, 0, 1, 1, 0, 1, 0, 0, 1, 0, 1, 1, 0, 1],
+    'other attributes copied'
+  );
+
+  t.throws(
+    () => mergeGeometries([createQuad(), computeVertexNormals(createQuad())]),
+    /different attributes/,
+    'throws on different attributes'
+  );
+  t.end();
+});
+
+test('convertToList', t => {
+  const positions = {size: 3, value: new Float32Array(5 * 3)};
+  const convert = (topology: 'triangle-strip' | 'triangle-fan-webgl' | 'line-loop-webgl') => {
+    const geometry = convertToList(new Geometry({topology, attributes: {POSITION: positions}}));
+    return [geometry.topology, Array.from(geometry.indices.value)];
+  };
+
+  t.deepEqual(
+    convert('triangle-strip'),
+    ['triangle-list', [0, 1, 2, 2, 1, 3, 2, 3, 4]],
+    'strip converted keeping winding order'
+  );
+  t.deepEqual(
+    convert('triangle-fan-webgl'),
+    ['triangle-list', [0, 1, 2, 0, 2, 3, 0, 3, 4]],
+    'fan converted'
+  );
+  t.deepEqual(
+    convert('line-loop-webgl'),
+    ['line-list', [0, 1, 1, 2, 2, 3, 3, 4, 4, 0]],
+    'loop converted'
+  );
+  const list = createQuad();
+  t.equal(convertToList(list), list, 'lists unchanged');
+  t.end();
+});
+
+test('computeWireframe', t => {
+  const wireframe = computeWireframe(createQuad());
+  t.equal(wireframe.topology, 'line-list', 'topology');
+  t.deepEqual(Array.from(wireframe.indices.value), [0, 1, 1, 2, 2, 0, 2, 3, 3, 0], 'shared edge drawn once');
+  t.end();
+});
+
+function expectArray(t, actual: ArrayLike<number>, expected: number[], message: string): void {
+  t.ok(
+    actual.length === expected.length &&
+      expected.every((value, i) => Math.abs(actual[i] - value) < 1e-6),
+    `${message}: ${Array.from(actual)}`
+  );
+}
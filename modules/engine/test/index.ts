@@ -1,10 +1,17 @@
 // import './lib/model.spec';
 import './lib/animation-loop.spec';
 import './lib/pipeline-factory.spec';
+import './lib/computation.spec';
+import './passes/shader-pass-renderer.spec';
+import './passes/shadow-map-renderer.spec';
+import './picking/picking-manager.spec';
+import './attributes/attribute-manager.spec';
+import './lib/model-resources.spec';
 
 import './geometry/geometries.spec';
 import './geometry/geometry.spec';
 import './geometry/geometry-utils.spec';
+import './geometry/geometry-bvh.spec';
 
 import './geometry/gpu-geometry.spec';
 
@@ -15,6 +22,8 @@ import './animation/key-frames.spec';
 import './scenegraph/group-node.spec';
 import './scenegraph/scenegraph-node.spec';
 import './scenegraph/model-node.spec';
+import './scenegraph/scene-renderer.spec';
+import './scenegraph/raycast.spec';
 
 // Experimental
 import './shader-inputs.spec';
@@ -0,0 +1,79 @@
+import test from 'tape-promise/tape';
+import {getNullTestDevice, NullComputePass} from '@luma.gl/test-utils';
+
+import {Buffer} from '@luma.gl/core';
+import {Computation, PipelineFactory} from '@luma.gl/engine';
+
+const nullDevice = getNullTestDevice();
+
+const scale = {
+  name: 'scale',
+  uniformTypes: {factor: 'f32'},
+  defaultUniforms: {factor: 1},
+  source: {cs: {wgsl: 'fn scale_apply(x: f32) -> f32 { return x * scale.factor; }'}}
+} as const;
+
+const source = /* WGSL */ `\
+@group(0) @binding(0) var<storage, read_write> values : array<f32>;
+
+@compute @workgroup_size(64)
+fn main(@builtin(global_invocation_id) id : vec3<u32>) {
+  values[id.x] = scale_apply(values[id.x]);
+}
+`;
+
+test('Computation#construct/destroy', t => {
+  const computation = new Computation(nullDevice, {id: 'scale-values', source, modules: [scale]});
+
+  t.ok(computation.source.includes('fn scale_apply'), 'module source assembled');
+  t.deepEqual(
+    computation.shaderLayout.bindings.map(binding => binding.name),
+    ['scale', 'values'],
+    'shader layout reflected from assembled source'
+  );
+  t.ok(computation.bindings.scaleUniforms instanceof Buffer, 'module uniform buffer created');
+
+  computation.destroy();
+  t.ok(computation.pipeline.destroyed, 'pipeline released');
+  t.ok(computation.pipeline.props.cs.destroyed, 'compute shader destroyed with the pipeline');
+  t.end();
+});
+
+test('Computation#dispatch', t => {
+  const values = nullDevice.createBuffer({usage: Buffer.STORAGE, data: new Float32Array(128)});
+  const computation = new Computation(nullDevice, {source, modules: [scale], bindings: {values}});
+  computation.shaderInputs.setProps({scale: {factor: 2}});
+
+  const computePass = nullDevice.beginComputePass() as NullComputePass;
+  computation.dispatch(computePass, 2);
+  computePass.end();
+
+  t.equal(computePass.dispatches.length, 1, 'dispatch recorded');
+  const {pipeline, bindings, x, y, z} = computePass.dispatches[0];
+  t.equal(pipeline, computation.pipeline, 'pipeline set');
+  t.deepEqual([x, y, z], [2, 1, 1], 'workgroup counts');
+  t.equal(bindings.values, values, 'storage buffer bound');
+  t.equal(bindings.scaleUniforms, computation.bindings.scaleUniforms, 'uniform buffer bound');
+
+  const uniformBuffer = computation.bindings.scaleUniforms as Buffer;
+  const data = new Float32Array(uniformBuffer.debugData);
+  t.equal(data[0], 2, 'uniform buffer updated from shader inputs');
+
+  computation.destroy();
+  values.destroy();
+  t.end();
+});
+
+test('Computation#pipeline caching', t => {
+  const pipelineFactory = new PipelineFactory(nullDevice);
+  const computation1 = new Computation(nullDevice, {source, modules: [scale], pipelineFactory});
+  const computation2 = new Computation(nullDevice, {source, modules: [scale], pipelineFactory});
+
+  t.equal(computation1.pipeline, computation2.pipeline, 'pipeline shared');
+
+  computation1.destroy();
+  t.notOk(computation2.pipeline.destroyed, 'shared pipeline not destroyed while referenced');
+  computation2.destroy();
+  t.ok(computation2.pipeline.destroyed, 'pipeline destroyed when all references released');
+  t.end();
+});
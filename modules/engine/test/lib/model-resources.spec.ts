@@ -0,0 +1,56 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {NullDevice} from '@luma.gl/test-utils';
+
+import {Model, CubeGeometry} from '@luma.gl/engine';
+
+const vs = /* glsl */ `\
+#version 300 es
+in vec3 positions;
+void main() { gl_Position = vec4(positions, 1.0); }
+`;
+
+const fs = /* glsl */ `\
+#version 300 es
+precision highp float;
+out vec4 fragmentColor;
+void main() { fragmentColor = vec4(1.0); }
+`;
+
+test('Model#resource ownership', async t => {
+  const device = await NullDevice.create({id: 'model-resources-device', trackResources: true});
+  const model = new Model(device, {id: 'cube', vs, fs, geometry: new CubeGeometry()});
+
+  const ownedResources = device
+    .getResourceReport()
+    .resources.filter(resource => resource.owner === 'Model(cube)');
+  const ownedTypes = new Set(ownedResources.map(resource => resource.type));
+  t.deepEqual(
+    [...ownedTypes].sort(),
+    ['Buffer', 'RenderPipeline', 'Shader', 'VertexArray'],
+    'model owns the resources it created'
+  );
+  t.deepEqual(device.getResourceReport().leakedResources, [], 'no leaks while the model is alive');
+
+  // Recreates the pipeline and the geometry buffers
+  model.setParameters({depthCompare: 'less-equal'});
+  const renderPass = device.beginRenderPass();
+  model.draw(renderPass);
+  renderPass.end();
+  model.setGeometry(new CubeGeometry());
+
+  model.destroy();
+  t.ok(model.destroyed, 'destroyed');
+  const report = device.getResourceReport();
+  t.deepEqual(report.leakedResources, [], 'no leaks after the model is destroyed');
+  t.deepEqual(
+    report.resources.filter(resource => resource.owner === 'Model(cube)'),
+    [],
+    'all resources of the model destroyed'
+  );
+
+  device.destroy();
+  t.end();
+});
@@ -48,6 +48,7 @@ test('PipelineFactory#release', (t) => {
 
   pipelineFactory.release(pipeline2);
   t.ok(pipeline2.destroyed, 'Pipeline deleted when all references released.');
+  t.ok(pipeline2.vs.destroyed && pipeline2.fs.destroyed, 'Shaders deleted with the pipeline.');
 
   t.end();
 });
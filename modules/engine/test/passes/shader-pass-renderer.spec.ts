@@ -0,0 +1,103 @@
+import test from 'tape-promise/tape';
+import {getNullTestDevice, NullRenderPass} from '@luma.gl/test-utils';
+
+import type {Buffer} from '@luma.gl/core';
+import {ShaderPassRenderer} from '@luma.gl/engine';
+import {brightnessContrast, triangleBlur} from '@luma.gl/shadertools';
+
+const nullDevice = getNullTestDevice();
+
+/** Returns the radius and delta written to the triangleBlur uniform buffer of a recorded draw */
+function getTriangleBlurUniforms(renderPass: NullRenderPass): number[] {
+  const uniformBuffer = renderPass.drawCalls[0].bindings.triangleBlurUniforms as Buffer;
+  // std140: float radius at 0, vec2 delta at 8
+  const [radius, , ...delta] = new Float32Array(uniformBuffer.debugData, 0, 4);
+  return [radius, ...delta];
+}
+
+test('ShaderPassRenderer#construct/destroy', t => {
+  const renderer = new ShaderPassRenderer(nullDevice, {
+    shaderPasses: [brightnessContrast, triangleBlur]
+  });
+
+  t.deepEqual(
+    renderer.shaderInputs.getUniformValues().triangleBlur,
+    {radius: 20, delta: [1, 0]},
+    'uniforms initialized from prop types'
+  );
+
+  renderer.destroy();
+  t.ok(renderer.framebuffers.every(framebuffer => framebuffer.destroyed), 'framebuffers destroyed');
+  t.ok(
+    renderer.framebuffers.every(framebuffer => framebuffer.colorAttachments[0].destroyed),
+    'framebuffer textures destroyed'
+  );
+  t.end();
+});
+
+test('ShaderPassRenderer#render', t => {
+  const renderer = new ShaderPassRenderer(nullDevice, {
+    shaderPasses: [brightnessContrast, triangleBlur]
+  });
+  renderer.shaderInputs.setProps({triangleBlur: {radius: 5}});
+
+  const sourceTexture = nullDevice.createTexture({width: 4, height: 2});
+  const framebuffer = nullDevice.createFramebuffer({width: 4, height: 2, colorAttachments: ['rgba8unorm']});
+
+  const renderPasses = nullDevice.recordRenderPasses();
+  renderer.render({sourceTexture, framebuffer});
+  nullDevice.stopRecordingRenderPasses();
+
+  t.deepEqual(
+    renderer.framebuffers.map(fb => [fb.width, fb.height]),
+    [[4, 2], [4, 2]],
+    'framebuffers sized to the source texture'
+  );
+  t.deepEqual(
+    renderPasses.map(renderPass => renderPass.framebuffer),
+    [renderer.framebuffers[0], renderer.framebuffers[1], framebuffer],
+    'ping-pongs between framebuffers, then renders to the target'
+  );
+  t.deepEqual(
+    renderPasses.map(renderPass => renderPass.drawCalls[0].bindings.sourceTexture),
+    [
+      sourceTexture,
+      renderer.framebuffers[0].colorAttachments[0],
+      renderer.framebuffers[1].colorAttachments[0]
+    ],
+    'each pass samples the output of the previous pass'
+  );
+
+  const fragmentShaders = renderPasses.map(renderPass => renderPass.drawCalls[0].pipeline.fs.source);
+  t.equal(renderPasses.length, 3, 'one pass per sub pass');
+  t.ok(
+    fragmentShaders[0].includes('brightnessContrast_filterColor(texture(sourceTexture'),
+    'filter pass'
+  );
+  t.ok(fragmentShaders[1].includes('triangleBlur_sampleColor(sourceTexture'), 'sampler pass');
+
+  t.deepEqual(getTriangleBlurUniforms(renderPasses[1]), [5, 1, 0], 'first blur pass uniforms');
+  t.deepEqual(getTriangleBlurUniforms(renderPasses[2]), [5, 0, 1], 'second blur pass uniforms');
+
+  renderer.destroy();
+  t.end();
+});
+
+test('ShaderPassRenderer#render to canvas', t => {
+  const renderer = new ShaderPassRenderer(nullDevice, {shaderPasses: []});
+  const sourceTexture = nullDevice.createTexture({width: 2, height: 2});
+
+  const renderPasses = nullDevice.recordRenderPasses();
+  renderer.render({sourceTexture});
+  nullDevice.stopRecordingRenderPasses();
+
+  t.equal(renderPasses.length, 1, 'source texture copied in one pass');
+  t.equal(
+    renderPasses[0].framebuffer,
+    nullDevice.getCanvasContext().getCurrentFramebuffer(),
+    'rendered to the canvas'
+  );
+
+  renderer.destroy();
+  t.end();
+});
@@ -0,0 +1,146 @@
+import test from 'tape-promise/tape';
+import {getNullTestDevice} from '@luma.gl/test-utils';
+
+import {
+  GroupNode,
+  Model,
+  ModelNode,
+  ShadowMapRenderer,
+  getLightMatrix,
+  _ShaderInputs
+} from '@luma.gl/engine';
+import {shadow} from '@luma.gl/shadertools';
+import {Vector4} from '@math.gl/core';
+
+const nullDevice = getNullTestDevice();
+
+const vs = /* glsl */ `\
+#version 300 es
+in vec3 positions;
+void main(void) {
+  vec4 position = vec4(positions, 1.0);
+  gl_Position = shadow_getPosition(position, position);
+}
+`;
+
+const fs = /* glsl */ `\
+#version 300 es
+precision highp float;
+out vec4 fragColor;
+void main(void) {
+  fragColor = vec4(shadow_getShadowFactor(vec3(0.0)));
+}
+`;
+
+const EMPTY_SHADER = '#version 300 es\nvoid main(void) {}\n';
+
+function createScene(): {scene: GroupNode; model: Model} {
+  const model = new Model(nullDevice, {
+    vs,
+    fs,
+    shaderInputs: new _ShaderInputs({shadow}),
+    vertexCount: 3
+  });
+  const scene = new GroupNode([
+    new ModelNode({model, bounds: [[-1, -1, -1], [1, 1, 1]]}),
+    new ModelNode({model: new Model(nullDevice, {vs: EMPTY_SHADER, fs: EMPTY_SHADER, vertexCount: 3})})
+  ]);
+  return {scene, model};
+}
+
+/** Transforms a world space point to normalized device coordinates */
+function project(matrix, point: number[]): number[] {
+  const position = new Vector4(point[0], point[1], point[2], 1).transform(matrix);
+  return [position[0], position[1], position[2]].map(value => value / position[3]);
+}
+
+function isInClipVolume(point: number[]): boolean {
+  return point.every(value => value >= -1 - 1e-6 && value <= 1 + 1e-6);
+}
+
+test('ShadowMapRenderer#construct/destroy', t => {
+  const renderer = new ShadowMapRenderer(nullDevice, {width: 512, height: 256, format: 'depth24plus'});
+  t.deepEqual(
+    [renderer.shadowMap.width, renderer.shadowMap.height, renderer.shadowMap.format],
+    [512, 256, 'depth24plus'],
+    'shadow map texture'
+  );
+  t.equal(renderer.framebuffer.depthStencilAttachment, renderer.shadowMap, 'shadow map is the depth attachment');
+
+  renderer.destroy();
+  t.ok(renderer.framebuffer.destroyed, 'framebuffer destroyed');
+  t.ok(renderer.shadowMap.destroyed, 'shadow map destroyed');
+  t.end();
+});
+
+test('ShadowMapRenderer#render', t => {
+  const {scene, model} = createScene();
+  const renderer = new ShadowMapRenderer(nullDevice);
+  const light = {type: 'directional', position: [0, 0, 0], direction: [0, -1, 0]} as const;
+
+  model.setParameters({depthWriteEnabled: false, depthCompare: 'always', colorMask: 0xf});
+  const renderPasses = nullDevice.recordRenderPasses();
+  renderer.render({scene, light});
+  nullDevice.stopRecordingRenderPasses();
+
+  t.equal(renderPasses.length, 1, 'one depth pass');
+  t.equal(renderPasses[0].framebuffer, renderer.framebuffer, 'renders into the shadow map');
+  t.equal(renderPasses[0].drawCalls.length, 1, 'models without the shadow module are ignored');
+  t.notEqual(
+    renderPasses[0].drawCalls[0].bindings.shadowMap,
+    renderer.shadowMap,
+    'shadow map is not sampled while rendering it'
+  );
+  t.deepEqual(
+    renderPasses[0].drawCalls[0].pipeline.props.parameters,
+    {depthWriteEnabled: true, depthCompare: 'less-equal', colorMask: 0},
+    'shadow pass writes and tests depth only'
+  );
+  t.deepEqual(
+    model.parameters,
+    {depthWriteEnabled: false, depthCompare: 'always', colorMask: 0xf},
+    'model parameters restored for the main pass'
+  );
+
+  const uniforms = model.shaderInputs.getUniformValues().shadow;
+  t.equal(uniforms.enabled, 1, 'shadows enabled for the main pass');
+  t.equal(uniforms.drawShadowMap, 0, 'shadow map drawing disabled for the main pass');
+  t.deepEqual(uniforms.lightMatrix, renderer.lightMatrix, 'light matrix set');
+  t.equal(model.bindings.shadowMap, renderer.shadowMap, 'shadow map bound for the main pass');
+
+  renderer.destroy();
+  scene.destroy();
+  t.end();
+});
+
+test('ShadowMapRenderer#getLightMatrix', t => {
+  const bounds: [number[], number[]] = [[-2, 0, -1], [2, 1, 1]];
+  const corners = [0, 1, 2, 3, 4, 5, 6, 7].map(i => [0, 1, 2].map(axis => bounds[(i >> axis) & 1][axis]));
+
+  const directionalMatrix = getLightMatrix(
+    {type: 'directional', position: [0, 0, 0], direction: [0, -1, 0]},
+    bounds
+  );
+  t.ok(
+    corners.every(corner => isInClipVolume(project(directionalMatrix, corner))),
+    'directional light covers the scene'
+  );
+  t.ok(
+    project(directionalMatrix, [0, 1, 0])[2] < project(directionalMatrix, [0, 0, 0])[2],
+    'points closer to a directional light have smaller depth'
+  );
+
+  const spotMatrix = getLightMatrix(
+    {type: 'spot', position: [0, 10, 0], direction: [0, -1, 0], outerConeAngle: Math.PI / 4},
+    bounds
+  );
+  t.ok(
+    corners.every(corner => isInClipVolume(project(spotMatrix, corner))),
+    'spot light covers the scene'
+  );
+  t.ok(
+    project(spotMatrix, [0, 1, 0])[2] < project(spotMatrix, [0, 0, 0])[2],
+    'points closer to a spot light have smaller depth'
+  );
+  t.end();
+});
@@ -0,0 +1,226 @@
+import test from 'tape-promise/tape';
+import {getNullTestDevice, NullRenderPass} from '@luma.gl/test-utils';
+
+import {
+  Model,
+  PickingManager,
+  encodePickingColor,
+  decodePickingColor,
+  _ShaderInputs
+} from '@luma.gl/engine';
+import {picking} from '@luma.gl/shadertools';
+
+const nullDevice = getNullTestDevice();
+
+const vs = /* glsl */ `\
+#version 300 es
+in vec3 positions;
+in vec3 pickingColors;
+void main(void) {
+  picking_setPickingColor(pickingColors);
+  gl_Position = vec4(positions, 1.0);
+}
+`;
+
+const fs = /* glsl */ `\
+#version 300 es
+precision highp float;
+out vec4 fragColor;
+void main(void) {
+  fragColor = picking_filterColor(vec4(1.0));
+}
+`;
+
+function createModel(): Model {
+  return new Model(nullDevice, {
+    vs,
+    fs,
+    shaderInputs: new _ShaderInputs({picking}),
+    vertexCount: 3
+  });
+}
+
+/**
+ * Replaces the readback of the null device with the pixels of a framebuffer (top row first),
+ * read bottom row first as in WebGL, sizes the canvas to the pixels and records the render passes
+ */
+function mockPicking(pixels: number[][][]): {
+  renderPasses: NullRenderPass[];
+  reads: unknown[];
+  restore: () => void;
+} {
+  const reads: unknown[] = [];
+  const {readPixelsToArrayWebGL} = nullDevice;
+  const canvasContext = nullDevice.getCanvasContext();
+  const {getDrawingBufferSize} = canvasContext;
+  canvasContext.getDrawingBufferSize = () => [pixels[0].length, pixels.length];
+  nullDevice.readPixelsToArrayWebGL = (source, options) => {
+    reads.push(options);
+    const {sourceX, sourceY, sourceWidth, sourceHeight} = options;
+    const data: number[] = [];
+    for (let y = sourceY; y < sourceY + sourceHeight; y++) {
+      for (let x = sourceX; x < sourceX + sourceWidth; x++) {
+        data.push(...pixels[pixels.length - 1 - y][x]);
+      }
+    }
+    return new Uint8Array(data);
+  };
+  const renderPasses = nullDevice.recordRenderPasses();
+  return {
+    renderPasses,
+    reads,
+    restore: () => {
+      nullDevice.stopRecordingRenderPasses();
+      nullDevice.readPixelsToArrayWebGL = readPixelsToArrayWebGL;
+      canvasContext.getDrawingBufferSize = getDrawingBufferSize;
+    }
+  };
+}
+
+/** Empty pixels of an 8x6 canvas */
+function getEmptyPixels(width = 8, height = 6): number[][][] {
+  return new Array(height).fill(0).map(() => new Array(width).fill(0).map(() => [0, 0, 0, 0]));
+}
+
+test('PickingManager#encodePickingColor', t => {
+  t.deepEqual(encodePickingColor(0), [1, 0, 0], 'index 0 is not black');
+  t.deepEqual(encodePickingColor(0x123456 - 1), [0x56, 0x34, 0x12], 'index spread over channels');
+  t.equal(decodePickingColor([0, 0, 0]), -1, 'black is not an object');
+  t.equal(decodePickingColor(encodePickingColor(1000000)), 1000000, 'round trip');
+  t.end();
+});
+
+test('PickingManager#pickObject', t => {
+  const models = [createModel(), createModel()];
+  const pickingManager = new PickingManager(nullDevice);
+
+  const pixels = getEmptyPixels();
+  // Top left pixel: object 7 of the second model
+  pixels[0][0] = [...encodePickingColor(7), 2];
+  // Next pixel: object 3 of the first model
+  pixels[0][1] = [...encodePickingColor(3), 1];
+
+  const {renderPasses, reads, restore} = mockPicking(pixels);
+  const pickInfo = pickingManager.pickObject({models, x: 0, y: 0});
+  const emptyPickInfo = pickingManager.pickObject({models, x: 5, y: 5});
+  restore();
+
+  t.equal(renderPasses[0].framebuffer, pickingManager.framebuffer, 'renders into the picking framebuffer');
+  t.equal(renderPasses[0].drawCalls.length, 2, 'renders all models');
+  t.deepEqual(
+    [pickingManager.framebuffer.width, pickingManager.framebuffer.height],
+    [8, 6],
+    'framebuffer sized to the canvas'
+  );
+  t.deepEqual(
+    reads[0],
+    {sourceX: 0, sourceY: pixels.length - 1, sourceWidth: 1, sourceHeight: 1},
+    'reads the pixel from the bottom of the framebuffer'
+  );
+  t.deepEqual(
+    pickInfo,
+    {model: models[1], modelIndex: 1, objectIndex: 7, x: 0, y: 0},
+    'decodes model and object'
+  );
+  t.equal(emptyPickInfo, null, 'nothing picked');
+
+  const uniforms = models[1].shaderInputs.getUniformValues().picking;
+  t.equal(uniforms.isActive, false, 'picking mode disabled after picking');
+  t.equal(uniforms.batchIndex, -1, 'batch index reset after picking');
+
+  pickingManager.destroy();
+  models.forEach(model => model.destroy());
+  t.end();
+});
+
+test('PickingManager#pickObject parameters', t => {
+  const model = createModel();
+  const parameters = {
+    blendColorOperation: 'add',
+    blendColorSrcFactor: 'src-alpha',
+    blendColorDstFactor: 'one-minus-src-alpha',
+    depthCompare: 'less-equal'
+  } as const;
+  model.setParameters(parameters);
+  model.shaderInputs.setProps({picking: {isActive: false, isAttribute: true}});
+  const pickingManager = new PickingManager(nullDevice);
+
+  const {renderPasses, restore} = mockPicking(getEmptyPixels());
+  pickingManager.pickObject({models: [model], x: 0, y: 0});
+  restore();
+
+  t.deepEqual(
+    renderPasses[0].drawCalls[0].pipeline.props.parameters,
+    {
+      blendColorOperation: 'add',
+      blendColorSrcFactor: 'one',
+      blendColorDstFactor: 'zero',
+      blendAlphaOperation: 'add',
+      blendAlphaSrcFactor: 'one',
+      blendAlphaDstFactor: 'zero',
+      depthCompare: 'less-equal'
+    },
+    'picking colors are not blended'
+  );
+  t.deepEqual(model.parameters, parameters, 'model parameters restored after picking');
+
+  const uniforms = model.shaderInputs.getUniformValues().picking;
+  t.ok(uniforms.isAttribute, 'isAttribute kept after picking');
+  t.notOk(uniforms.isActive, 'picking mode disabled after picking');
+
+  pickingManager.destroy();
+  model.destroy();
+  t.end();
+});
+
+test('PickingManager#pickObjectsAsync', async t => {
+  const models = [createModel()];
+  const pickingManager = new PickingManager(nullDevice);
+
+  const pixels = getEmptyPixels();
+  pixels[2][2] = [...encodePickingColor(1), 1];
+  pixels[2][3] = [...encodePickingColor(1), 1];
+  pixels[3][2] = [...encodePickingColor(300), 1];
+  // Unknown model
+  pixels[3][3] = [...encodePickingColor(5), 9];
+
+  const {restore} = mockPicking(pixels);
+  const pickInfos = await pickingManager.pickObjectsAsync({models, x: 1, y: 1, width: 4, height: 4});
+  restore();
+
+  t.deepEqual(
+    pickInfos.map(({objectIndex, x, y}) => [objectIndex, x, y]),
+    [
+      [1, 2, 2],
+      [300, 2, 3]
+    ],
+    'each object once, top row first'
+  );
+
+  pickingManager.destroy();
+  models.forEach(model => model.destroy());
+  t.end();
+});
+
+test('PickingManager#highlightObject', t => {
+  const models = [createModel(), createModel()];
+  const pickingManager = new PickingManager(nullDevice);
+
+  pickingManager.highlightObject(models, {model: models[0], modelIndex: 0, objectIndex: 254, x: 0, y: 0});
+  let uniforms = models[0].shaderInputs.getUniformValues().picking;
+  t.equal(uniforms.isHighlightActive, true, 'picked model highlighted');
+  t.deepEqual(uniforms.highlightedObjectColor, [1, 0, 0], 'highlight color in the float color range');
+  t.equal(
+    models[1].shaderInputs.getUniformValues().picking.isHighlightActive,
+    false,
+    'other models not highlighted'
+  );
+
+  pickingManager.highlightObject(models, null);
+  uniforms = models[0].shaderInputs.getUniformValues().picking;
+  t.equal(uniforms.isHighlightActive, false, 'highlight cleared');
+
+  pickingManager.destroy();
+  models.forEach(model => model.destroy());
+  t.end();
+});
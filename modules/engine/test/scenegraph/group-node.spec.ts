@@ -139,3 +139,74 @@ test('GroupNode#getBounds', (t) => {
   }
   t.end();
 });
+
+test('GroupNode#parent', (t) => {
+  const child1 = new ScenegraphNode();
+  const child2 = new ScenegraphNode();
+  const groupNode = new GroupNode([child1]);
+
+  t.equal(child1.parent, groupNode, 'constructor sets the parent');
+  groupNode.add(child2);
+  t.equal(child2.parent, groupNode, 'add sets the parent');
+  groupNode.remove(child1);
+  t.equal(child1.parent, null, 'remove clears the parent');
+  groupNode.removeAll();
+  t.equal(child2.parent, null, 'removeAll clears the parent');
+
+  t.end();
+});
+
+test('GroupNode#getWorldMatrix', (t) => {
+  const child = new ScenegraphNode({id: 'child', matrix: new Matrix4().translate([0, 0, 1])});
+  const groupNode = new GroupNode({id: 'group', children: [child]});
+  const root = new GroupNode({
+    id: 'root',
+    matrix: new Matrix4().translate([1, 0, 0]),
+    children: [groupNode]
+  });
+
+  t.deepEqual(Array.from(child.getWorldPosition()), [1, 0, 1], 'includes the matrices of the ancestors');
+
+  root.setMatrix(new Matrix4().translate([2, 0, 0]));
+  t.deepEqual(Array.from(child.getWorldPosition()), [2, 0, 1], 'invalidated when an ancestor changes');
+
+  groupNode.update({position: [0, 3, 0]});
+  t.deepEqual(Array.from(child.getWorldPosition()), [2, 3, 1], 'invalidated when the parent changes');
+
+  t.equal(root.findById('child'), child, 'finds descendants by id');
+  t.equal(root.findById('root'), root, 'finds itself by id');
+  t.equal(root.findById('missing'), null, 'returns null for unknown ids');
+
+  const visited: number[][] = [];
+  root.traverse((node, {worldMatrix}) => visited.push(Array.from(worldMatrix.getTranslation())));
+  t.deepEqual(visited, [[2, 3, 0]], 'traverse passes cached world matrices');
+
+  t.end();
+});
+
+test('GroupNode#attach', (t) => {
+  const child = new ScenegraphNode({matrix: new Matrix4().translate([0, 0, 1])});
+  const group1 = new GroupNode({matrix: new Matrix4().translate([1, 0, 0]), children: [child]});
+  const group2 = new GroupNode({matrix: new Matrix4().scale(2).translate([0, 5, 0])});
+
+  group2.attach(child);
+  t.equal(child.parent, group2, 'reparented');
+  t.notOk(group1.children.includes(child), 'removed from the previous parent');
+  t.ok(group2.children.includes(child), 'added to the new parent');
+  t.deepEqual(Array.from(child.getWorldPosition()), [1, 0, 1], 'world transform preserved');
+
+  t.end();
+});
+
+test('GroupNode#shared children', (t) => {
+  const child = new ScenegraphNode();
+  const group1 = new GroupNode({matrix: new Matrix4().translate([1, 0, 0]), children: [child]});
+  const group2 = new GroupNode({matrix: new Matrix4().translate([2, 0, 0]), children: [child]});
+  const root = new GroupNode([new GroupNode([group1]), new GroupNode([group2])]);
+
+  const visited: number[][] = [];
+  root.traverse((node, {worldMatrix}) => visited.push(Array.from(worldMatrix.getTranslation())));
+  t.deepEqual(visited, [[1, 0, 0], [2, 0, 0]], 'a child of several groups is visited in each');
+
+  t.end();
+});
@@ -0,0 +1,84 @@
+import test from 'tape-promise/tape';
+import {getNullTestDevice} from '@luma.gl/test-utils';
+import {Matrix4} from '@math.gl/core';
+
+import {CubeGeometry, GroupNode, Model, ModelNode, raycast} from '@luma.gl/engine';
+
+const nullDevice = getNullTestDevice();
+
+const vs = /* glsl */ `\
+#version 300 es
+void main() { gl_Position = vec4(1.0); }
+`;
+
+const fs = /* glsl */ `\
+#version 300 es
+precision highp float;
+out vec4 fragmentColor;
+void main() { fragmentColor = vec4(1.0); }
+`;
+
+/** A model node of a cube from -1 to 1 */
+function createCubeNode(id: string, position: number[], withGeometry = true): ModelNode {
+  const geometry = new CubeGeometry();
+  return new ModelNode({
+    id,
+    model: new Model(nullDevice, {id, vs, fs, geometry}),
+    geometry: withGeometry ? geometry : null,
+    position,
+    bounds: [
+      [-1, -1, -1],
+      [1, 1, 1]
+    ]
+  }).update();
+}
+
+test('raycast', t => {
+  const near = createCubeNode('near', [0, 0, -5]);
+  const far = createCubeNode('far', [0, 0, -20]);
+  const beside = createCubeNode('beside', [5, 0, -5]);
+  const hidden = createCubeNode('hidden', [0, 0, -10]).setProps({display: false});
+  const noGeometry = createCubeNode('no-geometry', [0, 0, -15], false);
+  // Scaled by its group: the cube spans z -32 to -28
+  const scaledGroup = new GroupNode([createCubeNode('scaled', [0, 0, -15])]).setProps({
+    matrix: new Matrix4().scale(2)
+  });
+  const scene = new GroupNode([far, near, beside, hidden, noGeometry, scaledGroup]);
+
+  const hits = raycast(scene, {origin: [0.5, 0.5, 0], direction: [0, 0, -2]});
+  t.deepEqual(
+    hits.map(hit => hit.node.id),
+    ['near', 'far', 'scaled'],
+    'closest hit of each displayed node with geometry, closest first'
+  );
+  t.deepEqual(
+    hits.map(hit => hit.distance),
+    [4, 19, 28],
+    'world space distances'
+  );
+  t.deepEqual(hits[0].point, [0.5, 0.5, -4], 'world space point');
+  t.deepEqual(hits[0].localPoint, [0.5, 0.5, 1], 'model space point');
+  t.deepEqual(hits[2].localPoint, [0.25, 0.25, 1], 'model space point of a scaled node');
+  t.ok(hits[0].faceIndex >= 0, 'face index');
+
+  t.deepEqual(
+    raycast(scene, {origin: [0.5, 0.5, 0], direction: [0, 0, -1]}, {maxDistance: 10}).map(
+      hit => hit.node.id
+    ),
+    ['near'],
+    'max distance'
+  );
+  t.deepEqual(raycast(scene, {origin: [0, 10, 0], direction: [0, 0, -1]}), [], 'miss');
+
+  // Inside the near cube only back faces are hit
+  t.deepEqual(
+    raycast(scene, {origin: [0, 0, -5], direction: [0, 0, -1]}, {cullBackFaces: true}).map(
+      hit => hit.node.id
+    ),
+    ['far', 'scaled'],
+    'back faces culled'
+  );
+
+  scene.destroy();
+  t.end();
+});
@@ -0,0 +1,144 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {getNullTestDevice} from '@luma.gl/test-utils';
+import {Matrix4} from '@math.gl/core';
+
+import type {RenderPipelineParameters} from '@luma.gl/core';
+import {GroupNode, Model, ModelNode, SceneRenderer} from '@luma.gl/engine';
+
+const nullDevice = getNullTestDevice();
+
+const vs = /* glsl */ `\
+#version 300 es
+void main() { gl_Position = vec4(1.0); }
+`;
+
+const fs = /* glsl */ `\
+#version 300 es
+precision highp float;
+out vec4 fragmentColor;
+void main() { fragmentColor = vec4(1.0); }
+`;
+
+/** A different fragment shader, which results in a different pipeline */
+const fsB = /* glsl */ `\
+#version 300 es
+precision highp float;
+out vec4 fragmentColor;
+void main() { fragmentColor = vec4(0.5); }
+`;
+
+const BLEND_PARAMETERS: RenderPipelineParameters = {
+  blendColorOperation: 'add',
+  blendColorSrcFactor: 'src-alpha',
+  blendColorDstFactor: 'one-minus-src-alpha',
+  depthWriteEnabled: false
+};
+
+/** Camera at the origin looking down -z */
+const viewMatrix = new Matrix4();
+const projectionMatrix = new Matrix4().perspective({fovy: Math.PI / 2, aspect: 1, near: 1, far: 100});
+
+/** A unit cube model node at a position */
+function createNode(
+  id: string,
+  position: number[],
+  parameters: RenderPipelineParameters = {},
+  fragmentShader = fs
+): ModelNode {
+  const model = new Model(nullDevice, {id, vs, fs: fragmentShader, parameters});
+  return new ModelNode({
+    id,
+    model,
+    position,
+    bounds: [
+      [-0.5, -0.5, -0.5],
+      [0.5, 0.5, 0.5]
+    ]
+  }).update();
+}
+
+test('SceneRenderer#culling', t => {
+  const visible = createNode('visible', [0, 0, -10]);
+  const behind = createNode('behind', [0, 0, 10]);
+  const farAway = createNode('far-away', [0, 0, -200]);
+  const hidden = createNode('hidden', [0, 0, -10]).setProps({display: false});
+  // Children of hidden groups are hidden
+  const hiddenGroup = new GroupNode([createNode('hidden-child', [0, 0, -10])]).setProps({
+    display: false
+  });
+  // Culled with the transform of its parent
+  const movedGroup = new GroupNode([createNode('moved', [0, 0, -10])]).setProps({
+    matrix: new Matrix4().translate([50, 0, 0])
+  });
+  const scene = new GroupNode([visible, behind, farAway, hidden, hiddenGroup, movedGroup]);
+
+  const sceneRenderer = new SceneRenderer();
+  const draws = sceneRenderer.getDraws({scene, viewMatrix, projectionMatrix});
+  t.deepEqual(
+    draws.map(draw => draw.node.id),
+    ['visible'],
+    'nodes outside of the frustum and hidden nodes not drawn'
+  );
+  t.deepEqual(sceneRenderer.stats, {drawn: 1, culled: 3}, 'stats');
+  t.equal(draws[0].depth, 10, 'depth from the camera');
+
+  const uncullingRenderer = new SceneRenderer({cull: false});
+  t.equal(
+    uncullingRenderer.getDraws({scene, viewMatrix, projectionMatrix}).length,
+    4,
+    'culling can be disabled'
+  );
+
+  scene.destroy();
+  t.end();
+});
+
+test('SceneRenderer#sorting', t => {
+  const scene = new GroupNode([
+    createNode('opaque-a-far', [0, 0, -30]),
+    createNode('transparent-near', [0, 0, -5], BLEND_PARAMETERS),
+    createNode('opaque-b-near', [0, 0, -3], {}, fsB),
+    createNode('opaque-a-near', [0, 0, -10]),
+    createNode('transparent-far', [0, 0, -40], BLEND_PARAMETERS),
+    createNode('opaque-b-far', [0, 0, -50], {}, fsB)
+  ]);
+
+  const sceneRenderer = new SceneRenderer();
+  const draws = sceneRenderer.getDraws({scene, viewMatrix, projectionMatrix});
+  t.deepEqual(
+    draws.map(draw => draw.node.id),
+    [
+      'opaque-b-near',
+      'opaque-b-far',
+      'opaque-a-near',
+      'opaque-a-far',
+      'transparent-far',
+      'transparent-near'
+    ],
+    'opaque front-to-back grouped by pipeline, then transparent back-to-front'
+  );
+
+  const drawn: string[] = [];
+  const renderPass = nullDevice.beginRenderPass();
+  sceneRenderer.render(renderPass, {
+    scene,
+    viewMatrix,
+    projectionMatrix,
+    onBeforeDraw: (node, {worldMatrix}) => {
+      drawn.push(node.id);
+      t.ok(worldMatrix instanceof Matrix4, 'called with the world matrix');
+    }
+  });
+  renderPass.end();
+  t.deepEqual(
+    drawn,
+    draws.map(draw => draw.node.id),
+    'render draws in order'
+  );
+
+  scene.destroy();
+  t.end();
+});
@@ -111,3 +111,43 @@ test('ScenegraphNode#getCoordinateUniforms', (t) => {
 
   t.end();
 });
+
+test('ScenegraphNode#quaternion rotation', (t) => {
+  const sgNode = new ScenegraphNode();
+  // 90 degrees around the z axis
+  const rotation = [0, 0, Math.SQRT1_2, Math.SQRT1_2];
+
+  sgNode.update({position: [1, 0, 0], rotation});
+  t.deepEqual(
+    sgNode.matrix.transformAsPoint([1, 0, 0]).map((value) => Math.round(value * 1e6) / 1e6),
+    [1, 1, 0],
+    'should rotate by the quaternion'
+  );
+
+  t.end();
+});
+
+test('ScenegraphNode#getWorldMatrix', (t) => {
+  const sgNode = new ScenegraphNode({matrix: new Matrix4().translate([1, 2, 3])});
+
+  const worldMatrix = sgNode.getWorldMatrix();
+  t.deepEqual(worldMatrix, sgNode.matrix, 'world matrix of a node without parent');
+  t.equal(sgNode.getWorldMatrix(), worldMatrix, 'world matrix is cached');
+  t.deepEqual(Array.from(sgNode.getWorldPosition()), [1, 2, 3], 'world position');
+
+  sgNode.update({position: [0, 1, 0], scale: [2, 2, 2]});
+  t.deepEqual(Array.from(sgNode.getWorldPosition()), [0, 1, 0], 'updated when the matrix changes');
+  t.deepEqual(
+    sgNode.getNormalMatrix(),
+    new Matrix4(sgNode.matrix).invert().transpose(),
+    'normal matrix'
+  );
+
+  // Matrices modified in place must be invalidated
+  sgNode.matrix.translate([1, 0, 0]);
+  t.deepEqual(Array.from(sgNode.getWorldPosition()), [0, 1, 0], 'not updated when the matrix is modified in place');
+  sgNode.invalidateWorldMatrix();
+  t.deepEqual(Array.from(sgNode.getWorldPosition()), [2, 1, 0], 'updated when invalidated');
+
+  t.end();
+});
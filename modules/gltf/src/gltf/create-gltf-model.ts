@@ -1,7 +1,8 @@
-import {Device, RenderPipelineParameters, log} from '@luma.gl/core';
-import {pbr} from '@luma.gl/shadertools';
+import {BufferLayout, Device, RenderPipelineParameters, log} from '@luma.gl/core';
+import {MORPH_MAX_TARGETS, ShaderModule, morph, pbr, skin} from '@luma.gl/shadertools';
 import {Geometry, Model, ModelNode, ModelProps} from '@luma.gl/engine';
 import {ParsePBRMaterialOptions, parsePBRMaterial} from '../pbr/parse-pbr-material';
+import type {GLTFMorphTargetAttribute} from './gltf-morph-targets';
 
 // TODO rename attributes to POSITION/NORMAL etc
 // See gpu-geometry.ts: getAttributeBuffersFromGeometry()
@@ -30,7 +31,38 @@ const vs = `
     _attr vec2 texCoords;
   #endif
 
+  #ifdef HAS_UV_1
+    _attr vec2 TEXCOORD_1;
+  #endif
+
+  #ifdef HAS_SKIN
+    _attr vec4 JOINTS_0;
+    _attr vec4 WEIGHTS_0;
+  #endif
+
+  #ifdef HAS_MORPH_POSITIONS
+    _attr vec3 TARGET_POSITION_0;
+    _attr vec3 TARGET_POSITION_1;
+    _attr vec3 TARGET_POSITION_2;
+    _attr vec3 TARGET_POSITION_3;
+  #endif
+
+  #ifdef HAS_MORPH_NORMALS
+    _attr vec3 TARGET_NORMAL_0;
+    _attr vec3 TARGET_NORMAL_1;
+    _attr vec3 TARGET_NORMAL_2;
+    _attr vec3 TARGET_NORMAL_3;
+  #endif
+
+  #ifdef HAS_MORPH_TANGENTS
+    _attr vec3 TARGET_TANGENT_0;
+    _attr vec3 TARGET_TANGENT_1;
+    _attr vec3 TARGET_TANGENT_2;
+    _attr vec3 TARGET_TANGENT_3;
+  #endif
+
   void main(void) {
+    vec4 _POSITION = positions;
     vec4 _NORMAL = vec4(0.);
     vec4 _TANGENT = vec4(0.);
     vec2 _TEXCOORD_0 = vec2(0.);
@@ -47,8 +79,31 @@ const vs = `
       _TEXCOORD_0 = texCoords;
     #endif
 
-    pbr_setPositionNormalTangentUV(positions, _NORMAL, _TANGENT, _TEXCOORD_0);
-    gl_Position = u_MVPMatrix * positions;
+    // Morph targets are applied before skinning
+    #ifdef HAS_MORPH_POSITIONS
+      _POSITION.xyz = morph_blend(_POSITION.xyz, TARGET_POSITION_0, TARGET_POSITION_1, TARGET_POSITION_2, TARGET_POSITION_3);
+    #endif
+
+    #ifdef HAS_MORPH_NORMALS
+      _NORMAL.xyz = morph_blend(_NORMAL.xyz, TARGET_NORMAL_0, TARGET_NORMAL_1, TARGET_NORMAL_2, TARGET_NORMAL_3);
+    #endif
+
+    #ifdef HAS_MORPH_TANGENTS
+      _TANGENT.xyz = morph_blend(_TANGENT.xyz, TARGET_TANGENT_0, TARGET_TANGENT_1, TARGET_TANGENT_2, TARGET_TANGENT_3);
+    #endif
+
+    #ifdef HAS_SKIN
+      mat4 skinMatrix = skin_getSkinMatrix(WEIGHTS_0, JOINTS_0);
+      _POSITION = skinMatrix * _POSITION;
+      _NORMAL = skinMatrix * vec4(_NORMAL.xyz, 0.);
+      _TANGENT = vec4((skinMatrix * vec4(_TANGENT.xyz, 0.)).xyz, _TANGENT.w);
+    #endif
+
+    pbr_setPositionNormalTangentUV(_POSITION, _NORMAL, _TANGENT, _TEXCOORD_0);
+    #ifdef HAS_UV_1
+      pbr_setUV1(TEXCOORD_1);
+    #endif
+    gl_Position = u_MVPMatrix * _POSITION;
   }
 `;
 
@@ -73,12 +128,32 @@ export type CreateGLTFModelOptions = {
   material: any;
   materialOptions: ParsePBRMaterialOptions;
   modelOptions?: Partial<ModelProps>;
+  /** Apply the joint matrices of the `skin` shader module (requires JOINTS_0 and WEIGHTS_0 attributes) */
+  skinned?: boolean;
+  /** Attributes displaced by morph targets, bound as `TARGET_<attribute>_<slot>` with the `morph` shader module */
+  morphTargetAttributes?: GLTFMorphTargetAttribute[];
 };
 
 export function createGLTFModel(device: Device, options: CreateGLTFModelOptions): ModelNode {
   const {id, geometry, material, vertexCount, materialOptions, modelOptions} = options;
 
   const parsedMaterial = parsePBRMaterial(device, material, geometry.attributes, materialOptions);
+  const skinned = options.skinned && geometry.attributes.JOINTS_0 && geometry.attributes.WEIGHTS_0;
+  if (skinned) {
+    parsedMaterial.defines.HAS_SKIN = 1;
+  }
+  const morphTargetAttributes = getMorphTargetAttributes(options.morphTargetAttributes, parsedMaterial.defines);
+  for (const attribute of morphTargetAttributes) {
+    parsedMaterial.defines[`HAS_MORPH_${attribute}S`] = 1;
+  }
+
+  const modules: ShaderModule[] = [pbr];
+  if (skinned) {
+    modules.push(skin);
+  }
+  if (morphTargetAttributes.length > 0) {
+    modules.push(morph);
+  }
   log.info(4, 'createGLTFModel defines: ', parsedMaterial.defines)();
 
   // Calculate managedResources
@@ -100,11 +175,12 @@ export function createGLTFModel(device: Device, options: CreateGLTFModelOptions)
     geometry,
     topology: geometry.topology,
     vertexCount,
-    modules: [pbr],
+    modules,
     vs: addVersionToShader(device, vs),
     fs: addVersionToShader(device, fs),
     ...modelOptions,
 
+    bufferLayout: [...getMorphTargetBufferLayout(morphTargetAttributes), ...(modelOptions.bufferLayout || [])],
     bindings: {...parsedMaterial.bindings, ...modelOptions.bindings},
     defines: {...parsedMaterial.defines, ...modelOptions.defines},
     parameters: {...parameters, ...parsedMaterial.parameters, ...modelOptions.parameters},
@@ -112,7 +188,30 @@ export function createGLTFModel(device: Device, options: CreateGLTFModelOptions)
   }
 
   const model = new Model(device, modelProps);
-  return new ModelNode({ managedResources, model});
+  return new ModelNode({ managedResources, model, geometry});
+}
+
+/** Morph target deltas are only applied to attributes that the shader reads */
+function getMorphTargetAttributes(
+  attributes: GLTFMorphTargetAttribute[] = [],
+  defines: Record<string, number | boolean>
+): GLTFMorphTargetAttribute[] {
+  return attributes.filter(
+    (attribute) =>
+      attribute === 'POSITION' ||
+      (attribute === 'NORMAL' && defines.HAS_NORMALS) ||
+      (attribute === 'TANGENT' && defines.HAS_TANGENTS)
+  );
+}
+
+function getMorphTargetBufferLayout(attributes: GLTFMorphTargetAttribute[]): BufferLayout[] {
+  const bufferLayout: BufferLayout[] = [];
+  for (const attribute of attributes) {
+    for (let slot = 0; slot < MORPH_MAX_TARGETS; slot++) {
+      bufferLayout.push({name: `TARGET_${attribute}_${slot}`, format: 'float32x3'});
+    }
+  }
+  return bufferLayout;
 }
 
 function addVersionToShader(device: Device, source: string): string {
@@ -2,6 +2,8 @@ import {Device} from '@luma.gl/core';
 import {GroupNode} from '@luma.gl/engine';
 import {GLTFInstantiator, GLTFInstantiatorOptions} from './gltf-instantiator';
 import {GLTFAnimator} from './gltf-animator';
+import {GLTFCameraNode} from './gltf-camera-node';
+import {GLTFLights} from './gltf-lights';
 
 export function createScenegraphsFromGLTF(
   device: Device,
@@ -10,9 +12,14 @@ export function createScenegraphsFromGLTF(
 ): {
   scenes: GroupNode[];
   animator: GLTFAnimator;
+  /** Cameras attached to the nodes of the scenes */
+  cameras: GLTFCameraNode[];
+  /** Punctual lights attached to the nodes of the scenes */
+  lights: GLTFLights;
 } {
   const instantiator = new GLTFInstantiator(device, options);
   const scenes = instantiator.instantiate(gltf);
   const animator = instantiator.createAnimator();
-  return {scenes, animator};
+  const {cameras, lights} = instantiator;
+  return {scenes, animator, cameras, lights};
 }
@@ -1,5 +1,8 @@
 import {assert, log} from '@luma.gl/core';
-import {Matrix4, Quaternion} from '@math.gl/core';
+import {Quaternion} from '@math.gl/core';
+import type {ScenegraphNode} from '@luma.gl/engine';
+import type {GLTFSkin} from './gltf-skin';
+import type {GLTFMorphTargets} from './gltf-morph-targets';
 
 // TODO: import from loaders.gl?
 export const ATTRIBUTE_TYPE_TO_COMPONENTS = {
@@ -21,6 +24,13 @@ export const ATTRIBUTE_COMPONENT_TYPE_TO_ARRAY = {
   5126: Float32Array
 };
 
+export type GLTFAnimatorOptions = {
+  /** Skins whose joint matrices are updated after animating */
+  skins?: GLTFSkin[];
+  /** Morph targets whose weights are updated after animating */
+  morphTargets?: GLTFMorphTargets[];
+};
+
 type GLTFAnimationProps = {
   name: string;
   startTime?: number;
@@ -50,15 +60,22 @@ class GLTFAnimation {
 
     this.channels.forEach(({sampler, target, path}) => {
       interpolate(time, sampler, target, path);
-      applyTranslationRotationScale(target, target._node);
+      // Morph target weights do not affect the node matrix
+      if (path !== 'weights') {
+        applyTranslationRotationScale(target, target._node);
+      }
     });
   }
 }
 
 export class GLTFAnimator {
   animations: GLTFAnimation[];
+  skins: GLTFSkin[];
+  morphTargets: GLTFMorphTargets[];
 
-  constructor(gltf: any) {
+  constructor(gltf: any, options: GLTFAnimatorOptions = {}) {
+    this.skins = options.skins || [];
+    this.morphTargets = options.morphTargets || [];
     this.animations = gltf.animations.map((animation, index) => {
       const name = animation.name || `Animation-${index}`;
       const samplers = animation.samplers.map(({input, interpolation = 'LINEAR', output}) => ({
@@ -66,11 +83,24 @@ export class GLTFAnimator {
         interpolation,
         output: accessorToJsArray(gltf.accessors[output])
       }));
-      const channels = animation.channels.map(({sampler, target}) => ({
-        sampler: samplers[sampler],
-        target: gltf.nodes[target.node],
-        path: target.path
-      }));
+      const channels = animation.channels
+        .map(({sampler, target}) => {
+          const node = gltf.nodes[target.node];
+          if (target.path === 'weights') {
+            // Weights are animated on the morph targets of the node, the glTF node is not modified
+            const morphTargets = this.morphTargets.find((m) => m.gltfNode === node);
+            return (
+              morphTargets && {
+                // Weights samplers output the weights of all morph targets for each keyframe
+                sampler: getWeightsSampler(samplers[sampler], morphTargets.weights.length),
+                target: morphTargets,
+                path: target.path
+              }
+            );
+          }
+          return {sampler: samplers[sampler], target: node, path: target.path};
+        })
+        .filter(Boolean);
       return new GLTFAnimation({name, channels});
     });
   }
@@ -82,6 +112,8 @@ export class GLTFAnimator {
 
   setTime(time: number): void {
     this.animations.forEach((animation) => animation.animate(time));
+    this.skins.forEach((skin) => skin.update());
+    this.morphTargets.forEach((morphTargets) => morphTargets.update());
   }
 
   getAnimations() {
@@ -115,23 +147,22 @@ function accessorToJsArray(accessor) {
   return accessor._animation;
 }
 
-// TODO: share with GLTFInstantiator
-const helperMatrix = new Matrix4();
-function applyTranslationRotationScale(gltfNode, node) {
-  node.matrix.identity();
-
-  if (gltfNode.translation) {
-    node.matrix.translate(gltfNode.translation);
-  }
-
-  if (gltfNode.rotation) {
-    const rotationMatrix = helperMatrix.fromQuaternion(gltfNode.rotation);
-    node.matrix.multiplyRight(rotationMatrix);
+/** Group the flat output values of a weights sampler into one array per keyframe */
+function getWeightsSampler(sampler, morphTargetCount: number) {
+  const output = [];
+  for (let i = 0; i < sampler.output.length; i += morphTargetCount) {
+    output.push(sampler.output.slice(i, i + morphTargetCount));
   }
+  return {...sampler, output};
+}
 
-  if (gltfNode.scale) {
-    node.matrix.scale(gltfNode.scale);
-  }
+function applyTranslationRotationScale(gltfNode, node: ScenegraphNode) {
+  // Rotation is a quaternion. Updating the matrix invalidates the world matrices of the node and its descendants
+  node.setMatrixComponents({
+    position: gltfNode.translation,
+    rotation: gltfNode.rotation,
+    scale: gltfNode.scale
+  });
 }
 
 const quaternion = new Quaternion();
@@ -190,6 +221,10 @@ function interpolate(time, {input, interpolation, output}, target, path) {
         target[path] = [1, 1, 1];
         break;
 
+      case 'weights':
+        target[path] = new Array(output[previousIndex].length).fill(0);
+        break;
+
       default:
         log.warn(`Bad animation path ${path}`)();
     }
@@ -0,0 +1,88 @@
+import type {ScenegraphNodeProps} from '@luma.gl/engine';
+import {ScenegraphNode} from '@luma.gl/engine';
+import {Matrix4} from '@math.gl/core';
+
+/**
+ * A glTF camera definition
+ * @see https://registry.khronos.org/glTF/specs/2.0/glTF-2.0.html#cameras
+ */
+export type GLTFCamera = {
+  name?: string;
+  type: 'perspective' | 'orthographic';
+  perspective?: {
+    /** Vertical field of view in radians */
+    yfov: number;
+    /** Aspect ratio of the field of view. The aspect ratio of the viewport is used if not supplied */
+    aspectRatio?: number;
+    znear: number;
+    /** Infinite projection if not supplied */
+    zfar?: number;
+  };
+  orthographic?: {
+    /** Half the horizontal extent of the view */
+    xmag: number;
+    /** Half the vertical extent of the view */
+    ymag: number;
+    znear: number;
+    zfar: number;
+  };
+};
+
+export type GLTFCameraNodeProps = ScenegraphNodeProps & {
+  camera: GLTFCamera;
+};
+
+/**
+ * A glTF camera attached to a node of the scenegraph.
+ * The camera looks down its local -Z axis, with +Y up, so the view matrix is the inverse
+ * of the world matrix of the node. Matrices are calculated on demand and follow node animation.
+ */
+export class GLTFCameraNode extends ScenegraphNode {
+  readonly camera: GLTFCamera;
+
+  constructor(props: GLTFCameraNodeProps) {
+    super(props);
+    this.camera = props.camera;
+  }
+
+  override toString(): string {
+    return `{type: GLTFCameraNode, id: ${this.id})}`;
+  }
+
+  /** Transforms world space into the view space of the camera */
+  getViewMatrix(): Matrix4 {
+    return new Matrix4(this.getWorldMatrix()).invert();
+  }
+
+  /**
+   * Projection matrix of the camera
+   * @param aspect viewport width / height, used if the camera does not specify an aspect ratio
+   */
+  getProjectionMatrix(aspect: number = 1): Matrix4 {
+    const {type, perspective, orthographic} = this.camera;
+    if (type === 'orthographic') {
+      const {xmag, ymag, znear, zfar} = orthographic;
+      return new Matrix4().ortho({
+        left: -xmag,
+        right: xmag,
+        bottom: -ymag,
+        top: ymag,
+        near: znear,
+        far: zfar
+      });
+    }
+
+    const {yfov, aspectRatio, znear, zfar} = perspective;
+    return new Matrix4().perspective({
+      fovy: yfov,
+      aspect: aspectRatio || aspect,
+      near: znear,
+      far: zfar ?? Infinity
+    });
+  }
+
+  /** Position of the camera in world space */
+  getCameraPosition(): number[] {
+    return Array.from(this.getWorldMatrix().getTranslation());
+  }
+}
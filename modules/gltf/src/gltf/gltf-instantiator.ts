@@ -1,11 +1,15 @@
-import {Device, Buffer, PrimitiveTopology} from '@luma.gl/core';
+import {Device, Buffer, PrimitiveTopology, Sampler} from '@luma.gl/core';
 import {Geometry, GroupNode, ModelNode, ModelProps} from '@luma.gl/engine';
 import {GeometryAttribute} from '@luma.gl/engine/geometry/geometry';
 import {WebGLDevice} from '@luma.gl/webgl';
-import {Matrix4} from '@math.gl/core';
 
 import {GLTFAnimator} from './gltf-animator';
+import {GLTFSkin} from './gltf-skin';
+import {GLTFMorphTargets, GLTFMorphTargetAttribute} from './gltf-morph-targets';
+import {GLTFCameraNode} from './gltf-camera-node';
+import {GLTFLights, GLTFLight} from './gltf-lights';
 import {createGLTFModel} from './create-gltf-model';
+import {createSampler} from './gltf-sampler';
 import type {PBREnvironment} from '../pbr/pbr-environment';
 
 export type GLTFInstantiatorOptions = {
@@ -16,6 +20,14 @@ export type GLTFInstantiatorOptions = {
   useTangents?: boolean
 }
 
+/** Options for creating a mesh that is not shared between nodes */
+type GLTFMeshInstanceOptions = {
+  skinned?: boolean;
+  morphTargets?: GLTFMorphTargets;
+};
+
+const MORPH_TARGET_ATTRIBUTES: GLTFMorphTargetAttribute[] = ['POSITION', 'NORMAL', 'TANGENT'];
+
 const DEFAULT_OPTIONS: GLTFInstantiatorOptions = {
   modelOptions: {},
   pbrDebug: false,
@@ -33,6 +45,17 @@ export class GLTFInstantiator {
   device: WebGLDevice;
   options: GLTFInstantiatorOptions;
   gltf: any;
+  /** Skins used by the instantiated nodes */
+  skins: GLTFSkin[] = [];
+  /** Morph targets of the instantiated meshes */
+  morphTargets: GLTFMorphTargets[] = [];
+
+  /** Cameras attached to the instantiated nodes */
+  cameras: GLTFCameraNode[] = [];
+  /** Punctual lights (KHR_lights_punctual) attached to the instantiated nodes */
+  lights = new GLTFLights();
+  /** Skinned nodes, skins are created once all nodes exist */
+  protected skinnedNodes: {gltfNode: any; node: GroupNode; mesh: GroupNode}[] = [];
 
   constructor(device: Device, options: GLTFInstantiatorOptions = {}) {
     this.device = WebGLDevice.attach(device);
@@ -42,12 +65,22 @@ export class GLTFInstantiator {
   instantiate(gltf: any): GroupNode[] {
     this.gltf = gltf;
     const scenes = (gltf.scenes || []).map((scene) => this.createScene(scene));
+
+    // Joints can be anywhere in the node hierarchy, so skins are created last
+    for (const {gltfNode, node, mesh} of this.skinnedNodes) {
+      const skin = this.createSkin(gltfNode.skin);
+      skin.addSkinnedMesh(node, mesh.children as ModelNode[]);
+    }
+    // Set up joint matrices and morph target weights for the initial pose
+    this.skins.forEach((skin) => skin.update());
+    this.morphTargets.forEach((morphTargets) => morphTargets.update());
+
     return scenes;
   }
 
   createAnimator(): GLTFAnimator {
     if (Array.isArray(this.gltf.animations)) {
-      return new GLTFAnimator(this.gltf);
+      return new GLTFAnimator(this.gltf, {skins: this.skins, morphTargets: this.morphTargets});
     }
 
     return null;
@@ -69,32 +102,36 @@ export class GLTFInstantiator {
       const children = gltfChildren.map((child) => this.createNode(child));
 
       // Node can have children nodes and meshes at the same time
-      if (gltfNode.mesh) {
-        children.push(this.createMesh(gltfNode.mesh));
+      const mesh = gltfNode.mesh && this.createMesh(gltfNode.mesh, this.getMeshInstanceOptions(gltfNode));
+      if (mesh) {
+        children.push(mesh);
+      }
+      const camera = gltfNode.camera !== undefined && this.createCamera(gltfNode);
+      if (camera) {
+        children.push(camera);
       }
 
       const node = new GroupNode({
         id: gltfNode.name || gltfNode.id,
         children
       });
+      if (mesh && gltfNode.skin) {
+        this.skinnedNodes.push({gltfNode, node, mesh});
+      }
+      const light = this.getLight(gltfNode);
+      if (light) {
+        this.lights.addLight(node, light);
+      }
 
       if (gltfNode.matrix) {
         node.setMatrix(gltfNode.matrix);
       } else {
-        node.matrix.identity();
-
-        if (gltfNode.translation) {
-          node.matrix.translate(gltfNode.translation);
-        }
-
-        if (gltfNode.rotation) {
-          const rotationMatrix = new Matrix4().fromQuaternion(gltfNode.rotation);
-          node.matrix.multiplyRight(rotationMatrix);
-        }
-
-        if (gltfNode.scale) {
-          node.matrix.scale(gltfNode.scale);
-        }
+        // Rotation is a quaternion
+        node.setMatrixComponents({
+          position: gltfNode.translation,
+          rotation: gltfNode.rotation,
+          scale: gltfNode.scale
+        });
       }
       gltfNode._node = node;
     }
@@ -102,25 +139,103 @@ export class GLTFInstantiator {
     return gltfNode._node;
   }
 
-  createMesh(gltfMesh): GroupNode {
+  /** Creates a camera node, attached to the scenegraph node of `gltfNode` */
+  createCamera(gltfNode): GLTFCameraNode {
+    // Cameras are resolved by loaders.gl
+    const gltfCamera =
+      typeof gltfNode.camera === 'number' ? this.gltf.cameras[gltfNode.camera] : gltfNode.camera;
+    const camera = new GLTFCameraNode({
+      id: gltfCamera.name || gltfCamera.id || `${gltfNode.name || gltfNode.id}-camera`,
+      camera: gltfCamera
+    });
+    this.cameras.push(camera);
+    return camera;
+  }
+
+  /** The KHR_lights_punctual light attached to `gltfNode`, if any */
+  getLight(gltfNode): GLTFLight | null {
+    // Older loaders.gl versions move the extension to `gltf.lights` and `node.light`
+    const light = gltfNode.extensions?.KHR_lights_punctual?.light ?? gltfNode.light;
+    if (light === undefined) {
+      return null;
+    }
+    const gltfLights = this.gltf.extensions?.KHR_lights_punctual?.lights || this.gltf.lights || [];
+    return typeof light === 'number' ? gltfLights[light] : light;
+  }
+
+  /**
+   * Skinned and morphed meshes need their own models, to hold the joint matrices
+   * and morph target weights of the node they are attached to
+   */
+  getMeshInstanceOptions(gltfNode): GLTFMeshInstanceOptions | null {
+    const gltfMesh = gltfNode.mesh;
+    const morphTargetCount = gltfMesh?.primitives?.[0]?.targets?.length || 0;
+    if (!gltfNode.skin && !morphTargetCount) {
+      return null;
+    }
+
+    let morphTargets: GLTFMorphTargets | undefined;
+    if (morphTargetCount) {
+      // Node weights override mesh weights
+      const weights = gltfNode.weights || gltfMesh.weights || new Array(morphTargetCount).fill(0);
+      morphTargets = new GLTFMorphTargets({id: gltfNode.name || gltfNode.id, weights, gltfNode});
+      this.morphTargets.push(morphTargets);
+    }
+
+    return {skinned: Boolean(gltfNode.skin), morphTargets};
+  }
+
+  createMesh(gltfMesh, instanceOptions: GLTFMeshInstanceOptions | null = null): GroupNode {
+    if (instanceOptions) {
+      return this.createMeshNode(gltfMesh, instanceOptions);
+    }
     // TODO: avoid changing the gltf
     if (!gltfMesh._mesh) {
-      const gltfPrimitives = gltfMesh.primitives || [];
-      const primitives = gltfPrimitives.map((gltfPrimitive, i) =>
-        this.createPrimitive(gltfPrimitive, i, gltfMesh)
+      gltfMesh._mesh = this.createMeshNode(gltfMesh, {});
+    }
+
+    return gltfMesh._mesh;
+  }
+
+  createMeshNode(gltfMesh, instanceOptions: GLTFMeshInstanceOptions): GroupNode {
+    const gltfPrimitives = gltfMesh.primitives || [];
+    const primitives = gltfPrimitives.map((gltfPrimitive, i) =>
+      this.createPrimitive(gltfPrimitive, i, gltfMesh, instanceOptions)
+    );
+    const mesh = new GroupNode({
+      id: gltfMesh.name || gltfMesh.id,
+      children: primitives
+    });
+    return mesh;
+  }
+
+  createSkin(gltfSkin): GLTFSkin {
+    if (!gltfSkin._skin) {
+      // Joints are node indices
+      const joints = gltfSkin.joints.map((joint) =>
+        this.createNode(typeof joint === 'number' ? this.gltf.nodes[joint] : joint)
       );
-      const mesh = new GroupNode({
-        id: gltfMesh.name || gltfMesh.id,
-        children: primitives
+      const skin = new GLTFSkin({
+        id: gltfSkin.name || gltfSkin.id,
+        joints,
+        inverseBindMatrices: gltfSkin.inverseBindMatrices?.value
       });
-      gltfMesh._mesh = mesh;
+      this.skins.push(skin);
+      gltfSkin._skin = skin;
     }
 
-    return gltfMesh._mesh;
+    return gltfSkin._skin;
   }
 
-  createPrimitive(gltfPrimitive: any, i: number, gltfMesh): ModelNode {
+  createPrimitive(
+    gltfPrimitive: any,
+    i: number,
+    gltfMesh,
+    instanceOptions: GLTFMeshInstanceOptions = {}
+  ): ModelNode {
+    const {skinned, morphTargets} = instanceOptions;
     const id = gltfPrimitive.name || `${gltfMesh.name || gltfMesh.id}-primitive-${i}`;
+    const targets = morphTargets ? this.createMorphTargetBuffers(id, gltfPrimitive) : [];
     const topology = convertGLDrawModeToTopology(gltfPrimitive.mode || 4);
     const vertexCount = gltfPrimitive.indices
       ? gltfPrimitive.indices.count
@@ -132,8 +247,11 @@ export class GLTFInstantiator {
       material: gltfPrimitive.material,
       materialOptions: this.options,
       modelOptions: this.options.modelOptions,
-      vertexCount
+      vertexCount,
+      skinned,
+      morphTargetAttributes: MORPH_TARGET_ATTRIBUTES.filter((attribute) => targets[0]?.[attribute])
     });
+    morphTargets?.addPrimitive(modelNode, targets);
 
     modelNode.bounds = [gltfPrimitive.attributes.POSITION.min, gltfPrimitive.attributes.POSITION.max];
     // TODO this holds on to all the CPU side texture and attribute data
@@ -149,9 +267,9 @@ export class GLTFInstantiator {
   createGeometry(id: string, gltfPrimitive: any, topology: PrimitiveTopology): Geometry {
     const attributes = {}
     for (const [attributeName, attribute] of Object.entries(gltfPrimitive.attributes)) {
-      const {components, size, value} = attribute as GeometryAttribute;
+      const {components, size, value, normalized} = attribute as GeometryAttribute;
 
-      attributes[attributeName] = {size: size ?? components, value};
+      attributes[attributeName] = {size: size ?? components, value, normalized};
     };
 
     return new Geometry({
@@ -162,6 +280,32 @@ export class GLTFInstantiator {
     });
   }
 
+  /** Creates buffers for the POSITION, NORMAL and TANGENT deltas of each morph target */
+  createMorphTargetBuffers(
+    id: string,
+    gltfPrimitive: any
+  ): Partial<Record<GLTFMorphTargetAttribute, Buffer>>[] {
+    return (gltfPrimitive.targets || []).map((gltfTarget, targetIndex) => {
+      const buffers: Partial<Record<GLTFMorphTargetAttribute, Buffer>> = {};
+      for (const attribute of MORPH_TARGET_ATTRIBUTES) {
+        if (gltfTarget[attribute] === undefined) {
+          continue; // eslint-disable-line no-continue
+        }
+        // Morph target accessors are not resolved by loaders.gl
+        const accessor =
+          typeof gltfTarget[attribute] === 'number'
+            ? this.gltf.accessors[gltfTarget[attribute]]
+            : gltfTarget[attribute];
+        buffers[attribute] = this.device.createBuffer({
+          id: `${id}-target-${targetIndex}-${attribute}`,
+          // Sparse accessors without a buffer view have no value
+          data: accessor.value || new Float32Array(accessor.count * 3)
+        });
+      }
+      return buffers;
+    });
+  }
+
   createBuffer(attribute, usage: number): Buffer {
     if (!attribute.bufferView) {
       // Draco decoded files do not have a bufferView
@@ -184,9 +328,9 @@ export class GLTFInstantiator {
     return bufferView.lumaBuffers[usage];
   }
 
-  // TODO - create sampler in WebGL2
-  createSampler(gltfSampler) {
-    return gltfSampler;
+  /** Creates a sampler from a glTF sampler, shared by all textures that reference it */
+  createSampler(gltfSampler): Sampler {
+    return createSampler(this.device, gltfSampler);
   }
 
   // Helper methods (move to GLTFLoader.resolve...?)
@@ -0,0 +1,78 @@
+import type {GroupNode, ScenegraphNode} from '@luma.gl/engine';
+import type {Light, LightingProps} from '@luma.gl/shadertools';
+import {Vector3} from '@math.gl/core';
+
+/**
+ * A KHR_lights_punctual light definition
+ * @see https://github.com/KhronosGroup/glTF/tree/main/extensions/2.0/Khronos/KHR_lights_punctual
+ */
+export type GLTFLight = {
+  name?: string;
+  type: 'directional' | 'point' | 'spot';
+  /** Linear RGB color, components in the 0-1 range */
+  color?: number[];
+  /** Candela for point and spot lights, lux for directional lights */
+  intensity?: number;
+  /** Distance where the intensity of point and spot lights reaches zero. Infinite if not supplied */
+  range?: number;
+  spot?: {
+    innerConeAngle?: number;
+    outerConeAngle?: number;
+  };
+};
+
+/**
+ * The punctual lights of a glTF scene.
+ * Light positions and directions are calculated from the current matrices of the nodes the lights are attached to,
+ * so `getLightingProps()` follows node animation.
+ */
+export class GLTFLights {
+  /** The nodes lights are attached to, and their light definitions */
+  readonly punctualLights: {node: GroupNode; light: GLTFLight}[] = [];
+
+  /** Register a light attached to `node` */
+  addLight(node: GroupNode, light: GLTFLight): void {
+    this.punctualLights.push({node, light});
+  }
+
+  /** Props for the `lighting` shader module, with all lights in world space */
+  getLightingProps(): LightingProps {
+    return {lights: this.punctualLights.map(({node, light}) => this.getLight(node, light))};
+  }
+
+  /** Converts a glTF light attached to `node` to a `lighting` module light */
+  getLight(node: ScenegraphNode, light: GLTFLight): Light {
+    const worldMatrix = node.getWorldMatrix();
+    const position = worldMatrix.getTranslation();
+    // The `lighting` module expects colors in the 0-255 range
+    const color = (light.color || [1, 1, 1]).map((component) => component * 255);
+    const intensity = light.intensity ?? 1;
+    // Lights point down the local -Z axis
+    const direction = new Vector3(worldMatrix.transformAsVector([0, 0, -1])).normalize();
+
+    switch (light.type) {
+      case 'directional':
+        return {
+          type: 'directional',
+          position,
+          direction,
+          color,
+          intensity
+        };
+      case 'spot':
+        return {
+          type: 'spot',
+          position,
+          direction,
+          color,
+          intensity,
+          range: light.range,
+          innerConeAngle: light.spot?.innerConeAngle ?? 0,
+          outerConeAngle: light.spot?.outerConeAngle ?? Math.PI / 4
+        };
+      case 'point':
+      default:
+        return {type: 'point', position, color, intensity, range: light.range};
+    }
+  }
+}
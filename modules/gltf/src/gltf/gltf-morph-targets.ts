@@ -0,0 +1,103 @@
+import type {Buffer} from '@luma.gl/core';
+import type {ModelNode} from '@luma.gl/engine';
+import {MORPH_MAX_TARGETS} from '@luma.gl/shadertools';
+
+/** Attributes that glTF morph targets can displace */
+export type GLTFMorphTargetAttribute = 'POSITION' | 'NORMAL' | 'TANGENT';
+
+export type GLTFMorphTargetsProps = {
+  id: string;
+  /** Initial weight of each morph target. Copied */
+  weights: number[];
+  /** The glTF node the mesh instance is attached to. Animations of the node weights update these morph targets */
+  gltfNode?: object;
+};
+
+/**
+ * The morph targets of a glTF mesh instance.
+ * Only `MORPH_MAX_TARGETS` targets can be blended at the same time, so the targets with the largest
+ * weights are bound as `TARGET_<attribute>_<slot>` attributes of the models rendering the mesh.
+ */
+export class GLTFMorphTargets {
+  readonly id: string;
+  /** Weight of each morph target. Animations update this array in place */
+  readonly weights: number[];
+  readonly gltfNode: object | null;
+  /** Model nodes rendering the primitives of the mesh, and the delta buffers of each target by attribute */
+  readonly primitives: {
+    modelNode: ModelNode;
+    targets: Partial<Record<GLTFMorphTargetAttribute, Buffer>>[];
+  }[] = [];
+
+  /** Targets currently bound to the attribute slots */
+  private boundTargets: number[] = [];
+
+  constructor(props: GLTFMorphTargetsProps) {
+    this.id = props.id;
+    this.weights = [...props.weights];
+    this.gltfNode = props.gltfNode || null;
+  }
+
+  /** Register a model node rendering a primitive of the mesh */
+  addPrimitive(
+    modelNode: ModelNode,
+    targets: Partial<Record<GLTFMorphTargetAttribute, Buffer>>[]
+  ): void {
+    this.primitives.push({modelNode, targets});
+    this.boundTargets = [];
+  }
+
+  /**
+   * Binds the most influential targets and sets their weights.
+   * Call after the weights have been changed, e.g. by an animation.
+   */
+  update(): void {
+    const {targets, weights} = this.getActiveTargets();
+
+    const rebind = targets.some((target, slot) => target !== this.boundTargets[slot]);
+    for (const primitive of this.primitives) {
+      const {model} = primitive.modelNode;
+      if (rebind) {
+        model.setAttributes(getTargetAttributes(primitive.targets, targets), 'ignore-unknown');
+      }
+      model.shaderInputs.setProps({morph: {weights}});
+    }
+    this.boundTargets = targets;
+  }
+
+  /**
+   * Selects the targets with the largest absolute weights, one per attribute slot.
+   * Unused slots repeat the first target with a weight of zero.
+   */
+  getActiveTargets(): {targets: number[]; weights: number[]} {
+    const active = this.weights
+      .map((weight, target) => target)
+      .filter((target) => this.weights[target] !== 0)
+      .sort((a, b) => Math.abs(this.weights[b]) - Math.abs(this.weights[a]))
+      .slice(0, MORPH_MAX_TARGETS)
+      // Keep slot order stable
+      .sort((a, b) => a - b);
+
+    const targets: number[] = [];
+    const weights: number[] = [];
+    for (let slot = 0; slot < MORPH_MAX_TARGETS; slot++) {
+      const target = active[slot];
+      targets.push(target ?? 0);
+      weights.push(target === undefined ? 0 : this.weights[target]);
+    }
+    return {targets, weights};
+  }
+}
+
+function getTargetAttributes(
+  targetBuffers: Partial<Record<GLTFMorphTargetAttribute, Buffer>>[],
+  targets: number[]
+): Record<string, Buffer> {
+  const attributes: Record<string, Buffer> = {};
+  targets.forEach((target, slot) => {
+    for (const [attribute, buffer] of Object.entries(targetBuffers[target] || {})) {
+      attributes[`TARGET_${attribute}_${slot}`] = buffer;
+    }
+  });
+  return attributes;
+}
@@ -0,0 +1,81 @@
+import type {Device, Sampler, SamplerProps} from '@luma.gl/core';
+
+// NOTE: Modules other than `@luma.gl/webgl` should not import `GL` from
+// `@luma.gl/constants`. Locally we use `GLEnum` instead of `GL` to avoid
+// conflicts with the `babel-plugin-inline-webgl-constants` plugin.
+enum GLEnum {
+  NEAREST = 0x2600,
+  LINEAR = 0x2601,
+  NEAREST_MIPMAP_NEAREST = 0x2700,
+  LINEAR_MIPMAP_NEAREST = 0x2701,
+  NEAREST_MIPMAP_LINEAR = 0x2702,
+  LINEAR_MIPMAP_LINEAR = 0x2703,
+  REPEAT = 0x2901,
+  CLAMP_TO_EDGE = 0x812f,
+  MIRRORED_REPEAT = 0x8370
+}
+
+/**
+ * Converts a glTF sampler to luma.gl sampler props.
+ * Filters that the glTF sampler leaves undefined default to trilinear filtering.
+ * @see https://registry.khronos.org/glTF/specs/2.0/glTF-2.0.html#samplers
+ */
+export function convertSampler(gltfSampler): SamplerProps {
+  const {magFilter, minFilter, wrapS, wrapT} = gltfSampler || {};
+  return {
+    id: gltfSampler?.name || gltfSampler?.id,
+    addressModeU: convertWrapMode(wrapS),
+    addressModeV: convertWrapMode(wrapT),
+    magFilter: magFilter === GLEnum.NEAREST ? 'nearest' : 'linear',
+    ...convertMinFilter(minFilter)
+  };
+}
+
+/** Samplers created from glTF samplers, per device */
+const samplerCache = new WeakMap<Device, WeakMap<object, Sampler>>();
+
+/**
+ * Creates a sampler from a glTF sampler.
+ * The sampler is cached per device, so it is shared by all textures that reference the glTF sampler
+ */
+export function createSampler(device: Device, gltfSampler): Sampler {
+  let samplers = samplerCache.get(device);
+  if (!samplers) {
+    samplers = new WeakMap();
+    samplerCache.set(device, samplers);
+  }
+  let sampler = samplers.get(gltfSampler);
+  if (!sampler || sampler.destroyed) {
+    sampler = device.createSampler(convertSampler(gltfSampler));
+    samplers.set(gltfSampler, sampler);
+  }
+  return sampler;
+}
+
+function convertWrapMode(wrapMode: number | undefined): SamplerProps['addressModeU'] {
+  switch (wrapMode) {
+    case GLEnum.CLAMP_TO_EDGE:
+      return 'clamp-to-edge';
+    case GLEnum.MIRRORED_REPEAT:
+      return 'mirror-repeat';
+    default:
+      return 'repeat';
+  }
+}
+
+function convertMinFilter(minFilter: number | undefined): Pick<SamplerProps, 'minFilter' | 'mipmapFilter'> {
+  switch (minFilter) {
+    case GLEnum.NEAREST:
+      return {minFilter: 'nearest', mipmapFilter: 'none'};
+    case GLEnum.LINEAR:
+      return {minFilter: 'linear', mipmapFilter: 'none'};
+    case GLEnum.NEAREST_MIPMAP_NEAREST:
+      return {minFilter: 'nearest', mipmapFilter: 'nearest'};
+    case GLEnum.LINEAR_MIPMAP_NEAREST:
+      return {minFilter: 'linear', mipmapFilter: 'nearest'};
+    case GLEnum.NEAREST_MIPMAP_LINEAR:
+      return {minFilter: 'nearest', mipmapFilter: 'linear'};
+    default:
+      return {minFilter: 'linear', mipmapFilter: 'linear'};
+  }
+}
@@ -0,0 +1,77 @@
+import {log} from '@luma.gl/core';
+import {GroupNode, ModelNode, ScenegraphNode} from '@luma.gl/engine';
+import {SKIN_MAX_JOINTS} from '@luma.gl/shadertools';
+import {Matrix4} from '@math.gl/core';
+
+export type GLTFSkinProps = {
+  id: string;
+  /** Scenegraph nodes of the joints */
+  joints: GroupNode[];
+  /** 16 values per joint. Identity matrices are used if not supplied */
+  inverseBindMatrices?: Float32Array | null;
+};
+
+/**
+ * A glTF skin.
+ * Calculates the joint matrices of skinned meshes from the current matrices of the joint nodes
+ * and sets them on the `skin` shader module of the models rendering the meshes.
+ */
+export class GLTFSkin {
+  readonly id: string;
+  readonly joints: GroupNode[];
+  /** Transform vertices from mesh space into the local space of each joint in bind pose */
+  readonly inverseBindMatrices: Matrix4[];
+  /** The nodes skinned meshes are attached to, and the model nodes rendering those meshes */
+  readonly skinnedMeshes: {node: GroupNode; modelNodes: ModelNode[]}[] = [];
+
+  constructor(props: GLTFSkinProps) {
+    const {id, joints, inverseBindMatrices} = props;
+    this.id = id;
+    this.joints = joints;
+    this.inverseBindMatrices = joints.map((joint, i) =>
+      inverseBindMatrices
+        ? new Matrix4().copy(inverseBindMatrices.subarray(i * 16, (i + 1) * 16))
+        : new Matrix4()
+    );
+
+    if (joints.length > SKIN_MAX_JOINTS) {
+      log.warn(`glTF skin ${id} has ${joints.length} joints, only ${SKIN_MAX_JOINTS} are supported`)();
+    }
+  }
+
+  /** Register a skinned mesh attached to `node` */
+  addSkinnedMesh(node: GroupNode, modelNodes: ModelNode[]): void {
+    this.skinnedMeshes.push({node, modelNodes});
+  }
+
+  /**
+   * Updates the joint matrices of all skinned meshes.
+   * Call after the joint nodes have been transformed, e.g. by an animation.
+   */
+  update(): void {
+    for (const {node, modelNodes} of this.skinnedMeshes) {
+      const jointMatrix = this.getJointMatrices(node);
+      for (const modelNode of modelNodes) {
+        modelNode.model.shaderInputs.setProps({skin: {jointMatrix}});
+      }
+    }
+  }
+
+  /**
+   * Joint matrices for a mesh attached to `node`, 16 values per joint.
+   * The world matrix of the mesh node is applied after skinning, so it is removed from the joint matrices.
+   */
+  getJointMatrices(node: ScenegraphNode): Float32Array {
+    const inverseNodeMatrix = new Matrix4(node.getWorldMatrix()).invert();
+    const jointMatrices = new Float32Array(this.joints.length * 16);
+    const jointMatrix = new Matrix4();
+    for (let i = 0; i < this.joints.length; i++) {
+      jointMatrix
+        .copy(inverseNodeMatrix)
+        .multiplyRight(this.joints[i].getWorldMatrix())
+        .multiplyRight(this.inverseBindMatrices[i]);
+      jointMatrices.set(jointMatrix, i * 16);
+    }
+    return jointMatrices;
+  }
+}
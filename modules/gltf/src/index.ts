@@ -7,5 +7,14 @@ export {loadPBREnvironment} from './pbr/pbr-environment';
 
 // glTF Scenegraph Instantiator
 export {createScenegraphsFromGLTF} from './gltf/create-gltf-objects';
+export type {GLTFAnimatorOptions} from './gltf/gltf-animator';
 export {GLTFAnimator} from './gltf/gltf-animator';
+export type {GLTFSkinProps} from './gltf/gltf-skin';
+export {GLTFSkin} from './gltf/gltf-skin';
+export type {GLTFMorphTargetsProps, GLTFMorphTargetAttribute} from './gltf/gltf-morph-targets';
+export {GLTFMorphTargets} from './gltf/gltf-morph-targets';
+export type {GLTFCamera, GLTFCameraNodeProps} from './gltf/gltf-camera-node';
+export {GLTFCameraNode} from './gltf/gltf-camera-node';
+export type {GLTFLight} from './gltf/gltf-lights';
+export {GLTFLights} from './gltf/gltf-lights';
 
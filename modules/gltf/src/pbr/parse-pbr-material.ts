@@ -1,6 +1,7 @@
-import type {Device, Texture, Binding, Parameters} from '@luma.gl/core';
+import type {Device, Texture, Binding, Parameters, Sampler, SamplerProps} from '@luma.gl/core';
 import {log} from '@luma.gl/core';
 import {PBREnvironment} from './pbr-environment';
+import {convertSampler, createSampler} from '../gltf/gltf-sampler';
 
 /* eslint-disable camelcase */
 
@@ -11,6 +12,12 @@ export type ParsePBRMaterialOptions = {
   lights?: any;
   /** Use tangents */
   useTangents?: boolean;
+  /**
+   * Apply `KHR_texture_transform` texture transforms in the shader.
+   * loaders.gl transforms texture coordinates when loading unless the extension is excluded,
+   * with `{gltf: {excludeExtensions: {KHR_texture_transform: true}}}` loader options.
+   */
+  useTextureTransforms?: boolean;
   /** provide an image based (texture cube) lighting environment */
   imageBasedLightingEnvironment?: PBREnvironment;
 };
@@ -21,7 +28,10 @@ export type ParsedPBRMaterial = {
   readonly uniforms: Record<string, any>;
   readonly parameters: Parameters;
   readonly glParameters: Record<string, any>;
-  /** List of all generated textures, makes it easy to destroy them later */
+  /**
+   * List of all generated textures, makes it easy to destroy them later.
+   * Textures shared with previously parsed materials are only listed by the first material
+   */
   readonly generatedTextures: Texture[];
 };
 
@@ -33,12 +43,25 @@ enum GLEnum {
   ONE = 1,
   SRC_ALPHA = 0x0302,
   ONE_MINUS_SRC_ALPHA = 0x0303,
-  TEXTURE_MIN_FILTER = 0x2801,
-  LINEAR = 0x2601,
-  LINEAR_MIPMAP_NEAREST = 0x2701,
   UNPACK_FLIP_Y_WEBGL = 0x9240,
 }
 
+/** glTF material extensions handled by parsePBRMaterial */
+const SUPPORTED_MATERIAL_EXTENSIONS = [
+  'KHR_materials_unlit',
+  'KHR_materials_emissive_strength',
+  'KHR_materials_clearcoat',
+  'KHR_materials_transmission',
+  'KHR_materials_ior',
+  'KHR_materials_specular',
+  'KHR_materials_sheen'
+];
+
+const IDENTITY_UV_TRANSFORM = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+/** Unsupported extensions are only reported once */
+const warnedExtensions = new Set<string>();
+
 /**
  * Parses a GLTF material definition into uniforms and parameters for the PBR shader module
  */
@@ -59,7 +82,11 @@ export function parsePBRMaterial(
       // TODO: find better values?
       u_Camera: [0, 0, 0], // Model should override
 
-      u_MetallicRoughnessValues: [1, 1] // Default is 1 and 1
+      u_MetallicRoughnessValues: [1, 1], // Default is 1 and 1
+      u_EmissiveFactor: [0, 0, 0],
+      u_IOR: 1.5,
+      u_SpecularFactor: 1,
+      u_SpecularColorFactor: [1, 1, 1]
     },
     parameters: {},
     glParameters: {}, 
@@ -90,26 +117,41 @@ export function parsePBRMaterial(
   if (attributes.NORMAL) parsedMaterial.defines.HAS_NORMALS = 1;
   if (attributes.TANGENT && options?.useTangents) parsedMaterial.defines.HAS_TANGENTS = 1;
   if (attributes.TEXCOORD_0) parsedMaterial.defines.HAS_UV = 1;
+  if (attributes.TEXCOORD_1) parsedMaterial.defines.HAS_UV_1 = 1;
 
   if (options?.imageBasedLightingEnvironment) parsedMaterial.defines.USE_IBL = 1;
   if (options?.lights) parsedMaterial.defines.USE_LIGHTS = 1;
 
   if (material) {
-    parseMaterial(device, material, parsedMaterial);
+    parseMaterial(device, material, parsedMaterial, options);
   }
 
   return parsedMaterial;
 }
 
 /** Parse GLTF material record */
-function parseMaterial(device: Device, material, parsedMaterial: ParsedPBRMaterial): void {
-  parsedMaterial.uniforms.pbr_uUnlit = Boolean(material.unlit);
+function parseMaterial(
+  device: Device,
+  material,
+  parsedMaterial: ParsedPBRMaterial,
+  options?: ParsePBRMaterialOptions
+): void {
+  const extensions = material.extensions || {};
+  for (const extensionName of Object.keys(extensions)) {
+    if (!SUPPORTED_MATERIAL_EXTENSIONS.includes(extensionName) && !warnedExtensions.has(extensionName)) {
+      log.warn(`glTF material extension ${extensionName} is not supported`)();
+      warnedExtensions.add(extensionName);
+    }
+  }
+
+  // loaders.gl replaces KHR_materials_unlit with material.unlit
+  parsedMaterial.uniforms.pbr_uUnlit = Boolean(material.unlit || extensions.KHR_materials_unlit);
 
   if (material.pbrMetallicRoughness) {
-    parsePbrMetallicRoughness(device, material.pbrMetallicRoughness, parsedMaterial);
+    parsePbrMetallicRoughness(device, material.pbrMetallicRoughness, parsedMaterial, options);
   }
   if (material.normalTexture) {
-    addTexture(device, material.normalTexture, 'u_NormalSampler', 'HAS_NORMALMAP', parsedMaterial);
+    addTexture(device, material.normalTexture, 'u_NormalSampler', 'HAS_NORMALMAP', parsedMaterial, options);
 
     const {scale = 1} = material.normalTexture;
     parsedMaterial.uniforms.u_NormalScale = scale;
@@ -120,7 +162,8 @@ function parseMaterial(device: Device, material, parsedMaterial: ParsedPBRMateri
       material.occlusionTexture,
       'u_OcclusionSampler',
       'HAS_OCCLUSIONMAP',
-      parsedMaterial
+      parsedMaterial,
+      options
     );
 
     const {strength = 1} = material.occlusionTexture;
@@ -132,9 +175,26 @@ function parseMaterial(device: Device, material, parsedMaterial: ParsedPBRMateri
       material.emissiveTexture,
       'u_EmissiveSampler',
       'HAS_EMISSIVEMAP',
-      parsedMaterial
+      parsedMaterial,
+      options
     );
-    parsedMaterial.uniforms.u_EmissiveFactor = material.emissiveFactor || [0, 0, 0];
+  }
+  const {emissiveStrength = 1} = extensions.KHR_materials_emissive_strength || {};
+  const emissiveFactor = material.emissiveFactor || [0, 0, 0];
+  parsedMaterial.uniforms.u_EmissiveFactor = emissiveFactor.map((value) => value * emissiveStrength);
+
+  if (extensions.KHR_materials_ior) {
+    const {ior = 1.5} = extensions.KHR_materials_ior;
+    parsedMaterial.uniforms.u_IOR = ior;
+  }
+  if (extensions.KHR_materials_specular) {
+    parseSpecular(device, extensions.KHR_materials_specular, parsedMaterial, options);
+  }
+  if (extensions.KHR_materials_clearcoat) {
+    parseClearcoat(device, extensions.KHR_materials_clearcoat, parsedMaterial, options);
+  }
+  if (extensions.KHR_materials_sheen) {
+    parseSheen(device, extensions.KHR_materials_sheen, parsedMaterial, options);
   }
 
   switch (material.alphaMode) {
@@ -144,7 +204,9 @@ function parseMaterial(device: Device, material, parsedMaterial: ParsedPBRMateri
       parsedMaterial.uniforms.u_AlphaCutoff = alphaCutoff;
       break;
     case 'BLEND':
-      log.warn('glTF BLEND alphaMode might not work well because it requires mesh sorting')();
+      // Blended meshes must be drawn back-to-front after opaque meshes, e.g. by SceneRenderer,
+      // and do not write depth so that they do not hide each other
+      parsedMaterial.parameters.depthWriteEnabled = false;
 
       // WebGPU style parameters
       parsedMaterial.parameters.blendColorOperation = 'add';
@@ -159,16 +221,23 @@ function parseMaterial(device: Device, material, parsedMaterial: ParsedPBRMateri
       parsedMaterial.glParameters.blend = true;
       parsedMaterial.glParameters.blendEquation = GLEnum.FUNC_ADD;
       parsedMaterial.glParameters.blendFunc = [GLEnum.SRC_ALPHA, GLEnum.ONE_MINUS_SRC_ALPHA, GLEnum.ONE, GLEnum.ONE_MINUS_SRC_ALPHA];
+      parsedMaterial.glParameters.depthMask = false;
 
       break;
   }
+
+  // Transmission needs blending, so it is parsed after alphaMode
+  if (extensions.KHR_materials_transmission) {
+    parseTransmission(device, extensions.KHR_materials_transmission, parsedMaterial, options);
+  }
 }
 
 /** Parse GLTF material sub record */
 function parsePbrMetallicRoughness(
   device: Device,
   pbrMetallicRoughness,
-  parsedMaterial: ParsedPBRMaterial
+  parsedMaterial: ParsedPBRMaterial,
+  options?: ParsePBRMaterialOptions
 ): void {
   if (pbrMetallicRoughness.baseColorTexture) {
     addTexture(
@@ -176,7 +245,8 @@ function parsePbrMetallicRoughness(
       pbrMetallicRoughness.baseColorTexture,
       'u_BaseColorSampler',
       'HAS_BASECOLORMAP',
-      parsedMaterial
+      parsedMaterial,
+      options
     );
   }
   parsedMaterial.uniforms.u_BaseColorFactor = pbrMetallicRoughness.baseColorFactor || [1, 1, 1, 1];
@@ -187,50 +257,238 @@ function parsePbrMetallicRoughness(
       pbrMetallicRoughness.metallicRoughnessTexture,
       'u_MetallicRoughnessSampler',
       'HAS_METALROUGHNESSMAP',
-      parsedMaterial
+      parsedMaterial,
+      options
     );
   }
   const {metallicFactor = 1, roughnessFactor = 1} = pbrMetallicRoughness;
   parsedMaterial.uniforms.u_MetallicRoughnessValues = [metallicFactor, roughnessFactor];
 }
 
-/** Create a texture from a glTF texture/sampler/image combo and add it to bindings */
+/** Parse KHR_materials_specular extension */
+function parseSpecular(
+  device: Device,
+  specular,
+  parsedMaterial: ParsedPBRMaterial,
+  options?: ParsePBRMaterialOptions
+): void {
+  const {specularFactor = 1, specularColorFactor = [1, 1, 1]} = specular;
+  parsedMaterial.uniforms.u_SpecularFactor = specularFactor;
+  parsedMaterial.uniforms.u_SpecularColorFactor = specularColorFactor;
+
+  if (specular.specularTexture) {
+    addTexture(device, specular.specularTexture, 'u_SpecularSampler', 'HAS_SPECULARMAP', parsedMaterial, options);
+  }
+  if (specular.specularColorTexture) {
+    addTexture(
+      device,
+      specular.specularColorTexture,
+      'u_SpecularColorSampler',
+      'HAS_SPECULARCOLORMAP',
+      parsedMaterial,
+      options
+    );
+  }
+}
+
+/** Parse KHR_materials_clearcoat extension */
+function parseClearcoat(
+  device: Device,
+  clearcoat,
+  parsedMaterial: ParsedPBRMaterial,
+  options?: ParsePBRMaterialOptions
+): void {
+  const {clearcoatFactor = 0, clearcoatRoughnessFactor = 0} = clearcoat;
+  parsedMaterial.defines.HAS_CLEARCOAT = 1;
+  parsedMaterial.uniforms.u_ClearcoatFactor = clearcoatFactor;
+  parsedMaterial.uniforms.u_ClearcoatRoughnessFactor = clearcoatRoughnessFactor;
+
+  if (clearcoat.clearcoatTexture) {
+    addTexture(device, clearcoat.clearcoatTexture, 'u_ClearcoatSampler', 'HAS_CLEARCOATMAP', parsedMaterial, options);
+  }
+  if (clearcoat.clearcoatRoughnessTexture) {
+    addTexture(
+      device,
+      clearcoat.clearcoatRoughnessTexture,
+      'u_ClearcoatRoughnessSampler',
+      'HAS_CLEARCOATROUGHNESSMAP',
+      parsedMaterial,
+      options
+    );
+  }
+  if (clearcoat.clearcoatNormalTexture) {
+    addTexture(
+      device,
+      clearcoat.clearcoatNormalTexture,
+      'u_ClearcoatNormalSampler',
+      'HAS_CLEARCOATNORMALMAP',
+      parsedMaterial,
+      options
+    );
+    const {scale = 1} = clearcoat.clearcoatNormalTexture;
+    parsedMaterial.uniforms.u_ClearcoatNormalScale = scale;
+  }
+}
+
+/**
+ * Parse KHR_materials_transmission extension
+ * Transmission is approximated by blending with what is behind the surface, without refraction
+ */
+function parseTransmission(
+  device: Device,
+  transmission,
+  parsedMaterial: ParsedPBRMaterial,
+  options?: ParsePBRMaterialOptions
+): void {
+  const {transmissionFactor = 0} = transmission;
+  parsedMaterial.defines.HAS_TRANSMISSION = 1;
+  parsedMaterial.uniforms.u_TransmissionFactor = transmissionFactor;
+
+  if (transmission.transmissionTexture) {
+    addTexture(
+      device,
+      transmission.transmissionTexture,
+      'u_TransmissionSampler',
+      'HAS_TRANSMISSIONMAP',
+      parsedMaterial,
+      options
+    );
+  }
+
+  // The shader scales diffuse light by opacity, so blend with premultiplied alpha
+  parsedMaterial.parameters.blendColorOperation = 'add';
+  parsedMaterial.parameters.blendColorSrcFactor = 'one';
+  parsedMaterial.parameters.blendColorDstFactor = 'one-minus-src-alpha';
+
+  parsedMaterial.parameters.blendAlphaOperation = 'add';
+  parsedMaterial.parameters.blendAlphaSrcFactor = 'one';
+  parsedMaterial.parameters.blendAlphaDstFactor = 'one-minus-src-alpha';
+
+  parsedMaterial.glParameters.blend = true;
+  parsedMaterial.glParameters.blendEquation = GLEnum.FUNC_ADD;
+  parsedMaterial.glParameters.blendFunc = [GLEnum.ONE, GLEnum.ONE_MINUS_SRC_ALPHA, GLEnum.ONE, GLEnum.ONE_MINUS_SRC_ALPHA];
+}
+
+/** Parse KHR_materials_sheen extension */
+function parseSheen(
+  device: Device,
+  sheen,
+  parsedMaterial: ParsedPBRMaterial,
+  options?: ParsePBRMaterialOptions
+): void {
+  const {sheenColorFactor = [0, 0, 0], sheenRoughnessFactor = 0} = sheen;
+  parsedMaterial.defines.HAS_SHEEN = 1;
+  parsedMaterial.uniforms.u_SheenColorFactor = sheenColorFactor;
+  parsedMaterial.uniforms.u_SheenRoughnessFactor = sheenRoughnessFactor;
+
+  if (sheen.sheenColorTexture) {
+    addTexture(device, sheen.sheenColorTexture, 'u_SheenColorSampler', 'HAS_SHEENCOLORMAP', parsedMaterial, options);
+  }
+  if (sheen.sheenRoughnessTexture) {
+    addTexture(
+      device,
+      sheen.sheenRoughnessTexture,
+      'u_SheenRoughnessSampler',
+      'HAS_SHEENROUGHNESSMAP',
+      parsedMaterial,
+      options
+    );
+  }
+}
+
+/**
+ * Get the 3x3 UV transform matrix (column major) of a glTF texture info from its KHR_texture_transform extension
+ * @see https://github.com/KhronosGroup/glTF/tree/main/extensions/2.0/Khronos/KHR_texture_transform
+ */
+export function getTextureTransform(gltfTexture): number[] {
+  const textureTransform = gltfTexture?.extensions?.KHR_texture_transform;
+  if (!textureTransform) {
+    return IDENTITY_UV_TRANSFORM;
+  }
+  const {offset = [0, 0], rotation = 0, scale = [1, 1]} = textureTransform;
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  // translation * rotation * scale
+  return [
+    cos * scale[0], -sin * scale[0], 0,
+    sin * scale[1], cos * scale[1], 0,
+    offset[0], offset[1], 1
+  ];
+}
+
+/** Add the texture of a glTF texture info to bindings */
 function addTexture(
   device: Device,
   gltfTexture,
   uniformName: string,
   define = null,
-  parsedMaterial: ParsedPBRMaterial
+  parsedMaterial: ParsedPBRMaterial,
+  options?: ParsePBRMaterialOptions
 ): void {
-  const parameters = gltfTexture?.texture?.sampler?.parameters || {};
+  const texture = getTexture(device, gltfTexture.texture, parsedMaterial);
+  parsedMaterial.bindings[uniformName] = texture;
+  parsedMaterial.uniforms[uniformName.replace('Sampler', 'UVTransform')] = options?.useTextureTransforms
+    ? getTextureTransform(gltfTexture)
+    : IDENTITY_UV_TRANSFORM;
+  if (define) {
+    parsedMaterial.defines[define] = 1;
+    // Select the texture coordinate set, e.g. `OCCLUSIONMAP_TEXCOORD` for `HAS_OCCLUSIONMAP`
+    if (gltfTexture.texCoord) {
+      parsedMaterial.defines[`${define.replace(/^HAS_/, '')}_TEXCOORD`] = gltfTexture.texCoord;
+    }
+  }
+}
+
+/** Textures created from glTF textures, per device */
+const textureCache = new WeakMap<Device, WeakMap<object, Texture>>();
 
-  const image = gltfTexture.texture.source.image;
+/**
+ * Create a texture from a glTF texture/sampler/image combo.
+ * The texture is cached per device, so it is shared by all materials that reference the glTF texture
+ */
+function getTexture(device: Device, gltfTexture, parsedMaterial: ParsedPBRMaterial): Texture {
+  let textures = textureCache.get(device);
+  if (!textures) {
+    textures = new WeakMap();
+    textureCache.set(device, textures);
+  }
+  const cachedTexture = textures.get(gltfTexture);
+  if (cachedTexture && !cachedTexture.destroyed) {
+    return cachedTexture;
+  }
+
+  const samplerProps = convertSampler(gltfTexture.sampler);
+  let sampler: Sampler | SamplerProps = gltfTexture.sampler
+    ? createSampler(device, gltfTexture.sampler)
+    : samplerProps;
+  let mipmaps = samplerProps.mipmapFilter !== 'none';
+
+  const image = gltfTexture.source.image;
   let textureOptions;
-  let specialTextureParameters = {};
   if (image.compressed) {
     textureOptions = image;
-    specialTextureParameters = {
-      [GLEnum.TEXTURE_MIN_FILTER]: image.data.length > 1 ? GLEnum.LINEAR_MIPMAP_NEAREST : GLEnum.LINEAR
-    };
+    // Mipmaps of compressed textures can't be generated, they are supplied with the image
+    if (mipmaps && image.data.length <= 1) {
+      sampler = {...samplerProps, mipmapFilter: 'none'};
+    }
+    mipmaps = false;
   } else {
     // Texture2D accepts a promise that returns an image as data (Async Textures)
     textureOptions = {data: image};
   }
 
   const texture: Texture = device.createTexture({
-    id: gltfTexture.uniformName || gltfTexture.id,
-    parameters: {
-      ...parameters,
-      ...specialTextureParameters
-    },
+    id: gltfTexture.name || gltfTexture.id,
+    sampler,
+    mipmaps,
     pixelStore: {
       [GLEnum.UNPACK_FLIP_Y_WEBGL]: false
     },
     ...textureOptions
   });
-  parsedMaterial.bindings[uniformName] = texture;
-  if (define) parsedMaterial.defines[define] = 1;
+  textures.set(gltfTexture, texture);
   parsedMaterial.generatedTextures.push(texture);
+  return texture;
 }
 
 /*
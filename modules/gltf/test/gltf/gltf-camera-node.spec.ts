@@ -0,0 +1,69 @@
+import test from 'tape-promise/tape';
+
+import {GroupNode} from '@luma.gl/engine';
+import {GLTFCameraNode} from '@luma.gl/gltf';
+import {Matrix4} from '@math.gl/core';
+
+test('GLTFCameraNode#getViewMatrix', (t) => {
+  const camera = new GLTFCameraNode({
+    id: 'camera',
+    camera: {type: 'perspective', perspective: {yfov: Math.PI / 2, znear: 1}}
+  });
+  const node = new GroupNode({
+    id: 'node',
+    matrix: new Matrix4().translate([0, 1, 0]),
+    children: [camera]
+  });
+  // Sets the parent of the node
+  new GroupNode({
+    id: 'root',
+    matrix: new Matrix4().translate([2, 0, 0]),
+    children: [node]
+  });
+
+  t.deepEqual(camera.getCameraPosition(), [2, 1, 0], 'camera position includes ancestor matrices');
+  t.deepEqual(
+    camera.getViewMatrix().transformAsPoint([2, 1, -5]),
+    [0, 0, -5],
+    'view matrix is the inverse world matrix'
+  );
+
+  // Animating a node moves the camera
+  node.setMatrix(new Matrix4().translate([0, 3, 0]));
+  t.deepEqual(camera.getCameraPosition(), [2, 3, 0], 'camera follows node transforms');
+
+  t.end();
+});
+
+test('GLTFCameraNode#getProjectionMatrix', (t) => {
+  const perspective = new GLTFCameraNode({
+    camera: {type: 'perspective', perspective: {yfov: Math.PI / 2, znear: 1, zfar: 10}}
+  });
+  let projectionMatrix = perspective.getProjectionMatrix(2);
+  t.ok(Math.abs(projectionMatrix[0] - 0.5) < 1e-6, 'viewport aspect ratio is used by default');
+  t.ok(Math.abs(projectionMatrix[5] - 1) < 1e-6, 'vertical field of view');
+  t.deepEqual(
+    projectionMatrix.transformAsPoint([0, 0, -10]).map((value) => Math.round(value * 1e6) / 1e6),
+    [0, 0, 1],
+    'far plane is at zfar'
+  );
+
+  const infinite = new GLTFCameraNode({
+    camera: {type: 'perspective', perspective: {yfov: Math.PI / 2, aspectRatio: 1, znear: 1}}
+  });
+  projectionMatrix = infinite.getProjectionMatrix(2);
+  t.ok(Math.abs(projectionMatrix[0] - 1) < 1e-6, 'camera aspect ratio overrides viewport');
+  t.equal(projectionMatrix[10], -1, 'infinite projection without zfar');
+
+  const orthographic = new GLTFCameraNode({
+    camera: {type: 'orthographic', orthographic: {xmag: 2, ymag: 4, znear: 0, zfar: 10}}
+  });
+  projectionMatrix = orthographic.getProjectionMatrix();
+  t.deepEqual(
+    projectionMatrix.transformAsPoint([2, 4, -10]).map((value) => Math.round(value * 1e6) / 1e6),
+    [1, 1, 1],
+    'orthographic extents'
+  );
+
+  t.end();
+});
@@ -0,0 +1,55 @@
+import test from 'tape-promise/tape';
+
+import {GroupNode} from '@luma.gl/engine';
+import {GLTFLights} from '@luma.gl/gltf';
+import {Matrix4} from '@math.gl/core';
+
+test('GLTFLights#getLightingProps', (t) => {
+  const pointNode = new GroupNode({id: 'point', matrix: new Matrix4().translate([0, 2, 0])});
+  // Rotated to point down the -Y axis
+  const directionalNode = new GroupNode({
+    id: 'directional',
+    matrix: new Matrix4().rotateX(-Math.PI / 2)
+  });
+  // Sets the parent of the nodes
+  new GroupNode({
+    id: 'root',
+    matrix: new Matrix4().translate([1, 0, 0]),
+    children: [pointNode, directionalNode]
+  });
+
+  const lights = new GLTFLights();
+  lights.addLight(pointNode, {type: 'point', color: [1, 0.5, 0], intensity: 10, range: 5});
+  lights.addLight(directionalNode, {type: 'directional'});
+
+  let [pointLight, directionalLight] = lights.getLightingProps().lights;
+  t.equal(pointLight.type, 'point', 'point light');
+  t.deepEqual(
+    Array.from(pointLight.type === 'point' && pointLight.position),
+    [1, 2, 0],
+    'point light position is in world space'
+  );
+  t.deepEqual(pointLight.color, [255, 127.5, 0], 'color is converted to the 0-255 range');
+  t.equal(pointLight.intensity, 10, 'intensity');
+
+  t.equal(directionalLight.type, 'directional', 'directional light');
+  t.deepEqual(
+    Array.from(directionalLight.type === 'directional' && directionalLight.direction).map(
+      (value) => Math.round(value * 1e6) / 1e6 || 0
+    ),
+    [0, -1, 0],
+    'directional light points down the rotated -Z axis'
+  );
+  t.equal(directionalLight.intensity, 1, 'default intensity');
+
+  // Animating a node moves the light
+  pointNode.setMatrix(new Matrix4().translate([0, 4, 0]));
+  [pointLight] = lights.getLightingProps().lights;
+  t.deepEqual(
+    Array.from(pointLight.type === 'point' && pointLight.position),
+    [1, 4, 0],
+    'lights follow node transforms'
+  );
+
+  t.end();
+});
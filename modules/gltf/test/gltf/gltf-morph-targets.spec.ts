@@ -0,0 +1,50 @@
+import test from 'tape-promise/tape';
+
+import {GLTFAnimator, GLTFMorphTargets} from '@luma.gl/gltf';
+
+test('GLTFMorphTargets#getActiveTargets', (t) => {
+  const morphTargets = new GLTFMorphTargets({id: 'mesh', weights: [0, 0.5]});
+  t.deepEqual(
+    morphTargets.getActiveTargets(),
+    {targets: [1, 0, 0, 0], weights: [0.5, 0, 0, 0]},
+    'unused slots have zero weight'
+  );
+
+  morphTargets.weights.splice(0, 2, 0.1, -0.9, 0.3, 0, 0.2, 0.05);
+  t.deepEqual(
+    morphTargets.getActiveTargets(),
+    {targets: [0, 1, 2, 4], weights: [0.1, -0.9, 0.3, 0.2]},
+    'targets with largest absolute weights are selected, in target order'
+  );
+
+  t.end();
+});
+
+test('GLTFAnimator#weights', (t) => {
+  const gltf = {
+    nodes: [{weights: [0, 0]}],
+    accessors: [
+      {componentType: 5126, type: 'SCALAR', count: 2, bufferView: {data: new Float32Array([0, 1])}},
+      {componentType: 5126, type: 'SCALAR', count: 4, bufferView: {data: new Float32Array([0, 0, 1, 0.5])}}
+    ],
+    animations: [
+      {
+        samplers: [{input: 0, output: 1}],
+        channels: [{sampler: 0, target: {node: 0, path: 'weights'}}]
+      }
+    ]
+  };
+  const morphTargets = new GLTFMorphTargets({
+    id: 'mesh',
+    weights: gltf.nodes[0].weights,
+    gltfNode: gltf.nodes[0]
+  });
+  t.notEqual(morphTargets.weights, gltf.nodes[0].weights, 'weights are copied');
+  const animator = new GLTFAnimator(gltf, {morphTargets: [morphTargets]});
+
+  animator.setTime(500);
+  t.deepEqual(morphTargets.weights, [0.5, 0.25], 'weights are interpolated');
+  t.deepEqual(gltf.nodes[0].weights, [0, 0], 'glTF node weights are not modified');
+
+  t.end();
+});
@@ -0,0 +1,40 @@
+import test from 'tape-promise/tape';
+
+import {GroupNode} from '@luma.gl/engine';
+import {GLTFSkin} from '@luma.gl/gltf';
+import {Matrix4} from '@math.gl/core';
+
+test('GLTFSkin#getJointMatrices', (t) => {
+  const joint = new GroupNode({id: 'joint', matrix: new Matrix4().translate([0, 2, 0])});
+  const meshNode = new GroupNode({id: 'mesh'});
+  // Sets the parent of the nodes
+  new GroupNode({id: 'root', children: [joint, meshNode]});
+
+  // Bind pose has the joint at y = 2
+  const inverseBindMatrices = new Float32Array(new Matrix4().translate([0, -2, 0]));
+  const skin = new GLTFSkin({id: 'skin', joints: [joint], inverseBindMatrices});
+
+  t.deepEqual(
+    Array.from(skin.getJointMatrices(meshNode)),
+    Array.from(new Matrix4()),
+    'joint matrix is identity in bind pose'
+  );
+
+  // Move joint up
+  joint.update({position: [0, 3, 0]});
+  t.deepEqual(
+    new Matrix4(Array.from(skin.getJointMatrices(meshNode))).getTranslation(),
+    [0, 1, 0],
+    'joint matrix moves vertices with the joint'
+  );
+
+  // Moving the mesh node does not affect skinned vertices
+  meshNode.update({position: [4, 0, 0]});
+  t.deepEqual(
+    new Matrix4(Array.from(skin.getJointMatrices(meshNode))).getTranslation(),
+    [-4, 1, 0],
+    'mesh node transform is removed from joint matrix'
+  );
+
+  t.end();
+});
@@ -1,3 +1,10 @@
 
 // GLTF
 import './gltf/gltf.spec';
+import './gltf/gltf-skin.spec';
+import './gltf/gltf-morph-targets.spec';
+import './gltf/gltf-camera-node.spec';
+import './gltf/gltf-lights.spec';
+
+// PBR
+import './pbr/parse-pbr-material.spec';
@@ -0,0 +1,191 @@
+import test from 'tape-promise/tape';
+import {getNullTestDevice, NullDevice} from '@luma.gl/test-utils';
+import type {Texture} from '@luma.gl/core';
+
+import {parsePBRMaterial} from '@luma.gl/gltf';
+
+const nullDevice = getNullTestDevice();
+
+const IMAGE = {width: 1, height: 1, data: new Uint8Array(4)};
+
+function getTextureInfo(extensions?: Record<string, unknown>) {
+  return {texture: {id: 'texture', source: {image: IMAGE}}, extensions};
+}
+
+test('parsePBRMaterial#KHR material extensions', (t) => {
+  const material = {
+    emissiveFactor: [1, 0.5, 0],
+    extensions: {
+      KHR_materials_unlit: {},
+      KHR_materials_emissive_strength: {emissiveStrength: 4},
+      KHR_materials_ior: {ior: 1.4},
+      KHR_materials_specular: {specularFactor: 0.5, specularColorTexture: getTextureInfo()},
+      KHR_materials_clearcoat: {
+        clearcoatFactor: 1,
+        clearcoatRoughnessFactor: 0.2,
+        clearcoatNormalTexture: {...getTextureInfo(), scale: 0.5}
+      },
+      KHR_materials_transmission: {transmissionFactor: 0.8},
+      KHR_materials_sheen: {sheenColorFactor: [1, 0, 0]}
+    }
+  };
+
+  const {defines, uniforms, bindings, parameters} = parsePBRMaterial(nullDevice, material, {}, {});
+
+  t.equal(uniforms.pbr_uUnlit, true, 'KHR_materials_unlit');
+  t.deepEqual(uniforms.u_EmissiveFactor, [4, 2, 0], 'KHR_materials_emissive_strength');
+  t.equal(uniforms.u_IOR, 1.4, 'KHR_materials_ior');
+
+  t.equal(uniforms.u_SpecularFactor, 0.5, 'KHR_materials_specular factor');
+  t.deepEqual(uniforms.u_SpecularColorFactor, [1, 1, 1], 'KHR_materials_specular default color');
+  t.ok(bindings.u_SpecularColorSampler && defines.HAS_SPECULARCOLORMAP, 'specular color texture');
+
+  t.ok(defines.HAS_CLEARCOAT, 'KHR_materials_clearcoat');
+  t.equal(uniforms.u_ClearcoatRoughnessFactor, 0.2, 'clearcoat roughness');
+  t.equal(uniforms.u_ClearcoatNormalScale, 0.5, 'clearcoat normal scale');
+  t.ok(bindings.u_ClearcoatNormalSampler && defines.HAS_CLEARCOATNORMALMAP, 'clearcoat normal texture');
+
+  t.ok(defines.HAS_TRANSMISSION, 'KHR_materials_transmission');
+  t.equal(uniforms.u_TransmissionFactor, 0.8, 'transmission factor');
+  t.equal(parameters.blendColorSrcFactor, 'one', 'transmission blends with premultiplied alpha');
+
+  t.ok(defines.HAS_SHEEN, 'KHR_materials_sheen');
+  t.deepEqual(uniforms.u_SheenColorFactor, [1, 0, 0], 'sheen color');
+  t.equal(uniforms.u_SheenRoughnessFactor, 0, 'default sheen roughness');
+
+  t.end();
+});
+
+test('parsePBRMaterial#KHR_texture_transform', (t) => {
+  const material = {
+    pbrMetallicRoughness: {
+      baseColorTexture: getTextureInfo({
+        KHR_texture_transform: {offset: [0.5, 0.25], rotation: Math.PI / 2, scale: [2, 3]}
+      })
+    }
+  };
+
+  let {uniforms} = parsePBRMaterial(nullDevice, material, {}, {});
+  t.deepEqual(
+    uniforms.u_BaseColorUVTransform,
+    [1, 0, 0, 0, 1, 0, 0, 0, 1],
+    'texture transforms are not applied by default'
+  );
+
+  ({uniforms} = parsePBRMaterial(nullDevice, material, {}, {useTextureTransforms: true}));
+  const expected = [0, -2, 0, 3, 0, 0, 0.5, 0.25, 1];
+  t.ok(
+    uniforms.u_BaseColorUVTransform.every((value, i) => Math.abs(value - expected[i]) < 1e-6),
+    'texture transform is offset * rotation * scale'
+  );
+
+  t.end();
+});
+
+test('parsePBRMaterial#samplers', (t) => {
+  const NEAREST = 0x2600;
+  const LINEAR = 0x2601;
+  const CLAMP_TO_EDGE = 0x812f;
+  const MIRRORED_REPEAT = 0x8370;
+  const material = {
+    pbrMetallicRoughness: {
+      baseColorTexture: {
+        texture: {
+          id: 'texture',
+          source: {image: IMAGE},
+          sampler: {
+            magFilter: NEAREST,
+            minFilter: LINEAR,
+            wrapS: CLAMP_TO_EDGE,
+            wrapT: MIRRORED_REPEAT
+          }
+        }
+      }
+    },
+    normalTexture: getTextureInfo()
+  };
+
+  const {bindings} = parsePBRMaterial(nullDevice, material, {}, {});
+
+  const baseColorTexture = bindings.u_BaseColorSampler as Texture;
+  t.deepEqual(
+    pick(baseColorTexture.sampler.props, [
+      'addressModeU',
+      'addressModeV',
+      'magFilter',
+      'minFilter',
+      'mipmapFilter'
+    ]),
+    {
+      addressModeU: 'clamp-to-edge',
+      addressModeV: 'mirror-repeat',
+      magFilter: 'nearest',
+      minFilter: 'linear',
+      mipmapFilter: 'none'
+    },
+    'glTF sampler is converted to sampler props'
+  );
+  t.equal(baseColorTexture.props.mipmaps, false, 'no mipmaps are generated without a mipmap filter');
+
+  const normalTexture = bindings.u_NormalSampler as Texture;
+  t.deepEqual(
+    pick(normalTexture.sampler.props, ['addressModeU', 'minFilter', 'mipmapFilter']),
+    {addressModeU: 'repeat', minFilter: 'linear', mipmapFilter: 'linear'},
+    'textures without a sampler use repeat and trilinear filtering'
+  );
+  t.equal(normalTexture.props.mipmaps, true, 'mipmaps are generated for the default sampler');
+
+  t.end();
+});
+
+test('parsePBRMaterial#texCoord', (t) => {
+  const material = {
+    occlusionTexture: {...getTextureInfo(), texCoord: 1},
+    emissiveTexture: getTextureInfo()
+  };
+
+  let {defines} = parsePBRMaterial(nullDevice, material, {TEXCOORD_0: {}, TEXCOORD_1: {}}, {});
+  t.ok(defines.HAS_UV && defines.HAS_UV_1, 'both UV sets are enabled');
+  t.equal(defines.OCCLUSIONMAP_TEXCOORD, 1, 'occlusion map uses the second UV set');
+  t.notOk('EMISSIVEMAP_TEXCOORD' in defines, 'emissive map uses the default UV set');
+
+  ({defines} = parsePBRMaterial(nullDevice, material, {TEXCOORD_0: {}}, {}));
+  t.notOk(defines.HAS_UV_1, 'second UV set is disabled without TEXCOORD_1');
+
+  t.end();
+});
+
+test('parsePBRMaterial#shared textures', (t) => {
+  const texture = {id: 'texture', source: {image: IMAGE}, sampler: {}};
+  const material1 = {pbrMetallicRoughness: {baseColorTexture: {texture}}};
+  const material2 = {emissiveTexture: {texture}, occlusionTexture: {texture}};
+
+  const parsedMaterial1 = parsePBRMaterial(nullDevice, material1, {}, {});
+  const parsedMaterial2 = parsePBRMaterial(nullDevice, material2, {}, {});
+
+  t.equal(parsedMaterial1.generatedTextures.length, 1, 'texture is generated once');
+  t.equal(parsedMaterial2.generatedTextures.length, 0, 'shared texture is not generated again');
+  const texture1 = parsedMaterial1.bindings.u_BaseColorSampler;
+  t.equal(parsedMaterial2.bindings.u_EmissiveSampler, texture1, 'texture is shared between materials');
+  t.equal(parsedMaterial2.bindings.u_OcclusionSampler, texture1, 'texture is shared within a material');
+  t.deepEqual(Object.keys(texture), ['id', 'source', 'sampler'], 'glTF texture is not modified');
+  t.deepEqual(Object.keys(texture.sampler), [], 'glTF sampler is not modified');
+
+  // Textures are cached per device
+  const device = new NullDevice({id: 'shared-textures'});
+  const parsedMaterial3 = parsePBRMaterial(device, material1, {}, {});
+  t.equal(parsedMaterial3.generatedTextures.length, 1, 'texture is generated for another device');
+  t.equal(parsedMaterial3.generatedTextures[0].device, device, 'texture is created on the other device');
+  t.equal(parsedMaterial3.generatedTextures[0].sampler.device, device, 'sampler is created on the other device');
+  device.destroy();
+
+  parsedMaterial1.generatedTextures[0].destroy();
+  const parsedMaterial4 = parsePBRMaterial(nullDevice, material1, {}, {});
+  t.equal(parsedMaterial4.generatedTextures.length, 1, 'destroyed texture is generated again');
+  parsedMaterial4.generatedTextures[0].destroy();
+  t.end();
+});
+
+function pick(object: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(keys.map(key => [key, object[key]]));
+}
@@ -9,8 +9,14 @@ export {glsl} from './lib/glsl-utils/highlight';
 
 export type {PlatformInfo} from './lib/shader-assembly/platform-info';
 
-export type {ShaderModule} from './lib/shader-module/shader-module';
-export type {ShaderPass} from './lib/shader-module/shader-pass';
+export type {
+  ShaderModule,
+  ShaderModuleSource,
+  UniformValue,
+  CompositeUniformValue
+} from './lib/shader-module/shader-module';
+export type {UniformFormat, CompositeUniformFormat} from './types';
+export type {ShaderPass, ShaderPassData} from './lib/shader-module/shader-pass';
 export type {ShaderHook} from './lib/shader-assembly/shader-hooks';
 export type {ShaderInjection} from './lib/shader-assembly/shader-injections';
 export {ShaderModuleInstance} from './lib/shader-module/shader-module-instance';
@@ -38,13 +44,15 @@ export {generateShaderForModule} from './lib/shader-generator/generate-shader';
 export {capitalize} from './lib/shader-generator/utils/capitalize';
 
 // TEST EXPORTS - Do not use in production applications
-export {assembleShaders} from './lib/shader-assembly/assemble-shaders';
+export type {AssembleComputeShaderOptions} from './lib/shader-assembly/assemble-shaders';
+export {assembleShaders, assembleComputeShader} from './lib/shader-assembly/assemble-shaders';
 export {ShaderModuleInstance as _ShaderModuleInstance} from './lib/shader-module/shader-module-instance';
 export {combineInjects} from './lib/shader-assembly/shader-injections';
 export {resolveModules as _resolveModules} from './lib/shader-assembly/resolve-modules';
 export {getDependencyGraph as _getDependencyGraph} from './lib/shader-assembly/resolve-modules';
 
 // EXPERIMENTAL WGSL
+export type {WGSLShaderLayoutOptions} from './lib/wgsl/get-shader-layout-wgsl';
 export {getShaderLayoutFromWGSL} from './lib/wgsl/get-shader-layout-wgsl';
 
 // SHADER MODULES - WEBGL1 VERSION
@@ -62,10 +70,21 @@ export {fp32} from './modules/math/fp32/fp32';
 // export type {ProjectionUniforms} from './modules/engine/project/project';
 // export {projection} from './modules/engine/project/project';
 export type {PickingProps} from './modules/engine/picking/picking';
-export {picking} from './modules/engine/picking/picking';
+export {picking, PICKING_MAX_BATCHES} from './modules/engine/picking/picking';
+export type {SkinProps} from './modules/engine/skin/skin';
+export {skin, SKIN_MAX_JOINTS} from './modules/engine/skin/skin';
+export type {MorphProps} from './modules/engine/morph/morph';
+export {morph, MORPH_MAX_TARGETS} from './modules/engine/morph/morph';
 
 // // lighting
-export type {LightingProps} from './modules/lighting/lights/lighting-uniforms';
+export type {
+  LightingProps,
+  Light,
+  AmbientLight,
+  PointLight,
+  DirectionalLight,
+  SpotLight
+} from './modules/lighting/lights/lighting-uniforms';
 export {lighting} from './modules/lighting/lights/lighting-uniforms';
 export {dirlight} from './modules/lighting/no-material/dirlight';
 export type {PhongMaterialUniforms as GouraudMaterialUniforms} from './modules/lighting/phong-material/phong-material';
@@ -74,6 +93,8 @@ export type {PhongMaterialUniforms} from './modules/lighting/phong-material/phon
 export {phongMaterial} from './modules/lighting/phong-material/phong-material';
 // export type {PBRMaterialSettings, PBRMaterialUniforms} from './modules/lighting/pbr-material/pbr';
 export {pbrMaterial} from './modules/lighting/pbr-material/pbr-material';
+export type {ShadowProps} from './modules/lighting/shadow/shadow';
+export {shadow, SHADOW_MAX_PCF_RADIUS} from './modules/lighting/shadow/shadow';
 
 // POST PROCESSING / SHADER PASS MODULES
 
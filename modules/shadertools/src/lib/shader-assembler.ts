@@ -3,7 +3,8 @@
 
 import type {ShaderModule} from './shader-module/shader-module';
 import {ShaderModuleInstance} from './shader-module/shader-module-instance';
-import {GetUniformsFunc, assembleShaders} from './shader-assembly/assemble-shaders';
+import {GetUniformsFunc, assembleShaders, assembleComputeShader} from './shader-assembly/assemble-shaders';
+import type {AssembleComputeShaderOptions} from './shader-assembly/assemble-shaders';
 import {selectShaders, AssembleShaderProps} from './shader-assembly/select-shaders';
 
 /**
@@ -79,6 +80,21 @@ export class ShaderAssembler {
     return {...assembled, modules};
   }
 
+  /**
+   * Assemble a WGSL compute shader
+   * @param props
+   * @returns
+   */
+  assembleComputeShader(props: AssembleComputeShaderOptions): {
+    cs: string;
+    getUniforms: GetUniformsFunc;
+    modules: ShaderModuleInstance[];
+  } {
+    const modules = this._getModuleList(props.modules); // Combine with default modules
+    const assembled = assembleComputeShader({...props, modules});
+    return {...assembled, modules};
+  }
+
   /** 
    * Dedupe and combine with default modules
    */
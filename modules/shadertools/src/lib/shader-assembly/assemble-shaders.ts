@@ -11,6 +11,7 @@ import {ShaderModuleInstance} from '../shader-module/shader-module-instance';
 import type {ShaderInjection} from './shader-injections';
 import type {ShaderModule} from '../shader-module/shader-module';
 import {ShaderHook, normalizeShaderHooks, getShaderHooks} from './shader-hooks';
+import {generateWGSLForModule} from '../shader-generator/wgsl/generate-wgsl';
 import {assert} from '../utils/assert';
 import { getShaderInfo } from '../glsl-utils/get-shader-info';
 
@@ -54,6 +55,17 @@ export type AssembleShaderOptions = {
   log?: any;
 };
 
+export type AssembleComputeShaderOptions = {
+  /** information about the platform (which shader language & version, extensions etc.) */
+  platformInfo: PlatformInfo;
+  /** Compute shader (WGSL) */
+  source: string;
+  /** Modules to be injected */
+  modules?: (ShaderModule | ShaderModuleInstance)[];
+  /** logger object */
+  log?: any;
+};
+
 type AssembleStageOptions = {
   /** Inject shader id #defines */
   id?: string;
@@ -61,7 +73,7 @@ type AssembleStageOptions = {
   source: string;
   stage: 'vertex' | 'fragment';
   /** Modules to be injected */
-  modules: any[];
+  modules: ShaderModuleInstance[];
   /** Defines to be injected */
   defines?: Record<string, ShaderDefine>;
   /** Hook functions */
@@ -72,8 +84,16 @@ type AssembleStageOptions = {
   prologue?: boolean;
   /** logger object */
   log?: any;
+  /** WGSL binding numbers of module uniform structs, by module name */
+  moduleBindings?: Record<string, number>;
 };
 
+/**
+ * WGSL bind group of the uniform structs of shader modules
+ * @note Module binding numbers are allocated after the highest binding number used in this group
+ */
+const WGSL_MODULE_UNIFORMS_GROUP = 0;
+
 /**
  * getUniforms function returned from the shader module system
  */
@@ -100,13 +120,56 @@ export function assembleShaders(
         getUniforms: assembleGetUniforms(modules)
       };
 
-    case 'wgsl':
+    case 'wgsl': {
+      // Vertex and fragment shaders must agree on the binding numbers of module uniforms
+      const moduleBindings = getWGSLModuleBindings(modules, [vs, fs]);
       return {
-        vs: assembleWGSLShader(options.platformInfo, {...options, source: vs, stage: 'vertex', modules}),
-        fs: assembleWGSLShader(options.platformInfo, {...options, source: fs, stage: 'fragment', modules}),
+        vs: assembleWGSLShader(options.platformInfo, {...options, source: vs, stage: 'vertex', modules, moduleBindings}),
+        fs: assembleWGSLShader(options.platformInfo, {...options, source: fs, stage: 'fragment', modules, moduleBindings}),
         getUniforms: assembleGetUniforms(modules)
       };
+    }
+  }
+}
+
+/**
+ * Inject a list of shader modules into a compute shader
+ * @note Compute shaders are only supported in WGSL. Hooks and injections are not supported.
+ */
+export function assembleComputeShader(
+  options: AssembleComputeShaderOptions
+): {
+  cs: string;
+  getUniforms: GetUniformsFunc;
+} {
+  const {platformInfo, source, log} = options;
+  if (platformInfo.shaderLanguage !== 'wgsl') {
+    throw new Error('Compute shaders must be written in WGSL');
+  }
+  assert(typeof source === 'string', 'shader source must be a string');
+
+  const modules = resolveModules(options.modules || []);
+  const moduleBindings = getWGSLModuleBindings(modules, [source]);
+
+  let assembledSource = '';
+  for (const module of modules) {
+    if (log) {
+      module.checkDeprecations(source, log);
+    }
+    // Declare the module's uniform struct at its allocated binding
+    if (moduleBindings[module.name] !== undefined) {
+      const {name, uniformTypes} = module;
+      const binding = moduleBindings[module.name];
+      assembledSource += `${generateWGSLForModule(
+        {name, uniformTypes},
+        {shaderLanguage: 'wgsl', group: WGSL_MODULE_UNIFORMS_GROUP, binding}
+      )}\n`;
+    }
+    assembledSource += module.getModuleSource('compute', 'wgsl');
   }
+  assembledSource += source;
+
+  return {cs: assembledSource, getUniforms: assembleGetUniforms(modules)};
 }
 
 /**
@@ -125,7 +188,8 @@ function assembleWGSLShader(platformInfo: PlatformInfo, options: AssembleStageOp
     defines = {},
     hookFunctions = [],
     inject = {},
-    log
+    log,
+    moduleBindings = {}
   } = options;
 
   assert(typeof source === 'string', 'shader source must be a string');
@@ -190,8 +254,17 @@ function assembleWGSLShader(platformInfo: PlatformInfo, options: AssembleStageOp
     if (log) {
       module.checkDeprecations(coreSource, log);
     }
-    const moduleSource = module.getModuleSource(stage, 'wgsl');
-    // Add the module source, and a #define that declares it presence
+    // Declare the module's uniform struct at its allocated binding
+    if (moduleBindings[module.name] !== undefined) {
+      const {name, uniformTypes} = module;
+      const binding = moduleBindings[module.name];
+      assembledSource += `${generateWGSLForModule(
+        {name, uniformTypes},
+        {shaderLanguage: 'wgsl', group: WGSL_MODULE_UNIFORMS_GROUP, binding}
+      )}\n`;
+    }
+    const moduleSource = module.getModuleSource(stage, platformInfo.shaderLanguage);
+    // Add the module source
     assembledSource += moduleSource;
 
     const injections = module.injections[stage];
@@ -212,15 +285,15 @@ function assembleWGSLShader(platformInfo: PlatformInfo, options: AssembleStageOp
   // For injectShader
   assembledSource += INJECT_SHADER_DECLARATIONS;
 
-  assembledSource = injectShader(assembledSource, stage, declInjections);
+  assembledSource = injectShader(assembledSource, stage, declInjections, false, 'wgsl');
 
-  assembledSource += getShaderHooks(hookFunctionMap[stage], hookInjections);
+  assembledSource += getShaderHooks(hookFunctionMap[stage], hookInjections, 'wgsl');
 
   // Add the version directive and actual source of this shader
   assembledSource += coreSource;
 
   // Apply any requested shader injections
-  assembledSource = injectShader(assembledSource, stage, mainInjections);
+  assembledSource = injectShader(assembledSource, stage, mainInjections, false, 'wgsl');
 
   return assembledSource;
 }
@@ -382,6 +455,46 @@ ${getApplicationDefines(allDefines)}
   return assembledSource.trim();
 }
 
+/**
+ * Allocates WGSL binding numbers for the uniform structs of modules that declare `uniformTypes`.
+ * Bindings are allocated after the highest binding number used by the application and module shaders.
+ */
+function getWGSLModuleBindings(
+  modules: ShaderModuleInstance[],
+  sources: (string | undefined)[]
+): Record<string, number> {
+  const allSources = [
+    ...sources,
+    ...modules.flatMap(module => [module.source.vs.wgsl, module.source.fs.wgsl, module.source.cs.wgsl])
+  ].filter(Boolean);
+
+  let binding = getMaxWGSLBinding(allSources, WGSL_MODULE_UNIFORMS_GROUP) + 1;
+  const moduleBindings: Record<string, number> = {};
+  for (const module of modules) {
+    if (Object.keys(module.uniformTypes).length > 0) {
+      moduleBindings[module.name] = binding++;
+    }
+  }
+  return moduleBindings;
+}
+
+/** Returns the highest binding number declared in a bind group, or -1 if none */
+function getMaxWGSLBinding(sources: string[], group: number): number {
+  // Attribute lists of variable declarations, e.g. `@group(0) @binding(1) var`
+  const DECLARATION_REGEX = /((?:@\w+\s*\([^)]*\)\s*)+)var\b/g;
+  let maxBinding = -1;
+  for (const source of sources) {
+    for (const [, attributes] of source.matchAll(DECLARATION_REGEX)) {
+      const groupMatch = /@group\s*\(\s*(\d+)\s*\)/.exec(attributes);
+      const bindingMatch = /@binding\s*\(\s*(\d+)\s*\)/.exec(attributes);
+      if (groupMatch && bindingMatch && Number(groupMatch[1]) === group) {
+        maxBinding = Math.max(maxBinding, Number(bindingMatch[1]));
+      }
+    }
+  }
+  return maxBinding;
+}
+
 /**
  * Returns a combined `getUniforms` covering the options for all the modules,
  * the created function will pass on options to the inidividual `getUniforms`
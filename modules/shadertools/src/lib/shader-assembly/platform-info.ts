@@ -8,7 +8,7 @@
  */
 export type PlatformInfo = {
   /** Current Web GPU API backend */
-  type: 'webgl' | 'webgl2' | 'webgpu';
+  type: 'webgl' | 'webgl2' | 'webgpu' | 'null';
   /** Which shader language is supported */
   shaderLanguage: 'glsl' | 'wgsl';
   /** Which shader language version is preferred */
@@ -17,7 +17,8 @@ import {ShaderInjection} from './shader-injections';
  */
 export type ShaderHook = {
   /** `vs:` or `fs:` followed by the name and arguments of the function, e.g. `vs:MYHOOK_func(inout vec4 value)`. Hook name without arguments
-  will also be used as the name of the shader hook */
+  will also be used as the name of the shader hook.
+  WGSL hooks use WGSL parameter syntax, e.g. `vs:MYHOOK_func(value: ptr<function, vec4<f32>>)` */
   hook: string;
   /** Code always included at the beginning of a hook function */
   header: string;
@@ -38,12 +39,13 @@ export type ShaderHooks = {
 /** Generate hook source code */
 export function getShaderHooks(
   hookFunctions: Record<string, ShaderHook>,
-  hookInjections: Record<string, ShaderInjection[]>
+  hookInjections: Record<string, ShaderInjection[]>,
+  language: 'glsl' | 'wgsl' = 'glsl'
 ): string {
   let result = '';
   for (const hookName in hookFunctions) {
     const hookFunction = hookFunctions[hookName];
-    result += `void ${hookFunction.signature} {\n`;
+    result += language === 'wgsl' ? `fn ${hookFunction.signature} {\n` : `void ${hookFunction.signature} {\n`;
     if (hookFunction.header) {
       result += `  ${hookFunction.header}`;
     }
@@ -81,7 +83,10 @@ export function normalizeShaderHooks(hookFunctions: (string | ShaderHook)[]): Sh
       hook = hookFunction;
     }
     hook = hook.trim();
-    const [shaderStage, signature] = hook.split(':');
+    // WGSL signatures contain `:`, only split off the stage
+    const separatorIndex = hook.indexOf(':');
+    const shaderStage = hook.slice(0, separatorIndex);
+    const signature = hook.slice(separatorIndex + 1);
     const name = hook.replace(/\(.+/, '');
     const normalizedHook: ShaderHook = Object.assign(opts, {signature});
     switch (shaderStage) {
@@ -12,6 +12,11 @@ const MODULE_INJECTORS = {
 
 const REGEX_START_OF_MAIN = /void\s+main\s*\([^)]*\)\s*\{\n?/; // Beginning of main
 const REGEX_END_OF_MAIN = /}\n?[^{}]*$/; // End of main, assumes main is last function
+// Beginning of WGSL entry point functions (parameters can contain attributes like `@location(0)`)
+const REGEX_START_OF_WGSL_ENTRY_POINT = {
+  vertex: /@vertex\s+fn\s+\w+\s*\([\s\S]*?\)\s*(?:->[^{]*)?\{\n?/,
+  fragment: /@fragment\s+fn\s+\w+\s*\([\s\S]*?\)\s*(?:->[^{]*)?\{\n?/
+};
 const fragments: string[] = [];
 
 export const DECLARATION_INJECT_MARKER = '__LUMA_INJECT_DECLARATIONS__';
@@ -71,6 +76,7 @@ function getHookStage(hook: string): 'vertex' | 'fragment' {
  * @param type 
  * @param inject 
  * @param injectStandardStubs 
+ * @param language In WGSL, `#main-start` and `#main-end` refer to the `@vertex` or `@fragment` entry point
  * @returns 
  */
 // eslint-disable-next-line complexity
@@ -78,9 +84,18 @@ export function injectShader(
   source: string, 
   stage: 'vertex' | 'fragment', 
   inject: Record<string, ShaderInjection[]>, 
-  injectStandardStubs = false
+  injectStandardStubs = false,
+  language: 'glsl' | 'wgsl' = 'glsl'
 ): string {
   const isVertex = stage === 'vertex';
+  const injectAtMainStart = (fragmentString: string) =>
+    language === 'wgsl'
+      ? source.replace(REGEX_START_OF_WGSL_ENTRY_POINT[stage], (match: string) => match + fragmentString)
+      : source.replace(REGEX_START_OF_MAIN, (match: string) => match + fragmentString);
+  const injectAtMainEnd = (fragmentString: string) =>
+    language === 'wgsl'
+      ? injectAtEndOfWGSLEntryPoint(source, stage, fragmentString)
+      : source.replace(REGEX_END_OF_MAIN, (match: string) => fragmentString + match);
 
   for (const key in inject) {
     const fragmentData = inject[key];
@@ -100,13 +115,13 @@ export function injectShader(
       // inject code at the beginning of the main function
       case 'vs:#main-start':
         if (isVertex) {
-          source = source.replace(REGEX_START_OF_MAIN, (match: string) => match + fragmentString);
+          source = injectAtMainStart(fragmentString);
         }
         break;
       // inject code at the end of main function
       case 'vs:#main-end':
         if (isVertex) {
-          source = source.replace(REGEX_END_OF_MAIN, (match: string) => fragmentString + match);
+          source = injectAtMainEnd(fragmentString);
         }
         break;
       // declarations are injected before the main function
@@ -118,13 +133,13 @@ export function injectShader(
       // inject code at the beginning of the main function
       case 'fs:#main-start':
         if (!isVertex) {
-          source = source.replace(REGEX_START_OF_MAIN, (match: string) => match + fragmentString);
+          source = injectAtMainStart(fragmentString);
         }
         break;
       // inject code at the end of main function
       case 'fs:#main-end':
         if (!isVertex) {
-          source = source.replace(REGEX_END_OF_MAIN, (match: string) => fragmentString + match);
+          source = injectAtMainEnd(fragmentString);
         }
         break;
 
@@ -147,6 +162,42 @@ export function injectShader(
   return source;
 }
 
+/**
+ * Inject code at the end of the WGSL entry point for a stage.
+ * If the function ends with a return statement, the code is injected before it.
+ */
+function injectAtEndOfWGSLEntryPoint(
+  source: string,
+  stage: 'vertex' | 'fragment',
+  fragmentString: string
+): string {
+  const match = REGEX_START_OF_WGSL_ENTRY_POINT[stage].exec(source);
+  if (!match) {
+    return source;
+  }
+
+  // Find the closing brace of the function body
+  const bodyStart = match.index + match[0].length;
+  let depth = 1;
+  let bodyEnd = bodyStart;
+  for (; bodyEnd < source.length; bodyEnd++) {
+    if (source[bodyEnd] === '{') {
+      depth++;
+    } else if (source[bodyEnd] === '}' && --depth === 0) {
+      break;
+    }
+  }
+
+  const returnMatch = /\breturn\b[^;]*;\s*$/.exec(source.slice(bodyStart, bodyEnd));
+  let index = returnMatch ? bodyStart + returnMatch.index : bodyEnd;
+  // Inject at the start of the line if only indentation precedes the insertion point
+  const lineStart = source.lastIndexOf('\n', index - 1) + 1;
+  if (source.slice(lineStart, index).trim() === '') {
+    index = lineStart;
+  }
+  return source.slice(0, index) + fragmentString + source.slice(index);
+}
+
 // Takes an array of inject objects and combines them into one
 export function combineInjects(injects: any[]): Record<string, string> {
   const result: Record<string, string> = {};
@@ -1,7 +1,7 @@
 // luma.gl, MIT license
 // Copyright (c) vis.gl contributors
 
-import {UniformFormat} from '../../../types';
+import {UniformFormat, CompositeUniformFormat} from '../../../types';
 import {ShaderModule} from '../../../lib/shader-module/shader-module';
 import {capitalize} from '../utils/capitalize';
 
@@ -17,6 +17,15 @@ export function generateGLSLForModule(module: ShaderModule, options: GLSLGenerat
 function generateGLSLUniformDeclarations(module: ShaderModule, options: GLSLGenerationOptions): string {
   const glsl: string[] = [];
 
+  // Struct declarations must precede the uniform block
+  const structs: string[] = [];
+  const declarations: [string, {type: string; arraySuffix: string}][] = [];
+  for (const [uniformName, uniformFormat] of Object.entries(module.uniformTypes || {})) {
+    const structName = `${capitalize(module.name)}${capitalize(uniformName)}`;
+    declarations.push([uniformName, getGLSLDeclaration(uniformFormat, structName, structs)]);
+  }
+  glsl.push(...structs);
+
   // => uniform UniformBlockName {
   switch (options.uniforms) {
     case 'scoped-interface-blocks':
@@ -27,19 +36,18 @@ function generateGLSLUniformDeclarations(module: ShaderModule, options: GLSLGene
       // ignore
   }
 
-  for (const [uniformName, uniformFormat] of Object.entries(module.uniformTypes || {})) {
-    const glslUniformType = getGLSLUniformType(uniformFormat);
+  for (const [uniformName, {type: glslUniformType, arraySuffix}] of declarations) {
     switch (options.uniforms) {
       case 'scoped-interface-blocks':
       // => uniform UniformBlockName {
-        glsl.push(`  ${glslUniformType} ${uniformName};`);
+        glsl.push(`  ${glslUniformType} ${uniformName}${arraySuffix};`);
         break;
       case 'unscoped-interface-blocks':
       // => uniform UniformBlockName {
-        glsl.push(`  ${glslUniformType} ${module.name}_${uniformName};`);
+        glsl.push(`  ${glslUniformType} ${module.name}_${uniformName}${arraySuffix};`);
         break;
       case 'uniforms':
-        glsl.push(`uniform ${glslUniformType} ${module.name}_${uniformName};`);
+        glsl.push(`uniform ${glslUniformType} ${module.name}_${uniformName}${arraySuffix};`);
     }
   }
 
@@ -60,6 +68,33 @@ function generateGLSLUniformDeclarations(module: ShaderModule, options: GLSLGene
   return glsl.join('\n');
 }
 
+/**
+ * Get the GLSL type and array suffix (`[4]`) for a uniform format.
+ * GLSL ES does not support anonymous structs, so struct declarations are named and appended to `structs`.
+ */
+function getGLSLDeclaration(
+  uniformFormat: CompositeUniformFormat,
+  structName: string,
+  structs: string[]
+): {type: string; arraySuffix: string} {
+  if (typeof uniformFormat === 'string') {
+    return {type: getGLSLUniformType(uniformFormat), arraySuffix: ''};
+  }
+
+  if (Array.isArray(uniformFormat)) {
+    const [elementFormat, length] = uniformFormat as readonly [CompositeUniformFormat, number];
+    const element = getGLSLDeclaration(elementFormat, structName, structs);
+    return {type: element.type, arraySuffix: `[${length}]${element.arraySuffix}`};
+  }
+
+  const members: string[] = [];
+  for (const [memberName, memberFormat] of Object.entries(uniformFormat as {[member: string]: CompositeUniformFormat})) {
+    const {type, arraySuffix} = getGLSLDeclaration(memberFormat, `${structName}${capitalize(memberName)}`, structs);
+    members.push(`  ${type} ${memberName}${arraySuffix};`);
+  }
+  structs.push(`struct ${structName} {`, ...members, '};');
+  return {type: structName, arraySuffix: ''};
+}
 
 /** Map a luma.gl WebGPU style uniform type to GLSL */
 function getGLSLUniformType(uniformFormat: UniformFormat): string {
@@ -1,11 +1,16 @@
 // luma.gl, MIT license
 // Copyright (c) vis.gl contributors
 
+import {CompositeUniformFormat} from '../../../types';
 import {ShaderModule} from '../../../lib/shader-module/shader-module';
 import {capitalize} from '../utils/capitalize';
 
 export type WGSLGenerationOptions = {
   shaderLanguage: 'wgsl';
+  /** Bind group of the uniform struct. Defaults to 0 */
+  group?: number;
+  /** Binding number of the uniform struct. No binding attributes are generated if not supplied */
+  binding?: number;
 };
 
 export function generateWGSLForModule(module: ShaderModule, options: WGSLGenerationOptions) {
@@ -15,16 +20,44 @@ export function generateWGSLForModule(module: ShaderModule, options: WGSLGenerat
 export function generateWGSLUniformDeclarations(module: ShaderModule, options: WGSLGenerationOptions) {
   const wgsl: string[] = [];
 
+  // Struct declarations for struct members
+  const structs: string[] = [];
+  const members: string[] = [];
+  for (const [uniformName, uniformFormat] of Object.entries(module?.uniformTypes || {})) {
+    const structName = `${capitalize(module.name)}${capitalize(uniformName)}`;
+    const wgslUniformType = getWGSLType(uniformFormat, structName, structs);
+    members.push(`  ${uniformName} : ${wgslUniformType},`);
+  }
+  wgsl.push(...structs);
+
   // => uniform UniformBlockName {
   wgsl.push(`struct ${capitalize(module.name)} {`);
+  wgsl.push(...members);
+  wgsl.push('}');
 
-  for (const [uniformName, uniformFormat] of Object.entries(module?.uniformTypes || {})) {
-    const wgslUniformType = uniformFormat;
-    wgsl.push(`  ${uniformName} : ${wgslUniformType};`);
+  const {group = 0, binding} = options;
+  const attributes = binding !== undefined ? `@group(${group}) @binding(${binding}) ` : '';
+  wgsl.push(`${attributes}var<uniform> ${module.name} : ${capitalize(module.name)};`);
+
+  return wgsl.join('\n');
+}
+
+/** Get the WGSL type for a uniform format. Struct declarations are named and appended to `structs` */
+function getWGSLType(uniformFormat: CompositeUniformFormat, structName: string, structs: string[]): string {
+  if (typeof uniformFormat === 'string') {
+    return uniformFormat;
   }
-  wgsl.push('};');
 
-  wgsl.push(`var<uniform> ${module.name} : ${capitalize(module.name)};`);
+  if (Array.isArray(uniformFormat)) {
+    const [elementFormat, length] = uniformFormat as readonly [CompositeUniformFormat, number];
+    return `array<${getWGSLType(elementFormat, structName, structs)}, ${length}>`;
+  }
 
-  return wgsl.join('\n');
+  const members: string[] = [];
+  for (const [memberName, memberFormat] of Object.entries(uniformFormat as {[member: string]: CompositeUniformFormat})) {
+    const type = getWGSLType(memberFormat, `${structName}${capitalize(memberName)}`, structs);
+    members.push(`  ${memberName} : ${type},`);
+  }
+  structs.push(`struct ${structName} {`, ...members, '}');
+  return structName;
 }
@@ -3,7 +3,8 @@
 
 import {assert} from '../utils/assert';
 import {makePropValidators, getValidatedProperties, PropValidator} from '../filters/prop-types';
-import {ShaderModule, ShaderModuleDeprecation} from './shader-module';
+import {ShaderModule, ShaderModuleDeprecation, ShaderModuleSource} from './shader-module';
+import type {CompositeUniformFormat} from '../../types';
 import { ShaderInjection, normalizeInjections } from '../shader-assembly/shader-injections';
 
 let index = 1;
@@ -13,6 +14,8 @@ export class ShaderModuleInstance {
   name: string;
   vs?: string;
   fs?: string;
+  /** Source code for each stage, by shader language */
+  source: {vs: ShaderModuleSource; fs: ShaderModuleSource; cs: ShaderModuleSource};
   getModuleUniforms: Function;
   dependencies: ShaderModuleInstance[];
   deprecations: ShaderModuleDeprecation[];
@@ -22,7 +25,7 @@ export class ShaderModuleInstance {
     fragment: Record<string, ShaderInjection>;
   };
   uniforms: Record<string, PropValidator> = {};
-  uniformTypes: Record<string, PropValidator> = {};
+  uniformTypes: Record<string, CompositeUniformFormat> = {};
 
   static instantiateModules(
     modules: (ShaderModule | ShaderModuleInstance)[]
@@ -54,6 +57,8 @@ export class ShaderModuleInstance {
       name,
       vs,
       fs,
+      source = {},
+      uniformTypes = {},
       dependencies = [],
       uniformPropTypes = {},
       getUniforms,
@@ -64,8 +69,14 @@ export class ShaderModuleInstance {
 
     assert(typeof name === 'string');
     this.name = name;
-    this.vs = vs;
-    this.fs = fs;
+    this.source = {
+      vs: {glsl: vs, ...source.vs},
+      fs: {glsl: fs, ...source.fs},
+      cs: {...source.cs}
+    };
+    this.vs = this.source.vs.glsl;
+    this.fs = this.source.fs.glsl;
+    this.uniformTypes = uniformTypes;
     this.getModuleUniforms = getUniforms;
     this.dependencies = ShaderModuleInstance.instantiateModules(dependencies);
     this.deprecations = this._parseDeprecationDefinitions(deprecations);
@@ -77,26 +88,52 @@ export class ShaderModuleInstance {
     }
   }
 
-  // Extracts the source code chunk for the specified shader type from the named shader module
-  getModuleSource(stage: 'vertex' | 'fragment'): string {
-    let moduleSource;
+  /**
+   * Extracts the source code chunk for the specified shader stage and language
+   * @throws if the module has source code for the stage, but not in the requested language
+   */
+  getModuleSource(
+    stage: 'vertex' | 'fragment' | 'compute',
+    language: 'glsl' | 'wgsl' = 'glsl'
+  ): string {
+    let stageSource: ShaderModuleSource;
     switch (stage) {
       case 'vertex':
-        moduleSource = this.vs || '';
+        stageSource = this.source.vs;
         break;
       case 'fragment':
-        moduleSource = this.fs || '';
+        stageSource = this.source.fs;
+        break;
+      case 'compute':
+        stageSource = this.source.cs;
         break;
       default:
         assert(false);
     }
 
+    const moduleSource = stageSource[language];
+    if (!moduleSource && (stageSource.glsl || stageSource.wgsl)) {
+      throw new Error(
+        `Shader module ${this.name} has no ${language.toUpperCase()} source for the ${stage} shader`
+      );
+    }
+
+    if (language === 'wgsl') {
+      return `\
+// ----- MODULE ${this.name} ---------------
+
+${moduleSource || ''}\
+
+
+`;
+    }
+
     const moduleName = this.name.toUpperCase().replace(/[^0-9a-z]/gi, '_');
     return `\
 // ----- MODULE ${this.name} ---------------
 
 #define MODULE_${moduleName}
-${moduleSource}\
+${moduleSource || ''}\
 
 
 `;
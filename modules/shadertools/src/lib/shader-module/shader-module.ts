@@ -2,11 +2,17 @@
 // Copyright (c) vis.gl contributors
 
 import {NumberArray} from '@math.gl/types';
-import {UniformFormat} from '../../types';
+import {UniformFormat, CompositeUniformFormat} from '../../types';
 import {PropType} from '../filters/prop-types';
 
 export type UniformValue = number | boolean | Readonly<NumberArray>; // Float32Array> | Readonly<Int32Array> | Readonly<Uint32Array> | Readonly<number[]>;
 
+/** Values for array and struct uniforms */
+export type CompositeUniformValue =
+  | UniformValue
+  | readonly CompositeUniformValue[]
+  | {readonly [member: string]: CompositeUniformValue};
+
 export type UniformInfo = {
   format?: UniformFormat; 
 } & PropType;
@@ -17,18 +23,29 @@ export type UniformInfo = {
  * A shader module definition object
  * @note Can be viewed as the ShaderModuleProps for a ShaderModuleInstance
  */
-export type ShaderModule<PropsT extends Record<string, unknown> = Record<string, unknown>, UniformsT extends Record<string, UniformValue> = Record<string, UniformValue>, BindingsT extends Record<string, unknown> = {}> = {
+export type ShaderModule<PropsT extends Record<string, unknown> = Record<string, unknown>, UniformsT extends Record<string, CompositeUniformValue> = Record<string, CompositeUniformValue>, BindingsT extends Record<string, unknown> = {}> = {
   /** Used for type inference not for values */
   props?: Required<PropsT>;
   /** Used for type inference, not currently used for values */
   uniforms?: UniformsT;
 
   name: string;
+  /** GLSL fragment shader source. Shorthand for `source.fs.glsl` */
   fs?: string;
+  /** GLSL vertex shader source. Shorthand for `source.vs.glsl` */
   vs?: string;
+  /**
+   * Vertex, fragment and compute shader source in one or more shader languages.
+   * The assembler selects the language supported by the platform.
+   * @note WGSL uniform struct declarations are generated from `uniformTypes` and should not be included
+   */
+  source?: {vs?: ShaderModuleSource; fs?: ShaderModuleSource; cs?: ShaderModuleSource};
 
-  /** Uniform shader types @note: Both order and types MUST match uniform block declarations in shader */
-  uniformTypes?: Record<keyof UniformsT, UniformFormat>;
+  /**
+   * Uniform shader types @note: Both order and types MUST match uniform block declarations in shader
+   * Arrays are declared as `[format, length]` and structs as `{member: format}`
+   */
+  uniformTypes?: Record<keyof UniformsT, CompositeUniformFormat>;
   /** Uniform JS prop types  */
   uniformPropTypes?: Record<keyof UniformsT, UniformInfo>;
   /** Default uniform values */
@@ -36,7 +53,7 @@ export type ShaderModule<PropsT extends Record<string, unknown> = Record<string,
 
   /** Function that maps settings to uniforms */
   // getUniforms?: (settings?: Partial<SettingsT>, prevUniforms?: any /* UniformsT */) => UniformsT;
-  getUniforms?: (settings?: any, prevUniforms?: any) => Record<string, UniformValue>;
+  getUniforms?: (settings?: any, prevUniforms?: any) => Partial<UniformsT>;
 
   /** uniform buffers, textures, samplers, storage, ... */
   bindings?: Record<keyof BindingsT, {location: number; type: 'texture' | 'sampler' | 'uniforms'}>;
@@ -52,6 +69,12 @@ export type ShaderModule<PropsT extends Record<string, unknown> = Record<string,
   normalized?: boolean;
 };
 
+/** Shader module source code for one shader stage, by shader language */
+export type ShaderModuleSource = {
+  glsl?: string;
+  wgsl?: string;
+};
+
 /** Use to generate deprecations when shader module is used */
 export type ShaderModuleDeprecation = {
   type: string;
@@ -1,18 +1,27 @@
 // luma.gl, MIT license
 // Copyright (c) vis.gl contributors
 
-import type {ShaderModule, UniformValue} from './shader-module';
+import type {ShaderModule, UniformValue, CompositeUniformValue} from './shader-module';
 
 /**
  * A shaderpass is a shader module with additional information
  * on how to run 
  */
-export type ShaderPass<PropsT extends Record<string, unknown> = Record<string, unknown>, UniformsT extends Record<string, UniformValue> = Record<string, UniformValue>> = ShaderModule<PropsT, UniformsT> & {
+export type ShaderPass<PropsT extends Record<string, unknown> = Record<string, unknown>, UniformsT extends Record<string, CompositeUniformValue> = Record<string, CompositeUniformValue>> = ShaderModule<PropsT, UniformsT> & {
   passes?: ShaderPassData[];
 };
 
-type ShaderPassData = {
-  sampler?: boolean;
-  filter?: boolean;
+export type ShaderPassData = {
+  /**
+   * The pass samples the input texture with `vec4 <name>_sampleColor(sampler2D source, vec2 texSize, vec2 texCoord)`.
+   * A string selects a differently named sampling function.
+   */
+  sampler?: boolean | string;
+  /**
+   * The pass transforms the color of each pixel with `vec4 <name>_filterColor(vec4 color, vec2 texSize, vec2 texCoord)`.
+   * A string selects a differently named filter function.
+   */
+  filter?: boolean | string;
+  /** Uniforms that override the module uniforms for this pass */
   uniforms?: Record<string, UniformValue>;
 }
@@ -1,45 +1,145 @@
 // luma.gl, MIT license
 // Copyright (c) vis.gl contributors
 
-import {ShaderAttributeType, ShaderLayout} from '@luma.gl/core';
+import type {ShaderAttributeType, ShaderLayout, BindingDeclaration, TextureFormat} from '@luma.gl/core';
 import {WgslReflect} from '../../libs/wgsl-reflect/wgsl_reflect.module.js';
+import type {FunctionInfo, TypeInfo, TemplateInfo} from '../../libs/wgsl-reflect/wgsl_reflect.module.js';
+
+type TextureBinding = Extract<BindingDeclaration, {type: 'texture'}>;
+type StorageTextureBinding = Extract<BindingDeclaration, {format: TextureFormat}>;
+
+/** Shader stage visibility flags, matching WebGPU `GPUShaderStage` */
+const VISIBILITY_VERTEX = 0x1;
+const VISIBILITY_FRAGMENT = 0x2;
+const VISIBILITY_COMPUTE = 0x4;
+
+export type WGSLShaderLayoutOptions = {
+  /** Vertex entry point to extract attributes from. Defaults to the first `@vertex` function */
+  vertexEntryPoint?: string;
+  /**
+   * Extract the layout for a compute pipeline using this `@compute` function.
+   * Bindings are only visible to the compute stage, and no attributes are extracted.
+   */
+  computeEntryPoint?: string;
+};
 
 /**
  * Parse a ShaderLayout from WGSL shader source code.
- * @param source WGSL source code (can contain both @vertex and @fragment entry points)
- * @returns 
+ * @param source WGSL source code (can contain @vertex, @fragment and @compute entry points)
+ * @param options select entry points
+ * @returns attributes of the vertex entry point, and bindings (uniform and storage buffers, textures, samplers and storage textures)
+ * @note WGSL reflection does not determine which entry points use which bindings,
+ * so bindings are made visible to all stages present in the shader that can access them.
  */
-export function getShaderLayoutFromWGSL(source: string): ShaderLayout {
+export function getShaderLayoutFromWGSL(
+  source: string,
+  options: WGSLShaderLayoutOptions = {}
+): ShaderLayout {
   const reflect = new WgslReflect(source);
 
   const shaderLayout: ShaderLayout = {attributes: [], bindings: []};
 
+  let visibility: number;
+  if (options.computeEntryPoint) {
+    getEntryPoint(reflect.entry.compute, options.computeEntryPoint, 'compute');
+    visibility = VISIBILITY_COMPUTE;
+  } else {
+    visibility =
+      (reflect.entry.vertex.length ? VISIBILITY_VERTEX : 0) |
+      (reflect.entry.fragment.length ? VISIBILITY_FRAGMENT : 0) |
+      (reflect.entry.compute.length ? VISIBILITY_COMPUTE : 0);
+  }
+  // Writable storage buffers and storage textures are not accessible from vertex shaders
+  const writableVisibility = visibility & ~VISIBILITY_VERTEX;
+
   for (const uniform of reflect.uniforms) {
-    const members = [];
+    const uniforms = [];
     for (const member of uniform.type.members) {
-      members.push({
+      uniforms.push({
         name: member.name,
-        type: getType(member.type)
+        format: getType(member.isArray ? member.format : member.type),
+        byteOffset: member.offset,
+        byteStride: member.stride,
+        arrayLength: member.count
       });
     }
 
     shaderLayout.bindings.push({
       type: 'uniform',
       name: uniform.name,
-      location: uniform.binding,
-      // @ts-expect-error
       group: uniform.group,
-      members
+      location: uniform.binding,
+      visibility,
+      minBindingSize: uniform.size,
+      uniforms
     });
   }
 
-  const vertex = reflect.entry.vertex[0]; // "main"
+  for (const storage of reflect.storage) {
+    if (storage.type.name.startsWith('texture_storage')) {
+      shaderLayout.bindings.push({
+        type: 'storage',
+        name: storage.name,
+        group: storage.group,
+        location: storage.binding,
+        visibility: storage.type.access === 'read' ? visibility : writableVisibility,
+        access: getStorageTextureAccess(storage.type.access),
+        format: storage.type.format.name as TextureFormat,
+        viewDimension: getViewDimension(storage.type.name)
+      });
+      continue; // eslint-disable-line no-continue
+    }
 
-  // Vertex shader inputs
-  const attributeCount = vertex.inputs.length; // inputs to "main"
-  for (let i = 0; i < attributeCount; i++) {
-    const wgslAttribute = vertex.inputs[i];
+    const readOnly = storage.access !== 'read_write';
+    // The size of buffers with runtime-sized arrays is only known when bound
+    const members = storage.type.members || [];
+    const lastMember = members[members.length - 1];
+    const isRuntimeSized = storage.type.isArray
+      ? storage.type.count === 0
+      : lastMember?.isArray && lastMember.count === 0;
+    shaderLayout.bindings.push({
+      type: readOnly ? 'read-only-storage' : 'storage',
+      name: storage.name,
+      group: storage.group,
+      location: storage.binding,
+      visibility: readOnly ? visibility : writableVisibility,
+      ...(isRuntimeSized ? {} : {minBindingSize: storage.size})
+    });
+  }
+
+  for (const texture of reflect.textures) {
+    // External textures are not supported
+    if (texture.type.name === 'texture_external') {
+      continue; // eslint-disable-line no-continue
+    }
+    shaderLayout.bindings.push({
+      type: 'texture',
+      name: texture.name,
+      group: texture.group,
+      location: texture.binding,
+      visibility,
+      viewDimension: getViewDimension(texture.type.name),
+      sampleType: getSampleType(texture.type.name, texture.type.format?.name),
+      multisampled: texture.type.name.includes('multisampled')
+    });
+  }
 
+  for (const sampler of reflect.samplers) {
+    shaderLayout.bindings.push({
+      type: 'sampler',
+      name: sampler.name,
+      group: sampler.group,
+      location: sampler.binding,
+      visibility,
+      samplerType: sampler.type.name === 'sampler_comparison' ? 'comparison' : 'filtering'
+    });
+  }
+
+  // Vertex shader inputs
+  const vertex = options.computeEntryPoint
+    ? null
+    : getEntryPoint(reflect.entry.vertex, options.vertexEntryPoint, 'vertex');
+  for (const wgslAttribute of vertex?.inputs || []) {
     // locationType can be "builtin"
     if (wgslAttribute.locationType === 'location') {
       const type = getType(wgslAttribute.type);
@@ -54,7 +154,68 @@ export function getShaderLayoutFromWGSL(source: string): ShaderLayout {
   return shaderLayout;
 }
 
+/** Get a named entry point, or the first entry point if no name is supplied */
+function getEntryPoint(
+  entryPoints: FunctionInfo[],
+  name: string | undefined,
+  stage: string
+): FunctionInfo | null {
+  if (!name) {
+    return entryPoints[0] || null;
+  }
+  const entryPoint = entryPoints.find(entryPoint => entryPoint.name === name);
+  if (!entryPoint) {
+    throw new Error(`WGSL ${stage} entry point "${name}" not found`);
+  }
+  return entryPoint;
+}
+
 /** Get a valid shader attribute type string from a wgsl-reflect type */
-function getType(type: any): ShaderAttributeType {
-  return type.format ? `${type.name}<${type.format.name}>` : type.name;
+function getType(type: TypeInfo): ShaderAttributeType {
+  const {format} = type as TemplateInfo;
+  return (format ? `${type.name}<${format.name}>` : type.name) as ShaderAttributeType;
+}
+
+function getViewDimension(textureType: string): TextureBinding['viewDimension'] {
+  if (textureType.endsWith('cube_array')) {
+    return 'cube-array';
+  }
+  if (textureType.endsWith('cube')) {
+    return 'cube';
+  }
+  if (textureType.endsWith('2d_array')) {
+    return '2d-array';
+  }
+  if (textureType.endsWith('1d')) {
+    return '1d';
+  }
+  if (textureType.endsWith('3d')) {
+    return '3d';
+  }
+  return '2d';
+}
+
+function getSampleType(textureType: string, format?: string): TextureBinding['sampleType'] {
+  if (textureType.startsWith('texture_depth')) {
+    return 'depth';
+  }
+  switch (format) {
+    case 'i32':
+      return 'sint';
+    case 'u32':
+      return 'uint';
+    default:
+      return 'float';
+  }
+}
+
+function getStorageTextureAccess(access: string): StorageTextureBinding['access'] {
+  switch (access) {
+    case 'read':
+      return 'read-only';
+    case 'read_write':
+      return 'read-write';
+    default:
+      return 'write-only';
+  }
 }
@@ -107,6 +107,8 @@ function getUniforms(opts: LightsOptions = INITIAL_MODULE_OPTIONS): Record<strin
           lightSources.directionalLights?.push(light);
           break;
         case 'point':
+        // Spot light cones are not supported, spot lights shine in all directions
+        case 'spot':
           lightSources.pointLights?.push(light);
           break;
         default:
@@ -36,25 +36,90 @@ uniform sampler2D u_brdfLUT;
 uniform vec2 u_ScaleIBLAmbient;
 #endif
 
+// Each texture has a UV transform (KHR_texture_transform)
 #ifdef HAS_BASECOLORMAP
 uniform sampler2D u_BaseColorSampler;
+uniform mat3 u_BaseColorUVTransform;
 #endif
 #ifdef HAS_NORMALMAP
 uniform sampler2D u_NormalSampler;
+uniform mat3 u_NormalUVTransform;
 uniform float u_NormalScale;
 #endif
 #ifdef HAS_EMISSIVEMAP
 uniform sampler2D u_EmissiveSampler;
-uniform vec3 u_EmissiveFactor;
+uniform mat3 u_EmissiveUVTransform;
 #endif
 #ifdef HAS_METALROUGHNESSMAP
 uniform sampler2D u_MetallicRoughnessSampler;
+uniform mat3 u_MetallicRoughnessUVTransform;
 #endif
 #ifdef HAS_OCCLUSIONMAP
 uniform sampler2D u_OcclusionSampler;
+uniform mat3 u_OcclusionUVTransform;
 uniform float u_OcclusionStrength;
 #endif
 
+// Emissive factor is multiplied by KHR_materials_emissive_strength
+uniform vec3 u_EmissiveFactor;
+
+// KHR_materials_ior
+uniform float u_IOR;
+
+// KHR_materials_specular
+uniform float u_SpecularFactor;
+uniform vec3 u_SpecularColorFactor;
+#ifdef HAS_SPECULARMAP
+uniform sampler2D u_SpecularSampler;
+uniform mat3 u_SpecularUVTransform;
+#endif
+#ifdef HAS_SPECULARCOLORMAP
+uniform sampler2D u_SpecularColorSampler;
+uniform mat3 u_SpecularColorUVTransform;
+#endif
+
+// KHR_materials_clearcoat
+#ifdef HAS_CLEARCOAT
+uniform float u_ClearcoatFactor;
+uniform float u_ClearcoatRoughnessFactor;
+#endif
+#ifdef HAS_CLEARCOATMAP
+uniform sampler2D u_ClearcoatSampler;
+uniform mat3 u_ClearcoatUVTransform;
+#endif
+#ifdef HAS_CLEARCOATROUGHNESSMAP
+uniform sampler2D u_ClearcoatRoughnessSampler;
+uniform mat3 u_ClearcoatRoughnessUVTransform;
+#endif
+#ifdef HAS_CLEARCOATNORMALMAP
+uniform sampler2D u_ClearcoatNormalSampler;
+uniform mat3 u_ClearcoatNormalUVTransform;
+uniform float u_ClearcoatNormalScale;
+#endif
+
+// KHR_materials_transmission
+#ifdef HAS_TRANSMISSION
+uniform float u_TransmissionFactor;
+#endif
+#ifdef HAS_TRANSMISSIONMAP
+uniform sampler2D u_TransmissionSampler;
+uniform mat3 u_TransmissionUVTransform;
+#endif
+
+// KHR_materials_sheen
+#ifdef HAS_SHEEN
+uniform vec3 u_SheenColorFactor;
+uniform float u_SheenRoughnessFactor;
+#endif
+#ifdef HAS_SHEENCOLORMAP
+uniform sampler2D u_SheenColorSampler;
+uniform mat3 u_SheenColorUVTransform;
+#endif
+#ifdef HAS_SHEENROUGHNESSMAP
+uniform sampler2D u_SheenRoughnessSampler;
+uniform mat3 u_SheenRoughnessUVTransform;
+#endif
+
 #ifdef ALPHA_CUTOFF
 uniform float u_AlphaCutoff;
 #endif
@@ -73,6 +138,7 @@ uniform vec4 u_ScaleFGDSpec;
 in vec3 pbr_vPosition;
 
 in vec2 pbr_vUV;
+in vec2 pbr_vUV1;
 
 #ifdef HAS_NORMALS
 #ifdef HAS_TANGENTS
@@ -103,6 +169,16 @@ struct PBRInfo
   vec3 v;                       // vector from surface point to camera
 };
 
+// Optional layers on top of the base material, from glTF material extensions
+struct PBRLayers
+{
+  float clearcoat;              // clearcoat intensity
+  float clearcoatRoughness;     // clearcoat perceptual roughness
+  vec3 clearcoatNormal;         // normal of the clearcoat layer
+  vec3 sheenColor;              // sheen intensity and color
+  float sheenRoughness;         // sheen perceptual roughness
+};
+
 const float M_PI = 3.141592653589793;
 const float c_MinRoughness = 0.04;
 
@@ -121,16 +197,26 @@ vec4 SRGBtoLINEAR(vec4 srgbIn)
 #endif //MANUAL_SRGB
 }
 
-// Find the normal for this fragment, pulling either from a predefined normal map
-// or from the interpolated mesh normal and tangent attributes.
-vec3 getNormal()
+// Select a UV set (the texCoord of a glTF texture info)
+vec2 getUVSet(int texCoord)
+{
+  return texCoord == 1 ? pbr_vUV1 : pbr_vUV;
+}
+
+// Apply a texture transform to the texture coordinates of a UV set
+vec2 getUV(mat3 uvTransform, int texCoord)
+{
+  return (uvTransform * vec3(getUVSet(texCoord), 1.0)).xy;
+}
+
+// Retrieve the tangent space matrix
+mat3 getTBN()
 {
-  // Retrieve the tangent space matrix
 #ifndef HAS_TANGENTS
   vec3 pos_dx = dFdx(pbr_vPosition);
   vec3 pos_dy = dFdy(pbr_vPosition);
-  vec3 tex_dx = dFdx(vec3(pbr_vUV, 0.0));
-  vec3 tex_dy = dFdy(vec3(pbr_vUV, 0.0));
+  vec3 tex_dx = dFdx(vec3(getUVSet(NORMALMAP_TEXCOORD), 0.0));
+  vec3 tex_dy = dFdy(vec3(getUVSet(NORMALMAP_TEXCOORD), 0.0));
   vec3 t = (tex_dy.t * pos_dx - tex_dx.t * pos_dy) / (tex_dx.s * tex_dy.t - tex_dy.s * tex_dx.t);
 
 #ifdef HAS_NORMALS
@@ -146,8 +232,15 @@ vec3 getNormal()
   mat3 tbn = pbr_vTBN;
 #endif
 
+  return tbn;
+}
+
+// Find the normal for this fragment, pulling either from a predefined normal map
+// or from the interpolated mesh normal and tangent attributes.
+vec3 getNormal(mat3 tbn)
+{
 #ifdef HAS_NORMALMAP
-  vec3 n = texture(u_NormalSampler, pbr_vUV).rgb;
+  vec3 n = texture(u_NormalSampler, getUV(u_NormalUVTransform, NORMALMAP_TEXCOORD)).rgb;
   n = normalize(tbn * ((2.0 * n - 1.0) * vec3(u_NormalScale, u_NormalScale, 1.0)));
 #else
   // The tbn matrix is linearly interpolated, so we need to re-normalize
@@ -269,11 +362,58 @@ vec3 calculateFinalColor(PBRInfo pbrInputs, vec3 lightColor) {
   return pbrInputs.NdotL * lightColor * (diffuseContrib + specContrib);
 }
 
+// Sheen distribution ("Charlie"), from "Production Friendly Microfacet Sheen BRDF", Estevez and Kulla 2017
+float sheenDistribution(float sheenRoughness, float NdotH)
+{
+  float alphaG = max(sheenRoughness * sheenRoughness, 0.0001);
+  float invR = 1.0 / alphaG;
+  float sin2h = max(1.0 - NdotH * NdotH, 0.0078125);
+  return (2.0 + invR) * pow(sin2h, invR * 0.5) / (2.0 * M_PI);
+}
+
+// Sheen visibility, from "Physically Based Rendering on the Xbox One", Neubelt and Pettineo 2013
+float sheenVisibility(float NdotL, float NdotV)
+{
+  return 1.0 / (4.0 * (NdotL + NdotV - NdotL * NdotV));
+}
+
+// Adds the clearcoat and sheen layers to the lighting contribution of the base material
+vec3 calculateLayeredColor(PBRInfo pbrInputs, PBRLayers layers, vec3 lightDirection, vec3 lightColor)
+{
+  vec3 color = calculateFinalColor(pbrInputs, lightColor);
+
+#ifdef HAS_SHEEN
+  float sheen = sheenDistribution(layers.sheenRoughness, pbrInputs.NdotH) *
+    sheenVisibility(pbrInputs.NdotL, pbrInputs.NdotV);
+  color += pbrInputs.NdotL * lightColor * layers.sheenColor * sheen;
+#endif
+
+#ifdef HAS_CLEARCOAT
+  // The clearcoat layer is a dielectric with an IOR of 1.5 on top of the base material
+  PBRInfo clearcoatInputs = pbrInputs;
+  clearcoatInputs.n = layers.clearcoatNormal;
+  clearcoatInputs.NdotV = clamp(abs(dot(layers.clearcoatNormal, pbrInputs.v)), 0.001, 1.0);
+  clearcoatInputs.reflectance0 = vec3(0.04);
+  clearcoatInputs.reflectance90 = vec3(1.0);
+  clearcoatInputs.alphaRoughness = layers.clearcoatRoughness * layers.clearcoatRoughness;
+  PBRInfo_setDirectionalLight(clearcoatInputs, lightDirection);
+
+  vec3 F = specularReflection(clearcoatInputs);
+  float G = geometricOcclusion(clearcoatInputs);
+  float D = microfacetDistribution(clearcoatInputs);
+  vec3 clearcoatContrib = F * G * D / (4.0 * clearcoatInputs.NdotL * clearcoatInputs.NdotV);
+  color = color * (1.0 - layers.clearcoat * F) +
+    layers.clearcoat * clearcoatInputs.NdotL * lightColor * clearcoatContrib;
+#endif
+
+  return color;
+}
+
 vec4 pbr_filterColor(vec4 colorUnused)
 {
   // The albedo may be defined from a base texture or a flat color
 #ifdef HAS_BASECOLORMAP
-  vec4 baseColor = SRGBtoLINEAR(texture(u_BaseColorSampler, pbr_vUV)) * u_BaseColorFactor;
+  vec4 baseColor = SRGBtoLINEAR(texture(u_BaseColorSampler, getUV(u_BaseColorUVTransform, BASECOLORMAP_TEXCOORD))) * u_BaseColorFactor;
 #else
   vec4 baseColor = u_BaseColorFactor;
 #endif
@@ -285,6 +425,9 @@ vec4 pbr_filterColor(vec4 colorUnused)
 #endif
 
   vec3 color = vec3(0, 0, 0);
+#ifdef HAS_TRANSMISSION
+  float transmission = 0.0;
+#endif
 
   if(pbr_uUnlit){
     color.rgb = baseColor.rgb;
@@ -298,7 +441,7 @@ vec4 pbr_filterColor(vec4 colorUnused)
 #ifdef HAS_METALROUGHNESSMAP
     // Roughness is stored in the 'g' channel, metallic is stored in the 'b' channel.
     // This layout intentionally reserves the 'r' channel for (optional) occlusion map data
-    vec4 mrSample = texture(u_MetallicRoughnessSampler, pbr_vUV);
+    vec4 mrSample = texture(u_MetallicRoughnessSampler, getUV(u_MetallicRoughnessUVTransform, METALROUGHNESSMAP_TEXCOORD));
     perceptualRoughness = mrSample.g * perceptualRoughness;
     metallic = mrSample.b * metallic;
 #endif
@@ -308,11 +451,33 @@ vec4 pbr_filterColor(vec4 colorUnused)
     // convert to material roughness by squaring the perceptual roughness [2].
     float alphaRoughness = perceptualRoughness * perceptualRoughness;
 
-    vec3 f0 = vec3(0.04);
+    // Reflectance of dielectrics at normal incidence, from the index of refraction (0.04 for IOR 1.5)
+    vec3 f0 = vec3(pow((u_IOR - 1.0) / (u_IOR + 1.0), 2.0));
+
+    // Specular strength and color of dielectrics
+    float specularFactor = u_SpecularFactor;
+    vec3 specularColorFactor = u_SpecularColorFactor;
+#ifdef HAS_SPECULARMAP
+    specularFactor *= texture(u_SpecularSampler, getUV(u_SpecularUVTransform, SPECULARMAP_TEXCOORD)).a;
+#endif
+#ifdef HAS_SPECULARCOLORMAP
+    specularColorFactor *= SRGBtoLINEAR(texture(u_SpecularColorSampler, getUV(u_SpecularColorUVTransform, SPECULARCOLORMAP_TEXCOORD))).rgb;
+#endif
+    f0 = min(f0 * specularColorFactor, vec3(1.0)) * specularFactor;
+
     vec3 diffuseColor = baseColor.rgb * (vec3(1.0) - f0);
     diffuseColor *= 1.0 - metallic;
     vec3 specularColor = mix(f0, baseColor.rgb, metallic);
 
+#ifdef HAS_TRANSMISSION
+    // Transmitted light replaces diffuse light, the background shows through
+    transmission = u_TransmissionFactor;
+#ifdef HAS_TRANSMISSIONMAP
+    transmission *= texture(u_TransmissionSampler, getUV(u_TransmissionUVTransform, TRANSMISSIONMAP_TEXCOORD)).r;
+#endif
+    diffuseColor *= 1.0 - transmission;
+#endif
+
     // Compute reflectance.
     float reflectance = max(max(specularColor.r, specularColor.g), specularColor.b);
 
@@ -324,7 +489,8 @@ vec4 pbr_filterColor(vec4 colorUnused)
     vec3 specularEnvironmentR0 = specularColor.rgb;
     vec3 specularEnvironmentR90 = vec3(1.0, 1.0, 1.0) * reflectance90;
 
-    vec3 n = getNormal();                          // normal at surface point
+    mat3 tbn = getTBN();
+    vec3 n = getNormal(tbn);                       // normal at surface point
     vec3 v = normalize(u_Camera - pbr_vPosition);  // Vector from surface point to camera
 
     float NdotV = clamp(abs(dot(n, v)), 0.001, 1.0);
@@ -347,6 +513,35 @@ vec4 pbr_filterColor(vec4 colorUnused)
       v
     );
 
+    PBRLayers layers = PBRLayers(0.0, 0.0, n, vec3(0.0), 0.0);
+#ifdef HAS_CLEARCOAT
+    layers.clearcoat = u_ClearcoatFactor;
+    layers.clearcoatRoughness = u_ClearcoatRoughnessFactor;
+#ifdef HAS_CLEARCOATMAP
+    layers.clearcoat *= texture(u_ClearcoatSampler, getUV(u_ClearcoatUVTransform, CLEARCOATMAP_TEXCOORD)).r;
+#endif
+#ifdef HAS_CLEARCOATROUGHNESSMAP
+    layers.clearcoatRoughness *= texture(u_ClearcoatRoughnessSampler, getUV(u_ClearcoatRoughnessUVTransform, CLEARCOATROUGHNESSMAP_TEXCOORD)).g;
+#endif
+    layers.clearcoatRoughness = clamp(layers.clearcoatRoughness, c_MinRoughness, 1.0);
+#ifdef HAS_CLEARCOATNORMALMAP
+    vec3 clearcoatNormal = texture(u_ClearcoatNormalSampler, getUV(u_ClearcoatNormalUVTransform, CLEARCOATNORMALMAP_TEXCOORD)).rgb;
+    layers.clearcoatNormal = normalize(tbn * ((2.0 * clearcoatNormal - 1.0) * vec3(u_ClearcoatNormalScale, u_ClearcoatNormalScale, 1.0)));
+#else
+    layers.clearcoatNormal = normalize(tbn[2].xyz);
+#endif
+#endif
+#ifdef HAS_SHEEN
+    layers.sheenColor = u_SheenColorFactor;
+    layers.sheenRoughness = u_SheenRoughnessFactor;
+#ifdef HAS_SHEENCOLORMAP
+    layers.sheenColor *= SRGBtoLINEAR(texture(u_SheenColorSampler, getUV(u_SheenColorUVTransform, SHEENCOLORMAP_TEXCOORD))).rgb;
+#endif
+#ifdef HAS_SHEENROUGHNESSMAP
+    layers.sheenRoughness *= texture(u_SheenRoughnessSampler, getUV(u_SheenRoughnessUVTransform, SHEENROUGHNESSMAP_TEXCOORD)).a;
+#endif
+#endif
+
 #ifdef USE_LIGHTS
     // Apply ambient light
     PBRInfo_setAmbientLight(pbrInputs);
@@ -355,17 +550,19 @@ vec4 pbr_filterColor(vec4 colorUnused)
     // Apply directional light
     SMART_FOR(int i = 0, i < MAX_LIGHTS, i < lighting_uDirectionalLightCount, i++) {
       if (i < lighting_uDirectionalLightCount) {
-        PBRInfo_setDirectionalLight(pbrInputs, lighting_uDirectionalLight[i].direction);
-        color += calculateFinalColor(pbrInputs, lighting_uDirectionalLight[i].color);
+        vec3 lightDirection = normalize(lighting_uDirectionalLight[i].direction);
+        PBRInfo_setDirectionalLight(pbrInputs, lightDirection);
+        color += calculateLayeredColor(pbrInputs, layers, lightDirection, lighting_uDirectionalLight[i].color);
       }
     }
 
     // Apply point light
     SMART_FOR(int i = 0, i < MAX_LIGHTS, i < lighting_uPointLightCount, i++) {
       if (i < lighting_uPointLightCount) {
-        PBRInfo_setPointLight(pbrInputs, lighting_uPointLight[i]);
+        vec3 lightDirection = normalize(lighting_uPointLight[i].position - pbr_vPosition);
+        PBRInfo_setDirectionalLight(pbrInputs, lightDirection);
         float attenuation = getPointLightAttenuation(lighting_uPointLight[i], distance(lighting_uPointLight[i].position, pbr_vPosition));
-        color += calculateFinalColor(pbrInputs, lighting_uPointLight[i].color / attenuation);
+        color += calculateLayeredColor(pbrInputs, layers, lightDirection, lighting_uPointLight[i].color / attenuation);
       }
     }
 #endif
@@ -377,14 +574,15 @@ vec4 pbr_filterColor(vec4 colorUnused)
 
     // Apply optional PBR terms for additional (optional) shading
 #ifdef HAS_OCCLUSIONMAP
-    float ao = texture(u_OcclusionSampler, pbr_vUV).r;
+    float ao = texture(u_OcclusionSampler, getUV(u_OcclusionUVTransform, OCCLUSIONMAP_TEXCOORD)).r;
     color = mix(color, color * ao, u_OcclusionStrength);
 #endif
 
+    vec3 emissive = u_EmissiveFactor;
 #ifdef HAS_EMISSIVEMAP
-    vec3 emissive = SRGBtoLINEAR(texture(u_EmissiveSampler, pbr_vUV)).rgb * u_EmissiveFactor;
-    color += emissive;
+    emissive *= SRGBtoLINEAR(texture(u_EmissiveSampler, getUV(u_EmissiveUVTransform, EMISSIVEMAP_TEXCOORD))).rgb;
 #endif
+    color += emissive;
 
     // This section uses mix to override final color for reference app visualization
     // of various parameters in the lighting equation.
@@ -404,6 +602,11 @@ vec4 pbr_filterColor(vec4 colorUnused)
 
   }
 
+#ifdef HAS_TRANSMISSION
+  // Diffuse light is already scaled by opacity, for blending with premultiplied alpha
+  return vec4(pow(color,vec3(1.0/2.2)), baseColor.a * (1.0 - transmission));
+#endif
+
   return vec4(pow(color,vec3(1.0/2.2)), baseColor.a);
 }
 `;
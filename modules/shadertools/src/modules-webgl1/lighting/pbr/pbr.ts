@@ -12,7 +12,21 @@ export const pbr = {
   vs,
   fs,
   defines: {
-    LIGHTING_FRAGMENT: 1
+    LIGHTING_FRAGMENT: 1,
+    // UV set of each texture (glTF texCoord)
+    BASECOLORMAP_TEXCOORD: 0,
+    NORMALMAP_TEXCOORD: 0,
+    EMISSIVEMAP_TEXCOORD: 0,
+    METALROUGHNESSMAP_TEXCOORD: 0,
+    OCCLUSIONMAP_TEXCOORD: 0,
+    SPECULARMAP_TEXCOORD: 0,
+    SPECULARCOLORMAP_TEXCOORD: 0,
+    CLEARCOATMAP_TEXCOORD: 0,
+    CLEARCOATROUGHNESSMAP_TEXCOORD: 0,
+    CLEARCOATNORMALMAP_TEXCOORD: 0,
+    TRANSMISSIONMAP_TEXCOORD: 0,
+    SHEENCOLORMAP_TEXCOORD: 0,
+    SHEENROUGHNESSMAP_TEXCOORD: 0
   },
   dependencies: [lights]
 };
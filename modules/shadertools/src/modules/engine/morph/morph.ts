@@ -0,0 +1,76 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {NumberArray} from '@math.gl/types';
+import {glsl} from '../../../lib/glsl-utils/highlight';
+import {ShaderModule} from '../../../lib/shader-module/shader-module';
+
+/** Number of morph targets that can be blended at the same time (must match the shader source) */
+export const MORPH_MAX_TARGETS = 4;
+
+export type MorphProps = {
+  /** Weights of the bound morph targets, `MORPH_MAX_TARGETS` values */
+  weights?: NumberArray;
+};
+
+export type MorphUniforms = {
+  weights?: NumberArray;
+};
+
+const vs = glsl`\
+uniform morphUniforms {
+  vec4 weights;
+} morph;
+
+// Add the weighted deltas of the bound morph targets to a vertex attribute value
+vec3 morph_blend(vec3 value, vec3 delta0, vec3 delta1, vec3 delta2, vec3 delta3) {
+  return value +
+    morph.weights.x * delta0 +
+    morph.weights.y * delta1 +
+    morph.weights.z * delta2 +
+    morph.weights.w * delta3;
+}
+`;
+
+const wgsl = /* WGSL */ `\
+// Add the weighted deltas of the bound morph targets to a vertex attribute value
+fn morph_blend(
+  value: vec3<f32>,
+  delta0: vec3<f32>,
+  delta1: vec3<f32>,
+  delta2: vec3<f32>,
+  delta3: vec3<f32>
+) -> vec3<f32> {
+  return value +
+    morph.weights.x * delta0 +
+    morph.weights.y * delta1 +
+    morph.weights.z * delta2 +
+    morph.weights.w * delta3;
+}
+`;
+
+/**
+ * Morph targets (glTF blend shapes): adds weighted per-vertex deltas to positions, normals and tangents.
+ * The deltas of up to `MORPH_MAX_TARGETS` targets are supplied as attributes, the weights as uniforms.
+ */
+export const morph: ShaderModule<MorphProps, MorphUniforms> = {
+  name: 'morph',
+  source: {
+    vs: {glsl: vs, wgsl}
+  },
+  uniformTypes: {
+    weights: 'vec4<f32>'
+  },
+  defaultUniforms: {
+    weights: [0, 0, 0, 0]
+  },
+  getUniforms
+};
+
+function getUniforms(opts: MorphProps = {}): MorphUniforms {
+  const uniforms: MorphUniforms = {};
+  if (opts.weights) {
+    uniforms.weights = opts.weights;
+  }
+  return uniforms;
+}
@@ -5,6 +5,9 @@ import {NumberArray} from '../../../types';
 import {glsl} from '../../../lib/glsl-utils/highlight';
 import {ShaderModule} from '../../../lib/shader-module/shader-module';
 
+/** Number of models that can be picked at once, identified by the alpha channel of picking colors */
+export const PICKING_MAX_BATCHES = 255;
+
 // cyan color
 const DEFAULT_HIGHLIGHT_COLOR = new Float32Array([0, 1, 1, 1]);
 
@@ -24,6 +27,11 @@ export type PickingProps = {
   highlightColor?: NumberArray;
   /** Color range 0-1 or 0-255 */
   useFloatColors?: boolean;
+  /**
+   * Index of the model being picked, 0 to `PICKING_MAX_BATCHES - 1`, written to the alpha channel of picking colors.
+   * Set to `null` to write an alpha of 1.
+   */
+  batchIndex?: number | null;
 };
 
 /** 
@@ -47,6 +55,8 @@ export type PickingUniforms = {
   highlightedObjectColor?: NumberArray;
   /** Color of visual highlight of "selected" item */
   highlightColor?: NumberArray;
+  /** Index of the model being picked, -1 if not batched */
+  batchIndex?: number;
 };
 
 const vs = glsl`\
@@ -57,6 +67,7 @@ uniform pickingUniforms {
   float useFloatColors;
   vec3 highlightedObjectColor;
   vec4 highlightColor;
+  float batchIndex;
 } picking;
 
 out vec4 picking_vRGBcolor_Avalid;
@@ -131,6 +142,7 @@ uniform pickingUniforms {
   float useFloatColors;
   vec3 highlightedObjectColor;
   vec4 highlightColor;
+  float batchIndex;
 } picking;
 
 in vec4 picking_vRGBcolor_Avalid;
@@ -167,7 +179,9 @@ vec4 picking_filterPickingColor(vec4 color) {
     if (picking_vRGBcolor_Avalid.a == 0.0) {
       discard;
     }
-    return picking_vRGBcolor_Avalid;
+    // Identify the model in the alpha channel when several models are picked at once
+    float alpha = picking.batchIndex < 0.0 ? 1.0 : (picking.batchIndex + 1.0) / 255.0;
+    return vec4(picking_vRGBcolor_Avalid.rgb, alpha);
   }
   return color;
 }
@@ -199,7 +213,8 @@ export const picking: ShaderModule<PickingProps, PickingUniforms> = {
     isHighlightActive: 'f32',
     useFloatColors: 'f32',
     highlightedObjectColor: 'vec3<f32>',
-    highlightColor: 'vec4<f32>'
+    highlightColor: 'vec4<f32>',
+    batchIndex: 'f32'
   },
   defaultUniforms: {
     isActive: false,
@@ -207,7 +222,8 @@ export const picking: ShaderModule<PickingProps, PickingUniforms> = {
     isHighlightActive: false,
     useFloatColors: true,
     highlightedObjectColor: new Float32Array([0, 0, 0]),
-    highlightColor: DEFAULT_HIGHLIGHT_COLOR
+    highlightColor: DEFAULT_HIGHLIGHT_COLOR,
+    batchIndex: -1
   },
   getUniforms
 };
@@ -242,5 +258,9 @@ function getUniforms(opts: PickingProps = {}, prevUniforms?: PickingUniforms): P
     uniforms.useFloatColors = Boolean(opts.useFloatColors);
   }
 
+  if (opts.batchIndex !== undefined) {
+    uniforms.batchIndex = opts.batchIndex ?? -1;
+  }
+
   return uniforms;
 }
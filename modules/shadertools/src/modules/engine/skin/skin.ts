@@ -0,0 +1,83 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {NumberArray} from '@math.gl/types';
+import {glsl} from '../../../lib/glsl-utils/highlight';
+import {ShaderModule} from '../../../lib/shader-module/shader-module';
+
+/** Maximum number of joints supported by the skin module (must match the shader source) */
+export const SKIN_MAX_JOINTS = 128;
+
+export type SkinProps = {
+  /** Joint matrices, 16 values per joint, at most `SKIN_MAX_JOINTS` joints */
+  jointMatrix?: NumberArray;
+};
+
+export type SkinUniforms = {
+  jointMatrix?: NumberArray;
+};
+
+const vs = glsl`\
+#define SKIN_MAX_JOINTS 128
+
+uniform skinUniforms {
+  mat4 jointMatrix[SKIN_MAX_JOINTS];
+} skin;
+
+// Blend the matrices of the four joints influencing a vertex
+mat4 skin_getSkinMatrix(vec4 weights, vec4 joints) {
+  return
+    weights.x * skin.jointMatrix[int(joints.x)] +
+    weights.y * skin.jointMatrix[int(joints.y)] +
+    weights.z * skin.jointMatrix[int(joints.z)] +
+    weights.w * skin.jointMatrix[int(joints.w)];
+}
+`;
+
+const wgsl = /* WGSL */ `\
+// Blend the matrices of the four joints influencing a vertex
+fn skin_getSkinMatrix(weights: vec4<f32>, joints: vec4<u32>) -> mat4x4<f32> {
+  return
+    weights.x * skin.jointMatrix[joints.x] +
+    weights.y * skin.jointMatrix[joints.y] +
+    weights.z * skin.jointMatrix[joints.z] +
+    weights.w * skin.jointMatrix[joints.w];
+}
+`;
+
+/**
+ * Linear blend skinning (glTF skins): transforms vertices by a weighted sum of up to four joint matrices.
+ * The joint and weight attributes are passed to `skin_getSkinMatrix()` in the vertex shader.
+ */
+export const skin: ShaderModule<SkinProps, SkinUniforms> = {
+  name: 'skin',
+  source: {
+    vs: {glsl: vs, wgsl}
+  },
+  uniformTypes: {
+    jointMatrix: ['mat4x4<f32>', SKIN_MAX_JOINTS]
+  },
+  defaultUniforms: {
+    jointMatrix: getIdentityJointMatrices()
+  },
+  getUniforms
+};
+
+function getUniforms(opts: SkinProps = {}): SkinUniforms {
+  const uniforms: SkinUniforms = {};
+  if (opts.jointMatrix) {
+    uniforms.jointMatrix = opts.jointMatrix;
+  }
+  return uniforms;
+}
+
+function getIdentityJointMatrices(): Float32Array {
+  const jointMatrices = new Float32Array(SKIN_MAX_JOINTS * 16);
+  for (let i = 0; i < SKIN_MAX_JOINTS; i++) {
+    jointMatrices[i * 16] = 1;
+    jointMatrices[i * 16 + 5] = 1;
+    jointMatrices[i * 16 + 10] = 1;
+    jointMatrices[i * 16 + 15] = 1;
+  }
+  return jointMatrices;
+}
@@ -7,52 +7,111 @@ export const lightingUniforms = glsl`\
 precision highp int;
 
 // #if (defined(SHADER_TYPE_FRAGMENT) && defined(LIGHTING_FRAGMENT)) || (defined(SHADER_TYPE_VERTEX) && defined(LIGHTING_VERTEX))
-struct AmbientLight {
-  vec3 color;
-};
+#define LIGHT_TYPE_POINT 0
+#define LIGHT_TYPE_DIRECTIONAL 1
+#define LIGHT_TYPE_SPOT 2
 
-struct PointLight {
+struct Light {
   vec3 color;
+  int lightType;
   vec3 position;
-  vec3 attenuation; // 2nd order x:Constant-y:Linear-z:Exponential
-};
-
-struct DirectionalLight {
-  vec3 color;
-  vec3 direction;
+  float range;                  // 0: infinite range
+  vec3 direction;               // Direction the light is pointing (directional and spot lights)
+  vec3 attenuation;             // 2nd order x:Constant-y:Linear-z:Exponential
+  vec2 coneCos;                 // x: cosine of inner cone angle-y: cosine of outer cone angle
 };
 
 uniform lightingUniforms {
   int enabled;
-  int pointLightCount;
-  int directionalLightCount;
-
-  vec3 ambientColor;
-
-  int lightType;
-  vec3 lightColor;
-  vec3 lightDirection;
-  vec3 lightPosition;
-  vec3 lightAttenuation;
-
-  // AmbientLight ambientLight;
-  // PointLight pointLight[MAX_LIGHTS];
-  // DirectionalLight directionalLight[MAX_LIGHTS];
+  vec3 ambientLightColor;
+  int numberOfLights;
+  Light lights[MAX_LIGHTS];
 } lighting;
 
-PointLight lighting_getPointLight(int index) {
-  return PointLight(lighting.lightColor, lighting.lightPosition, lighting.lightAttenuation);
+// Direction from a surface point towards a light
+vec3 lighting_getLightDirection(Light light, vec3 position_worldspace) {
+  if (light.lightType == LIGHT_TYPE_DIRECTIONAL) {
+    return -normalize(light.direction);
+  }
+  return normalize(light.position - position_worldspace);
+}
+
+float lighting_getLightAttenuation(Light light, float distance) {
+  float attenuation = light.attenuation.x
+    + light.attenuation.y * distance
+    + light.attenuation.z * distance * distance;
+  float intensity = 1.0 / max(attenuation, 0.0001);
+  if (light.range > 0.0) {
+    // Smoothly reach zero at the range of the light
+    float window = clamp(1.0 - pow(distance / light.range, 4.0), 0.0, 1.0);
+    intensity *= window * window;
+  }
+  return intensity;
 }
 
-DirectionalLight lighting_getDirectionalLight(int index) {
-  return DirectionalLight(lighting.lightColor, lighting.lightDirection);
-} 
+float lighting_getSpotLightCone(Light light, vec3 position_worldspace) {
+  float cosAngle = dot(normalize(light.direction), normalize(position_worldspace - light.position));
+  float t = clamp((cosAngle - light.coneCos.y) / max(light.coneCos.x - light.coneCos.y, 0.0001), 0.0, 1.0);
+  return t * t;
+}
 
-float getPointLightAttenuation(PointLight pointLight, float distance) {
-  return pointLight.attenuation.x
-       + pointLight.attenuation.y * distance
-       + pointLight.attenuation.z * distance * distance;
+// Fraction of the light color reaching a surface point, from distance attenuation and spot light cones
+float lighting_getLightIntensity(Light light, vec3 position_worldspace) {
+  if (light.lightType == LIGHT_TYPE_DIRECTIONAL) {
+    return 1.0;
+  }
+  float intensity = lighting_getLightAttenuation(light, distance(light.position, position_worldspace));
+  if (light.lightType == LIGHT_TYPE_SPOT) {
+    intensity *= lighting_getSpotLightCone(light, position_worldspace);
+  }
+  return intensity;
 }
 
 // #endif
 `;
+
+// The `lighting` uniform struct is generated from the uniform types of the module
+export const lightingUniformsWGSL = /* WGSL */ `\
+const LIGHT_TYPE_POINT = 0;
+const LIGHT_TYPE_DIRECTIONAL = 1;
+const LIGHT_TYPE_SPOT = 2;
+
+// Direction from a surface point towards a light
+fn lighting_getLightDirection(light: LightingLights, position_worldspace: vec3<f32>) -> vec3<f32> {
+  if (light.lightType == LIGHT_TYPE_DIRECTIONAL) {
+    return -normalize(light.direction);
+  }
+  return normalize(light.position - position_worldspace);
+}
+
+fn lighting_getLightAttenuation(light: LightingLights, distance: f32) -> f32 {
+  let attenuation = light.attenuation.x
+    + light.attenuation.y * distance
+    + light.attenuation.z * distance * distance;
+  var intensity = 1.0 / max(attenuation, 0.0001);
+  if (light.range > 0.0) {
+    // Smoothly reach zero at the range of the light
+    let window = clamp(1.0 - pow(distance / light.range, 4.0), 0.0, 1.0);
+    intensity *= window * window;
+  }
+  return intensity;
+}
+
+fn lighting_getSpotLightCone(light: LightingLights, position_worldspace: vec3<f32>) -> f32 {
+  let cosAngle = dot(normalize(light.direction), normalize(position_worldspace - light.position));
+  let t = clamp((cosAngle - light.coneCos.y) / max(light.coneCos.x - light.coneCos.y, 0.0001), 0.0, 1.0);
+  return t * t;
+}
+
+// Fraction of the light color reaching a surface point, from distance attenuation and spot light cones
+fn lighting_getLightIntensity(light: LightingLights, position_worldspace: vec3<f32>) -> f32 {
+  if (light.lightType == LIGHT_TYPE_DIRECTIONAL) {
+    return 1.0;
+  }
+  var intensity = lighting_getLightAttenuation(light, distance(light.position, position_worldspace));
+  if (light.lightType == LIGHT_TYPE_SPOT) {
+    intensity *= lighting_getSpotLightCone(light, position_worldspace);
+  }
+  return intensity;
+}
+`;
@@ -3,7 +3,7 @@
 
 import type {NumberArray} from '@math.gl/types';
 import {ShaderModule} from '../../../lib/shader-module/shader-module';
-import {lightingUniforms} from './lighting-uniforms.glsl';
+import {lightingUniforms, lightingUniformsWGSL} from './lighting-uniforms.glsl';
 
 /** Max number of supported lights (in addition to ambient light */
 const MAX_LIGHTS = 5;
@@ -14,12 +14,16 @@ const COLOR_FACTOR = 255.0;
 /** Shader type field for lights */
 enum LIGHT_TYPE {
   POINT = 0,
-  DIRECTIONAL = 1
+  DIRECTIONAL = 1,
+  SPOT = 2
 }
 
+/** Physically based inverse-square falloff */
+const INVERSE_SQUARE_ATTENUATION = [0, 0, 1];
+
 /** Lighting helper types */
 
-export type Light = AmbientLight | PointLight | DirectionalLight;
+export type Light = AmbientLight | PointLight | DirectionalLight | SpotLight;
 
 export type AmbientLight = {
   type: 'ambient';
@@ -32,15 +36,42 @@ export type PointLight = {
   position: Readonly<NumberArray>;
   color?: Readonly<NumberArray>;
   intensity?: number;
-  attenuation?: number;
+  /**
+   * Constant, linear and quadratic attenuation coefficients, or a constant attenuation.
+   * Defaults to physically based inverse-square falloff, `[0, 0, 1]`.
+   */
+  attenuation?: number | Readonly<NumberArray>;
+  /** Distance where the intensity of the light reaches zero. Infinite if not supplied */
+  range?: number;
 }
 
 export type DirectionalLight = {
   type: 'directional';
   position: Readonly<NumberArray>;
+  /** Direction the light is pointing */
+  direction: Readonly<NumberArray>;
+  color?: Readonly<NumberArray>;
+  intensity?: number;
+}
+
+export type SpotLight = {
+  type: 'spot';
+  position: Readonly<NumberArray>;
+  /** Direction the light is pointing */
   direction: Readonly<NumberArray>;
   color?: Readonly<NumberArray>;
   intensity?: number;
+  /**
+   * Constant, linear and quadratic attenuation coefficients, or a constant attenuation.
+   * Defaults to physically based inverse-square falloff, `[0, 0, 1]`.
+   */
+  attenuation?: number | Readonly<NumberArray>;
+  /** Distance where the intensity of the light reaches zero. Infinite if not supplied */
+  range?: number;
+  /** Angle from the direction of the light, in radians, where the intensity starts to fall off. Default `0` */
+  innerConeAngle?: number;
+  /** Angle from the direction of the light, in radians, where the intensity reaches zero. Default `Math.PI / 4` */
+  outerConeAngle?: number;
 }
 
 export type LightingProps = {
@@ -54,22 +85,32 @@ export type LightingProps = {
   directionalLights?: DirectionalLight[];
 };
 
+/** Uniforms of one light, must match the `Light` struct in the shaders */
+export type LightUniforms = {
+  color: Readonly<NumberArray>;
+  lightType: number;
+  position: Readonly<NumberArray>;
+  range: number;
+  direction: Readonly<NumberArray>;
+  attenuation: Readonly<NumberArray>;
+  /** Cosines of the inner and outer cone angles of spot lights */
+  coneCos: Readonly<NumberArray>;
+};
+
 export type LightingUniforms = {
   enabled: number;
   ambientLightColor: Readonly<NumberArray>;
   numberOfLights: number;
-  lightType: number; // [];
-  lightColor: Readonly<NumberArray>; // [];
-  lightPosition: Readonly<NumberArray>; // [];
-  lightDirection: Readonly<NumberArray>; // [];
-  lightAttenuation: Readonly<NumberArray>; // [];
+  lights: LightUniforms[];
 };
 
 /** UBO ready lighting module */
 export const lighting: ShaderModule<LightingProps, LightingUniforms> = {
   name: 'lighting',
-  vs: lightingUniforms,
-  fs: lightingUniforms,
+  source: {
+    vs: {glsl: lightingUniforms, wgsl: lightingUniformsWGSL},
+    fs: {glsl: lightingUniforms, wgsl: lightingUniformsWGSL}
+  },
 
   getUniforms(props?: LightingProps, prevUniforms?: LightingUniforms): LightingUniforms {
     return getUniforms(props);
@@ -82,30 +123,31 @@ export const lighting: ShaderModule<LightingProps, LightingUniforms> = {
   uniformTypes: {
     enabled: 'i32',
     ambientLightColor: 'vec3<f32>',
-    numberOfLights: 'i32', // , array: MAX_LIGHTS,
-    lightType: 'i32', // , array: MAX_LIGHTS,
-    lightColor: 'vec3<f32>', // , array: MAX_LIGHTS,
-    lightPosition: 'vec3<f32>', // , array: MAX_LIGHTS,
-    // TODO - could combine direction and attenuation
-    lightDirection: 'vec3<f32>', // , array: MAX_LIGHTS,
-    lightAttenuation: 'vec3<f32>' // , array: MAX_LIGHTS},
+    numberOfLights: 'i32',
+    lights: [
+      {
+        color: 'vec3<f32>',
+        lightType: 'i32',
+        position: 'vec3<f32>',
+        range: 'f32',
+        direction: 'vec3<f32>',
+        attenuation: 'vec3<f32>',
+        coneCos: 'vec2<f32>'
+      },
+      MAX_LIGHTS
+    ]
   },
 
-  defaultUniforms: { 
+  defaultUniforms: {
     enabled: 1,
     ambientLightColor: [0.1, 0.1, 0.1],
     numberOfLights: 0,
-    lightType: LIGHT_TYPE.POINT,
-    lightColor: [1, 1, 1],
-    lightPosition: [1, 1, 2],
-    // TODO - could combine direction and attenuation
-    lightDirection: [1, 1, 1],
-    lightAttenuation: [1, 1, 1],
+    lights: []
   }
 };
 
 function getUniforms(props?: LightingProps, prevUniforms: Partial<LightingUniforms> = {}): LightingUniforms {
-  // Copy props so we can modify 
+  // Copy props so we can modify
   props = props ? {...props} : props;
 
   // TODO legacy
@@ -113,16 +155,14 @@ function getUniforms(props?: LightingProps, prevUniforms: Partial<LightingUnifor
     return {...lighting.defaultUniforms};
   }
   // Support for array of lights. Type of light is detected by type field
-  if (props.lights) {
-    props = {...props, ...extractLightTypes(props.lights), lights: undefined};
-  }
+  const lightSources = props.lights
+    ? extractLightTypes(props.lights)
+    : {spotLights: [], ...props};
 
   // Specify lights separately
-  const {ambientLight, pointLights, directionalLights} = props || {};
+  const {ambientLight, pointLights = [], directionalLights = [], spotLights = []} = lightSources;
   const hasLights =
-    ambientLight ||
-    (pointLights && pointLights.length > 0) ||
-    (directionalLights && directionalLights.length > 0);
+    ambientLight || pointLights.length > 0 || directionalLights.length > 0 || spotLights.length > 0;
 
   // TODO - this may not be the correct decision
   if (!hasLights) {
@@ -132,7 +172,7 @@ function getUniforms(props?: LightingProps, prevUniforms: Partial<LightingUnifor
   const uniforms = {
     ...lighting.defaultUniforms,
     ...prevUniforms,
-    ...getLightSourceUniforms({ambientLight, pointLights, directionalLights}),
+    ...getLightSourceUniforms({ambientLight, pointLights, directionalLights, spotLights})
   };
 
   if (props.enabled !== undefined) {
@@ -142,54 +182,84 @@ function getUniforms(props?: LightingProps, prevUniforms: Partial<LightingUnifor
   return uniforms;
 }
 
+/** Lights by type */
+type LightSources = {
+  ambientLight?: AmbientLight;
+  pointLights?: PointLight[];
+  directionalLights?: DirectionalLight[];
+  spotLights?: SpotLight[];
+};
+
 function getLightSourceUniforms({
   ambientLight,
   pointLights = [],
-  directionalLights = []
-}: LightingProps): Partial<LightingUniforms> {
-  const lightSourceUniforms: Partial<LightingUniforms> = {
-    // lightType: new Array(MAX_LIGHTS).fill(0),
-    // lightColor: new Array(MAX_LIGHTS).fill([0, 0, 0]),
-    // lightPosition: new Array(MAX_LIGHTS).fill([0, 0, 0]),
-    // lightDirection: new Array(MAX_LIGHTS).fill([0, 0, 0]),
-    // lightAttenuation: new Array(MAX_LIGHTS).fill([0, 0, 0])
-  };
-
-  lightSourceUniforms.ambientLightColor = convertColor(ambientLight);
-
-  let currentLight = 0;
+  directionalLights = [],
+  spotLights = []
+}: LightSources): Partial<LightingUniforms> {
+  const lights: LightUniforms[] = [];
 
   for (const pointLight of pointLights) {
-    // lightSourceUniforms.lightType[currentLight] = LIGHT_TYPE.POINT;
-    // lightSourceUniforms.lightColor[currentLight] = convertColor(pointLight);
-    // lightSourceUniforms.lightPosition[currentLight] = pointLight.position;
-    // lightSourceUniforms.lightAttenuation[currentLight] = [pointLight.attenuation || 1, 0, 0];
-    lightSourceUniforms.lightType = LIGHT_TYPE.POINT;
-    lightSourceUniforms.lightColor = convertColor(pointLight);
-    lightSourceUniforms.lightPosition = pointLight.position;
-    lightSourceUniforms.lightAttenuation = [pointLight.attenuation || 1, 0, 0];
-    currentLight++;
+    lights.push({
+      ...getDefaultLightUniforms(pointLight),
+      lightType: LIGHT_TYPE.POINT,
+      attenuation: getAttenuation(pointLight.attenuation),
+      range: pointLight.range || 0
+    });
   }
 
   for (const directionalLight of directionalLights) {
-    // lightSourceUniforms.lightType[currentLight] = LIGHT_TYPE.DIRECTIONAL;
-    // lightSourceUniforms.lightColor[currentLight] = convertColor(directionalLight);
-    // lightSourceUniforms.lightPosition[currentLight] = directionalLight.position;
-    // lightSourceUniforms.lightDirection[currentLight] = directionalLight.direction;
-    lightSourceUniforms.lightType = LIGHT_TYPE.DIRECTIONAL;
-    lightSourceUniforms.lightColor = convertColor(directionalLight);
-    lightSourceUniforms.lightPosition = directionalLight.position;
-    lightSourceUniforms.lightDirection = directionalLight.direction;
-    currentLight++;
+    lights.push({
+      ...getDefaultLightUniforms(directionalLight),
+      lightType: LIGHT_TYPE.DIRECTIONAL,
+      direction: directionalLight.direction
+    });
+  }
+
+  for (const spotLight of spotLights) {
+    const {innerConeAngle = 0, outerConeAngle = Math.PI / 4} = spotLight;
+    lights.push({
+      ...getDefaultLightUniforms(spotLight),
+      lightType: LIGHT_TYPE.SPOT,
+      direction: spotLight.direction,
+      attenuation: getAttenuation(spotLight.attenuation),
+      range: spotLight.range || 0,
+      coneCos: [Math.cos(innerConeAngle), Math.cos(outerConeAngle)]
+    });
   }
 
-  lightSourceUniforms.numberOfLights = currentLight;
+  // Lights beyond MAX_LIGHTS are ignored
+  return {
+    ambientLightColor: convertColor(ambientLight),
+    numberOfLights: Math.min(lights.length, MAX_LIGHTS),
+    lights: lights.slice(0, MAX_LIGHTS)
+  };
+}
+
+function getDefaultLightUniforms(light: PointLight | DirectionalLight | SpotLight): LightUniforms {
+  return {
+    color: convertColor(light),
+    lightType: LIGHT_TYPE.POINT,
+    position: light.position,
+    range: 0,
+    direction: [0, 0, -1],
+    attenuation: [1, 0, 0],
+    coneCos: [1, 0]
+  };
+}
 
-  return lightSourceUniforms;
+/**
+ * A single number is a constant attenuation.
+ * A constant of 0 would divide by zero, so like in previous versions it turns off falloff
+ */
+function getAttenuation(attenuation: number | Readonly<NumberArray> | undefined): Readonly<NumberArray> {
+  if (attenuation === undefined) {
+    return INVERSE_SQUARE_ATTENUATION;
+  }
+  return typeof attenuation === 'number' ? [attenuation || 1, 0, 0] : attenuation;
 }
 
-function extractLightTypes(lights: Light[]): LightingProps {
-  const lightSources: LightingProps = {pointLights: [], directionalLights: []};
+function extractLightTypes(lights: Light[]): LightSources {
+  const lightSources: LightSources = {pointLights: [], directionalLights: [], spotLights: []};
   for (const light of lights || []) {
     switch (light.type) {
       case 'ambient':
@@ -203,6 +273,9 @@ function extractLightTypes(lights: Light[]): LightingProps {
       case 'point':
         lightSources.pointLights?.push(light);
         break;
+      case 'spot':
+        lightSources.spotLights?.push(light);
+        break;
       default:
       // eslint-disable-next-line
       // console.warn(light.type);
@@ -44,7 +44,8 @@ uniform pbrMaterial {
   float normalScale; // #ifdef HAS_NORMALMAP
 
   bool emissiveMapEnabled;
-  vec3 emissiveFactor; // #ifdef HAS_EMISSIVEMAP
+  vec3 emissiveFactor;
+  float emissiveStrength; // KHR_materials_emissive_strength
 
   vec2 metallicRoughnessValues;
   bool metallicRoughnessMapEnabled;
@@ -64,6 +65,48 @@ uniform pbrMaterial {
   vec4 scaleDiffBaseMR;
   vec4 scaleFGDSpec;
   // #endif
+
+  // KHR_materials_ior
+  float ior;
+
+  // KHR_materials_specular
+  float specularFactor;
+  vec3 specularColorFactor;
+  bool specularMapEnabled;
+  bool specularColorMapEnabled;
+
+  // KHR_materials_clearcoat, #ifdef HAS_CLEARCOAT
+  float clearcoatFactor;
+  float clearcoatRoughnessFactor;
+  float clearcoatNormalScale;
+  bool clearcoatMapEnabled;
+  bool clearcoatRoughnessMapEnabled;
+  bool clearcoatNormalMapEnabled;
+
+  // KHR_materials_transmission, #ifdef HAS_TRANSMISSION
+  float transmissionFactor;
+  bool transmissionMapEnabled;
+
+  // KHR_materials_sheen, #ifdef HAS_SHEEN
+  vec3 sheenColorFactor;
+  float sheenRoughnessFactor;
+  bool sheenColorMapEnabled;
+  bool sheenRoughnessMapEnabled;
+
+  // KHR_texture_transform
+  mat3 baseColorUVTransform;
+  mat3 normalUVTransform;
+  mat3 emissiveUVTransform;
+  mat3 metallicRoughnessUVTransform;
+  mat3 occlusionUVTransform;
+  mat3 specularUVTransform;
+  mat3 specularColorUVTransform;
+  mat3 clearcoatUVTransform;
+  mat3 clearcoatRoughnessUVTransform;
+  mat3 clearcoatNormalUVTransform;
+  mat3 transmissionUVTransform;
+  mat3 sheenColorUVTransform;
+  mat3 sheenRoughnessUVTransform;
 } u_pbrMaterial;
 
 // Samplers
@@ -87,11 +130,36 @@ uniform samplerCube u_DiffuseEnvSampler;
 uniform samplerCube u_SpecularEnvSampler;
 uniform sampler2D u_brdfLUT;
 #endif
+#ifdef HAS_SPECULARMAP
+uniform sampler2D u_SpecularSampler;
+#endif
+#ifdef HAS_SPECULARCOLORMAP
+uniform sampler2D u_SpecularColorSampler;
+#endif
+#ifdef HAS_CLEARCOATMAP
+uniform sampler2D u_ClearcoatSampler;
+#endif
+#ifdef HAS_CLEARCOATROUGHNESSMAP
+uniform sampler2D u_ClearcoatRoughnessSampler;
+#endif
+#ifdef HAS_CLEARCOATNORMALMAP
+uniform sampler2D u_ClearcoatNormalSampler;
+#endif
+#ifdef HAS_TRANSMISSIONMAP
+uniform sampler2D u_TransmissionSampler;
+#endif
+#ifdef HAS_SHEENCOLORMAP
+uniform sampler2D u_SheenColorSampler;
+#endif
+#ifdef HAS_SHEENROUGHNESSMAP
+uniform sampler2D u_SheenRoughnessSampler;
+#endif
 
 // Inputs from vertex shader
 
 varying vec3 pbr_vPosition;
 varying vec2 pbr_vUV;
+varying vec2 pbr_vUV1;
 
 #ifdef HAS_NORMALS
 #ifdef HAS_TANGENTS
@@ -121,6 +189,15 @@ struct PBRInfo {
   vec3 v;                       // vector from surface point to camera
 };
 
+// Optional layers on top of the base material, from glTF material extensions
+struct PBRLayers {
+  float clearcoat;              // clearcoat intensity
+  float clearcoatRoughness;     // clearcoat perceptual roughness
+  vec3 clearcoatNormal;         // normal of the clearcoat layer
+  vec3 sheenColor;              // sheen intensity and color
+  float sheenRoughness;         // sheen perceptual roughness
+};
+
 const float M_PI = 3.141592653589793;
 const float c_MinRoughness = 0.04;
 
@@ -139,16 +216,26 @@ vec4 SRGBtoLINEAR(vec4 srgbIn)
 #endif //MANUAL_SRGB
 }
 
-// Find the normal for this fragment, pulling either from a predefined normal map
-// or from the interpolated mesh normal and tangent attributes.
-vec3 getNormal()
+// Select a UV set (the texCoord of a glTF texture info)
+vec2 getUVSet(int texCoord)
+{
+  return texCoord == 1 ? pbr_vUV1 : pbr_vUV;
+}
+
+// Apply a texture transform to the texture coordinates of a UV set
+vec2 getUV(mat3 uvTransform, int texCoord)
+{
+  return (uvTransform * vec3(getUVSet(texCoord), 1.0)).xy;
+}
+
+// Retrieve the tangent space matrix
+mat3 getTBN()
 {
-  // Retrieve the tangent space matrix
 #ifndef HAS_TANGENTS
   vec3 pos_dx = dFdx(pbr_vPosition);
   vec3 pos_dy = dFdy(pbr_vPosition);
-  vec3 tex_dx = dFdx(vec3(pbr_vUV, 0.0));
-  vec3 tex_dy = dFdy(vec3(pbr_vUV, 0.0));
+  vec3 tex_dx = dFdx(vec3(getUVSet(NORMALMAP_TEXCOORD), 0.0));
+  vec3 tex_dy = dFdy(vec3(getUVSet(NORMALMAP_TEXCOORD), 0.0));
   vec3 t = (tex_dy.t * pos_dx - tex_dx.t * pos_dy) / (tex_dx.s * tex_dy.t - tex_dy.s * tex_dx.t);
 
 #ifdef HAS_NORMALS
@@ -164,8 +251,15 @@ vec3 getNormal()
   mat3 tbn = pbr_vTBN;
 #endif
 
+  return tbn;
+}
+
+// Find the normal for this fragment, pulling either from a predefined normal map
+// or from the interpolated mesh normal and tangent attributes.
+vec3 getNormal(mat3 tbn)
+{
 #ifdef HAS_NORMALMAP
-  vec3 n = texture2D(u_NormalSampler, pbr_vUV).rgb;
+  vec3 n = texture2D(u_NormalSampler, getUV(u_pbrMaterial.normalUVTransform, NORMALMAP_TEXCOORD)).rgb;
   n = normalize(tbn * ((2.0 * n - 1.0) * vec3(u_pbrMaterial.normalScale, u_pbrMaterial.normalScale, 1.0)));
 #else
   // The tbn matrix is linearly interpolated, so we need to re-normalize
@@ -269,8 +363,8 @@ void PBRInfo_setDirectionalLight(inout PBRInfo pbrInfo, vec3 lightDirection) {
   pbrInfo.VdotH = clamp(dot(v, h), 0.0, 1.0);
 }
 
-void PBRInfo_setPointLight(inout PBRInfo pbrInfo, PointLight pointLight) {
-  vec3 light_direction = normalize(pointLight.position - pbr_vPosition);
+void PBRInfo_setLight(inout PBRInfo pbrInfo, Light light) {
+  vec3 light_direction = lighting_getLightDirection(light, pbr_vPosition);
   PBRInfo_setDirectionalLight(pbrInfo, light_direction);
 }
 
@@ -287,11 +381,58 @@ vec3 calculateFinalColor(PBRInfo pbrInfo, vec3 lightColor) {
   return pbrInfo.NdotL * lightColor * (diffuseContrib + specContrib);
 }
 
+// Sheen distribution ("Charlie"), from "Production Friendly Microfacet Sheen BRDF", Estevez and Kulla 2017
+float sheenDistribution(float sheenRoughness, float NdotH)
+{
+  float alphaG = max(sheenRoughness * sheenRoughness, 0.0001);
+  float invR = 1.0 / alphaG;
+  float sin2h = max(1.0 - NdotH * NdotH, 0.0078125);
+  return (2.0 + invR) * pow(sin2h, invR * 0.5) / (2.0 * M_PI);
+}
+
+// Sheen visibility, from "Physically Based Rendering on the Xbox One", Neubelt and Pettineo 2013
+float sheenVisibility(float NdotL, float NdotV)
+{
+  return 1.0 / (4.0 * (NdotL + NdotV - NdotL * NdotV));
+}
+
+// Adds the clearcoat and sheen layers to the lighting contribution of the base material
+vec3 calculateLayeredColor(PBRInfo pbrInfo, PBRLayers layers, vec3 lightDirection, vec3 lightColor)
+{
+  vec3 color = calculateFinalColor(pbrInfo, lightColor);
+
+#ifdef HAS_SHEEN
+  float sheen = sheenDistribution(layers.sheenRoughness, pbrInfo.NdotH) *
+    sheenVisibility(pbrInfo.NdotL, pbrInfo.NdotV);
+  color += pbrInfo.NdotL * lightColor * layers.sheenColor * sheen;
+#endif
+
+#ifdef HAS_CLEARCOAT
+  // The clearcoat layer is a dielectric with an IOR of 1.5 on top of the base material
+  PBRInfo clearcoatInfo = pbrInfo;
+  clearcoatInfo.n = layers.clearcoatNormal;
+  clearcoatInfo.NdotV = clamp(abs(dot(layers.clearcoatNormal, pbrInfo.v)), 0.001, 1.0);
+  clearcoatInfo.reflectance0 = vec3(0.04);
+  clearcoatInfo.reflectance90 = vec3(1.0);
+  clearcoatInfo.alphaRoughness = layers.clearcoatRoughness * layers.clearcoatRoughness;
+  PBRInfo_setDirectionalLight(clearcoatInfo, lightDirection);
+
+  vec3 F = specularReflection(clearcoatInfo);
+  float G = geometricOcclusion(clearcoatInfo);
+  float D = microfacetDistribution(clearcoatInfo);
+  vec3 clearcoatContrib = F * G * D / (4.0 * clearcoatInfo.NdotL * clearcoatInfo.NdotV);
+  color = color * (1.0 - layers.clearcoat * F) +
+    layers.clearcoat * clearcoatInfo.NdotL * lightColor * clearcoatContrib;
+#endif
+
+  return color;
+}
+
 vec4 pbr_filterColor(vec4 colorUnused)
 {
   // The albedo may be defined from a base texture or a flat color
 #ifdef HAS_BASECOLORMAP
-  vec4 baseColor = SRGBtoLINEAR(texture2D(u_BaseColorSampler, pbr_vUV)) * u_pbrMaterial.baseColorFactor;
+  vec4 baseColor = SRGBtoLINEAR(texture2D(u_BaseColorSampler, getUV(u_pbrMaterial.baseColorUVTransform, BASECOLORMAP_TEXCOORD))) * u_pbrMaterial.baseColorFactor;
 #else
   vec4 baseColor = u_pbrMaterial.baseColorFactor;
 #endif
@@ -303,6 +444,9 @@ vec4 pbr_filterColor(vec4 colorUnused)
 #endif
 
   vec3 color = vec3(0, 0, 0);
+#ifdef HAS_TRANSMISSION
+  float transmission = 0.0;
+#endif
 
   if(u_pbrMaterial.unlit){
     color.rgb = baseColor.rgb;
@@ -316,7 +460,7 @@ vec4 pbr_filterColor(vec4 colorUnused)
 #ifdef HAS_METALROUGHNESSMAP
     // Roughness is stored in the 'g' channel, metallic is stored in the 'b' channel.
     // This layout intentionally reserves the 'r' channel for (optional) occlusion map data
-    vec4 mrSample = texture2D(u_MetallicRoughnessSampler, pbr_vUV);
+    vec4 mrSample = texture2D(u_MetallicRoughnessSampler, getUV(u_pbrMaterial.metallicRoughnessUVTransform, METALROUGHNESSMAP_TEXCOORD));
     perceptualRoughness = mrSample.g * perceptualRoughness;
     metallic = mrSample.b * metallic;
 #endif
@@ -326,11 +470,40 @@ vec4 pbr_filterColor(vec4 colorUnused)
     // convert to material roughness by squaring the perceptual roughness [2].
     float alphaRoughness = perceptualRoughness * perceptualRoughness;
 
-    vec3 f0 = vec3(0.04);
+    // Reflectance of dielectrics at normal incidence, from the index of refraction (0.04 for IOR 1.5)
+    float ior = u_pbrMaterial.ior;
+    vec3 f0 = vec3(pow((ior - 1.0) / (ior + 1.0), 2.0));
+
+    // Specular strength and color of dielectrics
+    float specularFactor = u_pbrMaterial.specularFactor;
+    vec3 specularColorFactor = u_pbrMaterial.specularColorFactor;
+#ifdef HAS_SPECULARMAP
+    if (u_pbrMaterial.specularMapEnabled) {
+      specularFactor *= texture2D(u_SpecularSampler, getUV(u_pbrMaterial.specularUVTransform, SPECULARMAP_TEXCOORD)).a;
+    }
+#endif
+#ifdef HAS_SPECULARCOLORMAP
+    if (u_pbrMaterial.specularColorMapEnabled) {
+      specularColorFactor *= SRGBtoLINEAR(texture2D(u_SpecularColorSampler, getUV(u_pbrMaterial.specularColorUVTransform, SPECULARCOLORMAP_TEXCOORD))).rgb;
+    }
+#endif
+    f0 = min(f0 * specularColorFactor, vec3(1.0)) * specularFactor;
+
     vec3 diffuseColor = baseColor.rgb * (vec3(1.0) - f0);
     diffuseColor *= 1.0 - metallic;
     vec3 specularColor = mix(f0, baseColor.rgb, metallic);
 
+#ifdef HAS_TRANSMISSION
+    // Transmitted light replaces diffuse light, the background shows through
+    transmission = u_pbrMaterial.transmissionFactor;
+#ifdef HAS_TRANSMISSIONMAP
+    if (u_pbrMaterial.transmissionMapEnabled) {
+      transmission *= texture2D(u_TransmissionSampler, getUV(u_pbrMaterial.transmissionUVTransform, TRANSMISSIONMAP_TEXCOORD)).r;
+    }
+#endif
+    diffuseColor *= 1.0 - transmission;
+#endif
+
     // Compute reflectance.
     float reflectance = max(max(specularColor.r, specularColor.g), specularColor.b);
 
@@ -342,7 +515,8 @@ vec4 pbr_filterColor(vec4 colorUnused)
     vec3 specularEnvironmentR0 = specularColor.rgb;
     vec3 specularEnvironmentR90 = vec3(1.0, 1.0, 1.0) * reflectance90;
 
-    vec3 n = getNormal();                          // normal at surface point
+    mat3 tbn = getTBN();
+    vec3 n = getNormal(tbn);                       // normal at surface point
     vec3 v = normalize(u_Camera - pbr_vPosition);  // Vector from surface point to camera
 
     float NdotV = clamp(abs(dot(n, v)), 0.001, 1.0);
@@ -365,32 +539,66 @@ vec4 pbr_filterColor(vec4 colorUnused)
       v
     );
 
+    PBRLayers layers = PBRLayers(0.0, 0.0, n, vec3(0.0), 0.0);
+#ifdef HAS_CLEARCOAT
+    layers.clearcoat = u_pbrMaterial.clearcoatFactor;
+    layers.clearcoatRoughness = u_pbrMaterial.clearcoatRoughnessFactor;
+#ifdef HAS_CLEARCOATMAP
+    if (u_pbrMaterial.clearcoatMapEnabled) {
+      layers.clearcoat *= texture2D(u_ClearcoatSampler, getUV(u_pbrMaterial.clearcoatUVTransform, CLEARCOATMAP_TEXCOORD)).r;
+    }
+#endif
+#ifdef HAS_CLEARCOATROUGHNESSMAP
+    if (u_pbrMaterial.clearcoatRoughnessMapEnabled) {
+      layers.clearcoatRoughness *= texture2D(u_ClearcoatRoughnessSampler, getUV(u_pbrMaterial.clearcoatRoughnessUVTransform, CLEARCOATROUGHNESSMAP_TEXCOORD)).g;
+    }
+#endif
+    layers.clearcoatRoughness = clamp(layers.clearcoatRoughness, c_MinRoughness, 1.0);
+    layers.clearcoatNormal = normalize(tbn[2].xyz);
+#ifdef HAS_CLEARCOATNORMALMAP
+    if (u_pbrMaterial.clearcoatNormalMapEnabled) {
+      vec3 clearcoatNormal = texture2D(u_ClearcoatNormalSampler, getUV(u_pbrMaterial.clearcoatNormalUVTransform, CLEARCOATNORMALMAP_TEXCOORD)).rgb;
+      float clearcoatNormalScale = u_pbrMaterial.clearcoatNormalScale;
+      layers.clearcoatNormal = normalize(tbn * ((2.0 * clearcoatNormal - 1.0) * vec3(clearcoatNormalScale, clearcoatNormalScale, 1.0)));
+    }
+#endif
+#endif
+#ifdef HAS_SHEEN
+    layers.sheenColor = u_pbrMaterial.sheenColorFactor;
+    layers.sheenRoughness = u_pbrMaterial.sheenRoughnessFactor;
+#ifdef HAS_SHEENCOLORMAP
+    if (u_pbrMaterial.sheenColorMapEnabled) {
+      layers.sheenColor *= SRGBtoLINEAR(texture2D(u_SheenColorSampler, getUV(u_pbrMaterial.sheenColorUVTransform, SHEENCOLORMAP_TEXCOORD))).rgb;
+    }
+#endif
+#ifdef HAS_SHEENROUGHNESSMAP
+    if (u_pbrMaterial.sheenRoughnessMapEnabled) {
+      layers.sheenRoughness *= texture2D(u_SheenRoughnessSampler, getUV(u_pbrMaterial.sheenRoughnessUVTransform, SHEENROUGHNESSMAP_TEXCOORD)).a;
+    }
+#endif
+#endif
+
 #ifdef USE_LIGHTS
     // Apply ambient light
     PBRInfo_setAmbientLight(pbrInfo);
-    color += calculateFinalColor(pbrInfo, lighting_uAmbientLight.color);
-
-    // Apply directional light
-    SMART_FOR(int i = 0, i < MAX_LIGHTS, i < lighting_uDirectionalLightCount, i++) {
-      if (i < lighting_uDirectionalLightCount) {
-        PBRInfo_setDirectionalLight(pbrInfo, lighting_uDirectionalLight[i].direction);
-        color += calculateFinalColor(pbrInfo, lighting_uDirectionalLight[i].color);
-      }
-    }
+    color += calculateFinalColor(pbrInfo, lighting.ambientLightColor);
 
-    // Apply point light
-    SMART_FOR(int i = 0, i < MAX_LIGHTS, i < lighting_uPointLightCount, i++) {
-      if (i < lighting_uPointLightCount) {
-        PBRInfo_setPointLight(pbrInfo, lighting_uPointLight[i]);
-        float attenuation = getPointLightAttenuation(lighting_uPointLight[i], distance(lighting_uPointLight[i].position, pbr_vPosition));
-        color += calculateFinalColor(pbrInfo, lighting_uPointLight[i].color / attenuation);
+    // Apply directional, point and spot lights
+    for (int i = 0; i < MAX_LIGHTS; i++) {
+      if (i >= lighting.numberOfLights) {
+        break;
       }
+      Light light = lighting.lights[i];
+      vec3 lightDirection = lighting_getLightDirection(light, pbr_vPosition);
+      PBRInfo_setDirectionalLight(pbrInfo, lightDirection);
+      float intensity = lighting_getLightIntensity(light, pbr_vPosition);
+      color += calculateLayeredColor(pbrInfo, layers, lightDirection, light.color * intensity);
     }
 #endif
 
     // Calculate lighting contribution from image based lighting source (IBL)
 #ifdef USE_IBL
-    if (u_pbrMateral.IBLEnabled) {
+    if (u_pbrMaterial.IBLenabled) {
       color += getIBLContribution(pbrInfo, n, reflection);
     }
 #endif
@@ -398,17 +606,18 @@ vec4 pbr_filterColor(vec4 colorUnused)
     // Apply optional PBR terms for additional (optional) shading
 #ifdef HAS_OCCLUSIONMAP
     if (u_pbrMaterial.occlusionMapEnabled) {
-      float ao = texture2D(u_OcclusionSampler, pbr_vUV).r;
+      float ao = texture2D(u_OcclusionSampler, getUV(u_pbrMaterial.occlusionUVTransform, OCCLUSIONMAP_TEXCOORD)).r;
       color = mix(color, color * ao, u_pbrMaterial.occlusionStrength);
     }
 #endif
 
+    vec3 emissive = u_pbrMaterial.emissiveFactor * u_pbrMaterial.emissiveStrength;
 #ifdef HAS_EMISSIVEMAP
-    if (u_pbrMaterial.emmissiveMapEnabled) {
-      vec3 emissive = SRGBtoLINEAR(texture2D(u_EmissiveSampler, pbr_vUV)).rgb * u_pbrMaterial.emissiveFactor;
-      color += emissive;
+    if (u_pbrMaterial.emissiveMapEnabled) {
+      emissive *= SRGBtoLINEAR(texture2D(u_EmissiveSampler, getUV(u_pbrMaterial.emissiveUVTransform, EMISSIVEMAP_TEXCOORD))).rgb;
     }
 #endif
+    color += emissive;
 
     // This section uses mix to override final color for reference app visualization
     // of various parameters in the lighting equation.
@@ -428,6 +637,11 @@ vec4 pbr_filterColor(vec4 colorUnused)
 
   }
 
+#ifdef HAS_TRANSMISSION
+  // Diffuse light is already scaled by opacity, for blending with premultiplied alpha
+  return vec4(pow(color,vec3(1.0/2.2)), baseColor.a * (1.0 - transmission));
+#endif
+
   return vec4(pow(color,vec3(1.0/2.2)), baseColor.a);
 }
 `;
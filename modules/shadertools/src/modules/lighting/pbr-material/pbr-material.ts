@@ -2,7 +2,7 @@
 /* eslint-disable camelcase */
 
 import type {NumberArray, Texture} from '@luma.gl/core';
-import type {Vector2, Vector3, Vector4} from '@math.gl/core';
+import type {Matrix3, Vector2, Vector3, Vector4} from '@math.gl/core';
 
 import {ShaderModule} from '../../../lib/shader-module/shader-module';
 import {lighting} from '../lights/lighting-uniforms';
@@ -11,37 +11,7 @@ import {vs} from './pbr-vertex.glsl';
 import {fs} from './pbr-fragment.glsl';
 
 
-export type PBRMaterialProps = PBRMaterialBindings & {
-  unlit: boolean;
-
-  // Base color map
-  baseColorMapEnabled: boolean;
-  baseColorFactor: Readonly<Vector4 | NumberArray>;
-
-  normalMapEnabled: boolean;  
-  normalScale: number; // #ifdef HAS_NORMALMAP
-
-  emissiveMapEnabled: boolean;
-  emissiveFactor: Readonly<Vector3 | NumberArray>; // #ifdef HAS_EMISSIVEMAP
-
-  metallicRoughnessValues: Readonly<Vector2 | NumberArray>;
-  metallicRoughnessMapEnabled: boolean;
-
-  occlusionMapEnabled: boolean;
-  occlusionStrength: number; // #ifdef HAS_OCCLUSIONMAP
-
-  alphaCutoffEnabled: boolean;
-  alphaCutoff: number; // #ifdef ALPHA_CUTOFF
-
-  // IBL
-  IBLenabled: boolean;
-  scaleIBLAmbient: Readonly<Vector2 | NumberArray>; // #ifdef USE_IBL
-
-  // debugging flags used for shader output of intermediate PBR variables
-  // #ifdef PBR_DEBUG
-  scaleDiffBaseMR: Readonly<Vector4 | NumberArray>;
-  scaleFGDSpec: Readonly<Vector4 | NumberArray>;
-};
+export type PBRMaterialProps = PBRMaterialBindings & PBRMaterialUniforms;
 
 /** Non-uniform block bindings for pbr module */
 type PBRMaterialBindings = {
@@ -56,8 +26,20 @@ type PBRMaterialBindings = {
   diffuseEnvSampler: Texture | null; // #ifdef USE_IBL (samplerCube)
   specularEnvSampler: Texture | null; // #ifdef USE_IBL (samplerCube)
   brdfLUT?: Texture | null; // #ifdef USE_IBL
+
+  // Material extension samplers
+  specularSampler?: Texture | null; // #ifdef HAS_SPECULARMAP
+  specularColorSampler?: Texture | null; // #ifdef HAS_SPECULARCOLORMAP
+  clearcoatSampler?: Texture | null; // #ifdef HAS_CLEARCOATMAP
+  clearcoatRoughnessSampler?: Texture | null; // #ifdef HAS_CLEARCOATROUGHNESSMAP
+  clearcoatNormalSampler?: Texture | null; // #ifdef HAS_CLEARCOATNORMALMAP
+  transmissionSampler?: Texture | null; // #ifdef HAS_TRANSMISSIONMAP
+  sheenColorSampler?: Texture | null; // #ifdef HAS_SHEENCOLORMAP
+  sheenRoughnessSampler?: Texture | null; // #ifdef HAS_SHEENROUGHNESSMAP
 }
 
+type UVTransform = Readonly<Matrix3 | NumberArray>;
+
 export type PBRMaterialUniforms = {
   unlit: boolean;
 
@@ -69,7 +51,8 @@ export type PBRMaterialUniforms = {
   normalScale: number; // #ifdef HAS_NORMALMAP
 
   emissiveMapEnabled: boolean;
-  emissiveFactor: Readonly<Vector3 | NumberArray>; // #ifdef HAS_EMISSIVEMAP
+  emissiveFactor: Readonly<Vector3 | NumberArray>;
+  emissiveStrength: number; // KHR_materials_emissive_strength
 
   metallicRoughnessValues: Readonly<Vector2 | NumberArray>;
   metallicRoughnessMapEnabled: boolean;
@@ -88,8 +71,52 @@ export type PBRMaterialUniforms = {
   // #ifdef PBR_DEBUG
   scaleDiffBaseMR: Readonly<Vector4 | NumberArray>;
   scaleFGDSpec: Readonly<Vector4 | NumberArray>;
+
+  // KHR_materials_ior
+  ior: number;
+
+  // KHR_materials_specular
+  specularFactor: number;
+  specularColorFactor: Readonly<Vector3 | NumberArray>;
+  specularMapEnabled: boolean;
+  specularColorMapEnabled: boolean;
+
+  // KHR_materials_clearcoat, #ifdef HAS_CLEARCOAT
+  clearcoatFactor: number;
+  clearcoatRoughnessFactor: number;
+  clearcoatNormalScale: number;
+  clearcoatMapEnabled: boolean;
+  clearcoatRoughnessMapEnabled: boolean;
+  clearcoatNormalMapEnabled: boolean;
+
+  // KHR_materials_transmission, #ifdef HAS_TRANSMISSION
+  transmissionFactor: number;
+  transmissionMapEnabled: boolean;
+
+  // KHR_materials_sheen, #ifdef HAS_SHEEN
+  sheenColorFactor: Readonly<Vector3 | NumberArray>;
+  sheenRoughnessFactor: number;
+  sheenColorMapEnabled: boolean;
+  sheenRoughnessMapEnabled: boolean;
+
+  // KHR_texture_transform
+  baseColorUVTransform: UVTransform;
+  normalUVTransform: UVTransform;
+  emissiveUVTransform: UVTransform;
+  metallicRoughnessUVTransform: UVTransform;
+  occlusionUVTransform: UVTransform;
+  specularUVTransform: UVTransform;
+  specularColorUVTransform: UVTransform;
+  clearcoatUVTransform: UVTransform;
+  clearcoatRoughnessUVTransform: UVTransform;
+  clearcoatNormalUVTransform: UVTransform;
+  transmissionUVTransform: UVTransform;
+  sheenColorUVTransform: UVTransform;
+  sheenRoughnessUVTransform: UVTransform;
 }
 
+const IDENTITY_UV_TRANSFORM = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
 /**
  * An implementation of PBR (Physically-Based Rendering).
  * Physically Based Shading of a microfacet surface defined by a glTF material.
@@ -107,7 +134,32 @@ export const pbrMaterial: ShaderModule<PBRMaterialProps, PBRMaterialUniforms> =
     HAS_METALROUGHNESSMAP: 0,
     ALPHA_CUTOFF: 0,
     USE_IBL: 0,
-    PBR_DEBUG: 0
+    PBR_DEBUG: 0,
+    HAS_SPECULARMAP: 0,
+    HAS_SPECULARCOLORMAP: 0,
+    HAS_CLEARCOAT: 0,
+    HAS_CLEARCOATMAP: 0,
+    HAS_CLEARCOATROUGHNESSMAP: 0,
+    HAS_CLEARCOATNORMALMAP: 0,
+    HAS_TRANSMISSION: 0,
+    HAS_TRANSMISSIONMAP: 0,
+    HAS_SHEEN: 0,
+    HAS_SHEENCOLORMAP: 0,
+    HAS_SHEENROUGHNESSMAP: 0,
+    // UV set of each texture (glTF texCoord)
+    BASECOLORMAP_TEXCOORD: 0,
+    NORMALMAP_TEXCOORD: 0,
+    EMISSIVEMAP_TEXCOORD: 0,
+    METALROUGHNESSMAP_TEXCOORD: 0,
+    OCCLUSIONMAP_TEXCOORD: 0,
+    SPECULARMAP_TEXCOORD: 0,
+    SPECULARCOLORMAP_TEXCOORD: 0,
+    CLEARCOATMAP_TEXCOORD: 0,
+    CLEARCOATROUGHNESSMAP_TEXCOORD: 0,
+    CLEARCOATNORMALMAP_TEXCOORD: 0,
+    TRANSMISSIONMAP_TEXCOORD: 0,
+    SHEENCOLORMAP_TEXCOORD: 0,
+    SHEENROUGHNESSMAP_TEXCOORD: 0
   },
   uniformTypes: {
     // Material is unlit
@@ -121,7 +173,8 @@ export const pbrMaterial: ShaderModule<PBRMaterialProps, PBRMaterialUniforms> =
     normalScale: 'f32', // #ifdef HAS_NORMALMAP
 
     emissiveMapEnabled: 'i32',
-    emissiveFactor: 'vec3<f32>', // #ifdef HAS_EMISSIVEMAP
+    emissiveFactor: 'vec3<f32>',
+    emissiveStrength: 'f32',
 
     metallicRoughnessValues: 'vec2<f32>',
     metallicRoughnessMapEnabled: 'i32',
@@ -140,6 +193,98 @@ export const pbrMaterial: ShaderModule<PBRMaterialProps, PBRMaterialUniforms> =
     // #ifdef PBR_DEBUG
     scaleDiffBaseMR: 'vec4<f32>',
     scaleFGDSpec: 'vec4<f32>',
+
+    // KHR_materials_ior
+    ior: 'f32',
+
+    // KHR_materials_specular
+    specularFactor: 'f32',
+    specularColorFactor: 'vec3<f32>',
+    specularMapEnabled: 'i32',
+    specularColorMapEnabled: 'i32',
+
+    // KHR_materials_clearcoat
+    clearcoatFactor: 'f32',
+    clearcoatRoughnessFactor: 'f32',
+    clearcoatNormalScale: 'f32',
+    clearcoatMapEnabled: 'i32',
+    clearcoatRoughnessMapEnabled: 'i32',
+    clearcoatNormalMapEnabled: 'i32',
+
+    // KHR_materials_transmission
+    transmissionFactor: 'f32',
+    transmissionMapEnabled: 'i32',
+
+    // KHR_materials_sheen
+    sheenColorFactor: 'vec3<f32>',
+    sheenRoughnessFactor: 'f32',
+    sheenColorMapEnabled: 'i32',
+    sheenRoughnessMapEnabled: 'i32',
+
+    // KHR_texture_transform
+    baseColorUVTransform: 'mat3x3<f32>',
+    normalUVTransform: 'mat3x3<f32>',
+    emissiveUVTransform: 'mat3x3<f32>',
+    metallicRoughnessUVTransform: 'mat3x3<f32>',
+    occlusionUVTransform: 'mat3x3<f32>',
+    specularUVTransform: 'mat3x3<f32>',
+    specularColorUVTransform: 'mat3x3<f32>',
+    clearcoatUVTransform: 'mat3x3<f32>',
+    clearcoatRoughnessUVTransform: 'mat3x3<f32>',
+    clearcoatNormalUVTransform: 'mat3x3<f32>',
+    transmissionUVTransform: 'mat3x3<f32>',
+    sheenColorUVTransform: 'mat3x3<f32>',
+    sheenRoughnessUVTransform: 'mat3x3<f32>'
+  },
+  defaultUniforms: {
+    unlit: false,
+    baseColorMapEnabled: false,
+    baseColorFactor: [1, 1, 1, 1],
+    normalMapEnabled: false,
+    normalScale: 1,
+    emissiveMapEnabled: false,
+    emissiveFactor: [0, 0, 0],
+    emissiveStrength: 1,
+    metallicRoughnessValues: [1, 1],
+    metallicRoughnessMapEnabled: false,
+    occlusionMapEnabled: false,
+    occlusionStrength: 1,
+    alphaCutoffEnabled: false,
+    alphaCutoff: 0.5,
+    IBLenabled: false,
+    scaleIBLAmbient: [1, 1],
+    scaleDiffBaseMR: [0, 0, 0, 0],
+    scaleFGDSpec: [0, 0, 0, 0],
+    ior: 1.5,
+    specularFactor: 1,
+    specularColorFactor: [1, 1, 1],
+    specularMapEnabled: false,
+    specularColorMapEnabled: false,
+    clearcoatFactor: 0,
+    clearcoatRoughnessFactor: 0,
+    clearcoatNormalScale: 1,
+    clearcoatMapEnabled: false,
+    clearcoatRoughnessMapEnabled: false,
+    clearcoatNormalMapEnabled: false,
+    transmissionFactor: 0,
+    transmissionMapEnabled: false,
+    sheenColorFactor: [0, 0, 0],
+    sheenRoughnessFactor: 0,
+    sheenColorMapEnabled: false,
+    sheenRoughnessMapEnabled: false,
+    baseColorUVTransform: IDENTITY_UV_TRANSFORM,
+    normalUVTransform: IDENTITY_UV_TRANSFORM,
+    emissiveUVTransform: IDENTITY_UV_TRANSFORM,
+    metallicRoughnessUVTransform: IDENTITY_UV_TRANSFORM,
+    occlusionUVTransform: IDENTITY_UV_TRANSFORM,
+    specularUVTransform: IDENTITY_UV_TRANSFORM,
+    specularColorUVTransform: IDENTITY_UV_TRANSFORM,
+    clearcoatUVTransform: IDENTITY_UV_TRANSFORM,
+    clearcoatRoughnessUVTransform: IDENTITY_UV_TRANSFORM,
+    clearcoatNormalUVTransform: IDENTITY_UV_TRANSFORM,
+    transmissionUVTransform: IDENTITY_UV_TRANSFORM,
+    sheenColorUVTransform: IDENTITY_UV_TRANSFORM,
+    sheenRoughnessUVTransform: IDENTITY_UV_TRANSFORM
   },
   bindings: {
     baseColorSampler: {type: 'texture', location: 8}, // #ifdef HAS_BASECOLORMAP
@@ -151,6 +296,15 @@ export const pbrMaterial: ShaderModule<PBRMaterialProps, PBRMaterialUniforms> =
     diffuseEnvSampler: {type: 'texture', location: 13}, // #ifdef USE_IBL (samplerCube)
     specularEnvSampler: {type: 'texture', location: 14 }, // #ifdef USE_IBL (samplerCube)
     brdfLUT: {type: 'texture', location: 15}, // #ifdef USE_IBL
+    // Material extension samplers
+    specularSampler: {type: 'texture', location: 16}, // #ifdef HAS_SPECULARMAP
+    specularColorSampler: {type: 'texture', location: 17}, // #ifdef HAS_SPECULARCOLORMAP
+    clearcoatSampler: {type: 'texture', location: 18}, // #ifdef HAS_CLEARCOATMAP
+    clearcoatRoughnessSampler: {type: 'texture', location: 19}, // #ifdef HAS_CLEARCOATROUGHNESSMAP
+    clearcoatNormalSampler: {type: 'texture', location: 20}, // #ifdef HAS_CLEARCOATNORMALMAP
+    transmissionSampler: {type: 'texture', location: 21}, // #ifdef HAS_TRANSMISSIONMAP
+    sheenColorSampler: {type: 'texture', location: 22}, // #ifdef HAS_SHEENCOLORMAP
+    sheenRoughnessSampler: {type: 'texture', location: 23}, // #ifdef HAS_SHEENROUGHNESSMAP
   },
   dependencies: [lighting]
 };
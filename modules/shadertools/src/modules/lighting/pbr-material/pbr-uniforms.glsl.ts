@@ -21,7 +21,8 @@ uniform pbrMaterialUniforms {
   float normalScale; // #ifdef HAS_NORMALMAP
 
   bool emissiveMapEnabled;
-  vec3 emissiveFactor; // #ifdef HAS_EMISSIVEMAP
+  vec3 emissiveFactor;
+  float emissiveStrength; // KHR_materials_emissive_strength
 
   vec2 metallicRoughnessValues;
   bool metallicRoughnessMapEnabled;
@@ -41,6 +42,48 @@ uniform pbrMaterialUniforms {
   vec4 scaleDiffBaseMR;
   vec4 scaleFGDSpec;
   // #endif
+
+  // KHR_materials_ior
+  float ior;
+
+  // KHR_materials_specular
+  float specularFactor;
+  vec3 specularColorFactor;
+  bool specularMapEnabled;
+  bool specularColorMapEnabled;
+
+  // KHR_materials_clearcoat, #ifdef HAS_CLEARCOAT
+  float clearcoatFactor;
+  float clearcoatRoughnessFactor;
+  float clearcoatNormalScale;
+  bool clearcoatMapEnabled;
+  bool clearcoatRoughnessMapEnabled;
+  bool clearcoatNormalMapEnabled;
+
+  // KHR_materials_transmission, #ifdef HAS_TRANSMISSION
+  float transmissionFactor;
+  bool transmissionMapEnabled;
+
+  // KHR_materials_sheen, #ifdef HAS_SHEEN
+  vec3 sheenColorFactor;
+  float sheenRoughnessFactor;
+  bool sheenColorMapEnabled;
+  bool sheenRoughnessMapEnabled;
+
+  // KHR_texture_transform
+  mat3 baseColorUVTransform;
+  mat3 normalUVTransform;
+  mat3 emissiveUVTransform;
+  mat3 metallicRoughnessUVTransform;
+  mat3 occlusionUVTransform;
+  mat3 specularUVTransform;
+  mat3 specularColorUVTransform;
+  mat3 clearcoatUVTransform;
+  mat3 clearcoatRoughnessUVTransform;
+  mat3 clearcoatNormalUVTransform;
+  mat3 transmissionUVTransform;
+  mat3 sheenColorUVTransform;
+  mat3 sheenRoughnessUVTransform;
 };
 
 // Samplers
@@ -64,5 +107,29 @@ uniform samplerCube u_DiffuseEnvSampler;
 uniform samplerCube u_SpecularEnvSampler;
 uniform sampler2D u_brdfLUT;
 #endif
+#ifdef HAS_SPECULARMAP
+uniform sampler2D u_SpecularSampler;
+#endif
+#ifdef HAS_SPECULARCOLORMAP
+uniform sampler2D u_SpecularColorSampler;
+#endif
+#ifdef HAS_CLEARCOATMAP
+uniform sampler2D u_ClearcoatSampler;
+#endif
+#ifdef HAS_CLEARCOATROUGHNESSMAP
+uniform sampler2D u_ClearcoatRoughnessSampler;
+#endif
+#ifdef HAS_CLEARCOATNORMALMAP
+uniform sampler2D u_ClearcoatNormalSampler;
+#endif
+#ifdef HAS_TRANSMISSIONMAP
+uniform sampler2D u_TransmissionSampler;
+#endif
+#ifdef HAS_SHEENCOLORMAP
+uniform sampler2D u_SheenColorSampler;
+#endif
+#ifdef HAS_SHEENROUGHNESSMAP
+uniform sampler2D u_SheenRoughnessSampler;
+#endif
 
 `;
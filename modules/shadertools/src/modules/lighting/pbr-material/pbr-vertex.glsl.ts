@@ -14,6 +14,7 @@ uniform projection {
 
 varying vec3 pbr_vPosition;
 varying vec2 pbr_vUV;
+varying vec2 pbr_vUV1;
 
 #ifdef HAS_NORMALS
 # ifdef HAS_TANGENTS
@@ -44,5 +45,13 @@ void pbr_setPositionNormalTangentUV(vec4 position, vec4 normal, vec4 tangent, ve
 #else
   pbr_vUV = vec2(0.,0.);
 #endif
+  // Textures with texCoord 1 fall back to the first UV set, unless pbr_setUV1() is called
+  pbr_vUV1 = pbr_vUV;
+}
+
+// Set the second UV set (glTF TEXCOORD_1). Call after pbr_setPositionNormalTangentUV()
+void pbr_setUV1(vec2 uv1)
+{
+  pbr_vUV1 = uv1;
 }
 `;
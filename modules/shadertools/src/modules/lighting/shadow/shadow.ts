@@ -0,0 +1,138 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {NumberArray} from '@math.gl/types';
+import {glsl} from '../../../lib/glsl-utils/highlight';
+import {ShaderModule} from '../../../lib/shader-module/shader-module';
+
+/** Largest supported PCF radius, in texels (must match the shader source) */
+export const SHADOW_MAX_PCF_RADIUS = 2;
+
+export type ShadowProps = {
+  /** View projection matrix of the light the shadow map was rendered from */
+  lightMatrix?: NumberArray;
+  /** Darken fragments that are occluded in the shadow map */
+  enabled?: boolean;
+  /** Output light clip space positions from `shadow_getPosition()`, to render the shadow map */
+  drawShadowMap?: boolean;
+  /** Depth offset that prevents surfaces from shadowing themselves ("shadow acne") */
+  bias?: number;
+  /** Radius of the percentage closer filtering kernel in texels, 0 to `SHADOW_MAX_PCF_RADIUS`. 0 disables filtering */
+  pcfRadius?: number;
+};
+
+export type ShadowUniforms = {
+  lightMatrix?: NumberArray;
+  enabled?: number;
+  drawShadowMap?: number;
+  bias?: number;
+  pcfRadius?: number;
+};
+
+const uniformBlock = glsl`\
+uniform shadowUniforms {
+  mat4 lightMatrix;
+  int enabled;
+  int drawShadowMap;
+  float bias;
+  int pcfRadius;
+} shadow;
+`;
+
+const vs = /* glsl */ `\
+${uniformBlock}
+
+// Returns the light clip space position when rendering the shadow map, otherwise position_clipspace
+vec4 shadow_getPosition(vec4 position_worldspace, vec4 position_clipspace) {
+  if (shadow.drawShadowMap == 1) {
+    return shadow.lightMatrix * position_worldspace;
+  }
+  return position_clipspace;
+}
+`;
+
+const fs = /* glsl */ `\
+#define SHADOW_MAX_PCF_RADIUS ${SHADOW_MAX_PCF_RADIUS}
+
+${uniformBlock}
+
+uniform sampler2D shadowMap;
+
+// Fraction of the light reaching a surface point: 1.0 if lit, 0.0 if occluded
+float shadow_getShadowFactor(vec3 position_worldspace) {
+  if (shadow.enabled == 0 || shadow.drawShadowMap == 1) {
+    return 1.0;
+  }
+
+  vec4 position_lightspace = shadow.lightMatrix * vec4(position_worldspace, 1.0);
+  vec3 coords = position_lightspace.xyz / position_lightspace.w * 0.5 + 0.5;
+  // Points outside of the shadow map are lit
+  if (any(lessThan(coords, vec3(0.0))) || any(greaterThan(coords, vec3(1.0)))) {
+    return 1.0;
+  }
+
+  // Percentage closer filtering: average the depth tests of the neighboring texels
+  float depth = coords.z - shadow.bias;
+  vec2 texelSize = 1.0 / vec2(textureSize(shadowMap, 0));
+  float lit = 0.0;
+  float samples = 0.0;
+  for (int x = -SHADOW_MAX_PCF_RADIUS; x <= SHADOW_MAX_PCF_RADIUS; x++) {
+    for (int y = -SHADOW_MAX_PCF_RADIUS; y <= SHADOW_MAX_PCF_RADIUS; y++) {
+      if (abs(x) <= shadow.pcfRadius && abs(y) <= shadow.pcfRadius) {
+        float closestDepth = texture(shadowMap, coords.xy + vec2(x, y) * texelSize).r;
+        lit += depth <= closestDepth ? 1.0 : 0.0;
+        samples += 1.0;
+      }
+    }
+  }
+  return lit / samples;
+}
+`;
+
+/**
+ * Shadow mapping for one directional or spot light.
+ * - Vertex shaders pass their positions through `shadow_getPosition()`, so that the same models can render the shadow map
+ * - Fragment shaders multiply the contribution of the light by `shadow_getShadowFactor()`
+ * - The shadow map is a depth texture bound as `shadowMap`
+ * @note GLSL only. Light clip space depth is expected in the -1 to 1 range.
+ */
+export const shadow: ShaderModule<ShadowProps, ShadowUniforms> = {
+  name: 'shadow',
+  vs,
+  fs,
+  uniformTypes: {
+    lightMatrix: 'mat4x4<f32>',
+    enabled: 'i32',
+    drawShadowMap: 'i32',
+    bias: 'f32',
+    pcfRadius: 'i32'
+  },
+  defaultUniforms: {
+    lightMatrix: [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1],
+    enabled: 0,
+    drawShadowMap: 0,
+    bias: 0.005,
+    pcfRadius: 1
+  },
+  getUniforms
+};
+
+function getUniforms(opts: ShadowProps = {}): ShadowUniforms {
+  const uniforms: ShadowUniforms = {};
+  if (opts.lightMatrix) {
+    uniforms.lightMatrix = opts.lightMatrix;
+  }
+  if (opts.enabled !== undefined) {
+    uniforms.enabled = opts.enabled ? 1 : 0;
+  }
+  if (opts.drawShadowMap !== undefined) {
+    uniforms.drawShadowMap = opts.drawShadowMap ? 1 : 0;
+  }
+  if (opts.bias !== undefined) {
+    uniforms.bias = opts.bias;
+  }
+  if (opts.pcfRadius !== undefined) {
+    uniforms.pcfRadius = Math.max(0, Math.min(Math.round(opts.pcfRadius), SHADOW_MAX_PCF_RADIUS));
+  }
+  return uniforms;
+}
@@ -6,19 +6,19 @@ import {glsl} from '../../../lib/glsl-utils/highlight';
 
 // Do a 9x9 bilateral box filter
 const fs = glsl`\
-uniform Noise {
+uniform denoiseUniforms {
   float strength;
-} noise;
+} denoise;
 
-vec4 denoise_sampleColor(sampler2D texture, vec2 texSize, vec2 texCoord) {
-  float adjustedExponent = 3. + 200. * pow(1. - noise.strength, 4.);
+vec4 denoise_sampleColor(sampler2D source, vec2 texSize, vec2 texCoord) {
+  float adjustedExponent = 3. + 200. * pow(1. - denoise.strength, 4.);
 
-  vec4 center = texture2D(texture, texCoord);
+  vec4 center = texture(source, texCoord);
   vec4 color = vec4(0.0);
   float total = 0.0;
   for (float x = -4.0; x <= 4.0; x += 1.0) {
     for (float y = -4.0; y <= 4.0; y += 1.0) {
-      vec4 sample = texture2D(texture, texCoord + vec2(x, y) / texSize);
+      vec4 sample = texture(source, texCoord + vec2(x, y) / texSize);
       float weight = 1.0 - abs(dot(sample.rgb - center.rgb, vec3(0.25)));
       weight = pow(weight, adjustedExponent);
       color += sample * weight;
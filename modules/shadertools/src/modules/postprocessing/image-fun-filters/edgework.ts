@@ -6,7 +6,7 @@ import {glsl} from '../../../lib/glsl-utils/highlight';
 import {random} from '../../math/random/random';
 
 const fs = glsl`\
-uniform EdgeWork {
+uniform edgeWorkUniforms {
   float radius;
   vec2 delta;
 } edgeWork;
@@ -23,7 +23,7 @@ vec4 edgeWork_sampleColor1(sampler2D source, vec2 texSize, vec2 texCoord) {
   for (float t = -30.0; t <= 30.0; t++) {
     float percent = (t + offset - 0.5) / 30.0;
     float weight = 1.0 - abs(percent);
-    vec3 sampleColor = texture2D(source, texCoord + relativeDelta * percent).rgb;
+    vec3 sampleColor = texture(source, texCoord + relativeDelta * percent).rgb;
     float average = (sampleColor.r + sampleColor.g + sampleColor.b) / 3.0;
     color.x += average * weight;
     total.x += weight;
@@ -48,7 +48,7 @@ vec4 edgeWork_sampleColor2(sampler2D source, vec2 texSize, vec2 texCoord) {
   for (float t = -30.0; t <= 30.0; t++) {
     float percent = (t + offset - 0.5) / 30.0;
     float weight = 1.0 - abs(percent);
-    vec2 sampleColor = texture2D(source, texCoord + relativeDelta * percent).xy;
+    vec2 sampleColor = texture(source, texCoord + relativeDelta * percent).xy;
     color.x += sampleColor.x * weight;
     total.x += weight;
     if (abs(t) < 15.0) {
@@ -71,7 +71,7 @@ export type EdgeWorkProps = {
   /** radius The radius of the effect in pixels. */
   radius: number;
   /** @deprecated internal */
-  delta: number;
+  delta: number[];
 };
 
 /**
@@ -81,6 +81,10 @@ export type EdgeWorkProps = {
  */
 export const edgeWork: ShaderPass<EdgeWorkProps, EdgeWorkProps> = {
   name: 'edgeWork',
+  uniformTypes: {
+    radius: 'f32',
+    delta: 'vec2<f32>'
+  },
   uniformPropTypes: {
     radius: {value: 2, min: 1, softMax: 50},
     delta: {value: [1, 0], private: true}
@@ -89,14 +93,12 @@ export const edgeWork: ShaderPass<EdgeWorkProps, EdgeWorkProps> = {
   dependencies: [random],
   passes: [
     {
-      // @ts-expect-error
       sampler: 'edgeWork_sampleColor1',
-      uniformPropTypes: {delta: [1, 0]}
+      uniforms: {delta: [1, 0]}
     },
     {
-      // @ts-expect-error
       sampler: 'edgeWork_sampleColor2',
-      uniformPropTypes: {delta: [0, 1]}
+      uniforms: {delta: [0, 1]}
     }
   ]
 };
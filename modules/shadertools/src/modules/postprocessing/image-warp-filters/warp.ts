@@ -5,8 +5,8 @@ import {ShaderPass} from '../../../lib/shader-module/shader-pass';
 import {glsl} from '../../../lib/glsl-utils/highlight';
 
 const fs = glsl`\
-vec4 warp_sampleColor(sampler2D texture, vec2 texSize, vec2 coord) {
-  vec4 color = texture2D(texture, coord / texSize);
+vec4 warp_sampleColor(sampler2D source, vec2 texSize, vec2 coord) {
+  vec4 color = texture(source, coord / texSize);
   vec2 clampedCoord = clamp(coord, vec2(0.0), texSize);
   if (coord != clampedCoord) {
     /* fade to transparent if we are outside the image */
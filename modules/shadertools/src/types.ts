@@ -38,3 +38,12 @@ export type UniformFormat =
   'mat4x3<f32>' |
   'mat4x4<f32>'
   ;
+
+/**
+ * Uniform buffer member format: a primitive format,
+ * a fixed size array `[format, length]` or a struct `{member: format, ...}`
+ */
+export type CompositeUniformFormat =
+  | UniformFormat
+  | readonly [type: CompositeUniformFormat, length: number]
+  | {[member: string]: CompositeUniformFormat};
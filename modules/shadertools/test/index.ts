@@ -32,6 +32,8 @@ import './modules/utils/random.spec';
 
 // Lighting
 import './modules/lighting/dirlight.spec';
+import './modules/lighting/lights.spec';
+import './modules/lighting/shadow.spec';
 // import './modules/lights/lights.spec';
 import './modules/lighting/phong-material.spec';
 import './modules/lighting/gouraud-material.spec';
@@ -2,7 +2,12 @@
 // Copyright (c) vis.gl contributors
 
 import test from 'tape-promise/tape';
-import {ShaderModule, generateShaderForModule, ShaderGenerationOptions} from '@luma.gl/shadertools';
+import {
+  ShaderModule,
+  generateShaderForModule,
+  ShaderGenerationOptions,
+  getShaderLayoutFromWGSL
+} from '@luma.gl/shadertools';
 
 const module: ShaderModule = {
   name: 'test',
@@ -47,6 +52,54 @@ uniform Test {
   },
 ];
 
+const compositeModule: ShaderModule = {
+  name: 'lighting',
+  uniformTypes: {
+    lightCount: 'i32',
+    lights: [{color: 'vec3<f32>', position: 'vec3<f32>'}, 4],
+    ambient: {color: 'vec3<f32>'}
+  }
+};
+
+const COMPOSITE_TEST_CASES: {module: ShaderModule; options: ShaderGenerationOptions, result: string}[] = [
+  {
+    module: compositeModule,
+    options: {shaderLanguage: 'glsl', uniforms: 'scoped-interface-blocks'},
+    result: `\
+struct LightingLights {
+  vec3 color;
+  vec3 position;
+};
+struct LightingAmbient {
+  vec3 color;
+};
+uniform Lighting {
+  int lightCount;
+  LightingLights lights[4];
+  LightingAmbient ambient;
+} lighting;
+`
+  },
+  {
+    module: compositeModule,
+    options: {shaderLanguage: 'wgsl'},
+    result: `\
+struct LightingLights {
+  color : vec3<f32>,
+  position : vec3<f32>,
+}
+struct LightingAmbient {
+  color : vec3<f32>,
+}
+struct Lighting {
+  lightCount : i32,
+  lights : array<LightingLights, 4>,
+  ambient : LightingAmbient,
+}
+var<uniform> lighting : Lighting;`
+  }
+];
+
 test('shadertools#generateGLSLForModule', (t) => {
   for (const tc of TEST_CASES) {
     const glsl = generateShaderForModule(tc.module, tc.options);
@@ -54,3 +107,37 @@ test('shadertools#generateGLSLForModule', (t) => {
   }
   t.end();
 });
+
+test('shadertools#generateShaderForModule arrays and structs', (t) => {
+  for (const tc of COMPOSITE_TEST_CASES) {
+    const source = generateShaderForModule(tc.module, tc.options);
+    t.equal(source, tc.result, JSON.stringify(tc.options));
+  }
+  t.end();
+});
+
+test('shadertools#generateShaderForModule WGSL bindings', (t) => {
+  const wgsl = generateShaderForModule(module, {shaderLanguage: 'wgsl', group: 1, binding: 2});
+  t.equal(
+    wgsl,
+    `\
+struct Test {
+  uProjectMatrix : mat4x4<f32>,
+  uViewMatrix : mat4x4<f32>,
+  uClipped : f32,
+}
+@group(1) @binding(2) var<uniform> test : Test;`,
+    'struct members separated by commas, binding attributes'
+  );
+
+  // The generated declarations must be valid WGSL
+  const shaderLayout = getShaderLayoutFromWGSL(
+    `${wgsl}\n@vertex fn main() -> @builtin(position) vec4<f32> { return vec4<f32>(test.uClipped); }`
+  );
+  t.deepEqual(
+    shaderLayout.bindings.map(({name, group, location}) => ({name, group, location})),
+    [{name: 'test', group: 1, location: 2}],
+    'generated WGSL parses'
+  );
+  t.end();
+});
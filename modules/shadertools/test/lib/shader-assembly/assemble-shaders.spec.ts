@@ -1,7 +1,7 @@
 import test from 'tape-promise/tape';
 import {Device} from '@luma.gl/core';
 import {webgl1Device, webgl2Device} from '@luma.gl/test-utils';
-import {assembleShaders, picking, fp64, pbr, glsl, PlatformInfo} from '@luma.gl/shadertools';
+import {assembleShaders, assembleComputeShader, picking, fp64, pbr, glsl, PlatformInfo} from '@luma.gl/shadertools';
 import type {WebGLDevice} from '@luma.gl/webgl';
 import {isBrowser} from '@probe.gl/env';
 
@@ -614,6 +614,181 @@ test.skip('assembleShaders#transpilation', (t) => {
 
 // HELPERS
 
+const WGSL_PLATFORM_INFO: PlatformInfo = {
+  type: 'webgpu',
+  gpu: 'test',
+  shaderLanguage: 'wgsl',
+  shaderLanguageVersion: 300,
+  features: new Set()
+};
+
+test('assembleShaders#wgsl', (t) => {
+  const platformInfo = WGSL_PLATFORM_INFO;
+
+  const moduleA = {
+    name: 'moduleA',
+    uniformTypes: {scale: 'f32'},
+    source: {
+      vs: {wgsl: 'fn moduleA_scale(x: f32) -> f32 { return x * moduleA.scale; }'},
+      fs: {wgsl: 'fn moduleA_color() -> vec4<f32> { return vec4<f32>(moduleA.scale); }'}
+    }
+  } as const;
+  const moduleB = {
+    name: 'moduleB',
+    uniformTypes: {offset: 'vec2<f32>'},
+    source: {vs: {wgsl: 'fn moduleB_offset() -> vec2<f32> { return moduleB.offset; }'}}
+  } as const;
+
+  const WGSL = /* WGSL */ `\
+@group(0) @binding(0) var<uniform> app : mat4x4<f32>;
+@group(0) @binding(1) var appTexture : texture_2d<f32>;
+@group(1) @binding(5) var appSampler : sampler;
+`;
+
+  const {vs, fs} = assembleShaders({platformInfo, vs: WGSL, fs: WGSL, modules: [moduleA, moduleB]});
+
+  t.ok(
+    vs.includes('@group(0) @binding(2) var<uniform> moduleA : ModuleA;'),
+    'first module binding allocated after application bindings'
+  );
+  t.ok(
+    vs.includes('@group(0) @binding(3) var<uniform> moduleB : ModuleB;'),
+    'modules do not collide'
+  );
+  t.ok(vs.includes('fn moduleA_scale') && vs.includes('fn moduleB_offset'), 'module WGSL source');
+  t.notOk(vs.includes('#define'), 'no GLSL defines in WGSL');
+  t.ok(
+    fs.includes('@group(0) @binding(3) var<uniform> moduleB : ModuleB;'),
+    'same bindings in fragment shader'
+  );
+  t.ok(fs.includes('fn moduleA_color'), 'module fragment WGSL source');
+
+  t.throws(
+    () => assembleShaders({platformInfo, vs: WGSL, fs: WGSL, modules: [picking]}),
+    /picking has no WGSL source/,
+    'throws for GLSL-only modules'
+  );
+
+  t.end();
+});
+
+test('assembleComputeShader', (t) => {
+  const platformInfo = WGSL_PLATFORM_INFO;
+
+  const moduleA = {
+    name: 'moduleA',
+    uniformTypes: {scale: 'f32'},
+    source: {
+      vs: {wgsl: 'fn moduleA_scale(x: f32) -> f32 { return x * moduleA.scale; }'},
+      cs: {wgsl: 'fn moduleA_step(x: f32) -> f32 { return x + moduleA.scale; }'}
+    }
+  } as const;
+
+  const WGSL = /* WGSL */ `\
+@group(0) @binding(0) var<storage, read_write> values : array<f32>;
+
+@compute @workgroup_size(64)
+fn main(@builtin(global_invocation_id) id : vec3<u32>) {
+  values[id.x] = moduleA_step(values[id.x]);
+}
+`;
+
+  const {cs, getUniforms} = assembleComputeShader({platformInfo, source: WGSL, modules: [moduleA]});
+
+  t.ok(
+    cs.includes('@group(0) @binding(1) var<uniform> moduleA : ModuleA;'),
+    'module binding allocated after application bindings'
+  );
+  t.ok(cs.includes('fn moduleA_step'), 'module compute WGSL source');
+  t.notOk(cs.includes('fn moduleA_scale'), 'no module vertex WGSL source');
+  t.ok(cs.endsWith(WGSL), 'application source last');
+  t.equal(typeof getUniforms, 'function', 'returns getUniforms');
+
+  t.throws(
+    () => assembleComputeShader({platformInfo: {...platformInfo, shaderLanguage: 'glsl'}, source: WGSL}),
+    /WGSL/,
+    'throws for GLSL platforms'
+  );
+
+  t.end();
+});
+
+test('assembleShaders#wgsl shaderhooks', (t) => {
+  const WGSL = /* WGSL */ `\
+@vertex
+fn vertexMain(@location(0) position : vec4<f32>) -> @builtin(position) vec4<f32> {
+  var color = vec4<f32>(1.0);
+  LUMAGL_pickColor(&color);
+  return position;
+}
+
+@fragment
+fn fragmentMain() -> @location(0) vec4<f32> {
+  var fragmentColor = vec4<f32>(1.0);
+  return LUMAGL_fragmentColor(fragmentColor);
+}
+`;
+
+  const hookFunctions = [
+    'vs:LUMAGL_pickColor(color: ptr<function, vec4<f32>>)',
+    {
+      hook: 'fs:LUMAGL_fragmentColor(inputColor: vec4<f32>) -> vec4<f32>',
+      header: 'var color = inputColor;\n',
+      footer: 'return color;\n'
+    }
+  ];
+
+  const testModule = {
+    name: 'test-module',
+    source: {
+      vs: {wgsl: 'fn test_setColor(color: ptr<function, vec4<f32>>) { (*color).r = 0.0; }'},
+      fs: {wgsl: 'fn test_filterColor(color: vec4<f32>) -> vec4<f32> { return color * 0.5; }'}
+    },
+    inject: {
+      'vs:LUMAGL_pickColor': 'test_setColor(color);',
+      'fs:LUMAGL_fragmentColor': 'color = test_filterColor(color);',
+      'fs:#main-end': '  fragmentColor.a = 0.5;'
+    }
+  };
+
+  let {vs, fs} = assembleShaders({
+    platformInfo: WGSL_PLATFORM_INFO,
+    vs: WGSL,
+    fs: WGSL,
+    hookFunctions
+  });
+  t.ok(
+    vs.includes('fn LUMAGL_pickColor(color: ptr<function, vec4<f32>>) {\n}'),
+    'WGSL hook function stub generated in vertex shader'
+  );
+  t.ok(
+    fs.includes(
+      'fn LUMAGL_fragmentColor(inputColor: vec4<f32>) -> vec4<f32> {\n  var color = inputColor;\n  return color;\n}'
+    ),
+    'WGSL hook function with header and footer generated in fragment shader'
+  );
+
+  ({vs, fs} = assembleShaders({
+    platformInfo: WGSL_PLATFORM_INFO,
+    vs: WGSL,
+    fs: WGSL,
+    modules: [testModule],
+    hookFunctions
+  }));
+  t.ok(vs.includes('  test_setColor(color);\n}'), 'module injection in vertex hook function');
+  t.ok(
+    fs.includes('  color = test_filterColor(color);\n  return color;\n}'),
+    'module injection in fragment hook function'
+  );
+  t.ok(
+    fs.includes('  fragmentColor.a = 0.5;\n  return LUMAGL_fragmentColor(fragmentColor);'),
+    'module injection at end of fragment entry point'
+  );
+  t.notOk(vs.includes('fragmentColor.a = 0.5;'), 'no fragment injection in vertex shader');
+
+  t.end();
+});
+
 function compileAndLinkShaders(t, device: WebGLDevice, assembleResult) {
   const gl = device.gl;
   const vShader = gl.createShader(gl.VERTEX_SHADER) ;
@@ -136,6 +136,94 @@ test('injectShader#injectShader', t => {
   t.end();
 });
 
+const WGSL_TEMPLATE = /* WGSL */ `\
+${DECLARATION_INJECT_MARKER}
+
+struct VertexOutput {
+  @builtin(position) position : vec4<f32>,
+  @location(0) color : vec4<f32>,
+}
+
+@vertex
+fn vertexMain(@location(0) positions : vec4<f32>) -> VertexOutput {
+  var output : VertexOutput;
+  output.position = positions;
+  if (positions.x > 0.0) {
+    output.color = vec4<f32>(1.0, 0.0, 0.0, 1.0);
+  }
+  return output;
+}
+
+@fragment
+fn fragmentMain(@location(0) color : vec4<f32>) -> @location(0) vec4<f32> {
+  var fragmentColor = color;
+  return fragmentColor;
+}
+`;
+
+const WGSL_INJECT = {
+  'vs:#decl': '@group(0) @binding(0) var<uniform> offset : vec4<f32>;',
+  'vs:#main-start': '  let scale = 2.0;',
+  'vs:#main-end': '  output.position = output.position + offset;',
+  'fs:#main-start': '  let alpha = 0.5;',
+  'fs:#main-end': '  fragmentColor.a = alpha;'
+};
+
+const WGSL_RESOLVED_VS = `\
+@group(0) @binding(0) var<uniform> offset : vec4<f32>;
+
+
+struct VertexOutput {
+  @builtin(position) position : vec4<f32>,
+  @location(0) color : vec4<f32>,
+}
+
+@vertex
+fn vertexMain(@location(0) positions : vec4<f32>) -> VertexOutput {
+  let scale = 2.0;
+  var output : VertexOutput;
+  output.position = positions;
+  if (positions.x > 0.0) {
+    output.color = vec4<f32>(1.0, 0.0, 0.0, 1.0);
+  }
+  output.position = output.position + offset;
+  return output;
+}
+
+@fragment
+fn fragmentMain(@location(0) color : vec4<f32>) -> @location(0) vec4<f32> {
+  var fragmentColor = color;
+  return fragmentColor;
+}
+`;
+
+const WGSL_RESOLVED_FS_ENTRY_POINT = `\
+@fragment
+fn fragmentMain(@location(0) color : vec4<f32>) -> @location(0) vec4<f32> {
+  let alpha = 0.5;
+  var fragmentColor = color;
+  fragmentColor.a = alpha;
+  return fragmentColor;
+}
+`;
+
+test('injectShader#injectShader WGSL', t => {
+  let injectResult = injectShader(
+    WGSL_TEMPLATE,
+    'vertex',
+    injectionData(WGSL_INJECT),
+    false,
+    'wgsl'
+  );
+  t.equal(injectResult, WGSL_RESOLVED_VS, 'injected into @vertex entry point and module scope');
+
+  injectResult = injectShader(WGSL_TEMPLATE, 'fragment', injectionData(WGSL_INJECT), false, 'wgsl');
+  t.ok(injectResult.includes(WGSL_RESOLVED_FS_ENTRY_POINT), 'injected into @fragment entry point');
+  t.notOk(injectResult.includes('var<uniform> offset'), 'vertex declarations not injected');
+
+  t.end();
+});
+
 test('injectShader#assembleShaders', t => {
   if (!webgl2Device) {
     t.end();
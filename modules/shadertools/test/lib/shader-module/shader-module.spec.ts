@@ -31,6 +31,37 @@ varying float vClipped;
   t.end();
 });
 
+test('ShaderModuleInstance#getModuleSource(language)', (t) => {
+  const shaderModule = new ShaderModuleInstance({
+    name: 'test-shader-module',
+    source: {
+      vs: {
+        glsl: 'float test_scale(float x) { return x * 2.0; }',
+        wgsl: 'fn test_scale(x: f32) -> f32 { return x * 2.0; }'
+      },
+      fs: {glsl: 'vec4 test_color() { return vec4(1.0); }'}
+    }
+  });
+
+  t.ok(shaderModule.getModuleSource('vertex', 'glsl').includes('float test_scale'), 'GLSL vertex source');
+  t.ok(shaderModule.getModuleSource('vertex', 'wgsl').includes('fn test_scale'), 'WGSL vertex source');
+  t.notOk(
+    shaderModule.getModuleSource('vertex', 'wgsl').includes('#define'),
+    'no #define in WGSL source'
+  );
+  t.throws(
+    () => shaderModule.getModuleSource('fragment', 'wgsl'),
+    /test-shader-module has no WGSL source for the fragment shader/,
+    'throws when module lacks source in the requested language'
+  );
+
+  const glslModule = new ShaderModuleInstance({name: 'glsl-module', vs: 'float x;'});
+  t.equal(glslModule.source.vs.glsl, 'float x;', '`vs` is GLSL source');
+  t.ok(glslModule.getModuleSource('fragment', 'wgsl'), 'no error for stage without source');
+
+  t.end();
+});
+
 test('ShaderModuleInstance#checkDeprecations', (t) => {
   const shaderModule = new ShaderModuleInstance({
     name: 'test-shader-module',
@@ -36,6 +36,158 @@ fn main(
 }
 `;
 
+const BINDINGS_SHADER = /* WGSL */ `\
+struct Particle {
+  pos : vec2<f32>,
+  vel : vec2<f32>,
+};
+struct Particles {
+  count : u32,
+  particles : array<Particle>,
+};
+struct Params {
+  deltaT : f32,
+  weights : array<vec4<f32>, 2>,
+};
+@group(0) @binding(0) var<uniform> params : Params;
+@group(0) @binding(1) var<storage, read> particlesA : Particles;
+@group(0) @binding(2) var<storage, read_write> particlesB : Particles;
+@group(0) @binding(3) var<storage, read> lookup : array<vec4<f32>, 4>;
+@group(1) @binding(0) var colorTexture : texture_2d<f32>;
+@group(1) @binding(1) var layerTexture : texture_2d_array<i32>;
+@group(1) @binding(2) var depthTexture : texture_depth_2d;
+@group(1) @binding(3) var msTexture : texture_multisampled_2d<u32>;
+@group(1) @binding(4) var cubeTexture : texture_cube<f32>;
+@group(1) @binding(5) var colorSampler : sampler;
+@group(1) @binding(6) var shadowSampler : sampler_comparison;
+@group(2) @binding(0) var outputTexture : texture_storage_2d<rgba8unorm, write>;
+
+@vertex
+fn vertexMain(@location(0) position : vec2<f32>) -> @builtin(position) vec4<f32> {
+  return vec4<f32>(position, 0.0, 1.0);
+}
+
+@vertex
+fn instancedVertexMain(
+  @builtin(instance_index) instance : u32,
+  @location(0) position : vec2<f32>,
+  @location(1) instancePosition : vec3<f32>
+) -> @builtin(position) vec4<f32> {
+  return vec4<f32>(position, 0.0, 1.0);
+}
+
+@fragment
+fn fragmentMain() -> @location(0) vec4<f32> {
+  return textureSample(colorTexture, colorSampler, vec2<f32>(0.0));
+}
+
+@compute @workgroup_size(64)
+fn computeMain(@builtin(global_invocation_id) id : vec3<u32>) {
+  particlesB.particles[id.x] = particlesA.particles[id.x];
+}
+`;
+
+const BINDINGS: ShaderLayout['bindings'] = [
+  {
+    type: 'uniform',
+    name: 'params',
+    group: 0,
+    location: 0,
+    visibility: 7,
+    minBindingSize: 48,
+    uniforms: [
+      {name: 'deltaT', format: 'f32', byteOffset: 0, byteStride: 4, arrayLength: 0},
+      {name: 'weights', format: 'vec4<f32>', byteOffset: 16, byteStride: 16, arrayLength: 2}
+    ]
+  },
+  {type: 'read-only-storage', name: 'particlesA', group: 0, location: 1, visibility: 7},
+  {type: 'storage', name: 'particlesB', group: 0, location: 2, visibility: 6},
+  {
+    type: 'read-only-storage',
+    name: 'lookup',
+    group: 0,
+    location: 3,
+    visibility: 7,
+    minBindingSize: 64
+  },
+  {
+    type: 'storage',
+    name: 'outputTexture',
+    group: 2,
+    location: 0,
+    visibility: 6,
+    access: 'write-only',
+    format: 'rgba8unorm',
+    viewDimension: '2d'
+  },
+  {
+    type: 'texture',
+    name: 'colorTexture',
+    group: 1,
+    location: 0,
+    visibility: 7,
+    viewDimension: '2d',
+    sampleType: 'float',
+    multisampled: false
+  },
+  {
+    type: 'texture',
+    name: 'layerTexture',
+    group: 1,
+    location: 1,
+    visibility: 7,
+    viewDimension: '2d-array',
+    sampleType: 'sint',
+    multisampled: false
+  },
+  {
+    type: 'texture',
+    name: 'depthTexture',
+    group: 1,
+    location: 2,
+    visibility: 7,
+    viewDimension: '2d',
+    sampleType: 'depth',
+    multisampled: false
+  },
+  {
+    type: 'texture',
+    name: 'msTexture',
+    group: 1,
+    location: 3,
+    visibility: 7,
+    viewDimension: '2d',
+    sampleType: 'uint',
+    multisampled: true
+  },
+  {
+    type: 'texture',
+    name: 'cubeTexture',
+    group: 1,
+    location: 4,
+    visibility: 7,
+    viewDimension: 'cube',
+    sampleType: 'float',
+    multisampled: false
+  },
+  {
+    type: 'sampler',
+    name: 'colorSampler',
+    group: 1,
+    location: 5,
+    visibility: 7,
+    samplerType: 'filtering'
+  },
+  {
+    type: 'sampler',
+    name: 'shadowSampler',
+    group: 1,
+    location: 6,
+    visibility: 7,
+    samplerType: 'comparison'
+  }
+];
+
 const TEST_CASES: {title?: string; wgsl: string; shaderLayout: ShaderLayout}[] = [
   {
     wgsl: SHADER,
@@ -61,13 +213,17 @@ const TEST_CASES: {title?: string; wgsl: string; shaderLayout: ShaderLayout}[] =
         {
           type: 'uniform',
           name: 'uniforms',
-          location: 0,
-          // @ts-expect-error
           group: 0,
-          members: [
+          location: 0,
+          visibility: 3,
+          minBindingSize: 64,
+          uniforms: [
             {
               name: 'modelViewProjectionMatrix',
-              type: 'mat4x4<f32>'
+              format: 'mat4x4<f32>',
+              byteOffset: 0,
+              byteStride: 64,
+              arrayLength: 0
             }
           ]
         }
@@ -84,3 +240,47 @@ test('WebGPU#getShaderLayoutFromWGSL', t => {
   }
   t.end();
 });
+
+test('WebGPU#getShaderLayoutFromWGSL#bindings', t => {
+  const shaderLayout = getShaderLayoutFromWGSL(BINDINGS_SHADER);
+  t.deepEqual(shaderLayout.bindings, BINDINGS, 'textures, samplers and storage bindings parsed');
+  t.deepEqual(
+    shaderLayout.attributes,
+    [{name: 'position', location: 0, type: 'vec2<f32>'}],
+    'attributes of first vertex entry point parsed'
+  );
+  t.end();
+});
+
+test('WebGPU#getShaderLayoutFromWGSL#entry points', t => {
+  let shaderLayout = getShaderLayoutFromWGSL(BINDINGS_SHADER, {
+    vertexEntryPoint: 'instancedVertexMain'
+  });
+  t.deepEqual(
+    shaderLayout.attributes,
+    [
+      {name: 'position', location: 0, type: 'vec2<f32>'},
+      {name: 'instancePosition', location: 1, type: 'vec3<f32>'}
+    ],
+    'attributes of named vertex entry point parsed'
+  );
+
+  shaderLayout = getShaderLayoutFromWGSL(BINDINGS_SHADER, {computeEntryPoint: 'computeMain'});
+  t.deepEqual(shaderLayout.attributes, [], 'no attributes for compute entry point');
+  t.ok(
+    shaderLayout.bindings.every(binding => binding.visibility === 4),
+    'bindings only visible to compute stage'
+  );
+
+  t.throws(
+    () => getShaderLayoutFromWGSL(BINDINGS_SHADER, {vertexEntryPoint: 'missing'}),
+    /entry point "missing" not found/,
+    'throws on missing vertex entry point'
+  );
+  t.throws(
+    () => getShaderLayoutFromWGSL(SHADER, {computeEntryPoint: 'main'}),
+    /entry point "main" not found/,
+    'throws on missing compute entry point'
+  );
+  t.end();
+});
@@ -110,6 +110,9 @@ test('picking#getUniforms', (t) => {
     }, 'Override useFloatColors'
   );
 
+  t.deepEqual(picking.getUniforms({batchIndex: 3}), {batchIndex: 3}, 'Set batch index');
+  t.deepEqual(picking.getUniforms({batchIndex: null}), {batchIndex: -1}, 'Clear batch index');
+
   t.end();
 });
 
@@ -0,0 +1,68 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {UniformBufferLayout} from '@luma.gl/core';
+import {lighting} from '@luma.gl/shadertools';
+
+test('shadertools#lighting point and spot lights', (t) => {
+  const uniforms = lighting.getUniforms({
+    lights: [
+      {type: 'ambient', color: [255, 255, 255], intensity: 0.5},
+      {type: 'point', position: [1, 2, 3], color: [255, 0, 0], range: 10},
+      {type: 'point', position: [0, 0, 0], attenuation: 2},
+      {type: 'point', position: [0, 0, 0], attenuation: 0},
+      {
+        type: 'spot',
+        position: [0, 5, 0],
+        direction: [0, -1, 0],
+        innerConeAngle: 0,
+        outerConeAngle: Math.PI / 3
+      }
+    ]
+  });
+
+  t.equal(uniforms.enabled, 1, 'lighting enabled');
+  t.deepEqual(uniforms.ambientLightColor, [0.5, 0.5, 0.5], 'ambient light color');
+  t.equal(uniforms.numberOfLights, 4, 'number of lights');
+
+  const [pointLight, constantPointLight, zeroPointLight, spotLight] = uniforms.lights;
+  t.deepEqual(pointLight.color, [1, 0, 0], 'point light color');
+  t.equal(pointLight.range, 10, 'point light range');
+  t.deepEqual(pointLight.attenuation, [0, 0, 1], 'inverse-square falloff by default');
+  t.deepEqual(constantPointLight.attenuation, [2, 0, 0], 'a number is a constant attenuation');
+  t.deepEqual(zeroPointLight.attenuation, [1, 0, 0], 'a constant of 0 turns off falloff');
+  t.equal(constantPointLight.range, 0, 'infinite range by default');
+
+  t.equal(spotLight.lightType, 2, 'spot light type');
+  t.deepEqual(spotLight.direction, [0, -1, 0], 'spot light direction');
+  t.ok(
+    Math.abs(spotLight.coneCos[0] - 1) < 1e-6 && Math.abs(spotLight.coneCos[1] - 0.5) < 1e-6,
+    'cosines of the cone angles'
+  );
+
+  t.end();
+});
+
+test('shadertools#lighting max lights', (t) => {
+  const lights = new Array(8)
+    .fill(0)
+    .map((_, i) => ({type: 'point' as const, position: [i, 0, 0]}));
+  const uniforms = lighting.getUniforms({lights});
+  t.equal(uniforms.numberOfLights, 5, 'number of lights is capped');
+  t.equal(uniforms.lights.length, 5, 'lights beyond the maximum are ignored');
+
+  t.end();
+});
+
+test('shadertools#lighting uniform layout', (t) => {
+  const layout = new UniformBufferLayout(lighting.uniformTypes);
+  // std140: int, vec3, int then an array of 80 byte structs
+  t.equal(layout.get('ambientLightColor').offset, 4, 'ambient light color is aligned to 16 bytes');
+  t.equal(layout.get('numberOfLights').offset, 7, 'number of lights packs after the vec3');
+  t.equal(layout.get('lights[0].color').offset, 8, 'lights start at 32 bytes');
+  t.equal(layout.get('lights[0].range').offset, 15, 'range packs after position');
+  t.equal(layout.get('lights[1].color').offset, 28, 'light structs are 80 bytes');
+
+  t.end();
+});
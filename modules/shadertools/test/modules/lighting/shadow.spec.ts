@@ -0,0 +1,31 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {UniformBufferLayout} from '@luma.gl/core';
+import {shadow, SHADOW_MAX_PCF_RADIUS} from '@luma.gl/shadertools';
+
+test('shadertools#shadow', (t) => {
+  t.deepEqual(shadow.getUniforms({}), {}, 'no props, no uniforms');
+
+  const uniforms = shadow.getUniforms({enabled: true, drawShadowMap: false, bias: 0.01});
+  t.equal(uniforms.enabled, 1, 'enabled');
+  t.equal(uniforms.drawShadowMap, 0, 'drawShadowMap');
+  t.equal(uniforms.bias, 0.01, 'bias');
+
+  t.equal(shadow.getUniforms({pcfRadius: 10}).pcfRadius, SHADOW_MAX_PCF_RADIUS, 'PCF radius is clamped');
+  t.equal(shadow.getUniforms({pcfRadius: -1}).pcfRadius, 0, 'negative PCF radius disables filtering');
+
+  t.ok(shadow.vs.includes('vec4 shadow_getPosition('), 'vertex shader function');
+  t.ok(shadow.fs.includes(`#define SHADOW_MAX_PCF_RADIUS ${SHADOW_MAX_PCF_RADIUS}`), 'PCF radius define');
+  t.ok(shadow.fs.includes('uniform shadowUniforms {'), 'uniform block');
+
+  t.end();
+});
+
+test('shadertools#shadow uniform layout', (t) => {
+  const layout = new UniformBufferLayout(shadow.uniformTypes);
+  t.equal(layout.get('enabled').offset, 16, 'scalars follow the light matrix');
+  t.equal(layout.get('pcfRadius').offset, 19, 'scalars are packed');
+  t.end();
+});
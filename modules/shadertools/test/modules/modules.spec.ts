@@ -8,7 +8,7 @@ const shaderModules = {};
 // HACK - sniff out modules from * imports
 for (const [name, value] of Object.entries(imports)) {
   // @ts-expect-error
-  if (value?.fs || value?.vs) {
+  if (value?.fs || value?.vs || value?.source) {
     shaderModules[name] = value;
   }
 }
@@ -5,6 +5,7 @@ import type {Device, DeviceProps} from '@luma.gl/core';
 import {luma} from '@luma.gl/core';
 import {WebGLDevice} from '@luma.gl/webgl';
 import {WebGPUDevice} from '@luma.gl/webgpu';
+import {NullDevice} from './null-device/null-device';
 
 const CONTEXT_DEFAULTS: Partial<DeviceProps> = {
   width: 1,
@@ -38,6 +39,14 @@ export const webgl2Device: WebGLDevice = createTestDevice({id: 'webgl2-test-devi
 /** A WebGL 2 or WebGL 1 Device intended for testing. Best available. */
 export const webglDevice: WebGLDevice = webgl2Device || webgl1Device;
 
+let nullDevice: NullDevice | null = null;
+
+/** A headless NullDevice intended for CPU-only testing. Always available, created on first call */
+export function getNullTestDevice(): NullDevice {
+  nullDevice = nullDevice || new NullDevice({id: 'null-test-device', ...CONTEXT_DEFAULTS});
+  return nullDevice;
+}
+
 /** Only available after getTestDevices() has completed */
 export let webgpuDevice: WebGPUDevice;
 
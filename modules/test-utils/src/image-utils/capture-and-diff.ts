@@ -0,0 +1,68 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+// Node.js only: `fs` is stubbed out in browser builds
+import {promises as fs} from 'fs';
+import type {Device, Framebuffer} from '@luma.gl/core';
+import type {ImageDiffOptions, ImageDiffResult} from './diff-images';
+import {diffImages} from './diff-images';
+import {readPixelsAsync} from './read-pixels';
+import {encodePNG, decodePNG} from './png';
+
+export type CaptureAndDiffOptions = ImageDiffOptions & {
+  /** Path of the golden image */
+  goldenImage: string;
+  /** Framebuffer to capture. Default: the framebuffer of the canvas */
+  framebuffer?: Framebuffer;
+  /** Whether to save the captured image and the diff image when the images do not match. Default false */
+  saveOnFail?: boolean;
+  /** Path of the saved image, `[name]` is replaced by the golden image path without extension. Default `[name]-failed.png` */
+  saveAs?: string;
+  /** Whether to write the captured image as the golden image, instead of comparing. Default false */
+  updateGoldenImage?: boolean;
+};
+
+export type CaptureAndDiffResult = Omit<ImageDiffResult, 'diffImage'> & {
+  /** Path of the saved diff image */
+  diffImage: string | null;
+};
+
+/**
+ * Reads the pixels of a framebuffer and compares them with a golden PNG image, without a browser.
+ * Writes the captured image and a diff image on failure.
+ */
+export async function captureAndDiffFramebuffer(
+  device: Device,
+  options: CaptureAndDiffOptions
+): Promise<CaptureAndDiffResult> {
+  const {goldenImage, saveOnFail = false, saveAs = '[name]-failed.png'} = options;
+  try {
+    const image = await readPixelsAsync(device, options.framebuffer);
+    if (options.updateGoldenImage) {
+      await fs.writeFile(goldenImage, encodePNG(image));
+      return {success: true, match: 1, matchPercentage: '100.00%', diffImage: null};
+    }
+
+    const expectedImage = decodePNG(await fs.readFile(goldenImage));
+    const result = diffImages(image, expectedImage, {...options, createDiffImage: saveOnFail});
+
+    let diffImage: string | null = null;
+    if (!result.success && saveOnFail) {
+      const filename = saveAs.replace('[name]', goldenImage.replace(/\.\w+$/, ''));
+      await fs.writeFile(filename, encodePNG(image));
+      if (result.diffImage) {
+        diffImage = filename.replace(/(\.\w+)?$/, '-diff.png');
+        await fs.writeFile(diffImage, encodePNG(result.diffImage));
+      }
+    }
+    return {...result, diffImage};
+  } catch (error) {
+    return {
+      success: false,
+      match: 0,
+      matchPercentage: 'N/A',
+      diffImage: null,
+      error: (error as Error).message
+    };
+  }
+}
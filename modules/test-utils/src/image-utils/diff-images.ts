@@ -0,0 +1,80 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+/** An image with 4 bytes per pixel, top row first */
+export type RGBAImage = {
+  width: number;
+  height: number;
+  data: Uint8Array;
+};
+
+/** Options for comparing images, with the same meaning as in the browser test driver */
+export type ImageDiffOptions = {
+  /** Largest difference of a color channel of matching pixels, from 0 to 1. Default 0.1 */
+  tolerance?: number;
+  /** Smallest ratio of matching pixels for the images to match, from 0 to 1. Default 0.99 */
+  threshold?: number;
+  /** Whether to create an image highlighting mismatching pixels when the images do not match. Default false */
+  createDiffImage?: boolean;
+};
+
+export type ImageDiffResult = {
+  success: boolean;
+  /** Ratio of matching pixels */
+  match: number;
+  matchPercentage: string;
+  /** Mismatching pixels in red over a faded copy of the expected image */
+  diffImage: RGBAImage | null;
+  error?: string;
+};
+
+/** Compares two images pixel by pixel */
+export function diffImages(
+  image: RGBAImage,
+  expectedImage: RGBAImage,
+  options: ImageDiffOptions = {}
+): ImageDiffResult {
+  const {tolerance = 0.1, threshold = 0.99, createDiffImage = false} = options;
+  const {width, height} = expectedImage;
+  if (image.width !== width || image.height !== height) {
+    return {
+      success: false,
+      match: 0,
+      matchPercentage: 'N/A',
+      diffImage: null,
+      error: `Image size ${image.width}x${image.height} does not match ${width}x${height}`
+    };
+  }
+
+  const maxDifference = tolerance * 255;
+  const pixelCount = width * height;
+  const diffData = new Uint8Array(pixelCount * 4);
+  let mismatchedPixels = 0;
+  for (let i = 0; i < pixelCount * 4; i += 4) {
+    let isMatch = true;
+    for (let channel = 0; channel < 4; channel++) {
+      if (Math.abs(image.data[i + channel] - expectedImage.data[i + channel]) > maxDifference) {
+        isMatch = false;
+      }
+    }
+
+    if (isMatch) {
+      // Faded grayscale
+      const [r, g, b] = expectedImage.data.subarray(i, i + 3);
+      const gray = 255 - (255 - (r * 0.299 + g * 0.587 + b * 0.114)) * 0.1;
+      diffData.set([gray, gray, gray, 255], i);
+    } else {
+      mismatchedPixels++;
+      diffData.set([255, 0, 0, 255], i);
+    }
+  }
+
+  const match = pixelCount > 0 ? 1 - mismatchedPixels / pixelCount : 1;
+  const success = match >= threshold;
+  return {
+    success,
+    match,
+    matchPercentage: `${(match * 100).toFixed(2)}%`,
+    diffImage: !success && createDiffImage ? {width, height, data: diffData} : null
+  };
+}
@@ -0,0 +1,184 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+// Node.js only: `zlib` is stubbed out in browser builds
+import {deflateSync, inflateSync} from 'zlib';
+import type {RGBAImage} from './diff-images';
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+/** Bytes per pixel of the supported 8 bit color types */
+const COLOR_TYPE_CHANNELS: Record<number, number> = {
+  0: 1, // grayscale
+  2: 3, // RGB
+  4: 2, // grayscale + alpha
+  6: 4 // RGBA
+};
+
+/** Encodes an RGBA image as a PNG file */
+export function encodePNG(image: RGBAImage): Uint8Array {
+  const {width, height, data} = image;
+  const rowLength = width * 4;
+  // Each row is prefixed with its filter type, 0 (none)
+  const raw = new Uint8Array((rowLength + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  // bit depth 8, color type RGBA, deflate compression, adaptive filtering, no interlace
+  header.set([8, 6, 0, 0, 0], 8);
+
+  return concat([
+    new Uint8Array(PNG_SIGNATURE),
+    makeChunk('IHDR', header),
+    makeChunk('IDAT', deflateSync(raw)),
+    makeChunk('IEND', new Uint8Array(0))
+  ]);
+}
+
+/**
+ * Decodes a PNG file to an RGBA image
+ * @note Supports non-interlaced 8 bit grayscale, RGB and RGBA images, with or without alpha
+ */
+export function decodePNG(png: Uint8Array): RGBAImage {
+  if (!PNG_SIGNATURE.every((byte, i) => png[i] === byte)) {
+    throw new Error('Not a PNG file');
+  }
+
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const compressedChunks: Uint8Array[] = [];
+  for (let offset = PNG_SIGNATURE.length; offset < png.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    const chunk = png.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      const [bitDepth, colorType, , , interlace] = chunk.subarray(8, 13);
+      channels = COLOR_TYPE_CHANNELS[colorType];
+      if (bitDepth !== 8 || !channels || interlace !== 0) {
+        throw new Error(`Unsupported PNG format: bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace}`);
+      }
+    } else if (type === 'IDAT') {
+      compressedChunks.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+    // length, type, data, crc
+    offset += length + 12;
+  }
+
+  const raw = inflateSync(concat(compressedChunks));
+  const pixels = unfilter(raw, width, height, channels);
+
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const pixel = pixels.subarray(i * channels, (i + 1) * channels);
+    const isGray = channels < 3;
+    data[i * 4] = pixel[0];
+    data[i * 4 + 1] = isGray ? pixel[0] : pixel[1];
+    data[i * 4 + 2] = isGray ? pixel[0] : pixel[2];
+    data[i * 4 + 3] = channels === 2 || channels === 4 ? pixel[channels - 1] : 255;
+  }
+  return {width, height, data};
+}
+
+/** Reverses the filter of each row of decompressed PNG data */
+function unfilter(raw: Uint8Array, width: number, height: number, bytesPerPixel: number): Uint8Array {
+  const rowLength = width * bytesPerPixel;
+  const pixels = new Uint8Array(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (rowLength + 1)];
+    const source = raw.subarray(y * (rowLength + 1) + 1, (y + 1) * (rowLength + 1));
+    const row = pixels.subarray(y * rowLength, (y + 1) * rowLength);
+    const previousRow = y > 0 ? pixels.subarray((y - 1) * rowLength, y * rowLength) : null;
+
+    for (let x = 0; x < rowLength; x++) {
+      const left = x >= bytesPerPixel ? row[x - bytesPerPixel] : 0;
+      const up = previousRow ? previousRow[x] : 0;
+      const upLeft = previousRow && x >= bytesPerPixel ? previousRow[x - bytesPerPixel] : 0;
+      let predictor: number;
+      switch (filter) {
+        case 0:
+          predictor = 0;
+          break;
+        case 1:
+          predictor = left;
+          break;
+        case 2:
+          predictor = up;
+          break;
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+        case 4:
+          predictor = paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Invalid PNG filter ${filter}`);
+      }
+      row[x] = (source[x] + predictor) & 0xff;
+    }
+  }
+  return pixels;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) {
+    return left;
+  }
+  return distanceUp <= distanceUpLeft ? up : upLeft;
+}
+
+function makeChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concat(arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(arrays.reduce((length, array) => length + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
@@ -0,0 +1,18 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {Device, Framebuffer} from '@luma.gl/core';
+import {getFramebufferSize, readFramebufferPixelsAsync} from '@luma.gl/engine';
+import type {RGBAImage} from './diff-images';
+
+/**
+ * Reads the pixels of the first color attachment of a framebuffer, by default the framebuffer of the canvas.
+ * @note Expects 8 bit RGBA or BGRA colors
+ * @returns the image, top row first
+ */
+export async function readPixelsAsync(device: Device, framebuffer?: Framebuffer): Promise<RGBAImage> {
+  framebuffer = framebuffer || device.getCanvasContext().getCurrentFramebuffer();
+  const [width, height] = getFramebufferSize(device, framebuffer);
+  const data = await readFramebufferPixelsAsync(device, framebuffer);
+  return {width, height, data};
+}
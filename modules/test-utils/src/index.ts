@@ -1,11 +1,28 @@
 import './register-devices';
 
 export type {TestRunnerTestCase} from './test-runner';
-export type {SnapshotTestRunnerTestCase} from './snapshot-test-runner';
+export type {SnapshotTestRunnerTestCase, SnapshotTestRunnerProps} from './snapshot-test-runner';
 
 export {SnapshotTestRunner} from './snapshot-test-runner';
 export {PerformanceTestRunner} from './performance-test-runner';
 export {createTestDevice, createTestContext, webgl1Device, webgl2Device, webgpuDevice} from './create-test-device';
+export {getNullTestDevice} from './create-test-device';
 export {getTestDevices, getWebGLTestDevices} from './create-test-device';
 
 export {checkType} from './check-type';
+
+// Image utilities - framebuffer capture and pixel diffing, for snapshot tests without a browser
+export type {RGBAImage, ImageDiffOptions, ImageDiffResult} from './image-utils/diff-images';
+export type {CaptureAndDiffOptions, CaptureAndDiffResult} from './image-utils/capture-and-diff';
+export {diffImages} from './image-utils/diff-images';
+export {readPixelsAsync} from './image-utils/read-pixels';
+
+// Null device - headless CPU-only Device for unit tests
+export type {NullDrawCall} from './null-device/resources/null-render-pass';
+export {NullDevice} from './null-device/null-device';
+export {NullCanvasContext} from './null-device/null-canvas-context';
+export {NullBuffer} from './null-device/resources/null-buffer';
+export {NullTexture} from './null-device/resources/null-texture';
+export {NullRenderPass} from './null-device/resources/null-render-pass';
+export {NullRenderPipeline} from './null-device/resources/null-render-pipeline';
+export {NullComputePass} from './null-device/resources/null-compute-pass';
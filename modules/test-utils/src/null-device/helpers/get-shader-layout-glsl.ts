@@ -0,0 +1,280 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {
+  ShaderLayout,
+  ShaderAttributeType,
+  ShaderUniformType,
+  BindingDeclaration
+} from '@luma.gl/core';
+
+type TextureBinding = Extract<BindingDeclaration, {type: 'texture'}>;
+type UniformInfo = Extract<BindingDeclaration, {type: 'uniform'}>['uniforms'][number];
+
+/**
+ * Approximates the ShaderLayout the GPU driver would introspect from a linked GLSL program.
+ * Regex based: handles the declaration styles used by luma.gl shaders, not arbitrary GLSL.
+ * - Vertex shader `in` / `attribute` declarations become attributes
+ *   (explicit `layout(location = n)` is honored, others get the next free location)
+ * - Uniform blocks become 'uniform' bindings with std140 member offsets
+ * - Sampler uniforms become 'texture' bindings, assigned to sequential texture units
+ */
+export function getShaderLayoutFromGLSL(vs: string, fs?: string | null): ShaderLayout {
+  const vsSource = stripComments(vs);
+  const fsSource = fs ? stripComments(fs) : '';
+
+  const shaderLayout: ShaderLayout = {
+    attributes: getAttributes(vsSource),
+    bindings: []
+  };
+
+  const VISIBILITY_VERTEX = 0x1;
+  const VISIBILITY_FRAGMENT = 0x2;
+
+  for (const [source, visibility] of [
+    [vsSource, VISIBILITY_VERTEX],
+    [fsSource, VISIBILITY_FRAGMENT]
+  ] as const) {
+    for (const binding of [...getUniformBlocks(source), ...getSamplers(source)]) {
+      const existing = shaderLayout.bindings.find(b => b.name === binding.name);
+      if (existing) {
+        existing.visibility = (existing.visibility || 0) | visibility;
+      } else {
+        shaderLayout.bindings.push({...binding, visibility});
+      }
+    }
+  }
+
+  // Assign locations per binding type in declaration order, like the WebGL backend
+  let blockIndex = 0;
+  let textureUnit = 0;
+  for (const binding of shaderLayout.bindings) {
+    binding.location = binding.type === 'texture' ? textureUnit++ : blockIndex++;
+  }
+
+  return shaderLayout;
+}
+
+// HELPERS
+
+const PRECISION = '(?:(?:highp|mediump|lowp)\\s+)?';
+
+function stripComments(source: string): string {
+  return source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+}
+
+function getAttributes(vs: string): ShaderLayout['attributes'] {
+  const ATTRIBUTE_REGEX = new RegExp(
+    `^\\s*(?:layout\\s*\\(([^)]*)\\)\\s*)?(?:in|attribute)\\s+${PRECISION}(\\w+)\\s+(\\w+)\\s*;`,
+    'gm'
+  );
+
+  const declarations: {name: string; type: ShaderAttributeType; location: number | null}[] = [];
+  for (const [, layout, glslType, name] of vs.matchAll(ATTRIBUTE_REGEX)) {
+    const locationMatch = layout && /location\s*=\s*(\d+)/.exec(layout);
+    declarations.push({
+      name,
+      type: getAttributeType(glslType),
+      location: locationMatch ? Number(locationMatch[1]) : null
+    });
+  }
+
+  const usedLocations = new Set(declarations.map(declaration => declaration.location));
+  let nextLocation = 0;
+  const attributes = declarations.map(declaration => {
+    let location = declaration.location;
+    if (location === null) {
+      while (usedLocations.has(nextLocation)) {
+        nextLocation++;
+      }
+      location = nextLocation;
+      usedLocations.add(location);
+    }
+    // Heuristic: Any attribute name containing the word "instance" will be assumed to be instanced
+    const stepMode: 'vertex' | 'instance' = /instance/i.test(declaration.name) ? 'instance' : 'vertex';
+    return {name: declaration.name, location, type: declaration.type, stepMode};
+  });
+
+  return attributes.sort((a, b) => a.location - b.location);
+}
+
+function getUniformBlocks(source: string): BindingDeclaration[] {
+  const BLOCK_REGEX = /^\s*(?:layout\s*\([^)]*\)\s*)?uniform\s+(\w+)\s*\{([^}]*)\}\s*\w*\s*;/gm;
+  const STRUCT_REGEX = /^\s*struct\s+(\w+)\s*\{([^}]*)\}\s*;/gm;
+  const DEFINE_REGEX = /^\s*#define\s+(\w+)\s+(\d+)\s*$/gm;
+
+  const structs: Record<string, string> = {};
+  for (const [, name, body] of source.matchAll(STRUCT_REGEX)) {
+    structs[name] = body;
+  }
+  // Array sizes can be integer constants, e.g. `Light lights[MAX_LIGHTS]`
+  const defines: Record<string, string> = {};
+  for (const [, name, value] of source.matchAll(DEFINE_REGEX)) {
+    defines[name] = value;
+  }
+
+  const bindings: BindingDeclaration[] = [];
+  for (const [, name, body] of source.matchAll(BLOCK_REGEX)) {
+    const {uniforms, byteLength} = getStd140Members(body, structs, defines);
+    bindings.push({
+      type: 'uniform',
+      name,
+      location: 0,
+      minBindingSize: Math.ceil(byteLength / 16) * 16,
+      uniforms
+    });
+  }
+  return bindings;
+}
+
+function getSamplers(source: string): TextureBinding[] {
+  const SAMPLER_REGEX = new RegExp(`^\\s*uniform\\s+${PRECISION}([iu]?sampler\\w+)\\s+(\\w+)\\s*;`, 'gm');
+
+  const bindings: TextureBinding[] = [];
+  for (const [, samplerType, name] of source.matchAll(SAMPLER_REGEX)) {
+    bindings.push({
+      type: 'texture',
+      name,
+      location: 0,
+      viewDimension: getViewDimension(samplerType),
+      sampleType: getSampleType(samplerType)
+    });
+  }
+  return bindings;
+}
+
+/**
+ * Computes std140 offsets for the members of a uniform block or struct.
+ * Struct members are flattened to one uniform per field, named like WebGL reflects them (`lights[0].color`)
+ */
+function getStd140Members(
+  body: string,
+  structs: Record<string, string>,
+  defines: Record<string, string>
+): {uniforms: UniformInfo[]; byteLength: number} {
+  const MEMBER_REGEX = new RegExp(`${PRECISION}(\\w+)\\s+(\\w+)\\s*(?:\\[\\s*(\\w+)\\s*\\])?`);
+
+  const uniforms: UniformInfo[] = [];
+  let byteOffset = 0;
+  for (const declaration of body.split(';')) {
+    const match = MEMBER_REGEX.exec(declaration.trim());
+    if (!match) {
+      continue; // eslint-disable-line no-continue
+    }
+    const [, glslType, name, arrayLength] = match;
+    const isArray = Boolean(arrayLength);
+    const count = isArray ? Number(defines[arrayLength] || arrayLength) : 1;
+    if (!Number.isInteger(count)) {
+      throw new Error(`Unsupported GLSL array length ${arrayLength}`);
+    }
+
+    if (glslType in structs) {
+      // Structs (and struct array elements) are aligned and padded to vec4
+      const struct = getStd140Members(structs[glslType], structs, defines);
+      const byteStride = Math.ceil(struct.byteLength / 16) * 16;
+      byteOffset = Math.ceil(byteOffset / 16) * 16;
+      for (let i = 0; i < count; i++) {
+        const elementName = isArray ? `${name}[${i}]` : name;
+        for (const uniform of struct.uniforms) {
+          uniforms.push({
+            ...uniform,
+            name: `${elementName}.${uniform.name}`,
+            byteOffset: byteOffset + i * byteStride + uniform.byteOffset
+          });
+        }
+      }
+      byteOffset += byteStride * count;
+      continue; // eslint-disable-line no-continue
+    }
+
+    const format = getUniformType(glslType);
+    if (!format) {
+      throw new Error(`Unsupported GLSL uniform type ${glslType}`);
+    }
+    const {alignment, byteLength} = getStd140Size(format);
+
+    // Array elements are rounded up to vec4 alignment
+    const byteStride = isArray ? Math.ceil(byteLength / 16) * 16 : byteLength;
+    byteOffset = Math.ceil(byteOffset / (isArray ? 16 : alignment)) * (isArray ? 16 : alignment);
+
+    uniforms.push({
+      name,
+      format,
+      byteOffset,
+      byteStride,
+      arrayLength: isArray ? count : 0
+    });
+    byteOffset += byteStride * count;
+  }
+  return {uniforms, byteLength: byteOffset};
+}
+
+function getStd140Size(format: ShaderUniformType): {alignment: number; byteLength: number} {
+  const matrix = /^mat(\d)x(\d)/.exec(format);
+  if (matrix) {
+    // Each column is stored as a vec4
+    return {alignment: 16, byteLength: 16 * Number(matrix[1])};
+  }
+  const components = Number(/^vec(\d)/.exec(format)?.[1] || 1);
+  return {alignment: components === 1 ? 4 : components === 2 ? 8 : 16, byteLength: 4 * components};
+}
+
+function getAttributeType(glslType: string): ShaderAttributeType {
+  const type = getUniformType(glslType);
+  if (!type || type.startsWith('mat')) {
+    throw new Error(`Unsupported GLSL attribute type ${glslType}`);
+  }
+  return type as ShaderAttributeType;
+}
+
+/** Convert a GLSL type name (`vec3`, `ivec2`, `mat4`, ...) to a WGSL-style type string */
+function getUniformType(glslType: string): ShaderUniformType | null {
+  const SCALAR_TYPES: Record<string, ShaderUniformType> = {
+    float: 'f32',
+    int: 'i32',
+    uint: 'u32',
+    bool: 'i32'
+  };
+  if (SCALAR_TYPES[glslType]) {
+    return SCALAR_TYPES[glslType];
+  }
+
+  const vector = /^([iub]?)vec(\d)$/.exec(glslType);
+  if (vector) {
+    const dataType = {'': 'f32', i: 'i32', u: 'u32', b: 'i32'}[vector[1]];
+    return `vec${vector[2]}<${dataType}>` as ShaderUniformType;
+  }
+
+  const matrix = /^mat(\d)(?:x(\d))?$/.exec(glslType);
+  if (matrix) {
+    return `mat${matrix[1]}x${matrix[2] || matrix[1]}<f32>` as ShaderUniformType;
+  }
+
+  return null;
+}
+
+function getViewDimension(samplerType: string): TextureBinding['viewDimension'] {
+  if (samplerType.includes('Cube')) {
+    return 'cube';
+  }
+  if (samplerType.includes('3D')) {
+    return '3d';
+  }
+  if (samplerType.includes('2DArray')) {
+    return '2d-array';
+  }
+  return '2d';
+}
+
+function getSampleType(samplerType: string): TextureBinding['sampleType'] {
+  if (samplerType.includes('Shadow')) {
+    return 'depth';
+  }
+  if (samplerType.startsWith('i')) {
+    return 'sint';
+  }
+  if (samplerType.startsWith('u')) {
+    return 'uint';
+  }
+  return 'float';
+}
@@ -0,0 +1,72 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {CanvasContextProps, ColorTextureFormat, DepthStencilTextureFormat} from '@luma.gl/core';
+import {CanvasContext} from '@luma.gl/core';
+import type {NullDevice} from './null-device';
+import {NullFramebuffer} from './resources/null-framebuffer';
+
+/**
+ * A CanvasContext for the null device.
+ * Tracks the canvas size and provides a framebuffer with CPU-side "swap chain" textures.
+ */
+export class NullCanvasContext extends CanvasContext {
+  readonly device: NullDevice;
+  readonly format: ColorTextureFormat = 'rgba8unorm';
+  readonly depthStencilFormat: DepthStencilTextureFormat = 'depth24plus';
+
+  presentationSize: [number, number];
+  private _framebuffer: NullFramebuffer | null = null;
+
+  constructor(device: NullDevice, props: CanvasContextProps) {
+    // Note: Base class creates / looks up the canvas (unless under Node.js)
+    super(props);
+    this.device = device;
+    this.presentationSize = [-1, -1];
+    this._setAutoCreatedCanvasId(`${this.device.id}-canvas`);
+    this.update();
+  }
+
+  getCurrentFramebuffer(): NullFramebuffer {
+    this.update();
+    this._framebuffer =
+      this._framebuffer ||
+      new NullFramebuffer(this.device, {
+        id: `${this.device.id}-default-framebuffer`,
+        width: this.presentationSize[0],
+        height: this.presentationSize[1],
+        colorAttachments: [this.format],
+        depthStencilAttachment: this.depthStencilFormat
+      });
+    this._framebuffer.resize(this.presentationSize);
+    return this._framebuffer;
+  }
+
+  /** Resizes and updates render targets if necessary */
+  update(): void {
+    const size = this.getPixelSize();
+    const sizeChanged =
+      size[0] !== this.presentationSize[0] || size[1] !== this.presentationSize[1];
+    if (sizeChanged) {
+      this.presentationSize = size;
+    }
+  }
+
+  resize(options?: {width?: number; height?: number; useDevicePixels?: boolean | number}): void {
+    if (this.canvas) {
+      const devicePixelRatio = this.getDevicePixelRatio(options?.useDevicePixels);
+      this.setDevicePixelRatio(devicePixelRatio, options);
+      return;
+    }
+    // Under Node.js there is no canvas, just track the requested size
+    if (options?.width && options?.height) {
+      this.width = options.width;
+      this.height = options.height;
+    }
+  }
+
+  /** Size of the drawing buffer, there is no WebGL context to query */
+  override getDrawingBufferSize(): [number, number] {
+    return this.canvas ? [this.canvas.width, this.canvas.height] : [this.width, this.height];
+  }
+}
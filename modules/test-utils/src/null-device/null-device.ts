@@ -0,0 +1,251 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {
+  DeviceProps,
+  DeviceInfo,
+  DeviceLimits,
+  DeviceFeature,
+  CanvasContextProps,
+  BufferProps,
+  SamplerProps,
+  ShaderProps,
+  TextureProps,
+  TextureFormat,
+  ExternalTextureProps,
+  FramebufferProps,
+  RenderPipelineProps,
+  ComputePipelineProps,
+  RenderPassProps,
+  ComputePassProps,
+  CommandEncoderProps,
+  VertexArrayProps,
+  TransformFeedbackProps
+} from '@luma.gl/core';
+import {Device, uid} from '@luma.gl/core';
+
+import {NullCanvasContext} from './null-canvas-context';
+import {NullBuffer} from './resources/null-buffer';
+import {NullTexture} from './resources/null-texture';
+import {NullExternalTexture} from './resources/null-external-texture';
+import {NullSampler} from './resources/null-sampler';
+import {NullShader} from './resources/null-shader';
+import {NullFramebuffer} from './resources/null-framebuffer';
+import {NullRenderPipeline} from './resources/null-render-pipeline';
+import {NullComputePipeline} from './resources/null-compute-pipeline';
+import {NullRenderPass} from './resources/null-render-pass';
+import {NullComputePass} from './resources/null-compute-pass';
+import {NullCommandEncoder} from './resources/null-command-encoder';
+import {NullVertexArray} from './resources/null-vertex-array';
+import {NullTransformFeedback} from './resources/null-transform-feedback';
+
+/** WebGL2-like limits, so that code written against the GPU backends runs unmodified */
+const NULL_DEVICE_LIMITS: DeviceLimits = {
+  maxTextureDimension1D: 8192,
+  maxTextureDimension2D: 8192,
+  maxTextureDimension3D: 2048,
+  maxTextureArrayLayers: 256,
+  maxBindGroups: 4,
+  maxDynamicUniformBuffersPerPipelineLayout: 8,
+  maxDynamicStorageBuffersPerPipelineLayout: 4,
+  maxSampledTexturesPerShaderStage: 16,
+  maxSamplersPerShaderStage: 16,
+  maxStorageBuffersPerShaderStage: 8,
+  maxStorageTexturesPerShaderStage: 4,
+  maxUniformBuffersPerShaderStage: 12,
+  maxUniformBufferBindingSize: 65536,
+  maxStorageBufferBindingSize: 134217728,
+  minUniformBufferOffsetAlignment: 256,
+  minStorageBufferOffsetAlignment: 256,
+  maxVertexBuffers: 16,
+  maxVertexAttributes: 16,
+  maxVertexBufferArrayStride: 2048,
+  maxInterStageShaderComponents: 60,
+  maxComputeWorkgroupStorageSize: 16384,
+  maxComputeInvocationsPerWorkgroup: 256,
+  maxComputeWorkgroupSizeX: 256,
+  maxComputeWorkgroupSizeY: 256,
+  maxComputeWorkgroupSizeZ: 64,
+  maxComputeWorkgroupsPerDimension: 65535
+};
+
+/**
+ * Headless "null" Device implementation.
+ * All resources are CPU-side objects: buffers store their bytes, textures record size and format,
+ * pipelines reflect their shader layouts and render passes record their draw calls.
+ * Lets Model, PipelineFactory, UniformStore and scenegraph code be unit tested without a GPU.
+ */
+export class NullDevice extends Device {
+  static type: string = 'null';
+
+  /** The null device is available in every environment */
+  static isSupported(): boolean {
+    return true;
+  }
+
+  static async create(props: DeviceProps = {}): Promise<NullDevice> {
+    return new NullDevice(props);
+  }
+
+  readonly lost: Promise<{reason: 'destroyed'; message: string}>;
+  readonly canvasContext: NullCanvasContext;
+  readonly features: Set<DeviceFeature> = new Set<DeviceFeature>();
+
+  /** Render pass returned by getDefaultRenderPass(), ended on submit() */
+  renderPass: NullRenderPass | null = null;
+
+  private _info: DeviceInfo;
+  private _isLost: boolean = false;
+  /** Render passes begun since recordRenderPasses() was called */
+  private _recordedRenderPasses: NullRenderPass[] | null = null;
+  private _resolveLost: (value: {reason: 'destroyed'; message: string}) => void;
+
+  constructor(props: DeviceProps) {
+    super({...props, id: props.id || uid('null-device')});
+
+    this._info = {
+      type: 'null',
+      vendor: 'luma.gl',
+      renderer: 'null',
+      version: '1.0',
+      gpu: 'software',
+      gpuType: 'cpu',
+      gpuArchitecture: 'unknown',
+      gpuBackend: 'unknown',
+      shadingLanguage: 'glsl',
+      shadingLanguageVersion: 300
+    };
+
+    this.lost = new Promise(resolve => {
+      this._resolveLost = resolve;
+    });
+
+    this.canvasContext = new NullCanvasContext(this, {
+      canvas: props.canvas,
+      width: props.width,
+      height: props.height,
+      container: props.container
+    });
+  }
+
+  destroy(): void {
+    if (!this._isLost) {
+      this._isLost = true;
+      this._resolveLost({reason: 'destroyed', message: 'Null device destroyed'});
+    }
+  }
+
+  get info(): DeviceInfo {
+    return this._info;
+  }
+
+  get limits(): DeviceLimits {
+    return NULL_DEVICE_LIMITS;
+  }
+
+  get isLost(): boolean {
+    return this._isLost;
+  }
+
+  isTextureFormatSupported(format: TextureFormat): boolean {
+    return true;
+  }
+
+  isTextureFormatFilterable(format: TextureFormat): boolean {
+    return true;
+  }
+
+  isTextureFormatRenderable(format: TextureFormat): boolean {
+    return true;
+  }
+
+  createCanvasContext(props: CanvasContextProps): NullCanvasContext {
+    return new NullCanvasContext(this, props);
+  }
+
+  createBuffer(props: BufferProps | ArrayBuffer | ArrayBufferView): NullBuffer {
+    const newProps = this._getBufferProps(props);
+    return new NullBuffer(this, newProps);
+  }
+
+  _createTexture(props: TextureProps): NullTexture {
+    return new NullTexture(this, props);
+  }
+
+  createExternalTexture(props: ExternalTextureProps): NullExternalTexture {
+    return new NullExternalTexture(this, props);
+  }
+
+  createSampler(props: SamplerProps): NullSampler {
+    return new NullSampler(this, props);
+  }
+
+  createShader(props: ShaderProps): NullShader {
+    return new NullShader(this, props);
+  }
+
+  createFramebuffer(props: FramebufferProps): NullFramebuffer {
+    return new NullFramebuffer(this, props);
+  }
+
+  createRenderPipeline(props: RenderPipelineProps): NullRenderPipeline {
+    return new NullRenderPipeline(this, props);
+  }
+
+  createComputePipeline(props: ComputePipelineProps): NullComputePipeline {
+    return new NullComputePipeline(this, props);
+  }
+
+  createVertexArray(props: VertexArrayProps): NullVertexArray {
+    return new NullVertexArray(this, props);
+  }
+
+  createTransformFeedback(props: TransformFeedbackProps): NullTransformFeedback {
+    return new NullTransformFeedback(this, props);
+  }
+
+  override createCommandEncoder(props: CommandEncoderProps = {}): NullCommandEncoder {
+    return new NullCommandEncoder(this, props);
+  }
+
+  beginRenderPass(props: RenderPassProps = {}): NullRenderPass {
+    const renderPass = new NullRenderPass(this, props);
+    this._recordedRenderPasses?.push(renderPass);
+    return renderPass;
+  }
+
+  /**
+   * Starts recording the render passes begun on this device, e.g. by a renderer under test.
+   * @returns the array that render passes are appended to, until stopRecordingRenderPasses() is called
+   */
+  recordRenderPasses(): NullRenderPass[] {
+    this._recordedRenderPasses = [];
+    return this._recordedRenderPasses;
+  }
+
+  /** Stops recording render passes */
+  stopRecordingRenderPasses(): void {
+    this._recordedRenderPasses = null;
+  }
+
+  beginComputePass(props: ComputePassProps = {}): NullComputePass {
+    return new NullComputePass(this, props);
+  }
+
+  /**
+   * Gets default renderpass encoder.
+   * Creates a new pass against the default canvasContext if not already created
+   */
+  getDefaultRenderPass(): NullRenderPass {
+    this.renderPass =
+      this.renderPass ||
+      this.beginRenderPass({framebuffer: this.canvasContext.getCurrentFramebuffer()});
+    return this.renderPass;
+  }
+
+  /** Ends the default render pass, if any */
+  submit(): void {
+    this.renderPass?.end();
+    this.renderPass = null;
+  }
+}
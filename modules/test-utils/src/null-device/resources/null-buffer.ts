@@ -0,0 +1,58 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {BufferProps} from '@luma.gl/core';
+import {Buffer} from '@luma.gl/core';
+import type {NullDevice} from '../null-device';
+
+/** A buffer that keeps its contents in CPU memory */
+export class NullBuffer extends Buffer {
+  readonly device: NullDevice;
+  readonly byteLength: number;
+  /** The bytes stored in this buffer */
+  readonly handle: ArrayBuffer;
+
+  constructor(device: NullDevice, props: BufferProps = {}) {
+    super(device, props);
+    this.device = device;
+
+    const byteOffset = props.byteOffset || 0;
+    this.byteLength = props.byteLength || (props.data ? props.data.byteLength + byteOffset : 0);
+    this.handle = new ArrayBuffer(this.byteLength);
+
+    if (props.data) {
+      const data = ArrayBuffer.isView(props.data) ? props.data : new Uint8Array(props.data);
+      this.write(data, byteOffset);
+    }
+    this.trackAllocatedMemory(this.byteLength);
+  }
+
+  override destroy(): void {
+    if (!this.destroyed) {
+      super.destroy();
+      this.trackDeallocatedMemory();
+    }
+  }
+
+  override write(data: ArrayBufferView, byteOffset: number = 0): void {
+    if (byteOffset + data.byteLength > this.byteLength) {
+      throw new Error(`Buffer ${this.id}: write of ${data.byteLength} bytes at ${byteOffset} is out of range`);
+    }
+    const source = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    new Uint8Array(this.handle, byteOffset, data.byteLength).set(source);
+    this.debugData = this.handle.slice(0, Buffer.DEBUG_DATA_MAX_LENGTH);
+  }
+
+  override async readAsync(byteOffset: number = 0, byteLength?: number): Promise<Uint8Array> {
+    return this.readSyncWebGL2(byteOffset, byteLength);
+  }
+
+  /** Contents are always available on the CPU, so synchronous reads are supported */
+  override readSyncWebGL2(byteOffset: number = 0, byteLength?: number): Uint8Array {
+    byteLength = byteLength ?? this.byteLength - byteOffset;
+    if (byteOffset + byteLength > this.byteLength) {
+      throw new Error(`Buffer ${this.id}: read of ${byteLength} bytes at ${byteOffset} is out of range`);
+    }
+    return new Uint8Array(this.handle.slice(byteOffset, byteOffset + byteLength));
+  }
+}
@@ -0,0 +1,61 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {
+  CommandEncoderProps,
+  CopyBufferToBufferOptions,
+  CopyBufferToTextureOptions,
+  CopyTextureToBufferOptions,
+  CopyTextureToTextureOptions
+} from '@luma.gl/core';
+import {CommandEncoder} from '@luma.gl/core';
+import type {NullDevice} from '../null-device';
+import type {NullBuffer} from './null-buffer';
+
+/**
+ * Command encoder for the null device.
+ * Buffer to buffer copies are performed immediately on the CPU, texture copies are ignored.
+ */
+export class NullCommandEncoder extends CommandEncoder {
+  readonly device: NullDevice;
+
+  constructor(device: NullDevice, props: CommandEncoderProps) {
+    super(device, props);
+    this.device = device;
+  }
+
+  finish(): void {}
+
+  copyBufferToBuffer(options: CopyBufferToBufferOptions): void {
+    this.commandList?.recordCopy('copy-buffer-to-buffer', options);
+    const source = options.source as NullBuffer;
+    const destination = options.destination as NullBuffer;
+    const {sourceOffset = 0, destinationOffset = 0, size} = options;
+    const data = new Uint8Array(source.handle, sourceOffset, size);
+    destination.write(data, destinationOffset);
+  }
+
+  copyBufferToTexture(options: CopyBufferToTextureOptions): void {
+    this.commandList?.recordCopy('copy-buffer-to-texture', options);
+  }
+
+  copyTextureToBuffer(options: CopyTextureToBufferOptions): void {
+    this.commandList?.recordCopy('copy-texture-to-buffer', options);
+  }
+
+  copyTextureToTexture(options: CopyTextureToTextureOptions): void {
+    this.commandList?.recordCopy('copy-texture-to-texture', options);
+  }
+
+  override pushDebugGroup(groupLabel: string): void {
+    this.commandList?.recordPushDebugGroup(groupLabel);
+  }
+
+  override popDebugGroup(): void {
+    this.commandList?.recordPopDebugGroup();
+  }
+
+  override insertDebugMarker(markerLabel: string): void {
+    this.commandList?.recordInsertDebugMarker(markerLabel);
+  }
+}
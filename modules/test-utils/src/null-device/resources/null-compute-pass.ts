@@ -0,0 +1,74 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {ComputePassProps, ComputePipeline, Buffer, Binding} from '@luma.gl/core';
+import {ComputePass, log} from '@luma.gl/core';
+import type {NullDevice} from '../null-device';
+
+/** A compute pass that records dispatches instead of executing them */
+export class NullComputePass extends ComputePass {
+  readonly device: NullDevice;
+
+  /** Active pipeline */
+  pipeline: ComputePipeline | null = null;
+  /** Active bindings */
+  bindings: Record<string, Binding> = {};
+  /** Recorded dispatches */
+  readonly dispatches: {
+    pipeline: ComputePipeline | null;
+    bindings: Record<string, Binding>;
+    x: number;
+    y: number;
+    z: number;
+  }[] = [];
+  /** Set to true by end() */
+  ended: boolean = false;
+
+  constructor(device: NullDevice, props: ComputePassProps = {}) {
+    super(device, props);
+    this.device = device;
+  }
+
+  override destroy(): void {
+    this.destroyResource();
+  }
+
+  end(): void {
+    this.ended = true;
+  }
+
+  setPipeline(pipeline: ComputePipeline): void {
+    this.pipeline = pipeline;
+    this.bindings = {};
+  }
+
+  setBindings(bindings: Record<string, Binding>): void {
+    if (!this.pipeline) {
+      throw new Error(`ComputePass ${this.id}: setBindings() called before setPipeline()`);
+    }
+    const {shaderLayout} = this.pipeline;
+    for (const [name, value] of Object.entries(bindings)) {
+      // Accept both `xyz` and `xyzUniforms` as valid names for `xyzUniforms` uniform block
+      const binding =
+        shaderLayout.bindings.find(binding => binding.name === name) ||
+        shaderLayout.bindings.find(binding => `${binding.name}Uniforms` === name);
+      if (!binding) {
+        log.warn(`Unknown binding "${name}" in compute pipeline "${this.pipeline.id}"`)();
+        continue; // eslint-disable-line no-continue
+      }
+      this.bindings[name] = value;
+    }
+  }
+
+  dispatch(x: number, y: number = 1, z: number = 1): void {
+    this.dispatches.push({pipeline: this.pipeline, bindings: {...this.bindings}, x, y, z});
+  }
+
+  dispatchIndirect(indirectBuffer: Buffer, indirectOffset: number = 0): void {
+    // Indirect arguments are not read back, the null device executes nothing
+  }
+
+  pushDebugGroup(groupLabel: string): void {}
+  popDebugGroup(): void {}
+  insertDebugMarker(markerLabel: string): void {}
+}
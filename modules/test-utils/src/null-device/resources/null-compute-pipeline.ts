@@ -0,0 +1,28 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {ComputePipelineProps, ShaderLayout} from '@luma.gl/core';
+import {ComputePipeline, mergeShaderLayout} from '@luma.gl/core';
+import {getShaderLayoutFromWGSL} from '@luma.gl/shadertools';
+import type {NullDevice} from '../null-device';
+import type {NullShader} from './null-shader';
+
+/** A compute pipeline that reflects its shader layout from WGSL shader source */
+export class NullComputePipeline extends ComputePipeline {
+  readonly device: NullDevice;
+  readonly cs: NullShader;
+  /** The layout extracted from shader source */
+  readonly introspectedLayout: ShaderLayout;
+
+  constructor(device: NullDevice, props: ComputePipelineProps) {
+    super(device, props);
+    this.device = device;
+    this.cs = props.cs as NullShader;
+
+    this.introspectedLayout = getShaderLayoutFromWGSL(this.cs.source, {
+      computeEntryPoint: this.props.csEntryPoint
+    });
+    // Merge provided layout with introspected layout
+    this.shaderLayout = mergeShaderLayout(this.introspectedLayout, props.shaderLayout);
+  }
+}
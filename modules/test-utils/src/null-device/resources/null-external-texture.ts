@@ -0,0 +1,24 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {ExternalTextureProps, Sampler, SamplerProps} from '@luma.gl/core';
+import {ExternalTexture} from '@luma.gl/core';
+import type {NullDevice} from '../null-device';
+import {NullSampler} from './null-sampler';
+
+/** An external texture that only references its source */
+export class NullExternalTexture extends ExternalTexture {
+  readonly device: NullDevice;
+  sampler: NullSampler | null = null;
+
+  constructor(device: NullDevice, props: ExternalTextureProps) {
+    super(device, props);
+    this.device = device;
+  }
+
+  /** Set default sampler */
+  setSampler(sampler: Sampler | SamplerProps): this {
+    this.sampler = sampler instanceof NullSampler ? sampler : new NullSampler(this.device, sampler);
+    return this;
+  }
+}
@@ -0,0 +1,17 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {FramebufferProps} from '@luma.gl/core';
+import {Framebuffer} from '@luma.gl/core';
+import type {NullDevice} from '../null-device';
+
+/** A framebuffer whose attachments are null device textures */
+export class NullFramebuffer extends Framebuffer {
+  readonly device: NullDevice;
+
+  constructor(device: NullDevice, props: FramebufferProps = {}) {
+    super(device, props);
+    this.device = device;
+    this.autoCreateAttachmentTextures();
+  }
+}
@@ -0,0 +1,84 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {
+  Binding,
+  Buffer,
+  Framebuffer,
+  PrimitiveTopology,
+  RenderPassProps,
+  RenderPassParameters,
+  TypedArray,
+  UniformValue
+} from '@luma.gl/core';
+import {RenderPass} from '@luma.gl/core';
+import type {NullDevice} from '../null-device';
+import type {NullRenderPipeline} from './null-render-pipeline';
+
+/** Snapshot of the state of a single draw call, recorded by NullRenderPass */
+export type NullDrawCall = {
+  pipeline: NullRenderPipeline;
+  topology: PrimitiveTopology;
+  vertexCount: number;
+  instanceCount: number;
+  firstVertex: number;
+  /** Whether an index buffer was bound */
+  indexed: boolean;
+  indexBuffer: Buffer | null;
+  /** Attribute buffers or constants, indexed by location */
+  attributes: (Buffer | TypedArray | null)[];
+  bindings: Record<string, Binding>;
+  uniforms: Record<string, UniformValue>;
+  parameters: RenderPassParameters;
+};
+
+/** A render pass that records draw calls instead of rasterizing them */
+export class NullRenderPass extends RenderPass {
+  readonly device: NullDevice;
+  readonly framebuffer: Framebuffer;
+
+  /** Draw calls recorded in this pass, in submission order */
+  readonly drawCalls: NullDrawCall[] = [];
+  /** Current dynamic parameters (viewport, scissorRect, blendConstant, stencilReference) */
+  parameters: RenderPassParameters = {};
+  /** Set to true by end() */
+  ended: boolean = false;
+
+  constructor(device: NullDevice, props: RenderPassProps = {}) {
+    super(device, props);
+    this.device = device;
+    this.framebuffer = this.props.framebuffer || device.canvasContext.getCurrentFramebuffer();
+    this.setParameters(this.props.parameters);
+  }
+
+  override destroy(): void {
+    super.destroy();
+  }
+
+  end(): void {
+    this.ended = true;
+  }
+
+  setParameters(parameters: RenderPassParameters = {}): void {
+    this.commandList?.recordSetParameters(parameters);
+    this.parameters = {...this.parameters, ...parameters};
+  }
+
+  pushDebugGroup(groupLabel: string): void {
+    this.commandList?.recordPushDebugGroup(groupLabel);
+  }
+  popDebugGroup(): void {
+    this.commandList?.recordPopDebugGroup();
+  }
+  insertDebugMarker(markerLabel: string): void {
+    this.commandList?.recordInsertDebugMarker(markerLabel);
+  }
+
+  /** Called by NullRenderPipeline.draw() */
+  _recordDrawCall(drawCall: Omit<NullDrawCall, 'parameters'>): void {
+    if (this.ended) {
+      throw new Error(`RenderPass ${this.id}: draw after end()`);
+    }
+    this.drawCalls.push({...drawCall, parameters: this.parameters});
+  }
+}
@@ -0,0 +1,145 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {
+  Binding,
+  RenderPass,
+  RenderPipelineProps,
+  ShaderLayout,
+  UniformValue,
+  VertexArray,
+  TransformFeedback
+} from '@luma.gl/core';
+import {RenderPipeline, log, mergeShaderLayout, splitUniformsAndBindings} from '@luma.gl/core';
+import {getShaderLayoutFromWGSL} from '@luma.gl/shadertools';
+import {getShaderLayoutFromGLSL} from '../helpers/get-shader-layout-glsl';
+import type {NullDevice} from '../null-device';
+import type {NullShader} from './null-shader';
+import type {NullRenderPass} from './null-render-pass';
+
+/**
+ * A render pipeline that reflects its shader layout from shader source
+ * and records draw calls into the render pass
+ */
+export class NullRenderPipeline extends RenderPipeline {
+  readonly device: NullDevice;
+  readonly vs: NullShader;
+  readonly fs: NullShader | null;
+  /** The layout extracted from shader source */
+  readonly introspectedLayout: ShaderLayout;
+
+  /** Bindings set on this pipeline */
+  bindings: Record<string, Binding> = {};
+  /** Uniforms set on this pipeline */
+  uniforms: Record<string, UniformValue> = {};
+
+  constructor(device: NullDevice, props: RenderPipelineProps) {
+    super(device, props);
+    this.device = device;
+
+    this.vs = props.vs as NullShader;
+    this.fs = props.fs as NullShader | null;
+
+    this.introspectedLayout =
+      this.vs.language === 'wgsl'
+        ? getShaderLayoutFromWGSL(this.vs.source, {vertexEntryPoint: this.props.vsEntryPoint})
+        : getShaderLayoutFromGLSL(this.vs.source, this.fs?.source);
+
+    // Merge provided layout with introspected layout
+    this.shaderLayout = mergeShaderLayout(this.introspectedLayout, props.shaderLayout);
+
+    this.setBindings(this.props.bindings);
+    this.setUniforms(this.props.uniforms);
+  }
+
+  /** Bindings include: textures, samplers and uniform buffers */
+  setBindings(bindings: Record<string, Binding>): void {
+    for (const [name, value] of Object.entries(bindings)) {
+      // Accept both `xyz` and `xyzUniforms` as valid names for `xyzUniforms` uniform block
+      const binding =
+        this.shaderLayout.bindings.find(binding => binding.name === name) ||
+        this.shaderLayout.bindings.find(binding => binding.name === `${name}Uniforms`);
+
+      if (!binding) {
+        const validBindings = this.shaderLayout.bindings
+          .map(binding => `"${binding.name}"`)
+          .join(', ');
+        log.warn(
+          `Unknown binding "${name}" in render pipeline "${this.id}", expected one of ${validBindings}`
+        )();
+        continue; // eslint-disable-line no-continue
+      }
+      if (!value) {
+        log.warn(`Unsetting binding "${name}" in render pipeline "${this.id}"`)();
+      }
+      this.bindings[name] = value;
+    }
+  }
+
+  setUniforms(uniforms: Record<string, UniformValue>): void {
+    const {bindings} = splitUniformsAndBindings(uniforms);
+    Object.keys(bindings).forEach(name => {
+      log.warn(
+        `Unsupported value "${JSON.stringify(bindings[name])}" used in setUniforms() for key ${name}. Use setBindings() instead?`
+      )();
+    });
+    Object.assign(this.uniforms, uniforms);
+  }
+
+  /** Records the draw call, with a snapshot of all state, in the render pass */
+  draw(options: {
+    renderPass?: RenderPass;
+    vertexArray: VertexArray;
+    vertexCount?: number;
+    instanceCount?: number;
+    firstVertex?: number;
+    firstIndex?: number;
+    firstInstance?: number;
+    baseVertex?: number;
+    transformFeedback?: TransformFeedback;
+  }): void {
+    const {
+      renderPass = this.device.getDefaultRenderPass(),
+      vertexArray,
+      vertexCount = this.props.vertexCount,
+      instanceCount = this.props.instanceCount,
+      firstVertex = 0,
+      firstIndex,
+      firstInstance,
+      baseVertex,
+      transformFeedback
+    } = options;
+
+    renderPass.commandList?.recordDraw({
+      pipeline: this,
+      bindings: this.bindings,
+      uniforms: this.uniforms,
+      vertexArray,
+      vertexCount,
+      instanceCount,
+      firstVertex,
+      firstIndex,
+      firstInstance,
+      baseVertex
+    });
+
+    vertexArray.bindBeforeRender(renderPass);
+    transformFeedback?.begin(this.props.topology);
+
+    (renderPass as NullRenderPass)._recordDrawCall({
+      pipeline: this,
+      topology: this.props.topology,
+      vertexCount,
+      instanceCount,
+      firstVertex,
+      indexed: Boolean(vertexArray.indexBuffer),
+      indexBuffer: vertexArray.indexBuffer,
+      attributes: [...vertexArray.attributes],
+      bindings: {...this.bindings},
+      uniforms: {...this.uniforms}
+    });
+
+    transformFeedback?.end();
+    vertexArray.unbindAfterRender(renderPass);
+  }
+}
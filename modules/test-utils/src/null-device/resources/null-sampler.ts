@@ -0,0 +1,16 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {SamplerProps} from '@luma.gl/core';
+import {Sampler} from '@luma.gl/core';
+import type {NullDevice} from '../null-device';
+
+/** A sampler that only holds its props */
+export class NullSampler extends Sampler {
+  readonly device: NullDevice;
+
+  constructor(device: NullDevice, props: SamplerProps) {
+    super(device, props);
+    this.device = device;
+  }
+}
@@ -0,0 +1,30 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {ShaderProps, CompilerMessage} from '@luma.gl/core';
+import {Shader} from '@luma.gl/core';
+import type {NullDevice} from '../null-device';
+
+/** A shader that is never compiled. Compilation always "succeeds" */
+export class NullShader extends Shader {
+  readonly device: NullDevice;
+  /** Shader language, resolved from source if props.language is 'auto' */
+  readonly language: 'glsl' | 'wgsl';
+
+  constructor(device: NullDevice, props: ShaderProps) {
+    super(device, props);
+    this.device = device;
+    // wgsl uses C++ "auto" style arrow notation
+    const {language} = this.props;
+    this.language = language === 'auto' ? (this.source.includes('->') ? 'wgsl' : 'glsl') : language;
+    this.compilationStatus = 'success';
+  }
+
+  override async getCompilationInfo(): Promise<readonly CompilerMessage[]> {
+    return [];
+  }
+
+  override getCompilationInfoSync(): readonly CompilerMessage[] {
+    return [];
+  }
+}
@@ -0,0 +1,50 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {TextureProps, Sampler, SamplerProps} from '@luma.gl/core';
+import {Texture} from '@luma.gl/core';
+import type {NullDevice} from '../null-device';
+import {NullSampler} from './null-sampler';
+
+/** A texture that records its size and format, but stores no texels */
+export class NullTexture extends Texture {
+  readonly device: NullDevice;
+  sampler: NullSampler;
+  /** Sampler created by this texture from sampler props, destroyed with the texture */
+  private _ownedSampler: NullSampler | null = null;
+
+  constructor(device: NullDevice, props: TextureProps) {
+    super(device, props);
+    this.device = device;
+
+    // Deduce size from image-like data if not supplied
+    const data = this.props.data as {width?: number; height?: number} | null;
+    this.width = this.props.width ?? data?.width ?? 1;
+    this.height = this.props.height ?? data?.height ?? 1;
+
+    this.sampler = this.setSampler(this.props.sampler);
+  }
+
+  override destroy(): void {
+    if (!this.destroyed) {
+      this._ownedSampler?.destroy();
+      super.destroy();
+    }
+  }
+
+  /** Set default sampler. Accepts a sampler instance or set of props */
+  setSampler(sampler: Sampler | SamplerProps = {}): NullSampler {
+    // Samplers passed in may be shared, only samplers created here are owned
+    this._ownedSampler?.destroy();
+    this._ownedSampler = sampler instanceof NullSampler ? null : new NullSampler(this.device, sampler);
+    this.sampler = this._ownedSampler || (sampler as NullSampler);
+    return this.sampler;
+  }
+
+  /** Records a new size. Texture contents are not tracked */
+  resize(options: {width: number; height: number}): this {
+    this.width = options.width;
+    this.height = options.height;
+    return this;
+  }
+}
@@ -0,0 +1,46 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {PrimitiveTopology, TransformFeedbackProps, Buffer, BufferRange} from '@luma.gl/core';
+import {TransformFeedback} from '@luma.gl/core';
+import type {NullDevice} from '../null-device';
+
+/** Holds transform feedback buffer bindings. No varyings are ever captured */
+export class NullTransformFeedback extends TransformFeedback {
+  readonly device: NullDevice;
+  readonly layout: TransformFeedbackProps['layout'];
+  readonly buffers: Record<string, Buffer | BufferRange> = {};
+
+  constructor(device: NullDevice, props: TransformFeedbackProps) {
+    super(device, props);
+    this.device = device;
+    this.layout = this.props.layout;
+    this.setBuffers(this.props.buffers);
+  }
+
+  begin(topology: PrimitiveTopology = 'point-list'): void {}
+
+  end(): void {}
+
+  setBuffers(buffers: Record<string, Buffer | BufferRange>): void {
+    for (const [locationOrName, bufferOrRange] of Object.entries(buffers)) {
+      this.setBuffer(locationOrName, bufferOrRange);
+    }
+  }
+
+  setBuffer(locationOrName: string | number, bufferOrRange: Buffer | BufferRange): void {
+    this.buffers[this._getVaryingName(locationOrName)] = bufferOrRange;
+  }
+
+  getBuffer(locationOrName: string | number): Buffer | BufferRange | null {
+    return this.buffers[this._getVaryingName(locationOrName)] || null;
+  }
+
+  protected _getVaryingName(locationOrName: string | number): string {
+    if (typeof locationOrName === 'string') {
+      return locationOrName;
+    }
+    const varying = this.layout?.varyings?.find(varying => varying.location === locationOrName);
+    return varying?.name || String(locationOrName);
+  }
+}
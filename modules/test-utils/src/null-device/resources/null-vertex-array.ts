@@ -0,0 +1,32 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import type {Buffer, RenderPass, TypedArray, VertexArrayProps} from '@luma.gl/core';
+import {VertexArray} from '@luma.gl/core';
+import type {NullDevice} from '../null-device';
+
+/** Collects attribute and index buffer bindings */
+export class NullVertexArray extends VertexArray {
+  readonly device: NullDevice;
+
+  constructor(device: NullDevice, props: VertexArrayProps) {
+    super(device, props);
+    this.device = device;
+  }
+
+  setIndexBuffer(indexBuffer: Buffer | null): void {
+    this.indexBuffer = indexBuffer;
+  }
+
+  setBuffer(location: number, buffer: Buffer | null): void {
+    this.attributes[location] = buffer;
+  }
+
+  setConstant(location: number, value: TypedArray | null): void {
+    this.attributes[location] = value;
+  }
+
+  bindBeforeRender(renderPass: RenderPass): void {}
+
+  unbindAfterRender(renderPass: RenderPass): void {}
+}
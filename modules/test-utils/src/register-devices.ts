@@ -4,8 +4,9 @@
 import {luma} from '@luma.gl/core';
 import {WebGLDevice, registerHeadlessGL} from '@luma.gl/webgl';
 import {WebGPUDevice} from '@luma.gl/webgpu';
+import {NullDevice} from './null-device/null-device';
 
 import headlessGL from 'gl';
 
 registerHeadlessGL(headlessGL);
-luma.registerDevices([WebGLDevice, WebGPUDevice]);
+luma.registerDevices([WebGLDevice, WebGPUDevice, NullDevice]);
@@ -9,7 +9,15 @@ export type SnapshotTestRunnerTestCase = TestRunnerTestCase & {
   imageDiffOptions?: {[key: string]: any}; 
 }
 
-export type SnapshotTestRunnerProps = TestRunnerProps;
+export type SnapshotTestRunnerProps = TestRunnerProps & {
+  /**
+   * How rendered images are captured
+   * - `'browser'`: screenshot of the canvas, taken by the browser test driver (puppeteer)
+   * - `'device'`: pixels read from the framebuffer of the device, e.g. headless gl under Node.js
+   * Default: `'browser'` when the browser test driver is available, otherwise `'device'`
+   */
+  captureMode?: 'browser' | 'device';
+};
 
 export class SnapshotTestRunner extends TestRunner {
   // should be defined here but hack access in TestRunner
@@ -39,20 +47,17 @@ export class SnapshotTestRunner extends TestRunner {
     }
     this.isDiffing = true;
 
-    const canvas = this._animationProps?.canvas;
-    if (!(canvas instanceof HTMLCanvasElement)) {
-      throw new Error('canvas');
-    }
-
     const diffOptions = {
       ...this.testOptions.imageDiffOptions,
       ...testCase.imageDiffOptions,
-      goldenImage: testCase.goldenImage,
-      region: getBoundingBoxInPage(canvas)
+      goldenImage: testCase.goldenImage
     };
 
     // Take screenshot and compare
-    const result = await globalThis.browserTestDriver_captureAndDiffScreen(diffOptions);
+    const result =
+      this._getCaptureMode() === 'device'
+        ? await this._captureAndDiffFramebuffer(diffOptions)
+        : await this._captureAndDiffScreen(diffOptions);
 
     // invoke user callback
     if (result.success) {
@@ -64,4 +69,25 @@ export class SnapshotTestRunner extends TestRunner {
     this.isDiffing = false;
     this._next();
   }
+
+  _getCaptureMode(): 'browser' | 'device' {
+    return this.props.captureMode || (globalThis.browserTestDriver_captureAndDiffScreen ? 'browser' : 'device');
+  }
+
+  async _captureAndDiffScreen(diffOptions: {goldenImage: string; [key: string]: any}) {
+    const canvas = this._animationProps?.canvas;
+    if (!(canvas instanceof HTMLCanvasElement)) {
+      throw new Error('canvas');
+    }
+    return await globalThis.browserTestDriver_captureAndDiffScreen({
+      ...diffOptions,
+      region: getBoundingBoxInPage(canvas)
+    });
+  }
+
+  async _captureAndDiffFramebuffer(diffOptions: {goldenImage: string; [key: string]: any}) {
+    // Node.js only, not loaded in browsers
+    const {captureAndDiffFramebuffer} = await import('./image-utils/capture-and-diff');
+    return await captureAndDiffFramebuffer(this.device, diffOptions);
+  }
 }
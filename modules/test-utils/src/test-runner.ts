@@ -75,7 +75,7 @@ export class TestRunner {
   isDiffing: boolean = false;
 
   // @ts-expect-error
-  isHeadless: boolean = Boolean(window.browserTestDriver_isHeadless);
+  isHeadless: boolean = Boolean(globalThis.browserTestDriver_isHeadless);
 
   /**
    * props
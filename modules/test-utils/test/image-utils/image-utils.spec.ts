@@ -0,0 +1,224 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {isBrowser} from '@probe.gl/env';
+import {getNullTestDevice, NullDevice, diffImages, readPixelsAsync} from '@luma.gl/test-utils';
+import type {RGBAImage} from '@luma.gl/test-utils';
+import type {CopyTextureToBufferOptions} from '@luma.gl/core';
+import {Buffer} from '@luma.gl/core';
+import {Model} from '@luma.gl/engine';
+
+const nullDevice = getNullTestDevice();
+
+const vs = /* glsl */ `\
+#version 300 es
+void main() { gl_Position = vec4(1.0); }
+`;
+
+const fs = /* glsl */ `\
+#version 300 es
+precision highp float;
+out vec4 fragmentColor;
+void main() { fragmentColor = vec4(1.0); }
+`;
+
+/** A 4x2 image with a red top row and a green bottom row */
+function createImage(): RGBAImage {
+  const data = new Uint8Array(4 * 2 * 4);
+  for (let i = 0; i < 8; i++) {
+    data.set(i < 4 ? [255, 0, 0, 255] : [0, 255, 0, 255], i * 4);
+  }
+  return {width: 4, height: 2, data};
+}
+
+/** Replaces the readback of the null device with the pixels of an image, read bottom row first as in WebGL */
+function mockReadPixels(image: RGBAImage): () => void {
+  const {readPixelsToArrayWebGL} = nullDevice;
+  nullDevice.readPixelsToArrayWebGL = () => {
+    const rowLength = image.width * 4;
+    const pixels = new Uint8Array(image.data.length);
+    for (let y = 0; y < image.height; y++) {
+      const row = image.data.subarray(y * rowLength, (y + 1) * rowLength);
+      pixels.set(row, (image.height - 1 - y) * rowLength);
+    }
+    return pixels;
+  };
+  return () => {
+    nullDevice.readPixelsToArrayWebGL = readPixelsToArrayWebGL;
+  };
+}
+
+test('image-utils#diffImages', t => {
+  const image = createImage();
+  const expectedImage = createImage();
+
+  let result = diffImages(image, expectedImage);
+  t.deepEqual([result.success, result.match], [true, 1], 'identical images match');
+
+  // Within the default tolerance of 0.1
+  image.data[0] = 240;
+  // Beyond the tolerance
+  image.data.set([0, 0, 255, 255], 4);
+  result = diffImages(image, expectedImage, {threshold: 0.9, createDiffImage: true});
+  t.equal(result.match, 7 / 8, 'one pixel mismatches');
+  t.equal(result.matchPercentage, '87.50%', 'match percentage');
+  t.notOk(result.success, 'below threshold');
+  t.deepEqual(Array.from(result.diffImage.data.subarray(4, 8)), [255, 0, 0, 255], 'mismatch marked red');
+
+  t.ok(diffImages(image, expectedImage, {threshold: 0.9, tolerance: 1}).success, 'tolerance');
+  t.notOk(diffImages(image, expectedImage).diffImage, 'no diff image by default');
+
+  result = diffImages({width: 2, height: 2, data: new Uint8Array(16)}, expectedImage);
+  t.notOk(result.success, 'size mismatch fails');
+  t.ok(result.error, 'size mismatch error');
+  t.end();
+});
+
+test('image-utils#readPixelsAsync', async t => {
+  const framebuffer = nullDevice.createFramebuffer({
+    width: 4,
+    height: 2,
+    colorAttachments: ['rgba8unorm']
+  });
+  const image = createImage();
+  const restore = mockReadPixels(image);
+  const pixels = await readPixelsAsync(nullDevice, framebuffer);
+  restore();
+
+  t.deepEqual([pixels.width, pixels.height], [4, 2], 'size of the framebuffer');
+  t.deepEqual(pixels.data, image.data, 'top row first');
+
+  framebuffer.destroy();
+  t.end();
+});
+
+test('image-utils#readPixelsAsync WebGPU', async t => {
+  // A null device that reads back like a WebGPU device, and records the order of operations
+  const device = await NullDevice.create({id: 'webgpu-readback-device'});
+  Object.defineProperty(device, 'info', {value: {...device.info, type: 'webgpu'}});
+  const framebuffer = device.createFramebuffer({
+    width: 4,
+    height: 2,
+    colorAttachments: ['bgra8unorm']
+  });
+  const image = createImage();
+
+  const operations: string[] = [];
+  const renderPass = device.getDefaultRenderPass();
+  const {submit} = device;
+  device.submit = () => {
+    operations.push(`submit ${renderPass.drawCalls.length} draws`);
+    submit.call(device);
+  };
+  const createCommandEncoder = device.createCommandEncoder.bind(device);
+  device.createCommandEncoder = props => {
+    const commandEncoder = createCommandEncoder(props);
+    commandEncoder.copyTextureToBuffer = (options: CopyTextureToBufferOptions) => {
+      const {destination, bytesPerRow} = options;
+      t.ok(destination.usage & Buffer.COPY_SRC, 'readback buffer can be copied by readAsync()');
+      t.ok(renderPass.ended, 'render pass ended before the copy');
+      // BGRA rows padded to bytesPerRow
+      for (let y = 0; y < image.height; y++) {
+        for (let x = 0; x < image.width; x++) {
+          const [r, g, b, a] = image.data.subarray((y * image.width + x) * 4);
+          destination.write(new Uint8Array([b, g, r, a]), y * bytesPerRow + x * 4);
+        }
+      }
+      operations.push('copy');
+    };
+    commandEncoder.finish = () => operations.push('finish');
+    return commandEncoder;
+  };
+
+  // Draw, then capture
+  const model = new Model(device, {id: 'draw-then-capture', vs, fs, vertexCount: 3});
+  model.draw(renderPass);
+  const pixels = await readPixelsAsync(device, framebuffer);
+
+  t.deepEqual(
+    operations,
+    ['submit 1 draws', 'copy', 'finish'],
+    'pending draws submitted before the copy is recorded and submitted'
+  );
+  t.deepEqual(pixels.data, image.data, 'rows unpadded and channels swapped');
+
+  model.destroy();
+  device.destroy();
+  t.end();
+});
+
+test('image-utils#PNG', async t => {
+  if (isBrowser()) {
+    t.comment('PNG encoding is only supported under Node.js');
+    t.end();
+    return;
+  }
+
+  // Node.js only modules
+  const {encodePNG, decodePNG} = await import('../../src/image-utils/png');
+
+  const image = createImage();
+  const png = encodePNG(image);
+  t.deepEqual(Array.from(png.subarray(0, 8)), [137, 80, 78, 71, 13, 10, 26, 10], 'PNG signature');
+  t.deepEqual(decodePNG(png), image, 'round trip');
+  t.end();
+});
+
+test('image-utils#captureAndDiffFramebuffer', async t => {
+  if (isBrowser()) {
+    t.comment('captureAndDiffFramebuffer is only supported under Node.js');
+    t.end();
+    return;
+  }
+
+  const {decodePNG} = await import('../../src/image-utils/png');
+  const {captureAndDiffFramebuffer} = await import('../../src/image-utils/capture-and-diff');
+  const {mkdtemp, readFile, rm} = await import('fs/promises');
+  const {tmpdir} = await import('os');
+  const {join} = await import('path');
+  const directory = await mkdtemp(join(tmpdir(), 'luma-snapshot-'));
+  const goldenImage = join(directory, 'golden.png');
+  const framebuffer = nullDevice.createFramebuffer({
+    width: 4,
+    height: 2,
+    colorAttachments: ['rgba8unorm']
+  });
+
+  const image = createImage();
+  const restore = mockReadPixels(image);
+
+  let result = await captureAndDiffFramebuffer(nullDevice, {
+    goldenImage,
+    framebuffer,
+    updateGoldenImage: true
+  });
+  t.ok(result.success, 'golden image updated');
+  t.deepEqual(decodePNG(await readFile(goldenImage)), image, 'golden image written');
+
+  result = await captureAndDiffFramebuffer(nullDevice, {goldenImage, framebuffer});
+  t.deepEqual([result.success, result.match], [true, 1], 'matches the golden image');
+
+  image.data.fill(0);
+  result = await captureAndDiffFramebuffer(nullDevice, {goldenImage, framebuffer, saveOnFail: true});
+  t.deepEqual([result.success, result.match], [false, 0], 'mismatch fails');
+  t.equal(result.diffImage, join(directory, 'golden-failed-diff.png'), 'diff image path');
+  t.deepEqual(
+    decodePNG(await readFile(join(directory, 'golden-failed.png'))),
+    image,
+    'captured image saved'
+  );
+  t.ok(await readFile(result.diffImage), 'diff image saved');
+
+  result = await captureAndDiffFramebuffer(nullDevice, {
+    goldenImage: join(directory, 'missing.png'),
+    framebuffer
+  });
+  t.notOk(result.success, 'missing golden image fails');
+  t.ok(result.error, 'missing golden image error');
+
+  restore();
+  framebuffer.destroy();
+  await rm(directory, {recursive: true});
+  t.end();
+});
@@ -1 +1,2 @@
-// TBA
+import './null-device/null-device.spec';
+import './image-utils/image-utils.spec';
@@ -0,0 +1,269 @@
+// luma.gl, MIT license
+// Copyright (c) vis.gl contributors
+
+import test from 'tape-promise/tape';
+import {getNullTestDevice, NullDevice, NullRenderPass} from '@luma.gl/test-utils';
+
+import {Buffer, luma, glsl} from '@luma.gl/core';
+import type {BindingDeclaration} from '@luma.gl/core';
+import {Model} from '@luma.gl/engine';
+
+const nullDevice = getNullTestDevice();
+
+const VS_GLSL = glsl`\
+#version 300 es
+layout(location = 1) in vec2 positions;
+in vec3 instanceColors;
+
+uniform appUniforms {
+  float opacity;
+  vec3 offset;
+  mat4 modelMatrix;
+  vec2 scales[2];
+} app;
+
+out vec3 vColor;
+
+void main(void) {
+  vColor = instanceColors;
+  gl_Position = app.modelMatrix * vec4(positions + app.offset.xy, 0.0, 1.0);
+}
+`;
+
+const FS_GLSL = glsl`\
+#version 300 es
+precision highp float;
+
+uniform appUniforms {
+  float opacity;
+  vec3 offset;
+  mat4 modelMatrix;
+  vec2 scales[2];
+} app;
+uniform sampler2D colorTexture;
+uniform highp usampler2D idTexture;
+
+in vec3 vColor;
+out vec4 fragColor;
+
+void main(void) {
+  fragColor = vec4(vColor, app.opacity) * texture(colorTexture, vec2(0.5));
+}
+`;
+
+/** Finds a binding of a shader layout by name, narrowed to its binding type */
+function findBinding<T extends BindingDeclaration['type']>(
+  bindings: BindingDeclaration[],
+  name: string,
+  type: T
+): Extract<BindingDeclaration, {type: T}> | undefined {
+  return bindings.find(
+    (binding): binding is Extract<BindingDeclaration, {type: T}> =>
+      binding.name === name && binding.type === type
+  );
+}
+
+test('NullDevice#luma.createDevice', async t => {
+  const device = await luma.createDevice({type: 'null'});
+  t.ok(device instanceof NullDevice, 'NullDevice created');
+  t.equal(device.info.type, 'null', 'info.type is null');
+  t.equal(device.info.shadingLanguage, 'glsl', 'info.shadingLanguage is glsl');
+  t.ok(device.limits.maxVertexAttributes > 0, 'limits populated');
+  t.notOk(device.isLost, 'device not lost');
+  device.destroy();
+  t.ok(device.isLost, 'device lost after destroy()');
+  t.end();
+});
+
+test('NullDevice#getNullTestDevice', t => {
+  t.ok(nullDevice instanceof NullDevice, 'NullDevice created');
+  t.equal(getNullTestDevice(), nullDevice, 'test device shared between calls');
+  t.end();
+});
+
+test('NullDevice#Buffer write and readAsync', async t => {
+  const buffer = nullDevice.createBuffer({usage: Buffer.VERTEX, byteLength: 16});
+  t.equal(buffer.byteLength, 16, 'byteLength set');
+
+  buffer.write(new Float32Array([1, 2]), 8);
+  let bytes = await buffer.readAsync();
+  t.deepEqual(Array.from(new Float32Array(bytes.buffer)), [0, 0, 1, 2], 'write at offset');
+
+  bytes = await buffer.readAsync(8, 4);
+  t.deepEqual(Array.from(new Float32Array(bytes.buffer)), [1], 'partial read');
+
+  const indexBuffer = nullDevice.createBuffer({usage: Buffer.INDEX, data: new Uint32Array([0, 1, 2])});
+  t.equal(indexBuffer.byteLength, 12, 'byteLength deduced from data');
+  t.equal(indexBuffer.indexType, 'uint32', 'indexType deduced from data');
+
+  t.throws(() => buffer.write(new Float32Array(8)), 'out of range write throws');
+
+  buffer.destroy();
+  indexBuffer.destroy();
+  t.end();
+});
+
+test('NullDevice#Texture and Framebuffer', t => {
+  const texture = nullDevice.createTexture({width: 4, height: 2, format: 'rgba32float'});
+  t.equal(texture.width, 4, 'width recorded');
+  t.equal(texture.height, 2, 'height recorded');
+  t.equal(texture.format, 'rgba32float', 'format recorded');
+  t.ok(texture.sampler, 'default sampler created');
+
+  const framebuffer = nullDevice.createFramebuffer({
+    width: 8,
+    height: 8,
+    colorAttachments: ['rgba8unorm'],
+    depthStencilAttachment: 'depth16unorm'
+  });
+  t.equal(framebuffer.colorAttachments[0].width, 8, 'color attachment created');
+  t.equal(framebuffer.depthStencilAttachment.format, 'depth16unorm', 'depth attachment created');
+
+  framebuffer.resize({width: 16, height: 4});
+  t.equal(framebuffer.colorAttachments[0].width, 16, 'color attachment resized');
+
+  const {sampler} = texture;
+  texture.destroy();
+  t.ok(sampler.destroyed, 'default sampler destroyed with the texture');
+
+  const sharedSampler = nullDevice.createSampler({});
+  const textureA = nullDevice.createTexture({sampler: sharedSampler});
+  const textureB = nullDevice.createTexture({sampler: sharedSampler});
+  textureA.destroy();
+  t.notOk(sharedSampler.destroyed, 'sampler passed in not destroyed with the texture');
+  t.equal(textureB.sampler, sharedSampler, 'sampler shared');
+  textureB.destroy();
+  sharedSampler.destroy();
+
+  framebuffer.destroy();
+  t.end();
+});
+
+test('NullDevice#RenderPipeline shader layout', t => {
+  const pipeline = nullDevice.createRenderPipeline({
+    vs: nullDevice.createShader({stage: 'vertex', source: VS_GLSL}),
+    fs: nullDevice.createShader({stage: 'fragment', source: FS_GLSL})
+  });
+  const {attributes, bindings} = pipeline.shaderLayout;
+
+  t.deepEqual(
+    attributes,
+    [
+      {name: 'instanceColors', location: 0, type: 'vec3<f32>', stepMode: 'instance'},
+      {name: 'positions', location: 1, type: 'vec2<f32>', stepMode: 'vertex'}
+    ],
+    'attributes reflected'
+  );
+
+  const uniformBlock = findBinding(bindings, 'appUniforms', 'uniform');
+  t.equal(uniformBlock?.visibility, 0x3, 'uniform block visible in both stages');
+  t.deepEqual(
+    uniformBlock?.uniforms?.map(uniform => [uniform.name, uniform.byteOffset]),
+    [['opacity', 0], ['offset', 16], ['modelMatrix', 32], ['scales', 96]],
+    'std140 offsets reflected'
+  );
+  t.equal(uniformBlock?.minBindingSize, 128, 'uniform block size reflected');
+
+  t.deepEqual(
+    bindings.filter(binding => binding.type === 'texture').map(binding => binding.location),
+    [0, 1],
+    'texture units assigned'
+  );
+  t.equal(findBinding(bindings, 'idTexture', 'texture')?.sampleType, 'uint', 'sampleType reflected');
+
+  pipeline.destroy();
+  t.end();
+});
+
+test('NullDevice#RenderPipeline shader layout struct members', t => {
+  const vs = glsl`\
+#version 300 es
+#define MAX_LIGHTS 2
+
+struct Light {
+  vec3 color;
+  float range;
+  vec2 coneCos;
+};
+
+uniform lightingUniforms {
+  int enabled;
+  Light lights[MAX_LIGHTS];
+  float intensity;
+} lighting;
+
+void main(void) {
+  gl_Position = vec4(lighting.lights[0].color * lighting.intensity, 1.0);
+}
+`;
+  const pipeline = nullDevice.createRenderPipeline({
+    vs: nullDevice.createShader({stage: 'vertex', source: vs})
+  });
+  const uniformBlock = findBinding(pipeline.shaderLayout.bindings, 'lightingUniforms', 'uniform');
+
+  t.deepEqual(
+    uniformBlock?.uniforms?.map(uniform => [uniform.name, uniform.byteOffset]),
+    [
+      ['enabled', 0],
+      ['lights[0].color', 16],
+      ['lights[0].range', 28],
+      ['lights[0].coneCos', 32],
+      ['lights[1].color', 48],
+      ['lights[1].range', 60],
+      ['lights[1].coneCos', 64],
+      ['intensity', 80]
+    ],
+    'struct members flattened with std140 offsets'
+  );
+  t.equal(uniformBlock?.minBindingSize, 96, 'uniform block size includes struct members');
+
+  pipeline.destroy();
+  t.end();
+});
+
+test('NullDevice#recordRenderPasses', t => {
+  const device = new NullDevice({id: 'record-render-passes'});
+  device.beginRenderPass().end();
+
+  const renderPasses = device.recordRenderPasses();
+  const renderPass = device.beginRenderPass({id: 'recorded'});
+  renderPass.end();
+  const defaultRenderPass = device.getDefaultRenderPass();
+  device.submit();
+  device.stopRecordingRenderPasses();
+  device.beginRenderPass().end();
+
+  t.deepEqual(renderPasses, [renderPass, defaultRenderPass], 'render passes recorded until stopped');
+
+  device.destroy();
+  t.end();
+});
+
+test('NullDevice#Model draw is recorded', t => {
+  const model = new Model(nullDevice, {
+    id: 'null-device-model',
+    vs: VS_GLSL,
+    fs: FS_GLSL,
+    vertexCount: 3,
+    instanceCount: 2,
+    bindings: {colorTexture: nullDevice.createTexture({width: 1, height: 1})}
+  });
+
+  const renderPass = nullDevice.beginRenderPass({parameters: {viewport: [0, 0, 1, 1]}});
+  model.draw(renderPass);
+  renderPass.end();
+
+  t.ok(renderPass instanceof NullRenderPass, 'NullRenderPass created');
+  t.equal(renderPass.drawCalls.length, 1, 'draw call recorded');
+  const [drawCall] = renderPass.drawCalls;
+  t.equal(drawCall.vertexCount, 3, 'vertexCount recorded');
+  t.equal(drawCall.instanceCount, 2, 'instanceCount recorded');
+  t.equal(drawCall.pipeline, model.pipeline, 'pipeline recorded');
+  t.ok(drawCall.bindings.colorTexture, 'bindings recorded');
+  t.deepEqual(drawCall.parameters.viewport, [0, 0, 1, 1], 'parameters recorded');
+
+  t.throws(() => model.draw(renderPass), 'draw after end() throws');
+
+  model.destroy();
+  t.end();
+});
@@ -98,9 +98,9 @@ function convertMaxFilterMode(maxFilter: 'nearest' | 'linear'): GL.NEAREST | GL.
  */
 function convertMinFilterMode(
   minFilter: 'nearest' | 'linear',
-  mipmapFilter?: 'nearest' | 'linear'
+  mipmapFilter?: 'none' | 'nearest' | 'linear'
 ): GL.NEAREST | GL.LINEAR | GL.NEAREST_MIPMAP_NEAREST | GL.LINEAR_MIPMAP_NEAREST | GL.NEAREST_MIPMAP_LINEAR | GL.LINEAR_MIPMAP_LINEAR {
-  if (!mipmapFilter) {
+  if (!mipmapFilter || mipmapFilter === 'none') {
     return convertMaxFilterMode(minFilter);
   }
   switch (minFilter) {
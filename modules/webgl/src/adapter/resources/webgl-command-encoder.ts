@@ -34,25 +34,36 @@ export class WEBGLCommandEncoder extends CommandEncoder {
   // finish(options?: {id?: string}): GPUCommandBuffer;
 
   copyBufferToBuffer(options: CopyBufferToBufferOptions): void {
+    this.commandList?.recordCopy('copy-buffer-to-buffer', options);
     this.commandBuffer.commands.push({name: 'copy-buffer-to-buffer', options});
   }
 
   copyBufferToTexture(options: CopyBufferToTextureOptions) {
+    this.commandList?.recordCopy('copy-buffer-to-texture', options);
     this.commandBuffer.commands.push({name: 'copy-buffer-to-texture', options});
   }
 
   copyTextureToBuffer(options: CopyTextureToBufferOptions): void {
+    this.commandList?.recordCopy('copy-texture-to-buffer', options);
     this.commandBuffer.commands.push({name: 'copy-texture-to-buffer', options});
   }
 
   copyTextureToTexture(options: CopyTextureToTextureOptions): void {
+    this.commandList?.recordCopy('copy-texture-to-texture', options);
     this.commandBuffer.commands.push({name: 'copy-texture-to-texture', options});
   }
 
-  override pushDebugGroup(groupLabel: string): void {}
-  override popDebugGroup() {}
+  override pushDebugGroup(groupLabel: string): void {
+    this.commandList?.recordPushDebugGroup(groupLabel);
+  }
+
+  override popDebugGroup() {
+    this.commandList?.recordPopDebugGroup();
+  }
 
-  override insertDebugMarker(markerLabel: string): void {}
+  override insertDebugMarker(markerLabel: string): void {
+    this.commandList?.recordInsertDebugMarker(markerLabel);
+  }
 
   // writeTimestamp(querySet: Query, queryIndex: number): void {}
 
@@ -41,9 +41,15 @@ export class WEBGLRenderPass extends RenderPass {
     // should add commands to CommandEncoder.
   }
 
-  pushDebugGroup(groupLabel: string): void {}
-  popDebugGroup(): void {}
-  insertDebugMarker(markerLabel: string): void {}
+  pushDebugGroup(groupLabel: string): void {
+    this.commandList?.recordPushDebugGroup(groupLabel);
+  }
+  popDebugGroup(): void {
+    this.commandList?.recordPopDebugGroup();
+  }
+  insertDebugMarker(markerLabel: string): void {
+    this.commandList?.recordInsertDebugMarker(markerLabel);
+  }
 
   // writeTimestamp(querySet: GPUQuerySet, queryIndex: number): void;
 
@@ -56,6 +62,8 @@ export class WEBGLRenderPass extends RenderPass {
    * Maps RenderPass parameters to GL parameters
    */
   setParameters(parameters: RenderPassParameters = {}): void {
+    this.commandList?.recordSetParameters(parameters);
+
     const glParameters: GLParameters = {};
 
     // Framebuffers are specified using parameters in WebGL
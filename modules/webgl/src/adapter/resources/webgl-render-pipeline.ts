@@ -82,6 +82,7 @@ export class WEBGLRenderPipeline extends RenderPipeline {
 
   override destroy(): void {
     if (this.handle) {
+      this.removeStats();
       this.device.gl.deleteProgram(this.handle);
       // this.handle = null;
       this.destroyed = true;
@@ -229,6 +230,20 @@ export class WEBGLRenderPipeline extends RenderPipeline {
       return false;
     }
 
+    renderPass.commandList?.recordDraw({
+      pipeline: this,
+      bindings: this.bindings,
+      uniforms: this.uniforms,
+      vertexArray,
+      vertexCount,
+      indexCount: options.indexCount,
+      instanceCount,
+      firstVertex,
+      firstIndex: options.firstIndex,
+      firstInstance: options.firstInstance,
+      baseVertex: options.baseVertex
+    });
+
     this.device.gl.useProgram(this.handle);
 
     // Note: Rebinds constant attributes before each draw call
@@ -41,7 +41,10 @@ export function getShaderLayoutBinding(
   shaderLayout: ShaderLayout,
   bindingName: string
 ): BindingDeclaration {
-  const bindingLayout = shaderLayout.bindings.find(binding => binding.name === bindingName);
+  // Shader module uniform structs are declared as `xyz` in WGSL but bound as `xyzUniforms`
+  const bindingLayout =
+    shaderLayout.bindings.find(binding => binding.name === bindingName) ||
+    shaderLayout.bindings.find(binding => `${binding.name}Uniforms` === bindingName);
   if (!bindingLayout) {
     log.warn(`Binding ${bindingName} not set: Not found in shader layout.`)();
   }
@@ -22,8 +22,9 @@ export class WebGPUCommandEncoder extends CommandEncoder {
 
   override destroy(): void {}
 
-  finish(options?: {id?: string}): GPUCommandBuffer {
-    return this.finish(options);
+  /** Finishes encoding and submits the recorded commands to the device queue */
+  finish(): void {
+    this.device.handle.queue.submit([this.handle.finish()]);
   }
 
   // beginRenderPass(GPURenderPassDescriptor descriptor): GPURenderPassEncoder;
@@ -37,6 +38,7 @@ export class WebGPUCommandEncoder extends CommandEncoder {
     destinationOffset?: number;
     size?: number;
   }): void {
+    this.commandList?.recordCopy('copy-buffer-to-buffer', options);
     const webgpuSourceBuffer = options.source as WebGPUBuffer;
     const WebGPUDestinationBuffer = options.destination as WebGPUBuffer;
     this.handle.copyBufferToBuffer(
@@ -62,6 +64,7 @@ export class WebGPUCommandEncoder extends CommandEncoder {
     origin?: number[] | [number, number, number];
     extent?: number[] | [number, number, number];
   }): void {
+    this.commandList?.recordCopy('copy-buffer-to-texture', options);
     const webgpuSourceBuffer = options.source as WebGPUBuffer;
     const WebGPUDestinationTexture = options.destination as WebGPUTexture;
     this.handle.copyBufferToTexture(
@@ -87,17 +90,42 @@ export class WebGPUCommandEncoder extends CommandEncoder {
   }
 
   copyTextureToBuffer(options: CopyTextureToBufferOptions): void {
-    // this.handle.copyTextureToBuffer(
-    //   // source
-    //   {},
-    //   // destination
-    //   {},
-    //   // copySize
-    //   {}
-    // );
+    this.commandList?.recordCopy('copy-texture-to-buffer', options);
+    const {
+      source,
+      mipLevel = 0,
+      aspect = 'all',
+      width = source.width,
+      height = source.height,
+      depthOrArrayLayers = 1,
+      origin = [0, 0, 0],
+      destination,
+      byteOffset = 0,
+      bytesPerRow,
+      rowsPerImage
+    } = options;
+    const webgpuSourceTexture = source as WebGPUTexture;
+    const webgpuDestinationBuffer = destination as WebGPUBuffer;
+    this.handle.copyTextureToBuffer(
+      {
+        texture: webgpuSourceTexture.handle,
+        mipLevel,
+        aspect,
+        origin
+      },
+      {
+        buffer: webgpuDestinationBuffer.handle,
+        offset: byteOffset,
+        // Must be a multiple of 256 in WebGPU
+        bytesPerRow,
+        rowsPerImage
+      },
+      {width, height, depthOrArrayLayers}
+    );
   }
 
   copyTextureToTexture(options: CopyTextureToTextureOptions): void {
+    this.commandList?.recordCopy('copy-texture-to-texture', options);
     // this.handle.copyTextureToTexture(
     //   // source
     //   {},
@@ -109,14 +137,17 @@ export class WebGPUCommandEncoder extends CommandEncoder {
   }
 
   override pushDebugGroup(groupLabel: string): void {
+    this.commandList?.recordPushDebugGroup(groupLabel);
     this.handle.pushDebugGroup(groupLabel);
   }
 
   override popDebugGroup(): void {
+    this.commandList?.recordPopDebugGroup();
     this.handle.popDebugGroup();
   }
 
   override insertDebugMarker(markerLabel: string): void {
+    this.commandList?.recordInsertDebugMarker(markerLabel);
     this.handle.insertDebugMarker(markerLabel);
   }
 
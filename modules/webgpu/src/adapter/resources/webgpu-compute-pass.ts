@@ -1,5 +1,6 @@
 import {ComputePass, ComputePassProps, ComputePipeline, Buffer, Binding} from '@luma.gl/core';
 import {WebGPUDevice} from '../webgpu-device';
+import {getBindGroup} from '../helpers/get-bind-group';
 import {WebGPUBuffer} from './webgpu-buffer';
 // import {WebGPUCommandEncoder} from './webgpu-command-encoder';
 import {WebGPUComputePipeline} from './webgpu-compute-pipeline';
@@ -8,6 +9,7 @@ export class WebGPUComputePass extends ComputePass {
   readonly device: WebGPUDevice;
   readonly handle: GPUComputePassEncoder;
   _bindGroupLayout: GPUBindGroupLayout | null = null;
+  _pipeline: WebGPUComputePipeline | null = null;
 
   constructor(device: WebGPUDevice, props: ComputePassProps) {
     super(device, props);
@@ -29,14 +31,22 @@ export class WebGPUComputePass extends ComputePass {
   setPipeline(pipeline: ComputePipeline): void {
     const wgpuPipeline = pipeline as WebGPUComputePipeline;
     this.handle.setPipeline(wgpuPipeline.handle);
+    this._pipeline = wgpuPipeline;
     this._bindGroupLayout = wgpuPipeline._getBindGroupLayout();
   }
 
-  /** Sets an array of bindings (uniform buffers, samplers, textures, ...) */
-  setBindings(bindings: Binding[]): void {
-    throw new Error('fix me');
-    // const bindGroup = getBindGroup(this.device.handle, this._bindGroupLayout, this.props.bindings);
-    // this.handle.setBindGroup(0, bindGroup);
+  /** Sets bindings (uniform and storage buffers, samplers, textures, ...) for the current pipeline */
+  setBindings(bindings: Record<string, Binding>): void {
+    if (!this._pipeline?.shaderLayout) {
+      throw new Error(`ComputePass ${this.id}: setBindings() requires a pipeline with a shader layout`);
+    }
+    const bindGroup = getBindGroup(
+      this.device.handle,
+      this._bindGroupLayout,
+      this._pipeline.shaderLayout,
+      bindings
+    );
+    this.handle.setBindGroup(0, bindGroup);
   }
 
   /**
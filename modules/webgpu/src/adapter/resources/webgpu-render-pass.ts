@@ -91,6 +91,7 @@ export class WebGPURenderPass extends RenderPass {
   }
 
   setParameters(parameters: RenderPassParameters): void {
+    this.commandList?.recordSetParameters(parameters);
     const {blendConstant, stencilReference, scissorRect, viewport} = parameters;
     if (blendConstant) {
       this.handle.setBlendConstant(blendConstant);
@@ -115,12 +116,15 @@ export class WebGPURenderPass extends RenderPass {
   }
 
   pushDebugGroup(groupLabel: string): void {
+    this.commandList?.recordPushDebugGroup(groupLabel);
     this.handle.pushDebugGroup(groupLabel);
   }
   popDebugGroup(): void {
+    this.commandList?.recordPopDebugGroup();
     this.handle.popDebugGroup();
   }
   insertDebugMarker(markerLabel: string): void {
+    this.commandList?.recordInsertDebugMarker(markerLabel);
     this.handle.insertDebugMarker(markerLabel);
   }
 
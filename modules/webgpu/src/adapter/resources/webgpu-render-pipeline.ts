@@ -1,6 +1,6 @@
 // luma.gl MIT license
 
-import type {TypedArray, Binding, UniformValue, RenderPass} from '@luma.gl/core';
+import type {TypedArray, Binding, UniformValue, RenderPass, VertexArray} from '@luma.gl/core';
 import {Buffer, RenderPipeline, RenderPipelineProps, cast, log, isObjectEmpty} from '@luma.gl/core';
 import {applyParametersToRenderPipelineDescriptor} from '../helpers/webgpu-parameters';
 import {getWebGPUTextureFormat} from '../helpers/convert-texture-format';
@@ -172,6 +172,7 @@ export class WebGPURenderPipeline extends RenderPipeline {
 
   draw(options: {
     renderPass?: RenderPass;
+    vertexArray?: VertexArray;
     vertexCount?: number;
     indexCount?: number;
     instanceCount?: number;
@@ -183,6 +184,14 @@ export class WebGPURenderPipeline extends RenderPipeline {
     const webgpuRenderPass: WebGPURenderPass =
       cast<WebGPURenderPass>(options.renderPass) || this.device.getDefaultRenderPass();
 
+    const {renderPass, ...drawOptions} = options;
+    webgpuRenderPass.commandList?.recordDraw({
+      pipeline: this,
+      bindings: this.props.bindings,
+      uniforms: this.props.uniforms,
+      ...drawOptions
+    });
+
     // Set pipeline
     webgpuRenderPass.handle.setPipeline(this.handle);
 
@@ -21,8 +21,12 @@ export class WebGPUSampler extends Sampler {
     if (samplerProps.type !== 'comparison-sampler') {
       delete samplerProps.compare;
     }
+    // WebGPU has no 'none' mipmap filter, textures without mipmaps only have a base level
+    if (samplerProps.mipmapFilter === 'none') {
+      delete samplerProps.mipmapFilter;
+    }
 
-    this.handle = this.handle || this.device.handle.createSampler(samplerProps);
+    this.handle = this.handle || this.device.handle.createSampler(samplerProps as GPUSamplerDescriptor);
     this.handle.label = this.props.id;
   }
 
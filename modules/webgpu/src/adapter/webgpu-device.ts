@@ -19,7 +19,7 @@ import type {
   ComputePipelineProps,
   RenderPassProps,
   ComputePassProps,
-  // CommandEncoderProps,
+  CommandEncoderProps,
   VertexArrayProps,
   TransformFeedback,
   TransformFeedbackProps
@@ -35,7 +35,7 @@ import {WebGPUFramebuffer} from './resources/webgpu-framebuffer';
 import {WebGPUComputePipeline} from './resources/webgpu-compute-pipeline';
 import {WebGPURenderPass} from './resources/webgpu-render-pass';
 import {WebGPUComputePass} from './resources/webgpu-compute-pass';
-// import {WebGPUCommandEncoder} from './resources/webgpu-command-encoder';
+import {WebGPUCommandEncoder} from './resources/webgpu-command-encoder';
 import {WebGPUVertexArray} from './resources/webgpu-vertex-array';
 
 import {WebGPUCanvasContext} from './webgpu-canvas-context';
@@ -239,9 +239,13 @@ export class WebGPUDevice extends Device {
     return new WebGPUComputePass(this, props);
   }
 
-  // createCommandEncoder(props: CommandEncoderProps): WebGPUCommandEncoder {
-  //   return new WebGPUCommandEncoder(this, props);
-  // }
+  /**
+   * Creates a command encoder with its own GPU command encoder.
+   * Call `submit()` first if the commands depend on render or compute passes that have not been submitted.
+   */
+  override createCommandEncoder(props: CommandEncoderProps = {}): WebGPUCommandEncoder {
+    return new WebGPUCommandEncoder(this, props);
+  }
 
   createTransformFeedback(props: TransformFeedbackProps): TransformFeedback {
     throw new Error('Transform feedback not supported in WebGPU');
@@ -18,6 +18,9 @@ import '@luma.gl/webgl/test';
 // WEBGPU ADAPTER TESTS
 import '@luma.gl/webgpu/test';
 
+// NULL DEVICE TESTS
+import '@luma.gl/test-utils/test';
+
 // CROSS-DEVICE TESTS
 import '@luma.gl/engine/test';
 import '@luma.gl/gltf/test';